@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   FileText,
   Package,
@@ -14,22 +14,90 @@ import {
   Save,
   History,
   BarChart3,
-  Loader2
+  Loader2,
+  BookOpen,
+  FileSpreadsheet,
+  Boxes,
+  ShoppingCart,
+  Truck,
+  FileSignature,
+  ClipboardList,
+  Repeat,
+  Barcode,
+  ShieldAlert,
+  ScrollText
 } from 'lucide-react';
 import { InvoiceGenerator } from './components/InvoiceGenerator';
 import { InvoiceHistory } from './components/InvoiceHistory';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { CustomerLedger } from './components/CustomerLedger';
+import { GstReports } from './components/GstReports';
+import { SyncStatus } from './components/SyncStatus';
+import { Inventory } from './components/Inventory';
+import { Purchases } from './components/Purchases';
+import { Suppliers } from './components/Suppliers';
+import { Quotations } from './components/Quotations';
+import { SalesOrders } from './components/SalesOrders';
+import { RecurringInvoices } from './components/RecurringInvoices';
+import { BarcodeLabels } from './components/BarcodeLabels';
+import { BusinessSwitcher } from './components/BusinessSwitcher';
+import { StaffAccounts } from './components/StaffAccounts';
+import { AuditLog } from './components/AuditLog';
+import { buildCustomerLedger, formatBalance } from './utils/ledger';
+import { peekNextInvoiceNumber, advanceInvoiceCounter, DEFAULT_INVOICE_NUMBER_FORMAT, getEditableInvoiceCounter, validateInvoiceNumberFormat, restartsEachYear, getFinancialYear, invoiceDocId, DuplicateBillNumberError } from './utils/numbering';
+import { stateCodeFromGstin, getStateName, calculateInvoiceTotals, getGstTreatment, roundMoney } from './utils/gst';
+import { getStockChanges, getReturnedQuantities, buildStockEntries, isStockTracked, isLowStock } from './utils/stock';
+import { mergeChallanItems } from './utils/salesOrders';
+import { getNextRunDate, isRunDue } from './utils/recurring';
+import { getPriceListLabel, parseQuantitySlabs, formatQuantitySlabs, describePricing } from './utils/pricing';
+import { findProductByCode } from './utils/barcode';
+import { getUpiIdError } from './utils/upi';
+import { canOpenTab, hasRole, ROLE_LABELS } from './utils/permissions';
+import { DEFAULT_BUSINESS_ID, businessPath, loadActiveBusinessId, saveActiveBusinessId, withDefaultBusiness } from './utils/business';
+import { diffFields, diffInvoice } from './utils/audit';
+import { PAYMENT_MODE_LABELS, getOutstanding } from './utils/payments';
+import { OutstandingChangedError } from './utils/reconciliation';
+import {
+  PendingInvoice,
+  SyncConflict,
+  loadPendingInvoices,
+  savePendingInvoices,
+  loadSyncConflicts,
+  saveSyncConflicts,
+  peekOfflineInvoiceNumber,
+  isOfflineError
+} from './utils/offlineQueue';
 import {
   Product,
   Customer,
   BusinessSettings,
   AppTab,
-  Invoice
+  Invoice,
+  CreditNote,
+  Payment,
+  EInvoiceDetails,
+  SaveInvoiceResult,
+  StockEntry,
+  Supplier,
+  Purchase,
+  Quotation,
+  QuotationStatus,
+  SalesOrder,
+  SalesOrderStatus,
+  DeliveryChallan,
+  InvoiceItem,
+  RecurringInvoice,
+  InvoiceDraft,
+  PriceList,
+  StaffMember,
+  UserRole,
+  Business,
+  AuditEntry
 } from './types';
-import { DEFAULT_BUSINESS_SETTINGS } from './constants';
+import { DEFAULT_BUSINESS_SETTINGS, GST_RATES, INDIAN_STATES, INVOICE_LAYOUTS, PRICE_LISTS } from './constants';
 
 // Firebase Imports
-import { db, auth } from './firebase';
+import { db, auth, createStaffLogin } from './firebase';
 import {
   collection,
   doc,
@@ -40,9 +108,42 @@ import {
   deleteDoc,
   onSnapshot,
   query,
-  orderBy
+  orderBy,
+  writeBatch,
+  runTransaction,
+  increment,
+  deleteField
 } from 'firebase/firestore';
 import { signInWithEmailAndPassword, onAuthStateChanged, signOut, User } from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+
+// Written with the first owner's staff record; the security rules only let a login make
+// itself owner while this does not exist
+const OWNER_MARKER_REF = doc(db, 'meta', 'staff');
+
+// The first login of a shop without an owner becomes its owner (the original single account)
+const claimFirstOwner = async (user: User) => {
+  try {
+    const markerSnap = await getDoc(OWNER_MARKER_REF);
+    if (markerSnap.exists()) return;
+    const createdAt = new Date().toISOString();
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'staff', user.uid), {
+      email: user.email || '',
+      name: '',
+      role: 'owner',
+      createdAt
+    } as Omit<StaffMember, 'id'>);
+    batch.set(OWNER_MARKER_REF, { ownerUid: user.uid, createdAt });
+    await batch.commit();
+  } catch (e) {
+    console.error("Error setting up the first owner: ", e);
+  }
+};
+
+// updateDoc skips undefined values, so fields cleared in a form have to be deleted explicitly
+const withDeletedFields = (values: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(values).map(([field, value]) => [field, value === undefined ? deleteField() : value]));
 
 const App: React.FC = () => {
   // --- Auth State ---
@@ -52,6 +153,15 @@ const App: React.FC = () => {
   const [password, setPassword] = useState('');
   const [loginError, setLoginError] = useState('');
 
+  // --- Business State ---
+  const [activeBusinessId, setActiveBusinessId] = useState<string>(loadActiveBusinessId);
+  const [businessRegistry, setBusinessRegistry] = useState<Business[]>([]);
+  const [analyticsAllBusinesses, setAnalyticsAllBusinesses] = useState(false);
+  // Sales data of every business for combined analytics, keyed "businessId/collection"
+  const [combinedData, setCombinedData] = useState<Record<string, unknown[]>>({});
+  // Every Firestore collection except staff and the registry belongs to the open business
+  const scoped = (collectionName: string) => businessPath(activeBusinessId, collectionName);
+
   // --- Data State ---
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.CREATE_BILL);
   const [dataLoading, setDataLoading] = useState(false);
@@ -60,27 +170,73 @@ const App: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [stockEntries, setStockEntries] = useState<StockEntry[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const [challans, setChallans] = useState<DeliveryChallan[]>([]);
+  const [recurringInvoices, setRecurringInvoices] = useState<RecurringInvoice[]>([]);
+  const [invoiceDrafts, setInvoiceDrafts] = useState<InvoiceDraft[]>([]);
+  const [recurringLoaded, setRecurringLoaded] = useState(false);
   const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [staffRecord, setStaffRecord] = useState<StaffMember | null>(null); // This login's own record
+  const [staff, setStaff] = useState<StaffMember[]>([]); // Everyone; only loaded for owners
+  const role: UserRole | null = (user && staffRecord?.id === user.uid && staffRecord.role) || null;
+  // The security rules refuse every read to a login without a staff record
+  const hasAccess = role !== null;
+  const [staffLoaded, setStaffLoaded] = useState(false);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [showAuditLog, setShowAuditLog] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Saved invoice currently reopened in the generator for amendment
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  // Recurring draft currently opened in the generator; saving it replaces the draft with a bill
+  const [openDraft, setOpenDraft] = useState<InvoiceDraft | null>(null);
+  const recurringRunRef = useRef(false); // Due profiles are run once per session
+
+  // --- Offline Queue State ---
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingInvoices, setPendingInvoices] = useState<PendingInvoice[]>(() => loadPendingInvoices(activeBusinessId));
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(() => loadSyncConflicts(activeBusinessId));
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isSyncingRef = useRef(false);
 
   // --- Product Edit State ---
   const [prodForm, setProdForm] = useState({
     name: '',
     packing: '',
     rate: '',
-    unit: 'Kg'
+    unit: 'Kg',
+    hsnCode: '',
+    barcode: '',
+    gstRate: '', // Empty means "use the default GST rate"
+    reorderLevel: '',
+    priceListRates: {} as Partial<Record<PriceList, string>>, // Empty means "use the retail rate"
+    quantitySlabs: '' // e.g. "50:95, 100:90"
   });
   const [editingProductId, setEditingProductId] = useState<string | null>(null);
   const productFormRef = useRef<HTMLDivElement>(null);
+  const [showBarcodeLabels, setShowBarcodeLabels] = useState(false);
 
   // --- Customer Edit State ---
   const [custForm, setCustForm] = useState({
     name: '',
     city: '',
-    phone: ''
+    phone: '',
+    openingBalance: '',
+    gstin: '',
+    stateCode: '',
+    address: '',
+    pincode: '',
+    priceList: '' as PriceList | ''
   });
   const [editingCustomerId, setEditingCustomerId] = useState<string | null>(null);
   const customerFormRef = useRef<HTMLDivElement>(null);
+  // Customer whose ledger is open under the Customers tab
+  const [ledgerCustomerId, setLedgerCustomerId] = useState<string | null>(null);
 
 
 
@@ -91,6 +247,8 @@ const App: React.FC = () => {
   const [isSavingLogo, setIsSavingLogo] = useState(false);
   const [pendingLogoWidth, setPendingLogoWidth] = useState<number | null>(null);
   const [isSavingSize, setIsSavingSize] = useState(false);
+  // Bill number format as typed; only saved once it is a usable format
+  const [numberFormatDraft, setNumberFormatDraft] = useState<string | null>(null);
 
   // --- Authentication Listener ---
   useEffect(() => {
@@ -103,51 +261,217 @@ const App: React.FC = () => {
 
   // --- Firestore Listeners (Real-time Data) ---
   useEffect(() => {
-    if (!user) return;
+    if (!user || !hasAccess) return;
 
     setDataLoading(true);
+    setRecurringLoaded(false);
+    recurringRunRef.current = false;
 
     // 1. Settings Listener
-    const settingsRef = doc(db, 'settings', 'general'); // Single doc for business settings
+    const settingsRef = doc(db, scoped('settings'), 'general'); // Single doc for business settings
     const unsubSettings = onSnapshot(settingsRef, (docSnap) => {
+      const fromCache = docSnap.metadata.fromCache;
       if (docSnap.exists()) {
         setSettings({ ...DEFAULT_BUSINESS_SETTINGS, ...docSnap.data() } as BusinessSettings);
-      } else {
-        // Initialize if doesn't exist
+      } else if (!fromCache && hasRole(role, 'owner')) {
+        // Initialize if doesn't exist (an empty offline cache doesn't mean the server has no settings).
+        // Only the owner may, as the settings doc holds bank details and numbering
         setDoc(settingsRef, DEFAULT_BUSINESS_SETTINGS);
       }
     });
 
     // 2. Products Listener
-    const productsQuery = query(collection(db, 'products'), orderBy('name'));
+    const productsQuery = query(collection(db, scoped('products')), orderBy('name'));
     const unsubProducts = onSnapshot(productsQuery, (snapshot) => {
       const prods = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Product));
       setProducts(prods);
     });
 
     // 3. Customers Listener
-    const customersQuery = query(collection(db, 'customers'), orderBy('name'));
+    const customersQuery = query(collection(db, scoped('customers')), orderBy('name'));
     const unsubCustomers = onSnapshot(customersQuery, (snapshot) => {
       const custs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer));
       setCustomers(custs);
     });
 
     // 4. Invoices Listener
-    const invoicesQuery = query(collection(db, 'invoices'), orderBy('id', 'desc')); // Assuming ID is roughly chronological or numeric
+    const invoicesQuery = query(collection(db, scoped('invoices')), orderBy('id', 'desc')); // Assuming ID is roughly chronological or numeric
     const unsubInvoices = onSnapshot(invoicesQuery, (snapshot) => {
       const invs = snapshot.docs.map(doc => ({ ...doc.data() } as Invoice)); // ID is part of data for Invoice
       setInvoices(invs);
       setDataLoading(false);
     });
 
+    // 5. Credit Notes Listener
+    const creditNotesQuery = query(collection(db, scoped('creditNotes')), orderBy('id', 'desc'));
+    const unsubCreditNotes = onSnapshot(creditNotesQuery, (snapshot) => {
+      const notes = snapshot.docs.map(doc => ({ ...doc.data() } as CreditNote));
+      setCreditNotes(notes);
+    });
+
+    // 6. Payments Listener
+    const paymentsQuery = query(collection(db, scoped('payments')), orderBy('createdAt', 'desc'));
+    const unsubPayments = onSnapshot(paymentsQuery, (snapshot) => {
+      const pays = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Payment));
+      setPayments(pays);
+    });
+
+    // 7. Stock Entries Listener
+    const stockQuery = query(collection(db, scoped('stockEntries')), orderBy('createdAt', 'desc'));
+    const unsubStock = onSnapshot(stockQuery, (snapshot) => {
+      const entries = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StockEntry));
+      setStockEntries(entries);
+    });
+
+    // 8. Suppliers Listener
+    const suppliersQuery = query(collection(db, scoped('suppliers')), orderBy('name'));
+    const unsubSuppliers = onSnapshot(suppliersQuery, (snapshot) => {
+      const sups = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Supplier));
+      setSuppliers(sups);
+    });
+
+    // 9. Purchases Listener
+    const purchasesQuery = query(collection(db, scoped('purchases')), orderBy('createdAt', 'desc'));
+    const unsubPurchases = onSnapshot(purchasesQuery, (snapshot) => {
+      const purs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Purchase));
+      setPurchases(purs);
+    });
+
+    // 10. Quotations Listener
+    const quotationsQuery = query(collection(db, scoped('quotations')), orderBy('createdAt', 'desc'));
+    const unsubQuotations = onSnapshot(quotationsQuery, (snapshot) => {
+      const quotes = snapshot.docs.map(doc => ({ ...doc.data() } as Quotation)); // ID is part of data, like invoices
+      setQuotations(quotes);
+    });
+
+    // 11. Sales Orders Listener
+    const salesOrdersQuery = query(collection(db, scoped('salesOrders')), orderBy('createdAt', 'desc'));
+    const unsubSalesOrders = onSnapshot(salesOrdersQuery, (snapshot) => {
+      const orders = snapshot.docs.map(doc => ({ ...doc.data() } as SalesOrder));
+      setSalesOrders(orders);
+    });
+
+    // 12. Delivery Challans Listener
+    const challansQuery = query(collection(db, scoped('deliveryChallans')), orderBy('createdAt', 'desc'));
+    const unsubChallans = onSnapshot(challansQuery, (snapshot) => {
+      const dcs = snapshot.docs.map(doc => ({ ...doc.data() } as DeliveryChallan));
+      setChallans(dcs);
+    });
+
+    // 13. Recurring Invoices Listener
+    const recurringQuery = query(collection(db, scoped('recurringInvoices')), orderBy('createdAt', 'desc'));
+    const unsubRecurring = onSnapshot(recurringQuery, (snapshot) => {
+      const profiles = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RecurringInvoice));
+      setRecurringInvoices(profiles);
+      setRecurringLoaded(true);
+    });
+
+    // 14. Invoice Drafts Listener
+    const draftsQuery = query(collection(db, scoped('invoiceDrafts')), orderBy('createdAt', 'desc'));
+    const unsubDrafts = onSnapshot(draftsQuery, (snapshot) => {
+      const drafts = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as InvoiceDraft));
+      setInvoiceDrafts(drafts);
+    });
+
     return () => {
       unsubSettings();
       unsubProducts();
       unsubCustomers();
       unsubInvoices();
+      unsubCreditNotes();
+      unsubPayments();
+      unsubStock();
+      unsubSuppliers();
+      unsubPurchases();
+      unsubQuotations();
+      unsubSalesOrders();
+      unsubChallans();
+      unsubRecurring();
+      unsubDrafts();
     };
+  }, [user, hasAccess, activeBusinessId]);
+
+  // --- Login-wide Listeners (shared by every business) ---
+  useEffect(() => {
+    if (!user) return;
+
+    // This login's staff record decides what it may do
+    setStaffLoaded(false);
+    setStaffRecord(null);
+    const unsubStaff = onSnapshot(doc(db, 'staff', user.uid), (docSnap) => {
+      const fromCache = docSnap.metadata.fromCache;
+      if (docSnap.exists()) {
+        setStaffRecord({ id: docSnap.id, ...docSnap.data() } as StaffMember);
+        setStaffLoaded(true);
+      } else if (!fromCache) {
+        setStaffRecord(null);
+        // No record: access removed or never granted, unless this is the shop's first login
+        claimFirstOwner(user).finally(() => setStaffLoaded(true));
+      }
+    });
+
+    return () => unsubStaff();
   }, [user]);
 
+  // Business registry for the switcher
+  useEffect(() => {
+    if (!user || !hasAccess) return;
+    const unsubscribe = onSnapshot(collection(db, 'businesses'), (snapshot) => {
+      setBusinessRegistry(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Business)));
+    });
+    return () => unsubscribe();
+  }, [user, hasAccess]);
+
+  // The full staff list is only needed, and only readable, by owners
+  useEffect(() => {
+    if (!user || role !== 'owner') {
+      setStaff([]);
+      return;
+    }
+    // Installs from before the owner marker existed record it now, closing the first-login path
+    getDoc(OWNER_MARKER_REF).then(markerSnap => {
+      if (!markerSnap.exists()) return setDoc(OWNER_MARKER_REF, { ownerUid: user.uid, createdAt: new Date().toISOString() });
+    }).catch(e => console.error("Error recording owner marker: ", e));
+
+    const unsubscribe = onSnapshot(collection(db, 'staff'), (snapshot) => {
+      setStaff(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StaffMember)));
+    });
+    return () => unsubscribe();
+  }, [user, role]);
+
+  // A role change can leave this login on a tab it may no longer open
+  useEffect(() => {
+    if (staffLoaded && !canOpenTab(role, activeTab)) setActiveTab(AppTab.CREATE_BILL);
+  }, [staffLoaded, role, activeTab]);
+
+  // --- Connectivity Listener ---
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Upload bills saved offline as soon as we are signed in and back online
+  useEffect(() => {
+    if (user && isOnline) {
+      syncPendingInvoices();
+    }
+  }, [user, isOnline, activeBusinessId]);
+
+  // Raise recurring bills that fell due while the app was closed. Claiming a run needs
+  // the server, so when opened offline this waits until the connection returns. Clerks
+  // may not move a profile on, so their logins leave the run to a manager's.
+  useEffect(() => {
+    if (!user || !hasRole(role, 'manager') || dataLoading || !recurringLoaded || !isOnline || recurringRunRef.current) return;
+    recurringRunRef.current = true;
+    runDueRecurringInvoices();
+  }, [user, role, dataLoading, recurringLoaded, isOnline]);
+
   // --- Update Document Title and Favicon ---
   useEffect(() => {
     if (!user) {
@@ -197,11 +521,19 @@ const App: React.FC = () => {
 
   // --- Navigation Guard ---
   const handleTabChange = (tab: AppTab) => {
+    if (!canOpenTab(role, tab)) return;
+    if (tab === AppTab.CUSTOMERS) {
+      // Re-entering the tab always lands on the customer list
+      setLedgerCustomerId(null);
+    }
     if (activeTab === AppTab.CREATE_BILL && hasUnsavedChanges && tab !== AppTab.CREATE_BILL) {
       if (!window.confirm("You have unsaved changes in your bill. Are you sure you want to leave? Your progress will be lost.")) {
         return;
       }
       setHasUnsavedChanges(false);
+      // Leaving the generator abandons any amendment in progress
+      setEditingInvoice(null);
+      setOpenDraft(null);
     }
     setActiveTab(tab);
   };
@@ -220,68 +552,1315 @@ const App: React.FC = () => {
   };
 
   const handleLogout = async () => {
+    flushSettingsAudit(); // Needs the login that made the changes
     await signOut(auth);
     setEmail('');
     setPassword('');
   };
 
+  // --- Audit Log ---
+  // Entries are only ever added; nothing in the app updates or deletes them
+  const stampAudit = (entry: Omit<AuditEntry, 'id' | 'user' | 'at'>): Omit<AuditEntry, 'id'> => ({
+    ...entry,
+    user: user?.email || '',
+    at: new Date().toISOString()
+  });
+
+  // A fresh entry ref, for writing the entry in the same batch or transaction as the change
+  const newAuditRef = () => doc(collection(db, scoped('auditLog')));
+
+  const logAudit = (entry: Omit<AuditEntry, 'id' | 'user' | 'at'>) => {
+    if (entry.changes.length === 0) return;
+    setDoc(newAuditRef(), stampAudit(entry)).catch(e => console.error("Error writing audit log: ", e));
+  };
+
+  // Settings save on every keystroke, so their entry is written once the typing pauses
+  const pendingSettingsAudit = useRef<{ businessId: string; before: BusinessSettings; after: BusinessSettings; timer: number } | null>(null);
+
+  const flushSettingsAudit = () => {
+    const pending = pendingSettingsAudit.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingSettingsAudit.current = null;
+    const changes = diffFields(pending.before, pending.after);
+    if (changes.length === 0) return;
+    setDoc(doc(collection(db, businessPath(pending.businessId, 'auditLog'))), stampAudit({
+      entity: 'settings',
+      entityId: 'general',
+      entityLabel: pending.after.name || 'Business settings',
+      action: 'update',
+      changes
+    })).catch(e => console.error("Error writing audit log: ", e));
+  };
+
+  // The log is only read while the viewer is open
+  useEffect(() => {
+    if (!user || !showAuditLog) return;
+    const auditQuery = query(collection(db, scoped('auditLog')), orderBy('at', 'desc'));
+    const unsubscribe = onSnapshot(auditQuery, (snapshot) => {
+      setAuditEntries(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditEntry)));
+    });
+    return () => unsubscribe();
+  }, [user, showAuditLog, activeBusinessId]);
+
   // --- Data Operations (Firestore) ---
 
-  const handleSaveInvoice = async (invoice: Invoice) => {
-    try {
-      // Save invoice document and update next invoice number in parallel
-      const nextNo = (settings.nextInvoiceNumber || 0) + 1;
-      
-      await Promise.all([
-        setDoc(doc(db, 'invoices', invoice.id), invoice),
-        updateDoc(doc(db, 'settings', 'general'), { nextInvoiceNumber: nextNo })
-      ]);
+  // Every bill must point at a customer record; reuse a matching one or create it
+  const resolveCustomerId = async (invoice: Invoice): Promise<string> => {
+    const name = invoice.customerName;
+    const city = invoice.customerCity;
+    const existing = customers.find(c =>
+      c.name.trim().toLowerCase() === name.trim().toLowerCase() &&
+      (c.city || '').trim().toLowerCase() === city.trim().toLowerCase()
+    );
+    if (existing) return existing.id;
+
+    // Not awaited: the id is known up front and the write is queued locally if offline
+    const ref = doc(collection(db, scoped('customers')));
+    const customer = {
+      name: name.trim(),
+      city: city.trim(),
+      phone: '',
+      gstin: invoice.customerGstin || '',
+      stateCode: invoice.placeOfSupply || ''
+    };
+    setDoc(ref, customer).catch(e => console.error("Error creating customer: ", e));
+    logAudit({
+      entity: 'customer',
+      entityId: ref.id,
+      entityLabel: customer.name,
+      action: 'create',
+      changes: diffFields(undefined, customer),
+      note: 'Added from a bill'
+    });
+    return ref.id;
+  };
+
+  // Allocates the bill number and writes the invoice in one transaction, so two
+  // counters billing at the same moment can never receive the same number.
+  // Transactions need the server, so this is only attempted while online.
+  const commitInvoice = async (invoice: Invoice): Promise<Invoice> => {
+    const customerId = invoice.customerId || await resolveCustomerId(invoice);
+    const settingsRef = doc(db, scoped('settings'), 'general');
+
+    const saved = await runTransaction(db, async (tx) => {
+      const settingsSnap = await tx.get(settingsRef);
+      const current = { ...DEFAULT_BUSINESS_SETTINGS, ...settingsSnap.data() } as BusinessSettings;
+      const allocated = peekNextInvoiceNumber(current, invoice.date);
+
+      const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(allocated.id));
+      const existing = await tx.get(invoiceRef);
+      if (existing.exists()) {
+        throw new DuplicateBillNumberError(allocated.id);
+      }
+
+      const toSave: Invoice = {
+        ...invoice,
+        id: allocated.id,
+        customerId,
+        sequence: allocated.sequence,
+        financialYear: allocated.financialYear
+      };
+      tx.set(invoiceRef, toSave);
+      tx.set(newAuditRef(), stampAudit({
+        entity: 'invoice',
+        entityId: toSave.id,
+        entityLabel: toSave.id,
+        action: 'create',
+        changes: diffInvoice(undefined, toSave)
+      }));
+      tx.set(settingsRef, advanceInvoiceCounter(current, allocated), { merge: true });
+      // Stock goes out with the bill, so a failed save never leaves stock deducted
+      buildStockEntries(getStockChanges([], toSave.items), products, {
+        date: toSave.date,
+        type: 'sale',
+        reference: toSave.id
+      }).forEach(entry => {
+        tx.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+        tx.set(doc(collection(db, scoped('stockEntries'))), entry);
+      });
+      return toSave;
+    });
+
+    // Update local state optimistically
+    setSettings(prev => ({
+      ...prev,
+      ...advanceInvoiceCounter(prev, { sequence: saved.sequence || 0, financialYear: saved.financialYear || '' })
+    }));
+    return saved;
+  };
+
+  // Keeps the bill on this device under a provisional number until the connection returns
+  const queueInvoice = (invoice: Invoice): Invoice => {
+    const allocated = peekOfflineInvoiceNumber(settings, invoice.date, pendingInvoices);
+    const queued: Invoice = {
+      ...invoice,
+      id: allocated.id,
+      sequence: allocated.sequence,
+      financialYear: allocated.financialYear
+    };
+    const updated = [...pendingInvoices, { invoice: queued, queuedAt: new Date().toISOString() }];
+    savePendingInvoices(activeBusinessId, updated);
+    setPendingInvoices(updated);
+    setSettings(prev => ({ ...prev, ...advanceInvoiceCounter(prev, allocated) }));
+    return queued;
+  };
 
-      // Update local state optimistically
-      setSettings(prev => ({ ...prev, nextInvoiceNumber: nextNo }));
+  const handleSaveInvoice = async (unstamped: Invoice): Promise<SaveInvoiceResult> => {
+    const invoice: Invoice = { ...unstamped, createdBy: user?.email || undefined };
+    if (!navigator.onLine) {
+      return { invoice: queueInvoice(invoice), queued: true };
+    }
+    try {
+      return { invoice: await commitInvoice(invoice), queued: false };
     } catch (e) {
+      if (isOfflineError(e)) {
+        return { invoice: queueInvoice(invoice), queued: true };
+      }
       console.error("Error saving invoice: ", e);
-      alert("Failed to save invoice to database.");
+      if (e instanceof DuplicateBillNumberError) {
+        alert(`Bill No. ${e.billNo} already exists and was not overwritten. Please check "Next Invoice Number" in Settings.`);
+      } else {
+        alert("Failed to save invoice to database.");
+      }
       throw e; // rethrow so callers know it failed
     }
   };
 
+  // A queued bill's quotation or challans were linked to its provisional number; point them at the final one
+  const relinkRenumberedInvoice = (queued: Invoice, finalId: string) => {
+    const challanIds = queued.challanIds || [];
+    if (!queued.quotationId && challanIds.length === 0) return;
+    const batch = writeBatch(db);
+    if (queued.quotationId) {
+      batch.update(doc(db, scoped('quotations'), queued.quotationId), { invoiceId: finalId });
+    }
+    challanIds.forEach(id => batch.update(doc(db, scoped('deliveryChallans'), id), { invoiceId: finalId }));
+    batch.commit().catch(e => console.error("Error relinking renumbered bill: ", e));
+  };
+
+  // Uploads queued bills one at a time, in the order they were billed. The server
+  // hands out the final number, so a bill may end up renumbered if another
+  // counter used its provisional number in the meantime.
+  // A bill is only uploaded by the login that queued it, as the rules accept a bill
+  // only under its writer's own name; another login's bills wait for that login.
+  const syncPendingInvoices = async () => {
+    if (isSyncingRef.current || !navigator.onLine) return;
+    const isMine = (p: PendingInvoice) => !p.invoice.createdBy || p.invoice.createdBy === user?.email;
+    let queue = loadPendingInvoices(activeBusinessId);
+    if (!queue.some(isMine)) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      let index = queue.findIndex(isMine);
+      while (index !== -1) {
+        const next = queue[index];
+        try {
+          const saved = await commitInvoice({ ...next.invoice, createdBy: next.invoice.createdBy || user?.email || undefined });
+          if (saved.id !== next.invoice.id) {
+            relinkRenumberedInvoice(next.invoice, saved.id);
+            const updatedConflicts = [...loadSyncConflicts(activeBusinessId), {
+              provisionalId: next.invoice.id,
+              finalId: saved.id,
+              customerName: next.invoice.customerName,
+              syncedAt: new Date().toISOString()
+            }];
+            saveSyncConflicts(activeBusinessId, updatedConflicts);
+            setSyncConflicts(updatedConflicts);
+          }
+          queue = queue.filter(p => p !== next);
+          savePendingInvoices(activeBusinessId, queue);
+          setPendingInvoices(queue);
+          index = queue.findIndex(isMine);
+        } catch (e) {
+          console.error("Error syncing invoice: ", e);
+          queue = queue.map(p => p === next ? { ...next, lastError: e instanceof Error ? e.message : String(e) } : p);
+          savePendingInvoices(activeBusinessId, queue);
+          setPendingInvoices(queue);
+          break; // Keep the order; try again on the next reconnect or Sync Now
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDismissConflicts = () => {
+    saveSyncConflicts(activeBusinessId, []);
+    setSyncConflicts([]);
+  };
+
+  const handleAmendInvoice = async (invoice: Invoice) => {
+    if (!invoices.some(inv => inv.id === invoice.id)) {
+      alert("Original invoice not found. It may have been removed.");
+      throw new Error(`Invoice ${invoice.id} not found`);
+    }
+
+    const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(invoice.id));
+    let settled = 0;
+    let applied = false;
+    try {
+      const customerId = invoice.customerId || await resolveCustomerId(invoice);
+      // Built on the server copy, so payments and credit notes recorded since this device
+      // loaded the bill are kept, and two amendments at once never share a version number
+      await runTransaction(db, async (tx) => {
+        applied = false; // The callback reruns if the bill changes underneath it
+        const snap = await tx.get(invoiceRef);
+        if (!snap.exists()) throw new Error(`Invoice ${invoice.id} not found`);
+        const original = snap.data() as Invoice;
+        settled = roundMoney((original.paidAmount || 0) + (original.creditedAmount || 0));
+        if (invoice.total < settled) return;
+
+        const version = original.version || 1;
+        // Keep the replaced copy so the amendment can be audited later
+        tx.set(doc(db, scoped('invoices'), invoiceDocId(invoice.id), 'versions', version.toString()), {
+          invoice: original,
+          replacedAt: new Date().toISOString()
+        });
+        const amended: Invoice = {
+          ...original,
+          ...invoice,
+          customerId,
+          paidAmount: original.paidAmount,
+          creditedAmount: original.creditedAmount,
+          version: version + 1,
+          amendedAt: new Date().toISOString()
+        };
+        tx.set(invoiceRef, amended);
+        tx.set(newAuditRef(), stampAudit({
+          entity: 'invoice',
+          entityId: invoice.id,
+          entityLabel: invoice.id,
+          action: 'update',
+          changes: diffInvoice(original, amended),
+          note: `Amended to version ${version + 1}`
+        }));
+        // Only the difference in quantities moves stock
+        buildStockEntries(getStockChanges(original.items, invoice.items), products, {
+          date: invoice.date,
+          type: 'sale',
+          reference: invoice.id,
+          note: 'Bill amended'
+        }).forEach(entry => {
+          tx.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+          tx.set(doc(collection(db, scoped('stockEntries'))), entry);
+        });
+        applied = true;
+      });
+    } catch (e) {
+      console.error("Error amending invoice: ", e);
+      alert("Failed to save the amended invoice.");
+      throw e;
+    }
+    if (!applied) {
+      alert(`₹${settled} has already been paid or credited on bill ${invoice.id}, more than the amended total of ₹${invoice.total}. The amendment was not saved.`);
+      throw new Error(`Amended total ${invoice.total} is below ${settled} settled on invoice ${invoice.id}`);
+    }
+    setEditingInvoice(null);
+  };
+
+  const handleStartAmendInvoice = (invoice: Invoice) => {
+    setOpenDraft(null);
+    setEditingInvoice(invoice);
+    setHasUnsavedChanges(false);
+    setActiveTab(AppTab.CREATE_BILL);
+  };
+
+  const handleCancelInvoice = async (invoice: Invoice, reason: string) => {
+    const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(invoice.id));
+    let alreadyCancelled = false;
+    try {
+      // Read from the server, so a second cancel from a stale list or another device
+      // never puts the stock back twice
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(invoiceRef);
+        if (!snap.exists()) throw new Error(`Invoice ${invoice.id} not found`);
+        const current = snap.data() as Invoice;
+        alreadyCancelled = current.status === 'cancelled';
+        if (alreadyCancelled) return;
+
+        tx.update(invoiceRef, {
+          status: 'cancelled',
+          cancelReason: reason,
+          cancelledAt: new Date().toISOString()
+        });
+        tx.set(newAuditRef(), stampAudit({
+          entity: 'invoice',
+          entityId: invoice.id,
+          entityLabel: invoice.id,
+          action: 'cancel',
+          changes: [{ field: 'status', before: current.status || 'active', after: 'cancelled' }],
+          note: reason
+        }));
+        // Put the goods back, less anything already returned through credit notes
+        const returned = getReturnedQuantities(current, creditNotes);
+        const returnedItems = current.items.map(item => ({ ...item, quantity: returned[item.id] || 0 }));
+        buildStockEntries(getStockChanges(current.items, returnedItems), products, {
+          date: new Date().toLocaleDateString('en-GB'),
+          type: 'return',
+          reference: invoice.id,
+          note: 'Bill cancelled'
+        }).forEach(entry => {
+          tx.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+          tx.set(doc(collection(db, scoped('stockEntries'))), entry);
+        });
+        // Its challans become billable again
+        (current.challanIds || []).forEach(id => {
+          tx.update(doc(db, scoped('deliveryChallans'), id), { invoiceId: deleteField() });
+        });
+      });
+    } catch (e) {
+      console.error("Error cancelling invoice: ", e);
+      alert("Failed to cancel invoice.");
+      throw e;
+    }
+    if (alreadyCancelled) {
+      alert(`Bill #${invoice.id} has already been cancelled.`);
+    }
+  };
+
+  const handleSaveEInvoice = async (invoice: Invoice, details: EInvoiceDetails) => {
+    try {
+      const batch = writeBatch(db);
+      batch.update(doc(db, scoped('invoices'), invoiceDocId(invoice.id)), { eInvoice: details });
+      batch.set(newAuditRef(), stampAudit({
+        entity: 'invoice',
+        entityId: invoice.id,
+        entityLabel: invoice.id,
+        action: 'update',
+        changes: [{ field: 'irn', before: invoice.eInvoice?.irn, after: details.irn }]
+      }));
+      await batch.commit();
+    } catch (e) {
+      console.error("Error saving e-invoice details: ", e);
+      alert("Failed to save the IRN details.");
+      throw e;
+    }
+  };
+
+  const handleSaveCreditNote = async (note: CreditNote): Promise<CreditNote> => {
+    if (!invoices.some(inv => inv.id === note.invoiceId)) {
+      alert("Original invoice not found. It may have been removed.");
+      throw new Error(`Invoice ${note.invoiceId} not found`);
+    }
+
+    const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(note.invoiceId));
+    let rejection = '';
+    let saved: CreditNote | null = null;
+    try {
+      const settingsRef = doc(db, scoped('settings'), 'general');
+      // Same collision-proof allocation as bills. The bill is read in the same transaction, so
+      // two counters can never credit the same goods or more than was billed.
+      saved = await runTransaction(db, async (tx) => {
+        rejection = '';
+        const settingsSnap = await tx.get(settingsRef);
+        const sequence = (settingsSnap.data()?.nextCreditNoteNumber as number | undefined) || 1;
+        const toSave: CreditNote = { ...note, id: `CN-${sequence}` };
+
+        const noteRef = doc(db, scoped('creditNotes'), toSave.id);
+        const existing = await tx.get(noteRef);
+        if (existing.exists()) {
+          throw new DuplicateBillNumberError(toSave.id);
+        }
+        const invoiceSnap = await tx.get(invoiceRef);
+        if (!invoiceSnap.exists()) throw new Error(`Invoice ${note.invoiceId} not found`);
+        const original = invoiceSnap.data() as Invoice;
+
+        const returned = { ...getReturnedQuantities(original, creditNotes) };
+        const credited = original.creditedAmount || 0;
+        if (original.status === 'cancelled') {
+          rejection = `Bill #${note.invoiceId} has been cancelled, so no credit note can be raised against it.`;
+          return null;
+        }
+        const overReturned = toSave.items.find(item => {
+          const line = original.items.find(i => i.id === item.id);
+          return !line || (returned[item.id] || 0) + item.quantity > line.quantity;
+        });
+        if (overReturned) {
+          rejection = `More ${overReturned.name} than is left on Bill #${note.invoiceId} would be returned. Another credit note may have been saved meanwhile.`;
+          return null;
+        }
+        // Notes are not rounded off, and shared discounts and charges can leave a few paise
+        const creditable = roundMoney((Number(original.total) || 0) - (original.roundOff || 0));
+        if (roundMoney(credited + toSave.total) > creditable + 0.05) {
+          rejection = `₹${toSave.total} would take the credits on Bill #${note.invoiceId} above its total of ₹${original.total}.`;
+          return null;
+        }
+        toSave.items.forEach(item => {
+          returned[item.id] = (returned[item.id] || 0) + item.quantity;
+        });
+
+        tx.set(noteRef, toSave);
+        tx.update(invoiceRef, {
+          creditedAmount: increment(toSave.total),
+          returnedQuantities: returned
+        });
+        tx.set(newAuditRef(), stampAudit({
+          entity: 'invoice',
+          entityId: note.invoiceId,
+          entityLabel: note.invoiceId,
+          action: 'update',
+          changes: [{ field: 'creditedAmount', before: String(credited), after: String(roundMoney(credited + toSave.total)) }],
+          note: `Credit note ${toSave.id}`
+        }));
+        tx.set(settingsRef, { nextCreditNoteNumber: sequence + 1 }, { merge: true });
+        buildStockEntries(getStockChanges(toSave.items, []), products, {
+          date: toSave.date,
+          type: 'return',
+          reference: toSave.id
+        }).forEach(entry => {
+          tx.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+          tx.set(doc(collection(db, scoped('stockEntries'))), entry);
+        });
+        return toSave;
+      });
+    } catch (e) {
+      console.error("Error saving credit note: ", e);
+      alert("Failed to save credit note.");
+      throw e;
+    }
+    if (!saved) {
+      alert(`${rejection} The credit note was not saved.`);
+      throw new Error(rejection);
+    }
+
+    const allocated = saved;
+    setSettings(prev => ({ ...prev, nextCreditNoteNumber: parseInt(allocated.id.replace('CN-', ''), 10) + 1 }));
+    return allocated;
+  };
+
+  // --- Quotation / Order Handlers ---
+  // Saves a document of a simple PREFIX-n series (quotations, sales orders, challans), taking
+  // the next number from its settings counter in one transaction, like credit notes
+  const saveWithNextNumber = async <T extends { id: string }>(
+    collectionName: string,
+    counter: 'nextQuotationNumber' | 'nextSalesOrderNumber' | 'nextChallanNumber',
+    prefix: string,
+    data: Omit<T, 'id'>
+  ): Promise<T> => {
+    const settingsRef = doc(db, scoped('settings'), 'general');
+    const saved = await runTransaction(db, async (tx) => {
+      const settingsSnap = await tx.get(settingsRef);
+      const sequence = (settingsSnap.data()?.[counter] as number | undefined) || 1;
+      const toSave = { ...data, id: `${prefix}-${sequence}` } as T;
+
+      const docRef = doc(db, scoped(collectionName), toSave.id);
+      const existing = await tx.get(docRef);
+      if (existing.exists()) {
+        throw new DuplicateBillNumberError(toSave.id);
+      }
+
+      tx.set(docRef, toSave);
+      tx.set(settingsRef, { [counter]: sequence + 1 }, { merge: true });
+      return toSave;
+    });
+
+    setSettings(prev => ({ ...prev, [counter]: parseInt(saved.id.replace(`${prefix}-`, ''), 10) + 1 }));
+    return saved;
+  };
+
+  // A new bill for a recurring run; handleSaveInvoice allocates the number
+  const draftInvoice = (
+    party: Pick<Invoice, 'customerId' | 'customerName' | 'customerCity' | 'customerGstin' | 'placeOfSupply'>,
+    items: InvoiceItem[],
+    date: string = new Date().toLocaleDateString('en-GB')
+  ): Invoice => {
+    const { enableGst, isInterState } = getGstTreatment(settings, party.placeOfSupply);
+    const gstRate = enableGst ? (settings.defaultGstRate || 0) : 0;
+    const totals = calculateInvoiceTotals(items, {
+      enableGst,
+      defaultGstRate: gstRate,
+      isInterState,
+      roundOff: !!settings.roundOffTotal
+    });
+    return {
+      id: peekNextInvoiceNumber(settings, date).id,
+      date,
+      customerId: party.customerId,
+      customerName: party.customerName,
+      customerCity: party.customerCity,
+      customerGstin: party.customerGstin,
+      placeOfSupply: party.placeOfSupply,
+      items,
+      total: totals.total,
+      subtotal: totals.subtotal,
+      gstAmount: totals.gstAmount,
+      gstRate,
+      gstEnabled: enableGst,
+      isInterState,
+      sgstAmount: totals.sgstAmount,
+      cgstAmount: totals.cgstAmount,
+      igstAmount: totals.igstAmount,
+      roundOff: settings.roundOffTotal ? totals.roundOff : undefined
+    };
+  };
+
+  // Edits keep their number
+  const handleSaveQuotation = async (quotation: Omit<Quotation, 'id'>, id?: string): Promise<Quotation> => {
+    try {
+      if (id) {
+        const toSave: Quotation = { ...quotation, id };
+        await setDoc(doc(db, scoped('quotations'), id), toSave);
+        return toSave;
+      }
+      return await saveWithNextNumber<Quotation>('quotations', 'nextQuotationNumber', 'QT', quotation);
+    } catch (e) {
+      console.error("Error saving quotation: ", e);
+      alert(isOfflineError(e) ? "Quotations can only be numbered while online. Please try again when connected." : "Failed to save quotation.");
+      throw e;
+    }
+  };
+
+  const handleUpdateQuotationStatus = async (quotation: Quotation, status: QuotationStatus) => {
+    try {
+      await updateDoc(doc(db, scoped('quotations'), quotation.id), { status });
+    } catch (e) {
+      console.error("Error updating quotation: ", e);
+      alert("Failed to update the quotation status.");
+      throw e;
+    }
+  };
+
+  const handleDeleteQuotation = async (quotation: Quotation) => {
+    try {
+      await deleteDoc(doc(db, scoped('quotations'), quotation.id));
+    } catch (e) {
+      console.error("Error deleting quotation: ", e);
+      alert("Failed to delete quotation.");
+      throw e;
+    }
+  };
+
+  // Opens a bill dated today with the quotation's customer and items in Create Bill, where
+  // discounts, charges and TCS can be added; saving it marks the quotation accepted
+  const handleConvertQuotation = (quotation: Quotation) => {
+    handleOpenDraft({
+      id: '',
+      quotationId: quotation.id,
+      date: new Date().toLocaleDateString('en-GB'),
+      customerId: quotation.customerId,
+      customerName: quotation.customerName,
+      customerCity: quotation.customerCity,
+      customerGstin: quotation.customerGstin,
+      placeOfSupply: quotation.placeOfSupply,
+      items: quotation.items,
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  const handleSaveSalesOrder = async (order: Omit<SalesOrder, 'id'>): Promise<SalesOrder> => {
+    try {
+      return await saveWithNextNumber<SalesOrder>('salesOrders', 'nextSalesOrderNumber', 'SO', order);
+    } catch (e) {
+      console.error("Error saving sales order: ", e);
+      alert(isOfflineError(e) ? "Sales orders can only be numbered while online. Please try again when connected." : "Failed to save sales order.");
+      throw e;
+    }
+  };
+
+  const handleUpdateSalesOrderStatus = async (order: SalesOrder, status: SalesOrderStatus) => {
+    try {
+      await updateDoc(doc(db, scoped('salesOrders'), order.id), { status });
+    } catch (e) {
+      console.error("Error updating sales order: ", e);
+      alert("Failed to update the sales order.");
+      throw e;
+    }
+  };
+
+  const handleDeleteSalesOrder = async (order: SalesOrder) => {
+    if (challans.some(c => c.orderId === order.id)) {
+      alert(`Order ${order.id} has delivery challans and cannot be deleted. Close it instead.`);
+      return;
+    }
+    try {
+      await deleteDoc(doc(db, scoped('salesOrders'), order.id));
+    } catch (e) {
+      console.error("Error deleting sales order: ", e);
+      alert("Failed to delete sales order.");
+      throw e;
+    }
+  };
+
+  // Challans only record the dispatch; stock goes out when the challans are billed
+  const handleSaveChallan = async (challan: Omit<DeliveryChallan, 'id'>): Promise<DeliveryChallan> => {
+    try {
+      return await saveWithNextNumber<DeliveryChallan>('deliveryChallans', 'nextChallanNumber', 'DC', challan);
+    } catch (e) {
+      console.error("Error saving delivery challan: ", e);
+      alert(isOfflineError(e) ? "Challans can only be numbered while online. Please try again when connected." : "Failed to save delivery challan.");
+      throw e;
+    }
+  };
+
+  const handleDeleteChallan = async (challan: DeliveryChallan) => {
+    try {
+      await deleteDoc(doc(db, scoped('deliveryChallans'), challan.id));
+    } catch (e) {
+      console.error("Error deleting delivery challan: ", e);
+      alert("Failed to delete delivery challan.");
+      throw e;
+    }
+  };
+
+  // One bill for one or more challans of the same customer, opened in Create Bill like a quotation
+  const handleInvoiceChallans = (selected: DeliveryChallan[]) => {
+    handleOpenDraft({
+      id: '',
+      challanIds: selected.map(c => c.id),
+      date: new Date().toLocaleDateString('en-GB'),
+      customerId: selected[0].customerId,
+      customerName: selected[0].customerName,
+      customerCity: selected[0].customerCity,
+      customerGstin: selected[0].customerGstin,
+      placeOfSupply: selected[0].placeOfSupply,
+      items: mergeChallanItems(selected),
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  const handleSaveRecurring = async (profile: Omit<RecurringInvoice, 'id'>, id?: string) => {
+    try {
+      if (id) {
+        await setDoc(doc(db, scoped('recurringInvoices'), id), profile);
+      } else {
+        await addDoc(collection(db, scoped('recurringInvoices')), profile);
+      }
+    } catch (e) {
+      console.error("Error saving recurring profile: ", e);
+      alert("Failed to save recurring profile.");
+      throw e;
+    }
+  };
+
+  const handleToggleRecurringPause = async (profile: RecurringInvoice) => {
+    try {
+      await updateDoc(doc(db, scoped('recurringInvoices'), profile.id), { paused: !profile.paused });
+    } catch (e) {
+      console.error("Error updating recurring profile: ", e);
+      alert("Failed to update recurring profile.");
+      throw e;
+    }
+  };
+
+  const handleDeleteRecurring = async (profile: RecurringInvoice) => {
+    try {
+      await deleteDoc(doc(db, scoped('recurringInvoices'), profile.id));
+    } catch (e) {
+      console.error("Error deleting recurring profile: ", e);
+      alert("Failed to delete recurring profile.");
+      throw e;
+    }
+  };
+
+  // Creates one bill or draft per run that has fallen due, oldest first. Each run is
+  // claimed by moving the profile's next run date in a transaction, so two counters
+  // opening the app together cannot both bill it.
+  const runDueRecurringInvoices = async () => {
+    const created: string[] = [];
+    const drafted: string[] = [];
+
+    for (const profile of recurringInvoices) {
+      if (profile.paused) continue;
+      // Profiles whose bills need discounts, charges or TCS added are always reviewed first
+      const createFinal = !!settings.recurringCreatesFinal && !profile.reviewEachRun;
+      const profileRef = doc(db, scoped('recurringInvoices'), profile.id);
+      let runDate = profile.nextRunDate;
+
+      while (isRunDue(runDate)) {
+        const claimedDate = runDate;
+        const nextRunDate = getNextRunDate(claimedDate, profile.frequency, profile.startDate);
+        let previousLastRunDate: string | undefined;
+        try {
+          const claimed = await runTransaction(db, async (tx) => {
+            const current = (await tx.get(profileRef)).data() as RecurringInvoice | undefined;
+            if (!current || current.paused || current.nextRunDate !== claimedDate) return false;
+            previousLastRunDate = current.lastRunDate;
+            if (!createFinal) {
+              const draft: Omit<InvoiceDraft, 'id'> = {
+                profileId: profile.id,
+                date: claimedDate,
+                customerId: profile.customerId,
+                customerName: profile.customerName,
+                customerCity: profile.customerCity,
+                customerGstin: profile.customerGstin,
+                placeOfSupply: profile.placeOfSupply,
+                items: profile.items,
+                createdAt: new Date().toISOString()
+              };
+              tx.set(doc(collection(db, scoped('invoiceDrafts'))), draft);
+            }
+            tx.update(profileRef, { nextRunDate, lastRunDate: claimedDate });
+            return true;
+          });
+          if (!claimed) break; // Another device ran it, or it was paused meanwhile
+
+          if (createFinal) {
+            let invoice: Invoice;
+            try {
+              ({ invoice } = await handleSaveInvoice(draftInvoice(profile, profile.items, claimedDate)));
+            } catch (e) {
+              // handleSaveInvoice has alerted. Hand the claimed run back, unless another device has
+              // moved the profile on since, so the period is billed next time instead of skipped.
+              await runTransaction(db, async (tx) => {
+                const current = (await tx.get(profileRef)).data() as RecurringInvoice | undefined;
+                if (current?.nextRunDate !== nextRunDate) return;
+                tx.update(profileRef, { nextRunDate: claimedDate, lastRunDate: previousLastRunDate ?? deleteField() });
+              }).catch(releaseError => console.error("Error releasing recurring run: ", releaseError));
+              throw e;
+            }
+            await updateDoc(profileRef, { lastInvoiceId: invoice.id });
+            created.push(`Bill #${invoice.id} for ${profile.customerName} (${claimedDate})`);
+          } else {
+            drafted.push(`${profile.customerName} (${claimedDate})`);
+          }
+        } catch (e) {
+          console.error("Error running recurring profile: ", e);
+          break;
+        }
+        runDate = nextRunDate;
+      }
+    }
+
+    const report = [
+      created.length > 0 ? `Recurring bills created:\n\n${created.join('\n')}` : '',
+      drafted.length > 0 ? `Recurring bills ready for review under Recurring Bills:\n\n${drafted.join('\n')}` : ''
+    ].filter(Boolean);
+    if (report.length > 0) alert(report.join('\n\n'));
+  };
+
+  const handleOpenDraft = (draft: InvoiceDraft) => {
+    setEditingInvoice(null);
+    setOpenDraft(draft);
+    setHasUnsavedChanges(false);
+    setActiveTab(AppTab.CREATE_BILL);
+  };
+
+  const handleDiscardDraft = async (draft: InvoiceDraft) => {
+    try {
+      await deleteDoc(doc(db, scoped('invoiceDrafts'), draft.id));
+      if (openDraft?.id === draft.id) setOpenDraft(null);
+    } catch (e) {
+      console.error("Error discarding draft: ", e);
+      alert("Failed to discard draft.");
+      throw e;
+    }
+  };
+
+  // Bills saved from the generator. One made from a recurring draft replaces the draft; one
+  // made from a quotation or challans is linked back to them.
+  const handleSaveGeneratedInvoice = async (invoice: Invoice): Promise<SaveInvoiceResult> => {
+    const draft = openDraft;
+    const result = await handleSaveInvoice(draft ? { ...invoice, quotationId: draft.quotationId, challanIds: draft.challanIds } : invoice);
+    if (!draft) return result;
+    setOpenDraft(null);
+    if (draft.profileId) {
+      // Not awaited: queued locally when offline, like the bill itself
+      deleteDoc(doc(db, scoped('invoiceDrafts'), draft.id)).catch(e => console.error("Error clearing recurring draft: ", e));
+      updateDoc(doc(db, scoped('recurringInvoices'), draft.profileId), { lastInvoiceId: result.invoice.id })
+        .catch(e => console.error("Error updating recurring profile: ", e));
+    }
+    if (draft.quotationId) {
+      // The bill is saved; a failure here only loses the link back
+      updateDoc(doc(db, scoped('quotations'), draft.quotationId), { status: 'accepted', invoiceId: result.invoice.id })
+        .catch(e => console.error("Error linking quotation to bill: ", e));
+    }
+    if (draft.challanIds) {
+      const batch = writeBatch(db);
+      draft.challanIds.forEach(id => batch.update(doc(db, scoped('deliveryChallans'), id), { invoiceId: result.invoice.id }));
+      batch.commit().catch(e => console.error("Error linking challans to bill: ", e));
+    }
+    return result;
+  };
+
+  const handleSavePayment = async (payment: Omit<Payment, 'id'>) => {
+    if (!invoices.some(inv => inv.id === payment.invoiceId)) {
+      alert("Invoice not found. It may have been removed.");
+      throw new Error(`Invoice ${payment.invoiceId} not found`);
+    }
+
+    const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(payment.invoiceId));
+    try {
+      // Checked against the server copy, so two counters can never both take the full outstanding
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(invoiceRef);
+        const original = snap.data() as Invoice | undefined;
+        if (!original || payment.amount > getOutstanding(original) + 0.005) {
+          throw new OutstandingChangedError([payment.invoiceId]);
+        }
+        const paid = original.paidAmount || 0;
+        tx.set(doc(collection(db, scoped('payments'))), payment);
+        tx.update(invoiceRef, { paidAmount: increment(payment.amount) });
+        tx.set(newAuditRef(), stampAudit({
+          entity: 'invoice',
+          entityId: original.id,
+          entityLabel: original.id,
+          action: 'payment',
+          changes: [{ field: 'paidAmount', before: String(paid), after: String(paid + payment.amount) }],
+          note: `₹${payment.amount} by ${PAYMENT_MODE_LABELS[payment.mode]}${payment.reference ? ` (Ref: ${payment.reference})` : ''}`
+        }));
+      });
+    } catch (e) {
+      console.error("Error saving payment: ", e);
+      if (e instanceof OutstandingChangedError) {
+        alert(`₹${payment.amount} is more than is now outstanding on bill ${payment.invoiceId}. Another payment or credit note may have been recorded; the payment was not saved.`);
+      } else {
+        alert("Failed to record payment.");
+      }
+      throw e;
+    }
+  };
+
+  // Payments confirmed from a bank statement; one bill may take several credits
+  const handleSavePayments = async (newPayments: Omit<Payment, 'id'>[]) => {
+    const paidByInvoice = new Map<string, number>();
+    newPayments.forEach(p => paidByInvoice.set(p.invoiceId, (paidByInvoice.get(p.invoiceId) || 0) + p.amount));
+    const missing = [...paidByInvoice.keys()].filter(id => !invoices.some(inv => inv.id === id));
+    if (missing.length > 0) {
+      alert(`Bill ${missing.join(', ')} not found. It may have been removed.`);
+      throw new Error(`Invoices ${missing.join(', ')} not found`);
+    }
+
+    try {
+      // Read the bills from the server so a credit is never put against an outstanding that has since changed
+      await runTransaction(db, async (tx) => {
+        const current = await Promise.all([...paidByInvoice.keys()].map(async invoiceId => {
+          const snap = await tx.get(doc(db, scoped('invoices'), invoiceDocId(invoiceId)));
+          return { invoiceId, invoice: snap.data() as Invoice | undefined };
+        }));
+        const changed = current
+          .filter(({ invoiceId, invoice }) => !invoice || paidByInvoice.get(invoiceId)! > getOutstanding(invoice) + 0.005)
+          .map(({ invoiceId }) => invoiceId);
+        if (changed.length > 0) {
+          throw new OutstandingChangedError(changed);
+        }
+
+        newPayments.forEach(p => tx.set(doc(collection(db, scoped('payments'))), p));
+        current.forEach(({ invoiceId, invoice }) => {
+          const amount = paidByInvoice.get(invoiceId)!;
+          const paid = invoice!.paidAmount || 0;
+          tx.update(doc(db, scoped('invoices'), invoiceDocId(invoiceId)), {
+            paidAmount: increment(amount)
+          });
+          tx.set(newAuditRef(), stampAudit({
+            entity: 'invoice',
+            entityId: invoiceId,
+            entityLabel: invoiceId,
+            action: 'payment',
+            changes: [{ field: 'paidAmount', before: String(paid), after: String(paid + amount) }],
+            note: newPayments.find(p => p.invoiceId === invoiceId)?.note
+          }));
+        });
+      });
+    } catch (e) {
+      console.error("Error saving payments: ", e);
+      if (e instanceof OutstandingChangedError) {
+        alert(`The outstanding on bill ${e.billNos.join(', ')} has changed since the statement was loaded, or is less than the credits matched to it. Nothing was recorded; review those rows and confirm again.`);
+      } else {
+        alert("Failed to record payments.");
+      }
+      throw e;
+    }
+  };
+
+  const handleAddStaff = async (member: { name: string; email: string; password: string; role: UserRole }) => {
+    try {
+      const uid = await createStaffLogin(member.email, member.password);
+      await setDoc(doc(db, 'staff', uid), {
+        email: member.email,
+        name: member.name,
+        role: member.role,
+        createdAt: new Date().toISOString()
+      } as Omit<StaffMember, 'id'>);
+    } catch (e) {
+      console.error("Error adding staff: ", e);
+      alert(e instanceof FirebaseError && e.code === 'auth/email-already-in-use' ? "That email already has a login." : "Failed to add staff login.");
+      throw e;
+    }
+  };
+
+  const handleChangeStaffRole = async (member: StaffMember, newRole: UserRole) => {
+    if (member.role === 'owner' && newRole !== 'owner' && staff.filter(m => m.role === 'owner').length <= 1) {
+      alert("There must be at least one owner.");
+      return;
+    }
+    try {
+      await updateDoc(doc(db, 'staff', member.id), { role: newRole });
+    } catch (e) {
+      console.error("Error updating staff role: ", e);
+      alert("Failed to change role.");
+    }
+  };
+
+  // Removes the staff record; the login itself stays in Firebase Auth but can no longer open the app
+  const handleRemoveStaff = async (member: StaffMember) => {
+    try {
+      await deleteDoc(doc(db, 'staff', member.id));
+    } catch (e) {
+      console.error("Error removing staff: ", e);
+      alert("Failed to remove staff login.");
+    }
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    const paymentRef = doc(db, scoped('payments'), payment.id);
+    const invoiceRef = doc(db, scoped('invoices'), invoiceDocId(payment.invoiceId));
+    let removed = true;
+    try {
+      // Only the delete that finds the payment still there takes it off the bill, so a
+      // stale list or a second device can never reduce the paid amount twice
+      await runTransaction(db, async (tx) => {
+        const [paymentSnap, invoiceSnap] = await Promise.all([tx.get(paymentRef), tx.get(invoiceRef)]);
+        removed = paymentSnap.exists();
+        if (!removed) return;
+        const amount = (paymentSnap.data() as Payment).amount;
+        tx.delete(paymentRef);
+        if (invoiceSnap.exists()) {
+          const original = invoiceSnap.data() as Invoice;
+          const paid = original.paidAmount || 0;
+          tx.update(invoiceRef, { paidAmount: increment(-amount) });
+          tx.set(newAuditRef(), stampAudit({
+            entity: 'invoice',
+            entityId: original.id,
+            entityLabel: original.id,
+            action: 'payment',
+            changes: [{ field: 'paidAmount', before: String(paid), after: String(Math.max(0, paid - amount)) }],
+            note: `Removed ₹${amount} ${PAYMENT_MODE_LABELS[payment.mode]} payment of ${payment.date}`
+          }));
+        }
+      });
+    } catch (e) {
+      console.error("Error deleting payment: ", e);
+      alert("Failed to delete payment.");
+      return;
+    }
+    if (!removed) {
+      alert(`The ₹${payment.amount} payment of ${payment.date} has already been deleted.`);
+    }
+  };
+
+  const handleSaveStockEntry = async (entry: Omit<StockEntry, 'id' | 'productName' | 'createdAt'>) => {
+    const product = products.find(p => p.id === entry.productId);
+    if (!product) {
+      alert("Product not found. It may have been removed.");
+      throw new Error(`Product ${entry.productId} not found`);
+    }
+
+    try {
+      const batch = writeBatch(db);
+      batch.update(doc(db, scoped('products'), product.id), { stock: increment(entry.quantity) });
+      batch.set(doc(collection(db, scoped('stockEntries'))), {
+        ...entry,
+        productName: product.name,
+        createdAt: new Date().toISOString()
+      });
+      await batch.commit();
+    } catch (e) {
+      console.error("Error saving stock entry: ", e);
+      alert("Failed to save stock entry.");
+      throw e;
+    }
+  };
+
+  // --- Supplier & Purchase Handlers ---
+  const handleSaveSupplier = async (supplier: Omit<Supplier, 'id'>, id?: string) => {
+    try {
+      if (id) {
+        await updateDoc(doc(db, scoped('suppliers'), id), supplier);
+      } else {
+        await addDoc(collection(db, scoped('suppliers')), supplier);
+      }
+    } catch (e) {
+      console.error("Error saving supplier: ", e);
+      alert("Failed to save supplier.");
+      throw e;
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (purchases.some(p => p.supplierId === supplier.id)) {
+      alert(`${supplier.name} has purchase bills recorded and cannot be deleted.`);
+      return;
+    }
+    try {
+      await deleteDoc(doc(db, scoped('suppliers'), supplier.id));
+    } catch (e) {
+      console.error("Error deleting supplier: ", e);
+    }
+  };
+
+  const handleSavePurchase = async (purchase: Omit<Purchase, 'id'>) => {
+    try {
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, scoped('purchases'))), purchase);
+      // Received goods start stock tracking for products that had none
+      buildStockEntries(getStockChanges(purchase.items, []), products, {
+        date: purchase.date,
+        type: 'purchase',
+        reference: `${purchase.supplierName} / ${purchase.supplierBillNo}`,
+        startTracking: true
+      }).forEach(entry => {
+        batch.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+        batch.set(doc(collection(db, scoped('stockEntries'))), entry);
+      });
+      await batch.commit();
+    } catch (e) {
+      console.error("Error saving purchase: ", e);
+      alert("Failed to save purchase.");
+      throw e;
+    }
+  };
+
+  // A bill that has been paid is kept, or the payment would no longer be accounted for
+  const handleDeletePurchase = async (purchase: Purchase) => {
+    const purchaseRef = doc(db, scoped('purchases'), purchase.id);
+    let paid = 0;
+    try {
+      await runTransaction(db, async (tx) => {
+        const purchaseSnap = await tx.get(purchaseRef);
+        if (!purchaseSnap.exists()) throw new Error(`Purchase ${purchase.id} not found`);
+        paid = (purchaseSnap.data() as Purchase).paidAmount || 0;
+        if (paid > 0) return;
+        tx.delete(purchaseRef);
+        buildStockEntries(getStockChanges([], purchase.items), products, {
+          date: new Date().toLocaleDateString('en-GB'),
+          type: 'adjustment',
+          reference: `${purchase.supplierName} / ${purchase.supplierBillNo}`,
+          note: 'Purchase deleted'
+        }).forEach(entry => {
+          tx.update(doc(db, scoped('products'), entry.productId), { stock: increment(entry.quantity) });
+          tx.set(doc(collection(db, scoped('stockEntries'))), entry);
+        });
+      });
+    } catch (e) {
+      console.error("Error deleting purchase: ", e);
+      alert("Failed to delete purchase.");
+      throw e;
+    }
+    if (paid > 0) {
+      alert(`₹${paid} has been paid against bill ${purchase.supplierBillNo}, so it cannot be deleted.`);
+      throw new Error(`Purchase ${purchase.id} has payments`);
+    }
+  };
+
+  const handleRecordPurchasePayment = async (purchase: Purchase, amount: number) => {
+    const purchaseRef = doc(db, scoped('purchases'), purchase.id);
+    let due = 0;
+    try {
+      // Checked against the server copy, so two payments made at once can never overpay the bill
+      await runTransaction(db, async (tx) => {
+        const purchaseSnap = await tx.get(purchaseRef);
+        if (!purchaseSnap.exists()) throw new Error(`Purchase ${purchase.id} not found`);
+        const current = purchaseSnap.data() as Purchase;
+        due = roundMoney(current.total - (current.paidAmount || 0));
+        if (amount > due) return;
+        tx.update(purchaseRef, { paidAmount: increment(amount) });
+      });
+    } catch (e) {
+      console.error("Error recording supplier payment: ", e);
+      alert("Failed to record payment.");
+      throw e;
+    }
+    if (amount > due) {
+      alert(`Only ₹${due} is due on bill ${purchase.supplierBillNo}. The payment was not recorded.`);
+      throw new Error(`Payment of ${amount} exceeds ${due} due on purchase ${purchase.id}`);
+    }
+  };
+
   const handleUpdateSettings = async (newSettings: BusinessSettings) => {
     // Optimistic update for UI
     setSettings(newSettings);
     try {
-      await setDoc(doc(db, 'settings', 'general'), newSettings);
+      // Counters are owned by the numbering transactions; only write them when
+      // the user edited them here, so a stale copy never rewinds another device's bills
+      const { nextInvoiceNumber, nextCreditNoteNumber, nextQuotationNumber, nextSalesOrderNumber, nextChallanNumber, numberingCounters, numberingFinancialYear, ...rest } = newSettings;
+      const payload: Partial<BusinessSettings> = rest;
+      if (nextInvoiceNumber !== settings.nextInvoiceNumber) payload.nextInvoiceNumber = nextInvoiceNumber;
+      if (nextCreditNoteNumber !== settings.nextCreditNoteNumber) payload.nextCreditNoteNumber = nextCreditNoteNumber;
+      if (nextQuotationNumber !== settings.nextQuotationNumber) payload.nextQuotationNumber = nextQuotationNumber;
+      if (nextSalesOrderNumber !== settings.nextSalesOrderNumber) payload.nextSalesOrderNumber = nextSalesOrderNumber;
+      if (nextChallanNumber !== settings.nextChallanNumber) payload.nextChallanNumber = nextChallanNumber;
+      const editedCounters = Object.entries(numberingCounters || {}).filter(([fy, next]) => settings.numberingCounters?.[fy] !== next);
+      if (editedCounters.length > 0) payload.numberingCounters = Object.fromEntries(editedCounters);
+      const pending = pendingSettingsAudit.current;
+      if (pending) window.clearTimeout(pending.timer);
+      pendingSettingsAudit.current = {
+        businessId: activeBusinessId,
+        before: pending?.before || settings,
+        after: { ...(pending?.after || settings), ...payload },
+        timer: window.setTimeout(flushSettingsAudit, 3000)
+      };
+      await setDoc(doc(db, scoped('settings'), 'general'), payload, { merge: true });
+      // Keep the switcher's label in step with the business name
+      if (newSettings.name !== settings.name && businessRegistry.some(b => b.id === activeBusinessId)) {
+        updateDoc(doc(db, 'businesses', activeBusinessId), { name: newSettings.name })
+          .catch(e => console.error("Error renaming business: ", e));
+      }
     } catch (e) {
       console.error("Error saving settings: ", e);
     }
   };
 
-  // --- Product Handlers ---
-  const handleProductSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // With the yearly reset on, the Settings counter is this financial year's
+  const handleInvoiceCounterChange = (next: number) => {
+    if (!restartsEachYear(settings)) {
+      handleUpdateSettings({ ...settings, nextInvoiceNumber: next });
+      return;
+    }
+    const financialYear = getFinancialYear(new Date());
+    handleUpdateSettings({ ...settings, numberingCounters: { ...settings.numberingCounters, [financialYear]: next } });
+  };
+
+  const handleNumberFormatChange = (format: string) => {
+    setNumberFormatDraft(format);
+    if (!validateInvoiceNumberFormat(format || DEFAULT_INVOICE_NUMBER_FORMAT, !!settings.resetNumberingEachYear)) {
+      handleUpdateSettings({ ...settings, invoiceNumberFormat: format });
+    }
+  };
+
+  const handleResetNumberingToggle = (resetEachYear: boolean) => {
+    const error = validateInvoiceNumberFormat(settings.invoiceNumberFormat || DEFAULT_INVOICE_NUMBER_FORMAT, resetEachYear);
+    if (error) {
+      alert(error);
+      return;
+    }
+    // This year carries on from the running number either way
+    const current = getEditableInvoiceCounter(settings);
+    handleUpdateSettings(resetEachYear
+      ? { ...settings, resetNumberingEachYear: true, numberingCounters: { ...settings.numberingCounters, [getFinancialYear(new Date())]: current } }
+      : { ...settings, resetNumberingEachYear: false, nextInvoiceNumber: current });
+  };
+
+  // --- Business Handlers ---
+  const businesses = withDefaultBusiness(businessRegistry, activeBusinessId === DEFAULT_BUSINESS_ID ? settings.name : 'Main business');
+
+  const businessIdsKey = businesses.map(b => b.id).join(',');
+
+  // Combined analytics listens to every business only while it is on screen
+  useEffect(() => {
+    if (!user || !analyticsAllBusinesses || activeTab !== AppTab.ANALYTICS) return;
+    const unsubs = businessIdsKey.split(',').flatMap(businessId =>
+      ['invoices', 'creditNotes', 'products', 'customers'].map(name =>
+        onSnapshot(collection(db, businessPath(businessId, name)), (snapshot) => {
+          // Bills and credit notes carry their number as `id` in the data, which wins over the doc id.
+          // Numbers repeat across businesses, so each record is tagged with the one it came from
+          const records = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), businessId }));
+          setCombinedData(prev => ({ ...prev, [`${businessId}/${name}`]: records }));
+        })
+      )
+    );
+    return () => unsubs.forEach(unsub => unsub());
+  }, [user, analyticsAllBusinesses, activeTab, businessIdsKey]);
+
+  const combinedRecords = <T,>(name: string): T[] =>
+    businesses.flatMap(b => (combinedData[`${b.id}/${name}`] || []) as T[]);
+
+  const handleSwitchBusiness = (businessId: string) => {
+    if (businessId === activeBusinessId) return;
+    if (hasUnsavedChanges && !window.confirm("You have unsaved changes in your bill. Switch business and lose them?")) return;
+    flushSettingsAudit();
+    setHasUnsavedChanges(false);
+    setEditingInvoice(null);
+    setOpenDraft(null);
+    // Clear the old business's data so nothing from it is billed while the new one loads
+    setSettings(DEFAULT_BUSINESS_SETTINGS);
+    setProducts([]);
+    setCustomers([]);
+    setInvoices([]);
+    setCreditNotes([]);
+    setPayments([]);
+    setStockEntries([]);
+    setSuppliers([]);
+    setPurchases([]);
+    setQuotations([]);
+    setSalesOrders([]);
+    setChallans([]);
+    setRecurringInvoices([]);
+    setInvoiceDrafts([]);
+    setPendingInvoices(loadPendingInvoices(businessId));
+    setSyncConflicts(loadSyncConflicts(businessId));
+    saveActiveBusinessId(businessId);
+    setActiveBusinessId(businessId);
+  };
+
+  // Each new business starts with default settings under its own name and bill numbering from 1
+  const handleAddBusiness = async () => {
+    const name = window.prompt("Name of the new business or branch:");
+    if (!name?.trim()) return;
+    const createdAt = new Date().toISOString();
+    try {
+      const batch = writeBatch(db);
+      if (!businessRegistry.some(b => b.id === DEFAULT_BUSINESS_ID)) {
+        batch.set(doc(db, 'businesses', DEFAULT_BUSINESS_ID), { name: businesses[0].name || 'Main business', createdAt });
+      }
+      const ref = doc(collection(db, 'businesses'));
+      batch.set(ref, { name: name.trim(), createdAt });
+      batch.set(doc(db, businessPath(ref.id, 'settings'), 'general'), { ...DEFAULT_BUSINESS_SETTINGS, name: name.trim() });
+      await batch.commit();
+      handleSwitchBusiness(ref.id);
+    } catch (e) {
+      console.error("Error adding business: ", e);
+      alert("Failed to add business.");
+    }
+  };
+
+  // --- Product Handlers ---
+  const handleProductSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const priceListRates: Partial<Record<PriceList, number>> = {};
+    PRICE_LISTS.forEach(({ value }) => {
+      const rate = prodForm.priceListRates[value];
+      if (value !== 'retail' && rate) priceListRates[value] = Number(rate);
+    });
+    const hasListRates = Object.keys(priceListRates).length > 0;
+    const quantitySlabs = parseQuantitySlabs(prodForm.quantitySlabs);
+
+    // A scan has to lead to exactly one product
+    const barcode = prodForm.barcode.trim();
+    const sameCode = barcode ? findProductByCode(products, barcode) : undefined;
+    if (sameCode && sameCode.id !== editingProductId) {
+      alert(`Barcode/SKU "${barcode}" is already used by ${sameCode.name}.`);
+      return;
+    }
+
+    // Cleared optional fields are left undefined here and deleted on update
+    const values = {
+      name: prodForm.name,
+      rate: Number(prodForm.rate),
+      unit: prodForm.unit,
+      packing: prodForm.packing,
+      hsnCode: prodForm.hsnCode.trim(),
+      barcode: barcode || undefined,
+      gstRate: prodForm.gstRate === '' ? undefined : Number(prodForm.gstRate),
+      reorderLevel: prodForm.reorderLevel === '' ? undefined : Number(prodForm.reorderLevel),
+      priceListRates: hasListRates ? priceListRates : undefined,
+      quantitySlabs: quantitySlabs.length > 0 ? quantitySlabs : undefined
+    };
 
     try {
+      const batch = writeBatch(db);
       if (editingProductId) {
         // Update
-        const productRef = doc(db, 'products', editingProductId);
-        await updateDoc(productRef, {
-          name: prodForm.name,
-          rate: Number(prodForm.rate),
-          unit: prodForm.unit,
-          packing: prodForm.packing
-        });
+        const original = products.find(p => p.id === editingProductId);
+        batch.update(doc(db, scoped('products'), editingProductId), withDeletedFields(values));
+        const changes = diffFields(original, { ...original, ...values }, ['id', 'stock']);
+        if (changes.length > 0) {
+          batch.set(newAuditRef(), stampAudit({ entity: 'product', entityId: editingProductId, entityLabel: values.name, action: 'update', changes }));
+        }
+        await batch.commit();
         setEditingProductId(null);
       } else {
         // Add
-        await addDoc(collection(db, 'products'), {
-          name: prodForm.name,
-          rate: Number(prodForm.rate),
-          unit: prodForm.unit,
-          packing: prodForm.packing,
-        });
+        const productRef = doc(collection(db, scoped('products')));
+        batch.set(productRef, values);
+        batch.set(newAuditRef(), stampAudit({ entity: 'product', entityId: productRef.id, entityLabel: values.name, action: 'create', changes: diffFields(undefined, values) }));
+        await batch.commit();
       }
       // Reset Form
-      setProdForm({ name: '', packing: '', rate: '', unit: 'Kg' });
+      setProdForm({ name: '', packing: '', rate: '', unit: 'Kg', hsnCode: '', barcode: '', gstRate: '', reorderLevel: '', priceListRates: {}, quantitySlabs: '' });
     } catch (e) {
       console.error("Error saving product: ", e);
       alert("Failed to save product.");
@@ -293,7 +1872,13 @@ const App: React.FC = () => {
       name: product.name,
       packing: product.packing || '',
       rate: product.rate.toString(),
-      unit: product.unit
+      unit: product.unit,
+      hsnCode: product.hsnCode || '',
+      barcode: product.barcode || '',
+      gstRate: product.gstRate !== undefined ? product.gstRate.toString() : '',
+      reorderLevel: product.reorderLevel !== undefined ? product.reorderLevel.toString() : '',
+      priceListRates: Object.fromEntries(Object.entries(product.priceListRates || {}).map(([list, rate]) => [list, String(rate)])),
+      quantitySlabs: formatQuantitySlabs(product.quantitySlabs)
     });
     setEditingProductId(product.id);
     setTimeout(() => {
@@ -302,14 +1887,18 @@ const App: React.FC = () => {
   };
 
   const cancelEditProduct = () => {
-    setProdForm({ name: '', packing: '', rate: '', unit: 'Kg' });
+    setProdForm({ name: '', packing: '', rate: '', unit: 'Kg', hsnCode: '', barcode: '', gstRate: '', reorderLevel: '', priceListRates: {}, quantitySlabs: '' });
     setEditingProductId(null);
   };
 
   const deleteProduct = async (id: string) => {
     if (!window.confirm("Are you sure you want to delete this product?")) return;
     try {
-      await deleteDoc(doc(db, 'products', id));
+      const original = products.find(p => p.id === id);
+      const batch = writeBatch(db);
+      batch.delete(doc(db, scoped('products'), id));
+      batch.set(newAuditRef(), stampAudit({ entity: 'product', entityId: id, entityLabel: original?.name || id, action: 'delete', changes: diffFields(original, undefined, ['id', 'stock']) }));
+      await batch.commit();
       if (editingProductId === id) cancelEditProduct();
     } catch (e) {
       console.error("Error deleting product:", e);
@@ -321,25 +1910,39 @@ const App: React.FC = () => {
     e.preventDefault();
     if (!custForm.name.trim()) return;
 
+    const values = {
+      name: custForm.name,
+      city: custForm.city,
+      phone: custForm.phone,
+      openingBalance: Number(custForm.openingBalance) || 0,
+      gstin: custForm.gstin.trim().toUpperCase(),
+      stateCode: custForm.stateCode || stateCodeFromGstin(custForm.gstin),
+      address: custForm.address.trim(),
+      pincode: custForm.pincode.trim(),
+      priceList: custForm.priceList && custForm.priceList !== 'retail' ? custForm.priceList : undefined
+    };
+
     try {
+      const batch = writeBatch(db);
       if (editingCustomerId) {
         // Update
-        const custRef = doc(db, 'customers', editingCustomerId);
-        await updateDoc(custRef, {
-          name: custForm.name,
-          city: custForm.city,
-          phone: custForm.phone
-        });
+        const original = customers.find(c => c.id === editingCustomerId);
+        batch.update(doc(db, scoped('customers'), editingCustomerId), withDeletedFields(values));
+        // Customers added from a bill have no opening balance field, which the form saves as 0
+        const changes = diffFields({ openingBalance: 0, ...original }, { ...original, ...values }, ['id']);
+        if (changes.length > 0) {
+          batch.set(newAuditRef(), stampAudit({ entity: 'customer', entityId: editingCustomerId, entityLabel: values.name, action: 'update', changes }));
+        }
+        await batch.commit();
         setEditingCustomerId(null);
       } else {
         // Add
-        await addDoc(collection(db, 'customers'), {
-          name: custForm.name,
-          city: custForm.city,
-          phone: custForm.phone,
-        });
+        const customerRef = doc(collection(db, scoped('customers')));
+        batch.set(customerRef, values);
+        batch.set(newAuditRef(), stampAudit({ entity: 'customer', entityId: customerRef.id, entityLabel: values.name, action: 'create', changes: diffFields(undefined, values) }));
+        await batch.commit();
       }
-      setCustForm({ name: '', city: '', phone: '' });
+      setCustForm({ name: '', city: '', phone: '', openingBalance: '', gstin: '', stateCode: '', address: '', pincode: '', priceList: '' });
     } catch (e) {
       console.error("Error saving customer:", e);
     }
@@ -349,7 +1952,13 @@ const App: React.FC = () => {
     setCustForm({
       name: customer.name,
       city: customer.city,
-      phone: customer.phone || ''
+      phone: customer.phone || '',
+      openingBalance: customer.openingBalance ? customer.openingBalance.toString() : '',
+      gstin: customer.gstin || '',
+      stateCode: customer.stateCode || '',
+      address: customer.address || '',
+      pincode: customer.pincode || '',
+      priceList: customer.priceList || ''
     });
     setEditingCustomerId(customer.id);
     setTimeout(() => {
@@ -358,20 +1967,37 @@ const App: React.FC = () => {
   };
 
   const cancelEditCustomer = () => {
-    setCustForm({ name: '', city: '', phone: '' });
+    setCustForm({ name: '', city: '', phone: '', openingBalance: '', gstin: '', stateCode: '', address: '', pincode: '', priceList: '' });
     setEditingCustomerId(null);
   };
 
   const deleteCustomer = async (id: string) => {
     if (!window.confirm("Are you sure you want to delete this customer?")) return;
     try {
-      await deleteDoc(doc(db, 'customers', id));
+      const original = customers.find(c => c.id === id);
+      const batch = writeBatch(db);
+      batch.delete(doc(db, scoped('customers'), id));
+      batch.set(newAuditRef(), stampAudit({ entity: 'customer', entityId: id, entityLabel: original?.name || id, action: 'delete', changes: diffFields(original, undefined, ['id']) }));
+      await batch.commit();
       if (editingCustomerId === id) cancelEditCustomer();
     } catch (e) {
       console.error("Error deleting customer:", e);
     }
   };
 
+  // Current balance per customer for the Customers list
+  const customerBalances = useMemo(() => {
+    const balances: Record<string, number> = {};
+    customers.forEach(c => {
+      balances[c.id] = buildCustomerLedger(c, invoices, creditNotes, payments, null, null).closingBalance;
+    });
+    return balances;
+  }, [customers, invoices, creditNotes, payments]);
+
+  const ledgerCustomer = ledgerCustomerId ? customers.find(c => c.id === ledgerCustomerId) || null : null;
+
+  const lowStockCount = products.filter(isLowStock).length;
+
   // --- Logo Handlers ---
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -594,6 +2220,30 @@ const App: React.FC = () => {
     );
   }
 
+  // --- Render Access Check ---
+  if (!staffLoaded) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <Loader2 className="animate-spin text-slate-400 w-8 h-8" />
+      </div>
+    );
+  }
+
+  if (!role) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg w-full max-w-md border-t-4 border-red-600 text-center">
+          <ShieldAlert className="w-12 h-12 text-red-600 mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-slate-800">No access</h1>
+          <p className="text-slate-500 mt-2">{user.email} is not set up as staff of this business. Ask the owner to add you under Settings.</p>
+          <button onClick={handleLogout} className="mt-6 w-full bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 rounded transition">
+            Logout
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // --- Render Main App ---
   return (
     <div className="flex h-screen bg-slate-100 text-slate-900 font-sans overflow-hidden">
@@ -606,6 +2256,25 @@ const App: React.FC = () => {
             {settings.name || 'BILLING'}
           </h1>
           <p className="text-xs text-slate-500 mt-1">v2.0 (Cloud)</p>
+          <div className="mt-3 -mx-2">
+            <BusinessSwitcher
+              businesses={businesses}
+              activeId={activeBusinessId}
+              onSwitch={handleSwitchBusiness}
+              onAdd={hasRole(role, 'owner') ? handleAddBusiness : undefined}
+              dark
+            />
+          </div>
+          <div className="mt-3 -mx-2">
+            <SyncStatus
+              isOnline={isOnline}
+              isSyncing={isSyncing}
+              pendingInvoices={pendingInvoices}
+              conflicts={syncConflicts}
+              onSyncNow={syncPendingInvoices}
+              onDismissConflicts={handleDismissConflicts}
+            />
+          </div>
         </div>
 
         <nav className="flex-1 p-4 space-y-2">
@@ -623,37 +2292,114 @@ const App: React.FC = () => {
             <History className="w-5 h-5" /> Invoice History
           </button>
 
-          <button
-            onClick={() => handleTabChange(AppTab.ANALYTICS)}
-            className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.ANALYTICS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
-          >
-            <BarChart3 className="w-5 h-5" /> AI Analytics
-          </button>
+          {canOpenTab(role, AppTab.QUOTATIONS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.QUOTATIONS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.QUOTATIONS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <FileSignature className="w-5 h-5" /> Quotations
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.SALES_ORDERS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.SALES_ORDERS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SALES_ORDERS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <ClipboardList className="w-5 h-5" /> Sales Orders
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.RECURRING) && (
+            <button
+              onClick={() => handleTabChange(AppTab.RECURRING)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.RECURRING ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Repeat className="w-5 h-5" /> Recurring Bills
+              {invoiceDrafts.length > 0 && (
+                <span className="ml-auto bg-amber-500 text-white text-xs font-bold px-2 py-0.5 rounded-full">{invoiceDrafts.length}</span>
+              )}
+            </button>
+          )}
 
-          <button
-            onClick={() => handleTabChange(AppTab.PRODUCTS)}
-            className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PRODUCTS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
-          >
-            <Package className="w-5 h-5" /> Products
-          </button>
+          {canOpenTab(role, AppTab.ANALYTICS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.ANALYTICS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.ANALYTICS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <BarChart3 className="w-5 h-5" /> AI Analytics
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.GST_REPORTS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.GST_REPORTS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.GST_REPORTS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <FileSpreadsheet className="w-5 h-5" /> GST Returns
+            </button>
+          )}
 
-          <button
-            onClick={() => handleTabChange(AppTab.CUSTOMERS)}
-            className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.CUSTOMERS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
-          >
-            <Users className="w-5 h-5" /> Customers
-          </button>
+          {canOpenTab(role, AppTab.PRODUCTS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.PRODUCTS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PRODUCTS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Package className="w-5 h-5" /> Products
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.INVENTORY) && (
+            <button
+              onClick={() => handleTabChange(AppTab.INVENTORY)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.INVENTORY ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Boxes className="w-5 h-5" /> Inventory
+              {lowStockCount > 0 && (
+                <span className="ml-auto bg-amber-500 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full">{lowStockCount}</span>
+              )}
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.PURCHASES) && (
+            <button
+              onClick={() => handleTabChange(AppTab.PURCHASES)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PURCHASES ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <ShoppingCart className="w-5 h-5" /> Purchases
+            </button>
+          )}
 
-          <button
-            onClick={() => handleTabChange(AppTab.SETTINGS)}
-            className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SETTINGS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
-          >
-            <Settings className="w-5 h-5" /> Settings
-          </button>
+          {canOpenTab(role, AppTab.CUSTOMERS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.CUSTOMERS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.CUSTOMERS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Users className="w-5 h-5" /> Customers
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.SUPPLIERS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.SUPPLIERS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SUPPLIERS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Truck className="w-5 h-5" /> Suppliers
+            </button>
+          )}
+
+          {canOpenTab(role, AppTab.SETTINGS) && (
+            <button
+              onClick={() => handleTabChange(AppTab.SETTINGS)}
+              className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SETTINGS ? 'bg-red-600 text-white' : 'hover:bg-slate-800'}`}
+            >
+              <Settings className="w-5 h-5" /> Settings
+            </button>
+          )}
         </nav>
 
         <div className="p-4 border-t border-slate-800">
-          <div className="text-xs text-slate-500 mb-2 truncate px-2">{user.email}</div>
+          <div className="text-xs text-slate-500 mb-2 truncate px-2">{user.email}{role ? ` · ${ROLE_LABELS[role]}` : ''}</div>
           <button onClick={handleLogout} className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors w-full px-2">
             <LogOut className="w-5 h-5" /> Logout
           </button>
@@ -671,14 +2417,23 @@ const App: React.FC = () => {
           </span>
         </div>
         <div className="flex gap-2 items-center">
+          <SyncStatus
+            isOnline={isOnline}
+            isSyncing={isSyncing}
+            pendingInvoices={pendingInvoices}
+            conflicts={syncConflicts}
+            onSyncNow={syncPendingInvoices}
+            onDismissConflicts={handleDismissConflicts}
+            compact
+          />
           <button onClick={() => setMobileMenuOpen(prev => !prev)} className="p-2 rounded text-slate-400">
             <Menu size={20} />
           </button>
           <div className="hidden sm:flex gap-2">
             <button onClick={() => handleTabChange(AppTab.CREATE_BILL)} className={`p-2 rounded ${activeTab === AppTab.CREATE_BILL ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><FileText size={20} /></button>
             <button onClick={() => handleTabChange(AppTab.INVOICE_HISTORY)} className={`p-2 rounded ${activeTab === AppTab.INVOICE_HISTORY ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><History size={20} /></button>
-            <button onClick={() => handleTabChange(AppTab.ANALYTICS)} className={`p-2 rounded ${activeTab === AppTab.ANALYTICS ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><BarChart3 size={20} /></button>
-            <button onClick={() => handleTabChange(AppTab.SETTINGS)} className={`p-2 rounded ${activeTab === AppTab.SETTINGS ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><Settings size={20} /></button>
+            {canOpenTab(role, AppTab.ANALYTICS) && <button onClick={() => handleTabChange(AppTab.ANALYTICS)} className={`p-2 rounded ${activeTab === AppTab.ANALYTICS ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><BarChart3 size={20} /></button>}
+            {canOpenTab(role, AppTab.SETTINGS) && <button onClick={() => handleTabChange(AppTab.SETTINGS)} className={`p-2 rounded ${activeTab === AppTab.SETTINGS ? 'bg-slate-700 text-white' : 'text-slate-400'}`}><Settings size={20} /></button>}
           </div>
         </div>
       </div>
@@ -687,24 +2442,76 @@ const App: React.FC = () => {
       {mobileMenuOpen && (
         <div className="md:hidden fixed top-16 left-0 w-full bg-white z-40 border-b shadow">
           <nav className="p-4 space-y-2">
+            <BusinessSwitcher
+              businesses={businesses}
+              activeId={activeBusinessId}
+              onSwitch={id => { handleSwitchBusiness(id); setMobileMenuOpen(false); }}
+              onAdd={hasRole(role, 'owner') ? () => { setMobileMenuOpen(false); handleAddBusiness(); } : undefined}
+            />
             <button onClick={() => { handleTabChange(AppTab.CREATE_BILL); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.CREATE_BILL ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
               <FileText className="w-5 h-5" /> Create Bill
             </button>
             <button onClick={() => { handleTabChange(AppTab.INVOICE_HISTORY); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.INVOICE_HISTORY ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
               <History className="w-5 h-5" /> Invoice History
             </button>
-            <button onClick={() => { handleTabChange(AppTab.ANALYTICS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.ANALYTICS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
-              <BarChart3 className="w-5 h-5" /> AI Analytics
-            </button>
-            <button onClick={() => { handleTabChange(AppTab.PRODUCTS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PRODUCTS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
-              <Package className="w-5 h-5" /> Products
-            </button>
-            <button onClick={() => { handleTabChange(AppTab.CUSTOMERS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.CUSTOMERS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
-              <Users className="w-5 h-5" /> Customers
-            </button>
-            <button onClick={() => { handleTabChange(AppTab.SETTINGS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SETTINGS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
-              <Settings className="w-5 h-5" /> Settings
-            </button>
+            {canOpenTab(role, AppTab.QUOTATIONS) && (
+              <button onClick={() => { handleTabChange(AppTab.QUOTATIONS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.QUOTATIONS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <FileSignature className="w-5 h-5" /> Quotations
+              </button>
+            )}
+            {canOpenTab(role, AppTab.SALES_ORDERS) && (
+              <button onClick={() => { handleTabChange(AppTab.SALES_ORDERS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SALES_ORDERS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <ClipboardList className="w-5 h-5" /> Sales Orders
+              </button>
+            )}
+            {canOpenTab(role, AppTab.RECURRING) && (
+              <button onClick={() => { handleTabChange(AppTab.RECURRING); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.RECURRING ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Repeat className="w-5 h-5" /> Recurring Bills
+                {invoiceDrafts.length > 0 && (
+                  <span className="ml-auto bg-amber-500 text-white text-xs font-bold px-2 py-0.5 rounded-full">{invoiceDrafts.length}</span>
+                )}
+              </button>
+            )}
+            {canOpenTab(role, AppTab.ANALYTICS) && (
+              <button onClick={() => { handleTabChange(AppTab.ANALYTICS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.ANALYTICS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <BarChart3 className="w-5 h-5" /> AI Analytics
+              </button>
+            )}
+            {canOpenTab(role, AppTab.GST_REPORTS) && (
+              <button onClick={() => { handleTabChange(AppTab.GST_REPORTS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.GST_REPORTS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <FileSpreadsheet className="w-5 h-5" /> GST Returns
+              </button>
+            )}
+            {canOpenTab(role, AppTab.PRODUCTS) && (
+              <button onClick={() => { handleTabChange(AppTab.PRODUCTS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PRODUCTS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Package className="w-5 h-5" /> Products
+              </button>
+            )}
+            {canOpenTab(role, AppTab.INVENTORY) && (
+              <button onClick={() => { handleTabChange(AppTab.INVENTORY); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.INVENTORY ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Boxes className="w-5 h-5" /> Inventory
+              </button>
+            )}
+            {canOpenTab(role, AppTab.PURCHASES) && (
+              <button onClick={() => { handleTabChange(AppTab.PURCHASES); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.PURCHASES ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <ShoppingCart className="w-5 h-5" /> Purchases
+              </button>
+            )}
+            {canOpenTab(role, AppTab.CUSTOMERS) && (
+              <button onClick={() => { handleTabChange(AppTab.CUSTOMERS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.CUSTOMERS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Users className="w-5 h-5" /> Customers
+              </button>
+            )}
+            {canOpenTab(role, AppTab.SUPPLIERS) && (
+              <button onClick={() => { handleTabChange(AppTab.SUPPLIERS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SUPPLIERS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Truck className="w-5 h-5" /> Suppliers
+              </button>
+            )}
+            {canOpenTab(role, AppTab.SETTINGS) && (
+              <button onClick={() => { handleTabChange(AppTab.SETTINGS); setMobileMenuOpen(false); }} className={`flex items-center gap-3 w-full p-3 rounded-lg transition-colors ${activeTab === AppTab.SETTINGS ? 'bg-red-600 text-white' : 'hover:bg-slate-100'}`}>
+                <Settings className="w-5 h-5" /> Settings
+              </button>
+            )}
             <div className="pt-2 border-t mt-2">
               <button onClick={() => { setMobileMenuOpen(false); handleLogout(); }} className="w-full flex items-center gap-2 bg-slate-200 text-slate-600 p-3 rounded hover:bg-slate-300 transition-colors">
                 <LogOut className="w-4 h-4" /> Logout
@@ -731,8 +2538,13 @@ const App: React.FC = () => {
               customers={customers}
               settings={settings}
               onUpdateSettings={handleUpdateSettings}
-              onSaveInvoice={handleSaveInvoice}
+              onSaveInvoice={handleSaveGeneratedInvoice}
               onUnsavedChanges={(hasChanges) => setHasUnsavedChanges(hasChanges)}
+              editingInvoice={editingInvoice}
+              onAmendInvoice={handleAmendInvoice}
+              onCancelAmend={() => setEditingInvoice(null)}
+              draft={openDraft}
+              onCloseDraft={() => setOpenDraft(null)}
             />
           </div>
         )}
@@ -741,16 +2553,120 @@ const App: React.FC = () => {
           <div className="h-full">
             <InvoiceHistory
               invoices={invoices}
+              customers={customers}
+              creditNotes={creditNotes}
+              payments={payments}
+              settings={settings}
+              onEditInvoice={handleStartAmendInvoice}
+              onCancelInvoice={handleCancelInvoice}
+              onSaveCreditNote={handleSaveCreditNote}
+              onSavePayment={handleSavePayment}
+              onSavePayments={handleSavePayments}
+              onDeletePayment={handleDeletePayment}
+              onSaveEInvoice={handleSaveEInvoice}
+              canManage={hasRole(role, 'manager')}
+            />
+          </div>
+        )}
+
+        {activeTab === AppTab.QUOTATIONS && (
+          <div className="flex-1 min-h-0">
+            <Quotations
+              products={products}
+              customers={customers}
+              quotations={quotations}
+              settings={settings}
+              onSaveQuotation={handleSaveQuotation}
+              onUpdateStatus={handleUpdateQuotationStatus}
+              onDeleteQuotation={handleDeleteQuotation}
+              onConvertToInvoice={handleConvertQuotation}
+            />
+          </div>
+        )}
+
+        {activeTab === AppTab.SALES_ORDERS && (
+          <div className="flex-1 min-h-0">
+            <SalesOrders
+              products={products}
+              customers={customers}
+              salesOrders={salesOrders}
+              challans={challans}
+              settings={settings}
+              onSaveOrder={handleSaveSalesOrder}
+              onUpdateOrderStatus={handleUpdateSalesOrderStatus}
+              onDeleteOrder={handleDeleteSalesOrder}
+              onSaveChallan={handleSaveChallan}
+              onDeleteChallan={handleDeleteChallan}
+              onInvoiceChallans={handleInvoiceChallans}
+            />
+          </div>
+        )}
+
+        {activeTab === AppTab.RECURRING && (
+          <div className="flex-1 min-h-0">
+            <RecurringInvoices
+              products={products}
+              customers={customers}
+              profiles={recurringInvoices}
+              drafts={invoiceDrafts}
               settings={settings}
+              onSaveProfile={handleSaveRecurring}
+              onTogglePause={handleToggleRecurringPause}
+              onDeleteProfile={handleDeleteRecurring}
+              onOpenDraft={handleOpenDraft}
+              onDiscardDraft={handleDiscardDraft}
             />
           </div>
         )}
 
         {activeTab === AppTab.ANALYTICS && (
           <AnalyticsDashboard
+            invoices={analyticsAllBusinesses ? combinedRecords<Invoice>('invoices') : invoices}
+            creditNotes={analyticsAllBusinesses ? combinedRecords<CreditNote>('creditNotes') : creditNotes}
+            products={analyticsAllBusinesses ? combinedRecords<Product>('products') : products}
+            customers={analyticsAllBusinesses ? combinedRecords<Customer>('customers') : customers}
+            allBusinesses={analyticsAllBusinesses}
+            onAllBusinessesChange={businesses.length > 1 ? setAnalyticsAllBusinesses : undefined}
+          />
+        )}
+
+        {activeTab === AppTab.GST_REPORTS && (
+          <GstReports
             invoices={invoices}
+            creditNotes={creditNotes}
+            purchases={purchases}
+            settings={settings}
+          />
+        )}
+
+        {activeTab === AppTab.PURCHASES && (
+          <div className="flex-1 min-h-0">
+            <Purchases
+              products={products}
+              suppliers={suppliers}
+              purchases={purchases}
+              settings={settings}
+              onSavePurchase={handleSavePurchase}
+              onDeletePurchase={handleDeletePurchase}
+              onRecordPayment={handleRecordPurchasePayment}
+            />
+          </div>
+        )}
+
+        {activeTab === AppTab.SUPPLIERS && (
+          <Suppliers
+            suppliers={suppliers}
+            purchases={purchases}
+            onSaveSupplier={handleSaveSupplier}
+            onDeleteSupplier={handleDeleteSupplier}
+          />
+        )}
+
+        {activeTab === AppTab.INVENTORY && (
+          <Inventory
             products={products}
-            customers={customers}
+            stockEntries={stockEntries}
+            onSaveStockEntry={handleSaveStockEntry}
           />
         )}
 
@@ -766,9 +2682,18 @@ const App: React.FC = () => {
                   </h2>
                   <p className="text-xs text-slate-500 mt-1">Manage your product catalog</p>
                 </div>
-                <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
-                  <div className="text-2xl font-bold text-red-600">{products.length}</div>
-                  <div className="text-[10px] text-slate-500 uppercase font-bold">Items</div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowBarcodeLabels(true)}
+                    className="flex items-center gap-2 bg-white text-slate-700 px-3 py-2 rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 text-sm font-bold"
+                    title="Print barcode labels"
+                  >
+                    <Barcode className="w-4 h-4" /> <span className="hidden md:inline">Labels</span>
+                  </button>
+                  <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+                    <div className="text-2xl font-bold text-red-600">{products.length}</div>
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Items</div>
+                  </div>
                 </div>
               </div>
 
@@ -815,6 +2740,40 @@ const App: React.FC = () => {
                       <option>Pkt</option>
                       <option>Ltr</option>
                     </select>
+                    {settings.enableGst && (
+                      <>
+                        <input
+                          name="hsnCode"
+                          placeholder="HSN"
+                          value={prodForm.hsnCode}
+                          onChange={e => setProdForm({ ...prodForm, hsnCode: e.target.value })}
+                          className="w-20 md:w-28 p-2 border border-slate-300 rounded text-sm"
+                        />
+                        <select
+                          name="gstRate"
+                          value={prodForm.gstRate}
+                          onChange={e => setProdForm({ ...prodForm, gstRate: e.target.value })}
+                          className="w-24 md:w-32 p-2 border border-slate-300 rounded text-sm"
+                          title="GST Rate"
+                        >
+                          <option value="">GST: Default ({settings.defaultGstRate || 0}%)</option>
+                          {GST_RATES.map(r => (
+                            <option key={r} value={r}>GST {r}%</option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                    <input
+                      name="reorderLevel"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Reorder at"
+                      value={prodForm.reorderLevel}
+                      onChange={e => setProdForm({ ...prodForm, reorderLevel: e.target.value })}
+                      className="w-20 md:w-28 p-2 border border-slate-300 rounded text-sm"
+                      title="Reorder level (low stock alert)"
+                    />
 
                     {editingProductId ? (
                       <>
@@ -831,6 +2790,37 @@ const App: React.FC = () => {
                       </button>
                     )}
                   </div>
+                  <div className="flex flex-wrap gap-2">
+                    {PRICE_LISTS.filter(l => l.value !== 'retail').map(l => (
+                      <input
+                        key={l.value}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder={`${l.label} rate`}
+                        value={prodForm.priceListRates[l.value] || ''}
+                        onChange={e => setProdForm({ ...prodForm, priceListRates: { ...prodForm.priceListRates, [l.value]: e.target.value } })}
+                        className="w-28 md:w-32 p-2 border border-slate-300 rounded text-sm"
+                        title={`Rate for ${l.label.toLowerCase()} customers; empty uses the retail rate`}
+                      />
+                    ))}
+                    <input
+                      name="barcode"
+                      placeholder="Barcode / SKU"
+                      value={prodForm.barcode}
+                      onChange={e => setProdForm({ ...prodForm, barcode: e.target.value })}
+                      className="w-36 md:w-40 p-2 border border-slate-300 rounded text-sm"
+                      title="Scan the pack's barcode into this box, or type your own SKU"
+                    />
+                    <input
+                      name="quantitySlabs"
+                      placeholder="Qty breaks, e.g. 50:95, 100:90"
+                      value={prodForm.quantitySlabs}
+                      onChange={e => setProdForm({ ...prodForm, quantitySlabs: e.target.value })}
+                      className="flex-1 min-w-[180px] p-2 border border-slate-300 rounded text-sm"
+                      title="Lower rate from a quantity upwards: 50:95 means ₹95 each from 50 units"
+                    />
+                  </div>
                 </form>
               </div>
 
@@ -844,10 +2834,18 @@ const App: React.FC = () => {
                         <div className="flex-1">
                           <h3 className="font-bold text-slate-900 text-lg mb-1">{p.name}</h3>
                           <p className="text-sm text-slate-500">{p.packing || 'No packing info'}</p>
+                          {p.barcode && <p className="text-xs text-slate-400">Code {p.barcode}</p>}
+                          {settings.enableGst && (
+                            <p className="text-xs text-slate-400">HSN {p.hsnCode || '-'} · GST {p.gstRate ?? settings.defaultGstRate ?? 0}%</p>
+                          )}
+                          {isStockTracked(p) && (
+                            <p className={`text-xs font-medium ${isLowStock(p) ? 'text-red-600' : 'text-slate-500'}`}>Stock: {p.stock} {p.unit}</p>
+                          )}
                         </div>
                         <div className="text-right">
                           <div className="text-xl font-bold text-red-600">₹{p.rate}</div>
                           <span className="inline-block mt-1 px-2 py-1 bg-slate-100 rounded text-xs font-medium text-slate-700">{p.unit}</span>
+                          {describePricing(p) && <p className="text-xs text-slate-500 mt-1">{describePricing(p)}</p>}
                         </div>
                       </div>
                       <div className="flex gap-2 pt-3 border-t border-slate-100">
@@ -878,16 +2876,26 @@ const App: React.FC = () => {
                         <th className="p-4 whitespace-nowrap">Packing</th>
                         <th className="p-4 whitespace-nowrap">Rate</th>
                         <th className="p-4 whitespace-nowrap">Unit</th>
+                        <th className="p-4 whitespace-nowrap">HSN / GST</th>
+                        <th className="p-4 whitespace-nowrap">Stock</th>
                         <th className="p-4 text-right">Actions</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                       {products.map(p => (
                         <tr key={p.id} className={`hover:bg-slate-50 transition-colors ${editingProductId === p.id ? 'bg-blue-50' : ''}`}>
-                          <td className="p-4 font-semibold text-slate-900">{p.name}</td>
+                          <td className="p-4">
+                            <div className="font-semibold text-slate-900">{p.name}</div>
+                            {p.barcode && <div className="text-xs text-slate-400">Code {p.barcode}</div>}
+                          </td>
                           <td className="p-4 text-slate-600">{p.packing || '-'}</td>
-                          <td className="p-4 font-bold text-red-600">₹{p.rate}</td>
+                          <td className="p-4">
+                            <div className="font-bold text-red-600">₹{p.rate}</div>
+                            {describePricing(p) && <div className="text-xs text-slate-500">{describePricing(p)}</div>}
+                          </td>
                           <td className="p-4"><span className="px-3 py-1 bg-slate-100 rounded-full text-xs font-medium text-slate-700">{p.unit}</span></td>
+                          <td className="p-4 text-slate-600 text-sm">{p.hsnCode || '-'} · {p.gstRate ?? settings.defaultGstRate ?? 0}%</td>
+                          <td className={`p-4 text-sm font-medium ${isLowStock(p) ? 'text-red-600' : 'text-slate-600'}`}>{isStockTracked(p) ? p.stock : '-'}</td>
                           <td className="p-4 text-right">
                             <div className="flex justify-end gap-2">
                               <button onClick={() => startEditProduct(p)} className="text-blue-500 hover:text-blue-700 hover:bg-blue-50 p-2 rounded transition-colors" title="Edit">
@@ -902,7 +2910,7 @@ const App: React.FC = () => {
                       ))}
                       {products.length === 0 && (
                         <tr>
-                          <td colSpan={5} className="p-12 text-center">
+                          <td colSpan={7} className="p-12 text-center">
                             <Package className="w-16 h-16 mx-auto text-slate-300 mb-3" />
                             <p className="text-slate-400 font-medium">No products in your catalog</p>
                           </td>
@@ -916,7 +2924,22 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {activeTab === AppTab.CUSTOMERS && (
+        {activeTab === AppTab.PRODUCTS && showBarcodeLabels && (
+          <BarcodeLabels products={products} settings={settings} onClose={() => setShowBarcodeLabels(false)} />
+        )}
+
+        {activeTab === AppTab.CUSTOMERS && ledgerCustomer && (
+          <CustomerLedger
+            customer={ledgerCustomer}
+            invoices={invoices}
+            creditNotes={creditNotes}
+            payments={payments}
+            settings={settings}
+            onBack={() => setLedgerCustomerId(null)}
+          />
+        )}
+
+        {activeTab === AppTab.CUSTOMERS && !ledgerCustomer && (
           <div className="h-full flex flex-col overflow-hidden">
             <div className="max-w-6xl mx-auto w-full bg-white md:rounded-lg shadow-sm border-0 md:border border-slate-200 flex flex-col h-full overflow-hidden">
               {/* Header */}
@@ -953,6 +2976,56 @@ const App: React.FC = () => {
                       onChange={e => setCustForm({ ...custForm, city: e.target.value })}
                       className="w-full p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                     />
+                    <input
+                      name="gstin"
+                      placeholder="GSTIN (optional)"
+                      maxLength={15}
+                      value={custForm.gstin}
+                      onChange={e => {
+                        const gstin = e.target.value.toUpperCase();
+                        // Pre-select the state from the GSTIN prefix
+                        setCustForm({ ...custForm, gstin, stateCode: stateCodeFromGstin(gstin) || custForm.stateCode });
+                      }}
+                      className="w-full p-3 border border-slate-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                    <select
+                      name="stateCode"
+                      value={custForm.stateCode}
+                      onChange={e => setCustForm({ ...custForm, stateCode: e.target.value })}
+                      className="w-full p-3 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    >
+                      <option value="">State (same as business)</option>
+                      {INDIAN_STATES.map(st => (
+                        <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      name="address"
+                      placeholder="Address (for e-invoice)"
+                      value={custForm.address}
+                      onChange={e => setCustForm({ ...custForm, address: e.target.value })}
+                      className="w-full p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                    <input
+                      name="pincode"
+                      placeholder="PIN Code"
+                      maxLength={6}
+                      inputMode="numeric"
+                      value={custForm.pincode}
+                      onChange={e => setCustForm({ ...custForm, pincode: e.target.value })}
+                      className="w-full p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                    <select
+                      name="priceList"
+                      value={custForm.priceList || 'retail'}
+                      onChange={e => setCustForm({ ...custForm, priceList: e.target.value as PriceList })}
+                      className="w-full p-3 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      title="Rates filled in automatically when billing this customer"
+                    >
+                      {PRICE_LISTS.map(l => (
+                        <option key={l.value} value={l.value}>Price list: {l.label}</option>
+                      ))}
+                    </select>
                   </div>
                   <div className="flex gap-2">
                     <input
@@ -962,6 +3035,15 @@ const App: React.FC = () => {
                       onChange={e => setCustForm({ ...custForm, phone: e.target.value })}
                       className="flex-1 p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                     />
+                    <input
+                      name="openingBalance"
+                      type="number"
+                      placeholder="Opening Bal. ₹"
+                      title="Amount already owed before billing in this system"
+                      value={custForm.openingBalance}
+                      onChange={e => setCustForm({ ...custForm, openingBalance: e.target.value })}
+                      className="w-28 md:w-36 p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
 
                     {editingCustomerId ? (
                       <>
@@ -988,7 +3070,12 @@ const App: React.FC = () => {
                   {customers.map(c => (
                     <div key={c.id} className={`bg-white border-2 rounded-lg p-4 shadow-sm transition-all ${editingCustomerId === c.id ? 'border-blue-400 bg-blue-50' : 'border-slate-200 hover:border-blue-300'}`}>
                       <div className="mb-3">
-                        <h3 className="font-bold text-slate-900 text-lg mb-1">{c.name}</h3>
+                        <h3 className="font-bold text-slate-900 text-lg mb-1">
+                          {c.name}
+                          {c.priceList && c.priceList !== 'retail' && (
+                            <span className="ml-2 align-middle px-2 py-0.5 bg-amber-100 text-amber-700 rounded text-[10px] font-bold uppercase">{getPriceListLabel(c.priceList)}</span>
+                          )}
+                        </h3>
                         <div className="flex items-center gap-2 text-sm text-slate-600">
                           <span className="inline-flex items-center gap-1">
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1007,7 +3094,14 @@ const App: React.FC = () => {
                           )}
                         </div>
                       </div>
+                      <div className="text-sm mb-3">
+                        <span className="text-slate-500">Balance: </span>
+                        <span className={`font-bold ${customerBalances[c.id] > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatBalance(customerBalances[c.id] || 0)}</span>
+                      </div>
                       <div className="flex gap-2 pt-3 border-t border-slate-100">
+                        <button onClick={() => setLedgerCustomerId(c.id)} className="flex-1 bg-indigo-50 text-indigo-600 py-2 px-3 rounded-lg hover:bg-indigo-100 flex items-center justify-center gap-2 font-medium text-sm transition-colors">
+                          <BookOpen size={16} /> Ledger
+                        </button>
                         <button onClick={() => startEditCustomer(c)} className="flex-1 bg-blue-50 text-blue-600 py-2 px-3 rounded-lg hover:bg-blue-100 flex items-center justify-center gap-2 font-medium text-sm transition-colors">
                           <Edit size={16} /> Edit
                         </button>
@@ -1034,17 +3128,28 @@ const App: React.FC = () => {
                         <th className="p-4 whitespace-nowrap">Customer Name</th>
                         <th className="p-4 whitespace-nowrap">City</th>
                         <th className="p-4 whitespace-nowrap">Phone</th>
+                        <th className="p-4 whitespace-nowrap text-right">Balance</th>
                         <th className="p-4 text-right">Actions</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                       {customers.map(c => (
                         <tr key={c.id} className={`hover:bg-slate-50 transition-colors ${editingCustomerId === c.id ? 'bg-blue-50' : ''}`}>
-                          <td className="p-4 font-semibold text-slate-900">{c.name}</td>
+                          <td className="p-4 font-semibold text-slate-900">
+                            {c.name}
+                            {c.priceList && c.priceList !== 'retail' && (
+                              <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 rounded text-[10px] font-bold uppercase">{getPriceListLabel(c.priceList)}</span>
+                            )}
+                            {c.gstin && <div className="text-xs font-normal text-slate-400">GSTIN {c.gstin}</div>}
+                          </td>
                           <td className="p-4 text-slate-600">{c.city}</td>
                           <td className="p-4 text-slate-500">{c.phone || '-'}</td>
+                          <td className={`p-4 text-right font-bold ${customerBalances[c.id] > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatBalance(customerBalances[c.id] || 0)}</td>
                           <td className="p-4 text-right">
                             <div className="flex justify-end gap-2">
+                              <button onClick={() => setLedgerCustomerId(c.id)} className="text-indigo-500 hover:text-indigo-700 hover:bg-indigo-50 p-2 rounded transition-colors" title="Ledger">
+                                <BookOpen size={18} />
+                              </button>
                               <button onClick={() => startEditCustomer(c)} className="text-blue-500 hover:text-blue-700 hover:bg-blue-50 p-2 rounded transition-colors" title="Edit">
                                 <Edit size={18} />
                               </button>
@@ -1057,7 +3162,7 @@ const App: React.FC = () => {
                       ))}
                       {customers.length === 0 && (
                         <tr>
-                          <td colSpan={4} className="p-12 text-center">
+                          <td colSpan={5} className="p-12 text-center">
                             <Users className="w-16 h-16 mx-auto text-slate-300 mb-3" />
                             <p className="text-slate-400 font-medium">No customers in your database</p>
                           </td>
@@ -1101,6 +3206,31 @@ const App: React.FC = () => {
                       </div>
                     </div>
 
+                    <div className="bg-white p-4 rounded-lg border border-slate-200">
+                      <label className="block text-sm font-bold text-slate-600 mb-1">Default Bill Layout</label>
+                      <p className="text-xs text-slate-500 mb-3">Used when printing, downloading or sharing a bill. You can still pick another layout for a single print.</p>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {INVOICE_LAYOUTS.map(l => (
+                          <label
+                            key={l.value}
+                            className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer transition-colors ${(settings.invoiceLayout || 'classic') === l.value ? 'border-purple-500 bg-purple-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                          >
+                            <input
+                              type="radio"
+                              name="invoiceLayout"
+                              checked={(settings.invoiceLayout || 'classic') === l.value}
+                              onChange={() => handleUpdateSettings({ ...settings, invoiceLayout: l.value })}
+                              className="mt-1 accent-purple-600"
+                            />
+                            <span>
+                              <span className="block text-sm font-bold text-slate-700">{l.label}</span>
+                              <span className="block text-xs text-slate-500">{l.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
                     <div className="bg-white p-4 rounded-lg border border-slate-200">
                       <label className="block text-sm font-bold text-slate-600 mb-4">Business Logo</label>
                       <div className="flex flex-col gap-4">
@@ -1232,6 +3362,26 @@ const App: React.FC = () => {
                       className="w-full p-2 border border-slate-300 rounded"
                     />
                   </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-bold text-slate-600 mb-1">City</label>
+                      <input
+                        value={settings.city || ''}
+                        onChange={e => handleUpdateSettings({ ...settings, city: e.target.value })}
+                        className="w-full p-2 border border-slate-300 rounded"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-bold text-slate-600 mb-1">PIN Code</label>
+                      <input
+                        value={settings.pincode || ''}
+                        onChange={e => handleUpdateSettings({ ...settings, pincode: e.target.value })}
+                        maxLength={6}
+                        inputMode="numeric"
+                        className="w-full p-2 border border-slate-300 rounded"
+                      />
+                    </div>
+                  </div>
                   <div>
                     <label className="block text-sm font-bold text-slate-600 mb-1">Mobile</label>
                     <input
@@ -1344,6 +3494,21 @@ const App: React.FC = () => {
                             onChange={e => handleUpdateSettings({ ...settings, defaultGstRate: parseFloat(e.target.value) })}
                             className="w-full p-2 border border-slate-300 rounded"
                           />
+                          <p className="text-xs text-slate-500 mt-1">Used for products without their own GST rate.</p>
+                        </div>
+                        <div className="md:col-span-2">
+                          <label className="block text-sm font-bold text-slate-600 mb-1">Business State</label>
+                          <select
+                            value={settings.stateCode || ''}
+                            onChange={e => handleUpdateSettings({ ...settings, stateCode: e.target.value })}
+                            className="w-full p-2 border border-slate-300 rounded bg-white"
+                          >
+                            <option value="">{stateCodeFromGstin(settings.gstin) ? `From GSTIN (${getStateName(stateCodeFromGstin(settings.gstin))})` : 'Not set'}</option>
+                            {INDIAN_STATES.map(st => (
+                              <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                            ))}
+                          </select>
+                          <p className="text-xs text-slate-500 mt-1">Bills to customers in another state charge IGST instead of CGST + SGST.</p>
                         </div>
                       </div>
                     )}
@@ -1351,6 +3516,80 @@ const App: React.FC = () => {
 
                   <div className="border-t border-slate-100 my-4"></div>
 
+                  {/* Bill Totals: extra charges, TCS and round-off */}
+                  <h3 className="font-bold text-slate-800">Bill Totals</h3>
+                  <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-4">
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="roundOffTotal"
+                        checked={!!settings.roundOffTotal}
+                        onChange={e => handleUpdateSettings({ ...settings, roundOffTotal: e.target.checked })}
+                        className="w-5 h-5 accent-red-600"
+                      />
+                      <label htmlFor="roundOffTotal" className="text-sm font-bold text-slate-700 cursor-pointer select-none">Round bill totals to the nearest rupee</label>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-bold text-slate-600 mb-1">TCS Rate (%)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={settings.tcsRate || ''}
+                        onChange={e => handleUpdateSettings({ ...settings, tcsRate: parseFloat(e.target.value) || 0 })}
+                        placeholder="e.g. 0.1"
+                        className="w-full md:w-48 p-2 border border-slate-300 rounded"
+                      />
+                      <p className="text-xs text-slate-500 mt-1">Leave empty if you do not collect TCS. When set, each bill can opt in to collect it.</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-bold text-slate-600 mb-1">Extra Charges</label>
+                      <div className="space-y-2">
+                        {(settings.chargePresets || []).map((preset, i) => (
+                          <div key={i} className="flex items-center gap-3">
+                            <input
+                              value={preset.label}
+                              onChange={e => handleUpdateSettings({
+                                ...settings,
+                                chargePresets: (settings.chargePresets || []).map((p, j) => j === i ? { ...p, label: e.target.value } : p)
+                              })}
+                              placeholder="e.g. Freight"
+                              className="flex-1 p-2 border border-slate-300 rounded"
+                            />
+                            <label className="flex items-center gap-2 text-sm text-slate-600 select-none">
+                              <input
+                                type="checkbox"
+                                checked={preset.taxable}
+                                onChange={e => handleUpdateSettings({
+                                  ...settings,
+                                  chargePresets: (settings.chargePresets || []).map((p, j) => j === i ? { ...p, taxable: e.target.checked } : p)
+                                })}
+                                className="accent-red-600"
+                              />
+                              Taxable
+                            </label>
+                            <button
+                              onClick={() => handleUpdateSettings({ ...settings, chargePresets: (settings.chargePresets || []).filter((_, j) => j !== i) })}
+                              className="text-slate-400 hover:text-red-600 p-1"
+                              title="Remove charge"
+                            >
+                              <Trash className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => handleUpdateSettings({ ...settings, chargePresets: [...(settings.chargePresets || []), { label: '', taxable: true }] })}
+                          className="flex items-center gap-2 text-sm font-bold text-red-600 hover:text-red-700"
+                        >
+                          <PlusCircle className="w-4 h-4" /> Add Charge
+                        </button>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">Offered when billing, e.g. Freight or Packing. Taxable charges are taxed at the rate of the main goods on the bill.</p>
+                    </div>
+                  </div>
+
+                  <div className="border-t border-slate-100 my-4"></div>
+
                   {/* Bank Details Section */}
                   <h3 className="font-bold text-slate-800">Bank Details (Printed on Bill)</h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1415,9 +3654,12 @@ const App: React.FC = () => {
                           value={settings.upiId || ''}
                           onChange={e => handleUpdateSettings({ ...settings, upiId: e.target.value })}
                           placeholder="e.g. yourname@okaxis or yournumber@upi"
-                          className="w-full p-2 border border-slate-300 rounded"
+                          className={`w-full p-2 border rounded ${getUpiIdError(settings.upiId || '') ? 'border-red-400' : 'border-slate-300'}`}
                         />
-                        <p className="text-xs text-slate-500 mt-2 italic">A QR code will be dynamically generated for this UPI ID and displayed next to bank details.</p>
+                        {getUpiIdError(settings.upiId || '') && (
+                          <p className="text-xs text-red-600 mt-1">{getUpiIdError(settings.upiId || '')} No QR is printed until this is fixed.</p>
+                        )}
+                        <p className="text-xs text-slate-500 mt-2 italic">Each bill gets a QR code for its amount, generated offline. The bill number goes in as the payment reference, so you can match incoming payments to bills.</p>
                       </div>
                     )}
                   </div>
@@ -1431,10 +3673,107 @@ const App: React.FC = () => {
                     <p className="text-xs text-slate-500 mb-3">Manually update this only if you need to reset or skip numbers.</p>
                     <input
                       type="number"
-                      value={settings.nextInvoiceNumber}
-                      onChange={e => handleUpdateSettings({ ...settings, nextInvoiceNumber: parseInt(e.target.value) || 1 })}
+                      value={getEditableInvoiceCounter(settings)}
+                      onChange={e => handleInvoiceCounterChange(parseInt(e.target.value) || 1)}
                       className="w-full md:w-32 p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
                     />
+
+                    <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 mt-4">
+                      <div>
+                        <label className="block text-sm font-bold text-slate-600 mb-1">Bill Number Format</label>
+                        <input
+                          value={numberFormatDraft ?? settings.invoiceNumberFormat ?? ''}
+                          onChange={e => handleNumberFormatChange(e.target.value)}
+                          onBlur={() => setNumberFormatDraft(null)}
+                          placeholder="e.g. INV/{FY}/{SEQ}"
+                          className="w-full p-2 border border-slate-300 rounded font-mono text-sm"
+                        />
+                        {numberFormatDraft !== null && validateInvoiceNumberFormat(numberFormatDraft || DEFAULT_INVOICE_NUMBER_FORMAT, !!settings.resetNumberingEachYear) && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {validateInvoiceNumberFormat(numberFormatDraft || DEFAULT_INVOICE_NUMBER_FORMAT, !!settings.resetNumberingEachYear)} Not saved.
+                          </p>
+                        )}
+                        <p className="text-xs text-slate-500 mt-1">
+                          Tokens: <code>{'{SEQ}'}</code> running number, <code>{'{FY}'}</code> 2026-27, <code>{'{FY_SHORT}'}</code> 26-27, <code>{'{YYYY}'}</code> year, <code>{'{MM}'}</code> month.
+                        </p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-bold text-slate-600 mb-1">Digits</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="8"
+                          value={settings.invoiceNumberPadding || 1}
+                          onChange={e => handleUpdateSettings({ ...settings, invoiceNumberPadding: Math.min(8, Math.max(1, parseInt(e.target.value) || 1)) })}
+                          className="w-full md:w-24 p-2 border border-slate-300 rounded"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3 mt-4">
+                      <input
+                        type="checkbox"
+                        id="resetNumberingEachYear"
+                        checked={!!settings.resetNumberingEachYear}
+                        onChange={e => handleResetNumberingToggle(e.target.checked)}
+                        className="w-5 h-5 accent-purple-600"
+                      />
+                      <label htmlFor="resetNumberingEachYear" className="text-sm font-bold text-slate-700 cursor-pointer select-none">Restart numbering from 1 every financial year (1 April)</label>
+                    </div>
+
+                    <div className="mt-4 p-3 bg-white rounded border border-slate-200 text-sm">
+                      <span className="text-slate-500">Next bill will be numbered: </span>
+                      <span className="font-mono font-bold text-slate-800">{peekNextInvoiceNumber(settings, new Date().toLocaleDateString('en-GB')).id}</span>
+                    </div>
+                  </div>
+
+                  <div className="border-t border-slate-100 my-6"></div>
+
+                  {/* Staff Section */}
+                  <h3 className="font-bold text-slate-800">Staff Logins</h3>
+                  <StaffAccounts
+                    staff={staff}
+                    currentUserId={user.uid}
+                    onAdd={handleAddStaff}
+                    onChangeRole={handleChangeStaffRole}
+                    onRemove={handleRemoveStaff}
+                  />
+
+                  <div className="border-t border-slate-100 my-6"></div>
+
+                  {/* Change History Section */}
+                  <h3 className="font-bold text-slate-800">Change History</h3>
+                  <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 flex flex-col md:flex-row md:items-center gap-3">
+                    <p className="text-sm text-slate-600 flex-1">
+                      Who changed a product rate, customer, setting or bill, and when, with the old and new values. Entries cannot be edited or removed.
+                    </p>
+                    <button
+                      onClick={() => setShowAuditLog(true)}
+                      className="flex items-center justify-center gap-2 bg-slate-800 text-white px-4 py-2 rounded hover:bg-slate-700 transition-colors font-bold text-sm"
+                    >
+                      <ScrollText className="w-4 h-4" /> View Change History
+                    </button>
+                  </div>
+                  {showAuditLog && (
+                    <AuditLog entries={auditEntries} staff={staff} onClose={() => setShowAuditLog(false)} />
+                  )}
+
+                  <div className="border-t border-slate-100 my-6"></div>
+
+                  {/* Recurring Bills Section */}
+                  <h3 className="font-bold text-slate-800">Recurring Bills</h3>
+                  <div className="bg-amber-50 p-4 rounded-lg border border-amber-200">
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="recurringCreatesFinal"
+                        checked={!!settings.recurringCreatesFinal}
+                        onChange={e => handleUpdateSettings({ ...settings, recurringCreatesFinal: e.target.checked })}
+                        className="w-5 h-5 accent-amber-600"
+                      />
+                      <label htmlFor="recurringCreatesFinal" className="text-sm font-bold text-slate-700 cursor-pointer select-none">Save recurring bills directly instead of as drafts</label>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2 pl-8">When off, due bills wait under Recurring Bills so quantities can be checked before saving.</p>
                   </div>
 
                   {/* Mobile Logout Button */}
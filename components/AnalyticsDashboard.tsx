@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Invoice, Product, Customer } from '../types';
+import { Invoice, Product, Customer, CreditNote } from '../types';
 import { GoogleGenAI, Type } from "@google/genai";
 import {
   BarChart3,
@@ -15,8 +15,11 @@ import {
 
 interface AnalyticsDashboardProps {
   invoices: Invoice[];
+  creditNotes: CreditNote[];
   products: Product[];
   customers: Customer[];
+  allBusinesses?: boolean; // Figures are totalled over every business
+  onAllBusinessesChange?: (all: boolean) => void; // Only offered when there is more than one business
 }
 
 interface AIAnalysisResult {
@@ -104,18 +107,29 @@ const SimplePieChart = ({ data }: { data: { name: string, value: number }[] }) =
   );
 };
 
-export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices, products, customers }) => {
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices: allInvoices, creditNotes, products, customers, allBusinesses, onAllBusinessesChange }) => {
   const [loading, setLoading] = useState(false);
   const [analysis, setAnalysis] = useState<AIAnalysisResult | null>(null);
   const [error, setError] = useState<string>('');
 
+  // Cancelled bills never count towards sales
+  const invoices = useMemo(() => allInvoices.filter(inv => inv.status !== 'cancelled'), [allInvoices]);
+
+  // Credit notes raised against bills that were later cancelled are already excluded with the bill.
+  // Matched within the business, as bill numbers repeat across businesses in the combined view.
+  const activeCreditNotes = useMemo(() => {
+    const activeIds = new Set(invoices.map(inv => `${inv.businessId || ''}/${inv.id}`));
+    return creditNotes.filter(note => activeIds.has(`${note.businessId || ''}/${note.invoiceId}`));
+  }, [invoices, creditNotes]);
+
   // --- Local Calculations (Instant) ---
   const stats = useMemo(() => {
-    const totalRevenue = invoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0);
+    const totalCredited = activeCreditNotes.reduce((sum, note) => sum + (Number(note.total) || 0), 0);
+    const totalRevenue = invoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0) - totalCredited;
     const totalBills = invoices.length;
     const avgBillValue = totalBills > 0 ? totalRevenue / totalBills : 0;
 
-    // Product Frequency
+    // Product Frequency (net of returns)
     const productSales: Record<string, number> = {};
     invoices.forEach(inv => {
       if (inv.items && Array.isArray(inv.items)) {
@@ -125,9 +139,24 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
         });
       }
     });
+    activeCreditNotes.forEach(note => {
+      note.items.forEach(item => {
+        const amt = Number(item.amount) || 0;
+        productSales[item.name] = (productSales[item.name] || 0) - amt;
+      });
+    });
 
     const topProduct = Object.entries(productSales).sort((a, b) => b[1] - a[1])[0];
 
+    // Sales before tax: list value of the goods billed, less discounts, less returns.
+    // Taxable charges sit inside the taxable value, so they are taken back out.
+    const totalDiscounts = invoices.reduce((sum, inv) => sum + (Number(inv.discountAmount) || 0), 0);
+    const taxableCharges = invoices.reduce((sum, inv) =>
+      sum + (inv.charges || []).filter(c => c.taxable).reduce((s, c) => s + (Number(c.amount) || 0), 0), 0);
+    const grossSales = invoices.reduce((sum, inv) => sum + (Number(inv.subtotal ?? inv.total) || 0), 0) - taxableCharges + totalDiscounts;
+    const totalReturns = activeCreditNotes.reduce((sum, note) => sum + (Number(note.subtotal ?? note.total) || 0), 0);
+    const netSales = grossSales - totalDiscounts - totalReturns;
+
     // --- Chart Data Preparation ---
 
     // 1. Daily Revenue (Last 7 days or all time)
@@ -140,6 +169,13 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
         salesByDate[inv.date] = (salesByDate[inv.date] || 0) + amount;
       }
     });
+    // Returns reduce revenue on the day the credit note was issued
+    activeCreditNotes.forEach(note => {
+      if (note.date) {
+        const amount = Number(note.total) || 0;
+        salesByDate[note.date] = (salesByDate[note.date] || 0) - amount;
+      }
+    });
 
     console.log("Analytics: Raw Sales Data", salesByDate);
 
@@ -208,10 +244,14 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
       avgBillValue,
       topProductName: topProduct ? topProduct[0] : 'N/A',
       topProductValue: topProduct ? topProduct[1] : 0,
+      grossSales: Math.round(grossSales),
+      totalDiscounts: Math.round(totalDiscounts),
+      totalReturns: Math.round(totalReturns),
+      netSales: Math.round(netSales),
       chartDataRevenue,
       chartDataProducts
     };
-  }, [invoices]);
+  }, [invoices, activeCreditNotes]);
 
   // --- AI Analysis ---
   const generateInsights = async () => {
@@ -228,7 +268,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
       // We include specific items to allow analysis of what sells together
       const salesSummary = invoices.map(inv => ({
         date: inv.date,
-        total: inv.total,
+        total: inv.total - (inv.creditedAmount || 0),
         customer: inv.customerName,
         city: inv.customerCity,
         items: inv.items.map(i => `${i.name} (${i.quantity} ${i.unit})`).join(', ')
@@ -240,7 +280,10 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
         total_revenue: stats.totalRevenue,
         number_of_bills: stats.totalBills,
         average_bill_value: stats.avgBillValue,
-        top_selling_product_by_revenue: stats.topProductName
+        top_selling_product_by_revenue: stats.topProductName,
+        gross_sales_before_tax: stats.grossSales,
+        total_discounts_given: stats.totalDiscounts,
+        net_sales_before_tax: stats.netSales
       };
 
       const promptData = JSON.stringify(salesSummary);
@@ -319,6 +362,19 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
             </h2>
             <p className="text-xs text-slate-500 mt-1">Real-time stats & AI-powered insights</p>
           </div>
+          {onAllBusinessesChange && (
+            <div className="flex bg-white rounded-lg border border-slate-200 shadow-sm mr-3 overflow-hidden text-xs font-bold">
+              {[false, true].map(all => (
+                <button
+                  key={String(all)}
+                  onClick={() => onAllBusinessesChange(all)}
+                  className={`px-3 py-2 transition-colors ${!!allBusinesses === all ? 'bg-violet-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {all ? 'All businesses' : 'This business'}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
             <div className="text-lg md:text-2xl font-bold text-violet-600">{invoices.length}</div>
             <div className="text-[10px] text-slate-500 uppercase font-bold">Invoices</div>
@@ -368,6 +424,21 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ invoices
               </div>
             </div>
 
+            {/* --- Sales Breakdown (before tax) --- */}
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 grid grid-cols-2 md:grid-cols-4 divide-x divide-y md:divide-y-0 divide-slate-100">
+              {[
+                { label: 'Gross Sales', value: stats.grossSales, className: 'text-slate-900' },
+                { label: 'Discounts', value: -stats.totalDiscounts, className: 'text-green-700' },
+                { label: 'Returns', value: -stats.totalReturns, className: 'text-amber-700' },
+                { label: 'Net Sales', value: stats.netSales, className: 'text-violet-700' }
+              ].map(row => (
+                <div key={row.label} className="p-3 md:p-4">
+                  <div className="text-[10px] text-slate-500 uppercase font-bold">{row.label}</div>
+                  <div className={`text-lg md:text-xl font-bold ${row.className}`}>₹{row.value.toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+
             {/* --- Charts Section --- */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
               {/* Revenue Chart */}
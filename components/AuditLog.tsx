@@ -0,0 +1,138 @@
+import React, { useState, useMemo } from 'react';
+import { X, ScrollText, Search } from 'lucide-react';
+import { AuditAction, AuditEntity, AuditEntry, StaffMember } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, formatFieldName } from '../utils/audit';
+
+interface AuditLogProps {
+  entries: AuditEntry[]; // Newest first
+  staff: StaffMember[];
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  cancel: 'bg-red-100 text-red-700',
+  payment: 'bg-purple-100 text-purple-700'
+};
+
+const PAGE_SIZE = 100;
+
+export const AuditLog: React.FC<AuditLogProps> = ({ entries, staff, onClose }) => {
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | ''>('');
+  const [userFilter, setUserFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Removed staff still appear through their old entries
+  const users = useMemo(
+    () => [...new Set([...staff.map(m => m.email), ...entries.map(e => e.user)])].filter(Boolean).sort(),
+    [staff, entries]
+  );
+  const staffName = (email: string) => staff.find(m => m.email === email)?.name || email || 'Unknown';
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!entityFilter || entry.entity === entityFilter) &&
+      (!userFilter || entry.user === userFilter) &&
+      (!term ||
+        entry.entityLabel.toLowerCase().includes(term) ||
+        entry.entityId.toLowerCase().includes(term) ||
+        entry.changes.some(c => c.field.toLowerCase().includes(term) || formatFieldName(c.field).toLowerCase().includes(term)))
+    );
+  }, [entries, entityFilter, userFilter, search]);
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+      <div className="bg-white w-full max-w-4xl rounded-lg shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-slate-50 to-blue-50 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ScrollText className="w-5 h-5 text-blue-600" />
+              Change History
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Every change to products, customers, settings and bills, with who made it and the old and new values.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 grid grid-cols-1 md:grid-cols-3 gap-3 shrink-0">
+          <select
+            value={entityFilter}
+            onChange={e => { setEntityFilter(e.target.value as AuditEntity | ''); setVisibleCount(PAGE_SIZE); }}
+            className="p-2 border border-slate-300 rounded text-sm bg-white"
+          >
+            <option value="">Everything</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(entity => (
+              <option key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}s</option>
+            ))}
+          </select>
+          <select
+            value={userFilter}
+            onChange={e => { setUserFilter(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            className="p-2 border border-slate-300 rounded text-sm bg-white"
+          >
+            <option value="">All staff</option>
+            {users.map(email => <option key={email} value={email}>{staffName(email)}</option>)}
+          </select>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={e => { setSearch(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              placeholder="Product, customer, bill no. or field"
+              className="w-full p-2 pl-8 border border-slate-300 rounded text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-12">No changes recorded.</p>
+          ) : (
+            filtered.slice(0, visibleCount).map(entry => (
+              <div key={entry.id} className="border border-slate-200 rounded-lg overflow-hidden">
+                <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-slate-50 text-sm">
+                  <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="text-xs text-slate-500">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                  <span className="font-bold text-slate-800">{entry.entity === 'invoice' ? `#${entry.entityLabel}` : entry.entityLabel}</span>
+                  <span className="ml-auto text-xs text-slate-500">
+                    {staffName(entry.user)} · {new Date(entry.at).toLocaleString('en-IN')}
+                  </span>
+                </div>
+                {entry.note && <div className="px-3 pt-2 text-xs text-slate-600">{entry.note}</div>}
+                <table className="w-full text-xs">
+                  <tbody className="divide-y divide-slate-100">
+                    {entry.changes.map((change, i) => (
+                      <tr key={i}>
+                        <td className="p-2 pl-3 w-40 text-slate-500 align-top">{formatFieldName(change.field)}</td>
+                        <td className="p-2 text-red-700 break-all align-top">{change.before ?? <span className="text-slate-300">—</span>}</td>
+                        <td className="p-2 text-green-700 break-all align-top">{change.after ?? <span className="text-slate-300">—</span>}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))
+          )}
+          {filtered.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="w-full py-2 text-sm font-bold text-blue-600 hover:text-blue-700"
+            >
+              Show older changes ({filtered.length - visibleCount} more)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import { X, Upload, Landmark, CheckCircle2, Loader2 } from 'lucide-react';
+import { Invoice, Payment } from '../types';
+import { getOutstanding, PAYMENT_MODE_LABELS } from '../utils/payments';
+import { parseStatementCsv, suggestMatches, SuggestedMatch, MatchConfidence } from '../utils/reconciliation';
+
+interface BankReconciliationProps {
+  invoices: Invoice[];
+  payments: Payment[];
+  onSave: (payments: Omit<Payment, 'id'>[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const CONFIDENCE_STYLES: Record<MatchConfidence, string> = {
+  high: 'bg-green-100 text-green-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-slate-100 text-slate-600'
+};
+
+interface ReviewRow extends SuggestedMatch {
+  selectedInvoiceId: string; // Staff can pick a different bill than the suggestion
+  confirmed: boolean;
+  recorded: boolean; // Saved in this session
+}
+
+export const BankReconciliation: React.FC<BankReconciliationProps> = ({ invoices, payments, onSave, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openInvoices = useMemo(
+    () => invoices.filter(inv => getOutstanding(inv) > 0),
+    [invoices]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again
+    if (!file) return;
+    try {
+      const credits = parseStatementCsv(await file.text());
+      if (credits.length === 0) {
+        alert("No credits found. Export the statement as CSV with a date column and a credit or amount column.");
+        return;
+      }
+      setFileName(file.name);
+      setRows(suggestMatches(credits, invoices, payments).map(match => ({
+        ...match,
+        selectedInvoiceId: match.invoiceId || '',
+        confirmed: false,
+        recorded: false
+      })));
+    } catch (err) {
+      console.error("Error reading statement: ", err);
+      alert("Could not read this file.");
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const toConfirm = rows.filter(row => row.confirmed && row.selectedInvoiceId && !row.recorded && !row.alreadyRecorded);
+  const confirmTotal = toConfirm.reduce((sum, row) => sum + row.credit.amount, 0);
+
+  const handleConfirm = async () => {
+    if (toConfirm.length === 0) return;
+    if (!window.confirm(`Record ${toConfirm.length} payment${toConfirm.length === 1 ? '' : 's'} totalling ₹${confirmTotal.toLocaleString('en-IN')}?`)) return;
+
+    const createdAt = new Date().toISOString();
+    try {
+      setIsSaving(true);
+      await onSave(toConfirm.map(row => ({
+        invoiceId: row.selectedInvoiceId,
+        date: row.credit.date,
+        amount: row.credit.amount,
+        mode: row.credit.mode,
+        reference: row.credit.reference,
+        note: `Reconciled from ${fileName}`,
+        createdAt
+      })));
+      setRows(rows.map(row => (toConfirm.includes(row) ? { ...row, recorded: true, confirmed: false } : row)));
+    } catch (e) {
+      // onSave will have alerted; keep the selection so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectAllHigh = () => {
+    setRows(rows.map(row => (row.confidence === 'high' && !row.recorded && !row.alreadyRecorded ? { ...row, confirmed: true } : row)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+      <div className="bg-white w-full max-w-5xl rounded-lg shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-green-50 to-emerald-50 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Landmark className="w-5 h-5 text-green-600" />
+              Reconcile Bank / UPI Receipts
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Import a bank statement or UPI settlement CSV. Credits are matched to open bills by the bill number in the payment note, then by amount and date.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 flex flex-wrap items-center gap-3 shrink-0">
+          <label className="flex items-center gap-2 px-4 py-2 rounded bg-slate-800 text-white hover:bg-slate-700 text-sm font-bold transition-colors cursor-pointer">
+            <Upload className="w-4 h-4" /> Choose CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+          {fileName && (
+            <span className="text-sm text-slate-600">
+              {fileName}: {rows.length} credit{rows.length === 1 ? '' : 's'}, {rows.filter(r => r.invoiceId && !r.alreadyRecorded).length} matched
+            </span>
+          )}
+          {rows.some(r => r.confidence === 'high' && !r.recorded && !r.alreadyRecorded) && (
+            <button onClick={selectAllHigh} className="ml-auto text-xs font-bold text-green-700 hover:text-green-800">
+              Tick all high-confidence matches
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-12">No statement loaded.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase sticky top-0">
+                <tr>
+                  <th className="p-2 w-8"></th>
+                  <th className="p-2 text-left">Date</th>
+                  <th className="p-2 text-right">Amount</th>
+                  <th className="p-2 text-left">Narration / Reference</th>
+                  <th className="p-2 text-left">Bill</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map((row, index) => {
+                  const done = row.recorded || row.alreadyRecorded;
+                  return (
+                    <tr key={index} className={done ? 'opacity-50' : ''}>
+                      <td className="p-2 text-center">
+                        {done ? (
+                          <CheckCircle2 className="w-4 h-4 text-green-600 inline" />
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={row.confirmed}
+                            disabled={!row.selectedInvoiceId}
+                            onChange={e => updateRow(index, { confirmed: e.target.checked })}
+                            className="w-4 h-4 accent-green-600"
+                          />
+                        )}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{row.credit.date}</td>
+                      <td className="p-2 text-right font-bold whitespace-nowrap">₹{row.credit.amount.toLocaleString('en-IN')}</td>
+                      <td className="p-2">
+                        <div className="text-xs text-slate-700 break-all">{row.credit.description || '—'}</div>
+                        <div className="text-[10px] text-slate-400">
+                          {PAYMENT_MODE_LABELS[row.credit.mode]}{row.credit.reference ? ` · Ref: ${row.credit.reference}` : ''} · Line {row.credit.row}
+                        </div>
+                      </td>
+                      <td className="p-2 min-w-[16rem]">
+                        {row.alreadyRecorded ? (
+                          <span className="text-xs text-slate-500">Already recorded</span>
+                        ) : row.recorded ? (
+                          <span className="text-xs text-green-700 font-bold">Recorded against #{row.selectedInvoiceId}</span>
+                        ) : (
+                          <>
+                            <select
+                              value={row.selectedInvoiceId}
+                              onChange={e => updateRow(index, { selectedInvoiceId: e.target.value, confirmed: !!e.target.value })}
+                              className="w-full p-1.5 border border-slate-300 rounded text-xs bg-white"
+                            >
+                              <option value="">Not matched</option>
+                              {openInvoices.map(inv => (
+                                <option key={inv.id} value={inv.id}>
+                                  #{inv.id} · {inv.date} · {inv.customerName} · due ₹{getOutstanding(inv)}
+                                </option>
+                              ))}
+                            </select>
+                            {row.confidence && row.selectedInvoiceId === row.invoiceId && (
+                              <div className="mt-1 flex items-center gap-1">
+                                <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${CONFIDENCE_STYLES[row.confidence]}`}>{row.confidence}</span>
+                                <span className="text-[10px] text-slate-500">{row.reason}</span>
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end items-center gap-3 shrink-0">
+          {toConfirm.length > 0 && (
+            <span className="text-sm text-slate-600 mr-auto">
+              {toConfirm.length} selected · ₹{confirmTotal.toLocaleString('en-IN')}
+            </span>
+          )}
+          <button onClick={onClose} className="px-4 py-2 rounded bg-slate-100 text-slate-700 hover:bg-slate-200 text-sm font-bold transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving || toConfirm.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-green-600 text-white hover:bg-green-700 text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+            Confirm Matches
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
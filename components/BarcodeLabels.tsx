@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import { Product, BusinessSettings } from '../types';
+import { encodeCode128 } from '../utils/barcode';
+import { printElement } from '../utils/print';
+
+interface BarcodeLabelsProps {
+  products: Product[];
+  settings: BusinessSettings;
+  onClose: () => void;
+}
+
+// Code 128 drawn as SVG bars, one unit per module, with a ten-module quiet zone either side
+const BarcodeSvg: React.FC<{ value: string }> = ({ value }) => {
+  const modules = encodeCode128(value);
+  if (!modules) return <div className="text-[8px] text-red-600">Cannot print "{value}" as a barcode</div>;
+
+  const quiet = 10;
+  const width = modules.reduce((sum, w) => sum + w, 0) + quiet * 2;
+  let x = quiet;
+  const bars = modules.map((w, i) => {
+    const bar = i % 2 === 0 ? <rect key={i} x={x} y={0} width={w} height={40} /> : null;
+    x += w;
+    return bar;
+  });
+  return (
+    <svg viewBox={`0 0 ${width} 40`} preserveAspectRatio="none" className="w-full h-8" shapeRendering="crispEdges">
+      {bars}
+    </svg>
+  );
+};
+
+// A4 sheet of 21 labels (3 x 7, 63.5 x 38.1 mm), the common self-adhesive label stock
+const LABELS_PER_SHEET = 21;
+
+export const BarcodeLabels: React.FC<BarcodeLabelsProps> = ({ products, settings, onClose }) => {
+  const labelled = products.filter(p => p.barcode?.trim());
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [showPrice, setShowPrice] = useState(true);
+
+  const labels = labelled.flatMap(p => Array.from({ length: copies[p.id] || 0 }, () => p));
+  const sheets = Array.from({ length: Math.ceil(labels.length / LABELS_PER_SHEET) }, (_, i) =>
+    labels.slice(i * LABELS_PER_SHEET, (i + 1) * LABELS_PER_SHEET));
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex flex-col no-print">
+      <div className="bg-slate-800 text-white p-3 flex justify-between items-center shrink-0 gap-3">
+        <h3 className="font-bold">Barcode Labels ({labels.length})</h3>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showPrice} onChange={e => setShowPrice(e.target.checked)} />
+            Price
+          </label>
+          <button
+            onClick={() => printElement('barcode-labels', 'Barcode_Labels')}
+            disabled={labels.length === 0}
+            className="flex items-center gap-2 bg-red-600 px-3 py-1.5 rounded hover:bg-red-700 transition-colors text-sm font-bold disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" /> Print
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-700 transition-colors" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+        {/* Products and the number of labels for each */}
+        <div className="md:w-80 bg-white overflow-y-auto p-3 shrink-0 max-h-[40vh] md:max-h-none">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs font-bold text-slate-500 uppercase">Labels per product</span>
+            <button
+              onClick={() => setCopies(Object.fromEntries(labelled.map(p => [p.id, 1])))}
+              className="text-xs font-bold text-red-600 hover:text-red-700"
+            >
+              One of each
+            </button>
+          </div>
+          <div className="space-y-1">
+            {labelled.map(p => (
+              <div key={p.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate" title={p.name}>{p.name} <span className="text-xs text-slate-400">{p.packing}</span></span>
+                <input
+                  type="number"
+                  min="0"
+                  value={copies[p.id] || ''}
+                  onChange={e => setCopies({ ...copies, [p.id]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  placeholder="0"
+                  className="w-16 p-1 border border-slate-300 rounded text-center"
+                />
+              </div>
+            ))}
+            {labelled.length === 0 && (
+              <p className="text-sm text-slate-400 text-center py-6">Add a barcode/SKU to your products to print labels.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Sheet preview */}
+        <div className="flex-1 overflow-auto p-4 bg-slate-500/10">
+          <div id="barcode-labels" className="bg-white w-[210mm] mx-auto">
+            {sheets.map((sheet, sheetIndex) => (
+              <div key={sheetIndex} className="invoice-sheet h-[296mm] overflow-hidden py-[15mm] px-[7mm] grid grid-cols-3 content-start">
+                {sheet.map((p, i) => (
+                  <div key={i} className="h-[38.1mm] px-3 py-2 flex flex-col justify-center text-center text-black overflow-hidden">
+                    <div className="text-[9px] truncate">{settings.name}</div>
+                    <div className="text-xs font-bold truncate">{p.name}{p.packing ? ` ${p.packing}` : ''}</div>
+                    <BarcodeSvg value={p.barcode!.trim()} />
+                    <div className="text-[10px] tracking-widest">{p.barcode!.trim()}</div>
+                    {showPrice && <div className="text-xs font-bold">₹{p.rate}{p.unit ? ` / ${p.unit}` : ''}</div>}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
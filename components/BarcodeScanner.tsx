@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Camera } from 'lucide-react';
+
+// The Shape Detection API is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+declare class BarcodeDetector {
+  constructor(options?: { formats?: string[] });
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+// Chrome on Android (and some desktops) can read barcodes from the camera without a library
+export const canScanWithCamera = (): boolean =>
+  typeof window !== 'undefined' && 'BarcodeDetector' in window && !!navigator.mediaDevices?.getUserMedia;
+
+const SCAN_INTERVAL_MS = 300;
+const REPEAT_DELAY_MS = 1500; // The same code held in view counts once, until it has been out of view this long
+
+interface BarcodeScannerProps {
+  onScan: (code: string) => void;
+  onClose: () => void;
+  status?: string; // Result of the last scan, e.g. "Added Sugar 1 kg"
+}
+
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onScan, onClose, status }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    let lastCode = '';
+    let lastSeen = 0;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new BarcodeDetector();
+        const tick = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const [found] = await detector.detect(videoRef.current);
+            const now = Date.now();
+            if (found?.rawValue) {
+              if (found.rawValue !== lastCode || now - lastSeen > REPEAT_DELAY_MS) {
+                onScanRef.current(found.rawValue);
+              }
+              lastCode = found.rawValue;
+              lastSeen = now;
+            }
+          } catch (e) {
+            // A frame that could not be read; try the next one
+          }
+          timer = window.setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (e) {
+        console.error("Camera error: ", e);
+        setError("Could not open the camera. Allow camera access for this site, or use a USB scanner.");
+      }
+    };
+    start();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 flex flex-col no-print">
+      <div className="bg-slate-800 text-white p-3 flex justify-between items-center shrink-0">
+        <h3 className="font-bold flex items-center gap-2"><Camera className="w-5 h-5" /> Scan Items</h3>
+        <button onClick={onClose} className="p-1 rounded hover:bg-slate-700 transition-colors" title="Done">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="flex-1 flex items-center justify-center overflow-hidden relative">
+        {error ? (
+          <p className="text-white text-center p-6">{error}</p>
+        ) : (
+          <>
+            <video ref={videoRef} className="max-h-full max-w-full" muted playsInline />
+            <div className="absolute inset-x-10 top-1/2 h-0.5 bg-red-500/80 pointer-events-none" />
+          </>
+        )}
+      </div>
+      <div className="bg-slate-800 text-white p-3 text-center text-sm shrink-0">
+        {status || 'Point the camera at a barcode. Each scan adds one unit.'}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { BusinessSettings } from '../types';
+
+interface BusinessHeaderProps {
+  settings: BusinessSettings;
+}
+
+// Letterhead shared by every printed document (bills, credit notes, statements)
+export const BusinessHeader: React.FC<BusinessHeaderProps> = ({ settings }) => {
+  const themeColor = settings.themeColor || '#dc2626';
+  const borderColor = themeColor;
+  const logoWidth = settings.logoWidth || 80;
+
+  return (
+    <div className="border-b-2 p-4 text-center relative" style={{ borderColor: borderColor }}>
+      {/* Logo */}
+      {settings.logoUrl ? (
+        <img
+          src={settings.logoUrl}
+          alt="Logo"
+          className="absolute left-4 top-4 object-contain"
+          style={{ width: `${logoWidth}px`, maxHeight: '120px' }}
+        />
+      ) : (
+        <div
+          className="absolute left-4 top-4 w-16 h-16 border-2 rounded-full flex items-center justify-center"
+          style={{ borderColor: borderColor }}>
+          <div className="text-center">
+            <span className="block text-2xl font-bold leading-none">{settings.logoInitial}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2">
+        <h1 className="text-5xl font-bold tracking-wider mb-1" style={{ color: themeColor }}>{settings.name}</h1>
+        <h2 className="text-2xl font-bold" style={{ color: themeColor }}>{settings.subName}</h2>
+        <p className="mt-1 text-sm" style={{ color: themeColor }}>{settings.address} M.: {settings.mobile}</p>
+        {settings.enableGst && settings.gstin && (
+          <p className="text-sm font-bold" style={{ color: themeColor }}>GSTIN: {settings.gstin}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { Business } from '../types';
+
+interface BusinessSwitcherProps {
+  businesses: Business[];
+  activeId: string;
+  onSwitch: (businessId: string) => void;
+  onAdd?: () => void; // Owners only
+  dark?: boolean; // Sidebar styling; the mobile menu is light
+}
+
+const ADD_OPTION = '__add__';
+
+export const BusinessSwitcher: React.FC<BusinessSwitcherProps> = ({ businesses, activeId, onSwitch, onAdd, dark }) => {
+  // A single business with nobody able to add another needs no switcher
+  if (businesses.length < 2 && !onAdd) return null;
+
+  return (
+    <label className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${dark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}`}>
+      <Building2 className="w-4 h-4 shrink-0" />
+      <select
+        value={activeId}
+        onChange={e => (e.target.value === ADD_OPTION ? onAdd?.() : onSwitch(e.target.value))}
+        className={`flex-1 min-w-0 bg-transparent text-sm font-medium outline-none cursor-pointer ${dark ? 'text-white' : 'text-slate-800'}`}
+        title="Switch business"
+      >
+        {businesses.map(b => (
+          <option key={b.id} value={b.id} className="text-slate-800">{b.name || 'Unnamed business'}</option>
+        ))}
+        {onAdd && <option value={ADD_OPTION} className="text-slate-800">+ Add business or branch…</option>}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useMemo } from 'react';
+import { X, Save, Loader2, Undo2 } from 'lucide-react';
+import { Invoice, CreditNote, InvoiceItem, BusinessSettings, Discount } from '../types';
+import { calculateInvoiceTotals, getDiscountAmount, getGstTreatment, getUniformGstRate, roundMoney } from '../utils/gst';
+import { getReturnedQuantities } from '../utils/stock';
+
+interface CreditNoteFormProps {
+  invoice: Invoice;
+  creditNotes: CreditNote[]; // Existing notes, used to cap returnable quantities
+  settings: BusinessSettings;
+  onSave: (note: CreditNote) => Promise<CreditNote>; // Resolves with the allocated credit note number
+  onClose: () => void;
+}
+
+export const CreditNoteForm: React.FC<CreditNoteFormProps> = ({
+  invoice,
+  creditNotes,
+  settings,
+  onSave,
+  onClose
+}) => {
+  const [returnQty, setReturnQty] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Quantity already returned per invoice line across earlier credit notes
+  const alreadyReturned = useMemo(() => getReturnedQuantities(invoice, creditNotes), [invoice, creditNotes]);
+
+  // Returned lines are credited at the value they were billed at, discount included
+  const returnedItems: InvoiceItem[] = invoice.items
+    .filter(item => (returnQty[item.id] || 0) > 0)
+    .map(item => {
+      const share = returnQty[item.id] / item.quantity;
+      const discountAmount = item.discountAmount ? roundMoney(item.discountAmount * share) : undefined;
+      return {
+        ...item,
+        quantity: returnQty[item.id],
+        amount: roundMoney(item.amount * share),
+        discount: item.discount?.type === 'flat' && discountAmount ? { type: 'flat', value: discountAmount } : item.discount,
+        discountAmount
+      };
+    });
+
+  // A percentage bill discount carries over as is; a flat one is shared by the value returned
+  const billItemsTotal = invoice.items.reduce((sum, item) => sum + item.amount, 0);
+  const discount: Discount | undefined = invoice.discount?.type === 'flat' && billItemsTotal > 0
+    ? {
+        type: 'flat',
+        value: roundMoney(getDiscountAmount(billItemsTotal, invoice.discount)
+          * returnedItems.reduce((sum, item) => sum + item.amount, 0) / billItemsTotal)
+      }
+    : invoice.discount;
+
+  // Charges are shared by the value returned too, so returning everything credits the whole bill
+  const returnedShare = billItemsTotal > 0 ? returnedItems.reduce((sum, item) => sum + item.amount, 0) / billItemsTotal : 0;
+  const charges = (invoice.charges || [])
+    .map(charge => ({ ...charge, amount: roundMoney(charge.amount * returnedShare) }))
+    .filter(charge => charge.amount > 0);
+
+  // Tax follows the original bill so the credit mirrors what was charged: its stored GST
+  // setting and IGST or CGST+SGST split, not today's settings, and each line's own rate
+  const treatment = getGstTreatment(settings, invoice.placeOfSupply, invoice);
+  const gstRate = treatment.enableGst ? (invoice.gstRate || 0) : 0;
+  const totals = calculateInvoiceTotals(returnedItems, {
+    enableGst: treatment.enableGst,
+    defaultGstRate: gstRate,
+    isInterState: treatment.isInterState,
+    billDiscount: discount,
+    charges,
+    tcsRate: invoice.tcsRate
+  });
+  const uniformRate = getUniformGstRate(totals.hsnSummary);
+
+  const handleQtyChange = (item: InvoiceItem, value: string) => {
+    const max = item.quantity - (alreadyReturned[item.id] || 0);
+    const qty = Math.min(Math.max(0, Number(value) || 0), max);
+    setReturnQty(prev => ({ ...prev, [item.id]: qty }));
+  };
+
+  const handleSave = async () => {
+    if (returnedItems.length === 0) {
+      alert("Enter the returned quantity for at least one item.");
+      return;
+    }
+    if (!reason.trim()) {
+      alert("Please enter a reason for the credit note.");
+      return;
+    }
+
+    const note: CreditNote = {
+      id: `CN-${settings.nextCreditNoteNumber || 1}`,
+      invoiceId: invoice.id,
+      date: new Date().toLocaleDateString('en-GB'),
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      customerCity: invoice.customerCity,
+      items: returnedItems,
+      reason: reason.trim(),
+      customerGstin: invoice.customerGstin,
+      placeOfSupply: invoice.placeOfSupply,
+      total: totals.total,
+      discount: totals.billDiscountAmount > 0 ? discount : undefined,
+      charges: charges.length > 0 ? charges : undefined,
+      subtotal: totals.subtotal,
+      gstAmount: totals.gstAmount,
+      gstRate,
+      sgstAmount: totals.sgstAmount,
+      cgstAmount: totals.cgstAmount,
+      igstAmount: totals.igstAmount
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = await onSave(note);
+      alert(`Credit note ${saved.id} saved against Bill #${invoice.id}.`);
+      onClose();
+    } catch (e) {
+      // onSave will have alerted; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+      <div className="bg-white w-full max-w-2xl rounded-lg shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-amber-50 to-orange-50 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Undo2 className="w-5 h-5 text-amber-600" />
+              Credit Note for Bill #{invoice.id}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{invoice.customerName} ({invoice.customerCity})</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-600 text-xs uppercase font-bold">
+              <tr>
+                <th className="p-2">Item</th>
+                <th className="p-2 text-right">Billed</th>
+                <th className="p-2 text-right">Returned</th>
+                <th className="p-2 text-right">Rate</th>
+                <th className="p-2 text-center w-24">Return Qty</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {invoice.items.map(item => {
+                const returned = alreadyReturned[item.id] || 0;
+                const remaining = item.quantity - returned;
+                return (
+                  <tr key={item.id}>
+                    <td className="p-2 font-medium text-slate-800">{item.name} <span className="text-xs text-slate-400">{item.packing ? `(${item.packing})` : ''}</span></td>
+                    <td className="p-2 text-right text-slate-600">{item.quantity}</td>
+                    <td className="p-2 text-right text-slate-400">{returned}</td>
+                    <td className="p-2 text-right text-slate-600">₹{item.rate}</td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max={remaining}
+                        value={returnQty[item.id] || ''}
+                        onChange={(e) => handleQtyChange(item, e.target.value)}
+                        disabled={remaining <= 0}
+                        placeholder="0"
+                        className="w-full p-1.5 border border-slate-300 rounded text-center outline-none focus:border-amber-500 disabled:bg-slate-50"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reason *</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Damaged packets returned"
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm"
+            />
+          </div>
+
+          <div className="p-3 bg-slate-50 rounded border border-slate-200 text-sm">
+            {totals.billDiscountAmount > 0 && (
+              <div className="flex justify-between text-slate-600 mb-1">
+                <span>Less Bill Discount:</span>
+                <span>-₹{totals.billDiscountAmount}</span>
+              </div>
+            )}
+            {totals.gstAmount > 0 && (
+              <>
+                <div className="flex justify-between text-slate-600 mb-1">
+                  <span>Taxable Value:</span>
+                  <span>₹{totals.subtotal}</span>
+                </div>
+                {totals.isInterState ? (
+                  <div className="flex justify-between text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                    <span>IGST{uniformRate !== null ? ` (${uniformRate}%)` : ''}:</span>
+                    <span>₹{totals.igstAmount}</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-slate-600 mb-1">
+                      <span>CGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}:</span>
+                      <span>₹{totals.cgstAmount}</span>
+                    </div>
+                    <div className="flex justify-between text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                      <span>SGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}:</span>
+                      <span>₹{totals.sgstAmount}</span>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+            {totals.otherChargesAmount > 0 && (
+              <div className="flex justify-between text-slate-600 mb-1">
+                <span>Charges:</span>
+                <span>₹{totals.otherChargesAmount}</span>
+              </div>
+            )}
+            {totals.tcsAmount > 0 && (
+              <div className="flex justify-between text-slate-600 mb-1">
+                <span>TCS ({invoice.tcsRate}%):</span>
+                <span>₹{totals.tcsAmount}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold text-lg text-slate-900 mt-1">
+              <span>Credit Total:</span>
+              <span>₹{totals.total}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 rounded bg-slate-100 text-slate-700 hover:bg-slate-200 text-sm font-bold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || returnedItems.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-amber-600 text-white hover:bg-amber-700 text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Credit Note
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowLeft, BookOpen, Printer } from 'lucide-react';
+import { Customer, Invoice, CreditNote, Payment, BusinessSettings } from '../types';
+import { StatementTemplate } from './StatementTemplate';
+import { buildCustomerLedger, formatBalance } from '../utils/ledger';
+import { parseInputDate, formatBillDate } from '../utils/dates';
+import { printElement } from '../utils/print';
+
+interface CustomerLedgerProps {
+  customer: Customer;
+  invoices: Invoice[];
+  creditNotes: CreditNote[];
+  payments: Payment[];
+  settings: BusinessSettings;
+  onBack: () => void;
+}
+
+export const CustomerLedger: React.FC<CustomerLedgerProps> = ({
+  customer,
+  invoices,
+  creditNotes,
+  payments,
+  settings,
+  onBack
+}) => {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const ledger = useMemo(
+    () => buildCustomerLedger(customer, invoices, creditNotes, payments, parseInputDate(startDate), parseInputDate(endDate)),
+    [customer, invoices, creditNotes, payments, startDate, endDate]
+  );
+
+  const periodLabel = useMemo(() => {
+    const from = parseInputDate(startDate);
+    const to = parseInputDate(endDate);
+    if (!from && !to) return 'All Transactions';
+    if (from && to) return `${formatBillDate(from)} to ${formatBillDate(to)}`;
+    return from ? `From ${formatBillDate(from)}` : `Up to ${formatBillDate(to as Date)}`;
+  }, [startDate, endDate]);
+
+  const handlePrint = () => {
+    printElement('statement-capture', `Statement_${customer.name.replace(/[^a-z0-9]/gi, '_')}`);
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="max-w-6xl mx-auto w-full bg-white md:rounded-lg shadow-sm border-0 md:border border-slate-200 flex flex-col h-full overflow-hidden">
+        {/* Header */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-gradient-to-r from-blue-50 to-indigo-50 flex flex-col md:flex-row justify-between items-start md:items-center gap-3 shrink-0">
+          <div className="flex items-center gap-3">
+            <button onClick={onBack} className="p-2 rounded-lg bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors" title="Back to customers">
+              <ArrowLeft size={18} />
+            </button>
+            <div>
+              <h2 className="text-xl md:text-2xl font-bold text-slate-800 flex items-center gap-2">
+                <BookOpen className="w-6 h-6 text-blue-600" />
+                {customer.name}
+              </h2>
+              <p className="text-xs text-slate-500 mt-1">{customer.city}{customer.phone ? ` · ${customer.phone}` : ''}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 w-full md:w-auto">
+            <button
+              onClick={handlePrint}
+              className="flex-1 md:flex-initial flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-medium transition-colors shadow-sm"
+            >
+              <Printer size={14} /> <span>Print Statement</span>
+            </button>
+            <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+              <div className={`text-lg md:text-2xl font-bold ${ledger.closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatBalance(ledger.closingBalance)}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Balance</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-slate-50 shrink-0">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">From Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">To Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Ledger Table */}
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-600 text-xs uppercase font-bold sticky top-0">
+              <tr>
+                <th className="p-3 whitespace-nowrap">Date</th>
+                <th className="p-3 whitespace-nowrap">Particulars</th>
+                <th className="p-3 whitespace-nowrap text-right">Debit</th>
+                <th className="p-3 whitespace-nowrap text-right">Credit</th>
+                <th className="p-3 whitespace-nowrap text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              <tr className="bg-slate-50 font-bold text-slate-700">
+                <td className="p-3"></td>
+                <td className="p-3">Opening Balance</td>
+                <td className="p-3"></td>
+                <td className="p-3"></td>
+                <td className="p-3 text-right">{formatBalance(ledger.openingBalance)}</td>
+              </tr>
+              {ledger.entries.map((entry, index) => (
+                <tr key={`${entry.type}-${entry.reference}-${index}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3 text-slate-500 whitespace-nowrap">{entry.date}</td>
+                  <td className="p-3 text-slate-800">
+                    {entry.description}
+                    {entry.type === 'payment' && entry.reference !== '-' && <span className="text-xs text-slate-400"> · Ref {entry.reference}</span>}
+                  </td>
+                  <td className="p-3 text-right text-slate-900">{entry.debit ? `₹${entry.debit.toLocaleString('en-IN')}` : ''}</td>
+                  <td className="p-3 text-right text-green-700">{entry.credit ? `₹${entry.credit.toLocaleString('en-IN')}` : ''}</td>
+                  <td className="p-3 text-right font-medium text-slate-900 whitespace-nowrap">{formatBalance(entry.balance)}</td>
+                </tr>
+              ))}
+              {ledger.entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-slate-400">No transactions in this period.</td>
+                </tr>
+              )}
+              <tr className="bg-slate-50 font-bold text-slate-700 border-t-2 border-slate-200">
+                <td className="p-3"></td>
+                <td className="p-3">Closing Balance</td>
+                <td className="p-3 text-right">₹{ledger.totalDebit.toLocaleString('en-IN')}</td>
+                <td className="p-3 text-right">₹{ledger.totalCredit.toLocaleString('en-IN')}</td>
+                <td className="p-3 text-right">{formatBalance(ledger.closingBalance)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Hidden statement used as the print source */}
+      <div className="absolute -left-[9999px] top-0">
+        <StatementTemplate
+          id="statement-capture"
+          customer={customer}
+          ledger={ledger}
+          periodLabel={periodLabel}
+          settings={settings}
+        />
+      </div>
+    </div>
+  );
+};
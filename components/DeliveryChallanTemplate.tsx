@@ -0,0 +1,186 @@
+import React from 'react';
+import { InvoiceItem } from '../types';
+import { InvoiceTemplateProps } from './InvoiceTemplate';
+import { BusinessHeader } from './BusinessHeader';
+import { hexToRgba } from '../utils/theme';
+import { formatPlaceOfSupply, getGstTreatment } from '../utils/gst';
+import { formatTotalWeight } from '../utils/format';
+import { paginateRows } from '../utils/pagination';
+
+// Item rows on a sheet that continues onto the next, and above the signatures on the last sheet
+const ROWS_PER_PAGE = 22;
+const LAST_PAGE_ROWS = 17;
+
+// Goods-only copy of a bill for the delivery staff: quantities and packing, no rates or
+// totals. Long lists continue on further A4 sheets with the header repeated on each.
+export const DeliveryChallanTemplate: React.FC<InvoiceTemplateProps> = ({
+  id,
+  billNo,
+  date,
+  customerName,
+  customerCity,
+  customerGstin,
+  placeOfSupply,
+  items,
+  settings,
+  documentTitle = 'DELIVERY CHALLAN',
+  billNoLabel = 'Bill No.',
+  referenceNote,
+  watermark,
+  savedTotals
+}) => {
+  const isGstEnabled = getGstTreatment(settings, placeOfSupply, savedTotals).enableGst;
+  const themeColor = settings.themeColor || '#dc2626';
+  const lightBg = hexToRgba(themeColor, 0.05);
+  const lightBorder = hexToRgba(themeColor, 0.3);
+  const placeOfSupplyLabel = formatPlaceOfSupply(placeOfSupply);
+  const totalQty = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalWeight = formatTotalWeight(items);
+
+  // Long lists continue on further sheets; the customer block opens the first and the
+  // signatures close the last.
+  const pages = paginateRows<InvoiceItem>(items, {
+    rowsPerPage: ROWS_PER_PAGE,
+    lastPageRows: LAST_PAGE_ROWS,
+    firstPageReserve: 3 // Deliver-to, GSTIN and reference lines
+  });
+  const isMultiPage = pages.length > 1;
+  // Quantity before each sheet, printed as brought / carried forward
+  const runningQty = pages.reduce<number[]>((acc, page) => {
+    acc.push(Number((acc[acc.length - 1] + page.rows.reduce((sum, item) => sum + item.quantity, 0)).toFixed(2)));
+    return acc;
+  }, [0]);
+
+  return (
+    <div id={id} className={`bg-white w-[210mm] mx-auto relative font-serif-custom ${isMultiPage ? '' : 'min-h-[297mm] print:min-h-0 p-4'}`} style={{ color: themeColor }}>
+      {pages.map((page, pageIndex) => {
+        const isFirstPage = pageIndex === 0;
+        const isLastPage = pageIndex === pages.length - 1;
+        return (
+          <div key={pageIndex} className={isMultiPage ? 'invoice-sheet min-h-[297mm] relative p-4' : ''}>
+            {watermark && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
+                <span className="text-8xl font-bold tracking-widest border-8 px-6 py-2 opacity-20" style={{ color: themeColor, borderColor: themeColor, transform: 'rotate(-30deg)' }}>
+                  {watermark}
+                </span>
+              </div>
+            )}
+            <div className="border-2" style={{ borderColor: themeColor }}>
+              <BusinessHeader settings={settings} />
+
+              <div className="border-b-2 py-1 text-center text-xl font-bold tracking-[0.3em]" style={{ borderColor: themeColor, backgroundColor: lightBg }}>
+                {documentTitle}
+              </div>
+
+              <div className="flex border-b-2" style={{ borderColor: themeColor }}>
+                <div className="flex-1 p-2 border-r flex items-center" style={{ borderColor: themeColor }}>
+                  <span className="font-bold mr-2">{billNoLabel}:</span>
+                  <span className="text-xl font-medium text-slate-900">{billNo}</span>
+                </div>
+                <div className="flex-1 p-2 flex items-center justify-end">
+                  <span className="font-bold mr-2">Date:</span>
+                  <span className="text-xl font-medium text-slate-900">{date}</span>
+                  {isMultiPage && <span className="ml-3 text-xs font-bold">Page {pageIndex + 1} of {pages.length}</span>}
+                </div>
+              </div>
+
+              {isFirstPage && (
+                <>
+                  {referenceNote && (
+                    <div className="px-2 py-1 border-b-2 text-sm font-bold" style={{ borderColor: themeColor }}>
+                      {referenceNote}
+                    </div>
+                  )}
+
+                  <div className="p-2 border-b-2 flex items-end" style={{ borderColor: themeColor }}>
+                    <span className="font-bold mr-2 mb-1">Deliver to M/s.</span>
+                    <div className="flex-1 border-b border-dashed text-xl font-medium text-slate-900 px-2" style={{ borderColor: lightBorder }}>
+                      {customerName}
+                    </div>
+                    <div className="w-1/3 border-b border-dashed text-xl font-medium text-slate-900 px-2 text-center" style={{ borderColor: lightBorder }}>
+                      {customerCity ? `(${customerCity})` : ''}
+                    </div>
+                  </div>
+
+                  {isGstEnabled && (customerGstin || placeOfSupplyLabel) && (
+                    <div className="flex border-b-2 text-sm" style={{ borderColor: themeColor }}>
+                      <div className="flex-1 px-2 py-1 border-r" style={{ borderColor: themeColor }}>
+                        <span className="font-bold mr-2">GSTIN:</span>
+                        <span className="font-medium text-slate-900">{customerGstin || 'Unregistered'}</span>
+                      </div>
+                      <div className="flex-1 px-2 py-1 text-right">
+                        <span className="font-bold mr-2">Place of Supply:</span>
+                        <span className="font-medium text-slate-900">{placeOfSupplyLabel || '-'}</span>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr style={{ backgroundColor: lightBg }}>
+                    <th className="w-10 p-1 border-r border-b-2" style={{ borderColor: themeColor }}>No.</th>
+                    <th className="p-1 border-r border-b-2" style={{ borderColor: themeColor }}>Details</th>
+                    {isGstEnabled && <th className="w-20 p-1 border-r border-b-2" style={{ borderColor: themeColor }}>HSN</th>}
+                    <th className="w-28 p-1 border-r border-b-2" style={{ borderColor: themeColor }}>Packing</th>
+                    <th className="w-24 p-1 border-b-2" style={{ borderColor: themeColor }}>Qty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {!isFirstPage && (
+                    <tr className="font-bold italic">
+                      <td colSpan={isGstEnabled ? 4 : 3} className="p-1 pr-4 text-right border-r border-b" style={{ borderColor: lightBorder }}>Brought Forward</td>
+                      <td className="p-1 text-center border-b text-slate-900" style={{ borderColor: lightBorder }}>{runningQty[pageIndex]}</td>
+                    </tr>
+                  )}
+                  {page.rows.map((item, index) => (
+                    <tr key={item.id} className="break-inside-avoid">
+                      <td className="p-1 text-center border-r border-b text-slate-800" style={{ borderColor: lightBorder }}>{page.startIndex + index + 1}</td>
+                      <td className="p-1 pl-3 border-r border-b text-lg text-slate-800 font-medium" style={{ borderColor: lightBorder }}>{item.name}</td>
+                      {isGstEnabled && <td className="p-1 text-center border-r border-b text-sm text-slate-800" style={{ borderColor: lightBorder }}>{item.hsnCode || '-'}</td>}
+                      <td className="p-1 text-center border-r border-b text-lg font-handwriting text-slate-900" style={{ borderColor: lightBorder }}>{item.packing || '-'}</td>
+                      <td className="p-1 text-center border-b text-lg font-handwriting text-slate-900" style={{ borderColor: lightBorder }}>{item.quantity} {item.unit}</td>
+                    </tr>
+                  ))}
+                  {isLastPage ? (
+                    <tr className="font-bold">
+                      <td colSpan={isGstEnabled ? 3 : 2} className="p-1 pr-4 text-right border-t-2 border-r" style={{ borderColor: themeColor }}>Total</td>
+                      <td colSpan={2} className="p-1 text-center text-slate-900 border-t-2" style={{ borderColor: themeColor }}>
+                        {totalWeight !== '-' ? totalWeight : Number(totalQty.toFixed(2))} ({items.length} items)
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr className="font-bold italic">
+                      <td colSpan={isGstEnabled ? 4 : 3} className="p-1 pr-4 text-right border-t-2 border-r" style={{ borderColor: themeColor }}>Carried Forward</td>
+                      <td className="p-1 text-center text-slate-900 border-t-2" style={{ borderColor: themeColor }}>{runningQty[pageIndex + 1]}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+
+              {isLastPage && (
+                <div className="flex justify-between items-end p-3 pt-12 border-t-2 break-inside-avoid" style={{ borderColor: themeColor }}>
+                  <div className="text-center w-1/3">
+                    <div className="border-t w-full mb-1" style={{ borderColor: lightBorder }}></div>
+                    <span className="text-xs">Received in good condition</span>
+                  </div>
+                  <div className="text-center w-1/3">
+                    <p className="font-bold mb-1 text-sm">For, {settings.signatureName || settings.name}</p>
+                    {settings.signatureUrl && (
+                      <div className="flex justify-center my-2">
+                        <img src={settings.signatureUrl} alt="Signature" className="max-h-12 object-contain" />
+                      </div>
+                    )}
+                    <div className="border-t w-full mb-1" style={{ borderColor: lightBorder }}></div>
+                    <span className="text-xs">Authorised Signatory</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useMemo } from 'react';
+import { X, Save, Loader2, FileCode, Download, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Invoice, Customer, BusinessSettings, EInvoiceDetails } from '../types';
+import { buildEInvoicePayload, validateEInvoicePayload } from '../utils/einvoice';
+import { downloadFile } from '../utils/download';
+
+interface EInvoicePanelProps {
+  invoice: Invoice;
+  customer?: Customer;
+  settings: BusinessSettings;
+  onSave: (details: EInvoiceDetails) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMPTY_DETAILS: EInvoiceDetails = { irn: '', ackNo: '', ackDate: '', signedQrCode: '' };
+
+export const EInvoicePanel: React.FC<EInvoicePanelProps> = ({
+  invoice,
+  customer,
+  settings,
+  onSave,
+  onClose
+}) => {
+  const [details, setDetails] = useState<EInvoiceDetails>(invoice.eInvoice || EMPTY_DETAILS);
+  const [responseText, setResponseText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const payload = useMemo(() => buildEInvoicePayload(invoice, settings, customer), [invoice, settings, customer]);
+  const issues = useMemo(() => validateEInvoicePayload(payload), [payload]);
+
+  const handleDownload = () => {
+    downloadFile(JSON.stringify(payload, null, 2), `EINV_${invoice.id.replace(/[^a-z0-9]/gi, '_')}.json`, 'application/json');
+  };
+
+  // Accepts the IRP response as pasted from the portal (either the whole response or its Data block)
+  const handleResponsePaste = (text: string) => {
+    setResponseText(text);
+    try {
+      const parsed = JSON.parse(text);
+      const data = parsed.Data ? (typeof parsed.Data === 'string' ? JSON.parse(parsed.Data) : parsed.Data) : parsed;
+      if (data.Irn) {
+        setDetails({
+          irn: String(data.Irn),
+          ackNo: String(data.AckNo || ''),
+          ackDate: String(data.AckDt || ''),
+          signedQrCode: String(data.SignedQRCode || '')
+        });
+      }
+    } catch (e) {
+      // Not JSON yet; the fields below can still be filled by hand
+    }
+  };
+
+  const handleSave = async () => {
+    if (!details.irn.trim() || !details.ackNo.trim() || !details.signedQrCode.trim()) {
+      alert("IRN, Ack No. and Signed QR Code are required.");
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await onSave({
+        irn: details.irn.trim(),
+        ackNo: details.ackNo.trim(),
+        ackDate: details.ackDate.trim(),
+        signedQrCode: details.signedQrCode.trim()
+      });
+      onClose();
+    } catch (e) {
+      // onSave will have alerted; keep the panel open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+      <div className="bg-white w-full max-w-2xl rounded-lg shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-teal-50 to-emerald-50 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <FileCode className="w-5 h-5 text-teal-600" />
+              E-Invoice for Bill #{invoice.id}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{invoice.customerName} ({invoice.customerCity})</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Step 1: Payload */}
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">1. Schema 1.1 JSON</h4>
+            {issues.length === 0 ? (
+              <div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800 flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4 shrink-0" /> Payload passes the schema checks and is ready to upload to the IRP.
+              </div>
+            ) : (
+              <div className="p-3 bg-red-50 border border-red-200 rounded text-xs text-red-800 space-y-1">
+                <div className="font-bold flex items-center gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> Fix {issues.length} issue(s) before export
+                </div>
+                {issues.map(issue => (
+                  <div key={issue.path}>
+                    <span className="font-mono text-red-500">{issue.path}</span> · {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={handleDownload}
+              disabled={issues.length > 0}
+              className="mt-2 flex items-center gap-2 px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700 text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" /> Download JSON
+            </button>
+          </div>
+
+          {/* Step 2: IRP response */}
+          <div className="border-t border-slate-100 pt-4">
+            <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">2. Registration Details</h4>
+            <textarea
+              value={responseText}
+              onChange={(e) => handleResponsePaste(e.target.value)}
+              placeholder="Paste the IRP response JSON here to fill the fields below"
+              rows={3}
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-teal-500 text-xs font-mono mb-3"
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="md:col-span-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">IRN *</label>
+                <input
+                  type="text"
+                  value={details.irn}
+                  onChange={(e) => setDetails({ ...details, irn: e.target.value })}
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-teal-500 text-xs font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Ack No. *</label>
+                <input
+                  type="text"
+                  value={details.ackNo}
+                  onChange={(e) => setDetails({ ...details, ackNo: e.target.value })}
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-teal-500 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Ack Date</label>
+                <input
+                  type="text"
+                  value={details.ackDate}
+                  onChange={(e) => setDetails({ ...details, ackDate: e.target.value })}
+                  placeholder="YYYY-MM-DD HH:MM:SS"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-teal-500 text-sm"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Signed QR Code *</label>
+                <textarea
+                  value={details.signedQrCode}
+                  onChange={(e) => setDetails({ ...details, signedQrCode: e.target.value })}
+                  rows={3}
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-teal-500 text-xs font-mono"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 rounded bg-slate-100 text-slate-700 hover:bg-slate-200 text-sm font-bold transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700 text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save IRN
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
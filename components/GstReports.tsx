@@ -0,0 +1,287 @@
+import React, { useState, useMemo } from 'react';
+import { FileSpreadsheet, Download, AlertTriangle } from 'lucide-react';
+import { Invoice, CreditNote, Purchase, BusinessSettings } from '../types';
+import { buildGstReturn, toGstr1Json, toGstr3bJson, toGstr1Sheets, TaxAmounts } from '../utils/gstr';
+import { getBusinessStateCode, formatPlaceOfSupply, roundMoney } from '../utils/gst';
+import { downloadFile, toCsv } from '../utils/download';
+
+interface GstReportsProps {
+  invoices: Invoice[];
+  creditNotes: CreditNote[];
+  purchases: Purchase[];
+  settings: BusinessSettings;
+}
+
+// Returns are usually filed for the month that just ended
+const previousMonth = () => {
+  const now = new Date();
+  const date = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatMoney = (value: number) => `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const totalTax = (amounts: TaxAmounts) => amounts.iamt + amounts.camt + amounts.samt;
+
+export const GstReports: React.FC<GstReportsProps> = ({
+  invoices,
+  creditNotes,
+  purchases,
+  settings
+}) => {
+  const [period, setPeriod] = useState(previousMonth());
+
+  const data = useMemo(
+    () => buildGstReturn(period, invoices, creditNotes, purchases, settings),
+    [period, invoices, creditNotes, purchases, settings]
+  );
+
+  const warnings = useMemo(() => {
+    const list: string[] = [];
+    if (!data.gstin) list.push('Business GSTIN is not set in Settings. The portal will reject the JSON without it.');
+    if (!getBusinessStateCode(settings)) list.push('Business state is not set, so place of supply defaults cannot be worked out.');
+    if (data.skippedInvoices.length > 0) {
+      list.push(`${data.skippedInvoices.length} bill(s) this month were saved without GST and are not included.`);
+    }
+    const missingHsn = data.hsn.filter(row => !row.hsn).length;
+    if (missingHsn > 0) list.push(`${missingHsn} HSN summary line(s) have no HSN code. Add HSN codes to those products.`);
+    return list;
+  }, [data, settings]);
+
+  const fileSuffix = `${data.gstin || 'GSTIN'}_${data.fp}`;
+
+  const handleDownloadJson = (type: 'GSTR1' | 'GSTR3B') => {
+    const payload = type === 'GSTR1' ? toGstr1Json(data) : toGstr3bJson(data);
+    downloadFile(JSON.stringify(payload, null, 2), `${type}_${fileSuffix}.json`, 'application/json');
+  };
+
+  const handleDownloadSheet = (sheet: 'b2b' | 'b2cs' | 'hsn') => {
+    const { headers, rows } = toGstr1Sheets(data)[sheet];
+    downloadFile(toCsv(headers, rows), `GSTR1_${sheet}_${fileSuffix}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const hasData = data.invoiceCount > 0 || data.creditNotes.txval > 0 || data.purchaseCount > 0;
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="max-w-6xl mx-auto w-full bg-white md:rounded-lg shadow-sm border-0 md:border border-slate-200 flex flex-col h-full overflow-hidden">
+        {/* Header */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-gradient-to-r from-emerald-50 to-teal-50 flex flex-col md:flex-row justify-between items-start md:items-center gap-3 shrink-0">
+          <div className="flex-1">
+            <h2 className="text-xl md:text-2xl font-bold text-slate-800 flex items-center gap-2">
+              <FileSpreadsheet className="w-6 h-6 text-emerald-600" />
+              GST Returns
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">GSTR-1 and GSTR-3B data built from saved bills</p>
+          </div>
+          <div className="flex items-center gap-2 w-full md:w-auto">
+            <input
+              type="month"
+              value={period}
+              onChange={(e) => e.target.value && setPeriod(e.target.value)}
+              className="flex-1 md:flex-initial px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+            <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+              <div className="text-lg md:text-2xl font-bold text-emerald-600">{data.invoiceCount}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Bills</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-5 space-y-5">
+          {warnings.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+              {warnings.map(w => (
+                <div key={w} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> <span>{w}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Downloads */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <button
+              onClick={() => handleDownloadJson('GSTR1')}
+              disabled={!hasData}
+              className="flex items-center justify-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+            >
+              <Download size={14} /> GSTR-1 JSON
+            </button>
+            <button
+              onClick={() => handleDownloadJson('GSTR3B')}
+              disabled={!hasData}
+              className="flex items-center justify-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+            >
+              <Download size={14} /> GSTR-3B JSON
+            </button>
+            {(['b2b', 'b2cs', 'hsn'] as const).map(sheet => (
+              <button
+                key={sheet}
+                onClick={() => handleDownloadSheet(sheet)}
+                disabled={!hasData}
+                className="flex items-center justify-center gap-1 bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+              >
+                <Download size={14} /> {sheet.toUpperCase()} Sheet
+              </button>
+            ))}
+          </div>
+
+          {/* GSTR-3B Summary */}
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">GSTR-3B · 3.1(a) Outward Supplies and 4(A) Input Tax Credit</div>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 text-left"></th>
+                  <th className="p-3 text-right">Taxable Value</th>
+                  <th className="p-3 text-right">IGST</th>
+                  <th className="p-3 text-right">CGST</th>
+                  <th className="p-3 text-right">SGST</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                <tr>
+                  <td className="p-3 text-slate-600">Less: Credit Notes</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.creditNotes.txval)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.creditNotes.iamt)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.creditNotes.camt)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.creditNotes.samt)}</td>
+                </tr>
+                <tr className="font-bold text-slate-900">
+                  <td className="p-3">Net Outward Tax</td>
+                  <td className="p-3 text-right">{formatMoney(data.outward.txval)}</td>
+                  <td className="p-3 text-right">{formatMoney(data.outward.iamt)}</td>
+                  <td className="p-3 text-right">{formatMoney(data.outward.camt)}</td>
+                  <td className="p-3 text-right">{formatMoney(data.outward.samt)}</td>
+                </tr>
+                <tr>
+                  <td className="p-3 text-slate-600">Less: Input Tax Credit ({data.purchaseCount} purchase bill(s))</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.inputTax.txval)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.inputTax.iamt)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.inputTax.camt)}</td>
+                  <td className="p-3 text-right text-slate-600">{formatMoney(data.inputTax.samt)}</td>
+                </tr>
+                <tr className="font-bold text-slate-900 bg-slate-50">
+                  <td className="p-3">Tax after ITC <span className="text-xs font-normal text-slate-500">(negative is credit carried forward)</span></td>
+                  <td className="p-3 text-right"></td>
+                  <td className="p-3 text-right">{formatMoney(roundMoney(data.outward.iamt - data.inputTax.iamt))}</td>
+                  <td className="p-3 text-right">{formatMoney(roundMoney(data.outward.camt - data.inputTax.camt))}</td>
+                  <td className="p-3 text-right">{formatMoney(roundMoney(data.outward.samt - data.inputTax.samt))}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* B2B */}
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">GSTR-1 · B2B Invoices ({data.b2b.length})</div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="p-3 text-left whitespace-nowrap">GSTIN</th>
+                    <th className="p-3 text-left whitespace-nowrap">Bill No</th>
+                    <th className="p-3 text-left whitespace-nowrap">Customer</th>
+                    <th className="p-3 text-left whitespace-nowrap">Place of Supply</th>
+                    <th className="p-3 text-right whitespace-nowrap">Taxable</th>
+                    <th className="p-3 text-right whitespace-nowrap">Tax</th>
+                    <th className="p-3 text-right whitespace-nowrap">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.b2b.map(inv => {
+                    const txval = inv.rates.reduce((sum, r) => sum + r.txval, 0);
+                    const tax = inv.rates.reduce((sum, r) => sum + totalTax(r), 0);
+                    return (
+                      <tr key={inv.inum} className="hover:bg-slate-50">
+                        <td className="p-3 font-mono text-xs text-slate-700">{inv.ctin}</td>
+                        <td className="p-3 font-bold text-slate-800">#{inv.inum}</td>
+                        <td className="p-3 text-slate-700">{inv.receiverName}</td>
+                        <td className="p-3 text-slate-500 text-xs">{formatPlaceOfSupply(inv.pos) || '-'}</td>
+                        <td className="p-3 text-right">{formatMoney(txval)}</td>
+                        <td className="p-3 text-right">{formatMoney(tax)}</td>
+                        <td className="p-3 text-right font-bold">{formatMoney(inv.val)}</td>
+                      </tr>
+                    );
+                  })}
+                  {data.b2b.length === 0 && (
+                    <tr><td colSpan={7} className="p-6 text-center text-slate-400">No bills to registered customers this month.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* B2CS */}
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">GSTR-1 · B2C Small ({data.b2cs.length})</div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="p-3 text-left whitespace-nowrap">Supply</th>
+                    <th className="p-3 text-left whitespace-nowrap">Place of Supply</th>
+                    <th className="p-3 text-right whitespace-nowrap">Rate</th>
+                    <th className="p-3 text-right whitespace-nowrap">Taxable</th>
+                    <th className="p-3 text-right whitespace-nowrap">Tax</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.b2cs.map(row => (
+                    <tr key={`${row.splyType}-${row.pos}-${row.rate}`} className="hover:bg-slate-50">
+                      <td className="p-3 text-slate-700">{row.splyType === 'INTER' ? 'Inter-state' : 'Intra-state'}</td>
+                      <td className="p-3 text-slate-500 text-xs">{formatPlaceOfSupply(row.pos) || '-'}</td>
+                      <td className="p-3 text-right">{row.rate}%</td>
+                      <td className="p-3 text-right">{formatMoney(row.txval)}</td>
+                      <td className="p-3 text-right">{formatMoney(totalTax(row))}</td>
+                    </tr>
+                  ))}
+                  {data.b2cs.length === 0 && (
+                    <tr><td colSpan={5} className="p-6 text-center text-slate-400">No bills to unregistered customers this month.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* HSN */}
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">GSTR-1 · HSN Summary ({data.hsn.length})</div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="p-3 text-left whitespace-nowrap">HSN</th>
+                    <th className="p-3 text-left whitespace-nowrap">Description</th>
+                    <th className="p-3 text-left whitespace-nowrap">UQC</th>
+                    <th className="p-3 text-right whitespace-nowrap">Qty</th>
+                    <th className="p-3 text-right whitespace-nowrap">Rate</th>
+                    <th className="p-3 text-right whitespace-nowrap">Taxable</th>
+                    <th className="p-3 text-right whitespace-nowrap">Tax</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.hsn.map(row => (
+                    <tr key={`${row.hsn}-${row.rate}-${row.uqc}`} className="hover:bg-slate-50">
+                      <td className={`p-3 font-mono text-xs ${row.hsn ? 'text-slate-700' : 'text-red-500'}`}>{row.hsn || 'Missing'}</td>
+                      <td className="p-3 text-slate-700">{row.desc}</td>
+                      <td className="p-3 text-slate-500 text-xs">{row.uqc}</td>
+                      <td className="p-3 text-right">{row.qty}</td>
+                      <td className="p-3 text-right">{row.rate}%</td>
+                      <td className="p-3 text-right">{formatMoney(row.txval)}</td>
+                      <td className="p-3 text-right">{formatMoney(totalTax(row))}</td>
+                    </tr>
+                  ))}
+                  {data.hsn.length === 0 && (
+                    <tr><td colSpan={7} className="p-6 text-center text-slate-400">No taxable sales this month.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
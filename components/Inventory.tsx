@@ -0,0 +1,275 @@
+import React, { useState, useMemo } from 'react';
+import { Boxes, AlertTriangle, PlusCircle, Loader2, ArrowDownCircle, ArrowUpCircle } from 'lucide-react';
+import { Product, StockEntry, StockEntryType } from '../types';
+import { isStockTracked, isLowStock } from '../utils/stock';
+
+interface InventoryProps {
+  products: Product[];
+  stockEntries: StockEntry[];
+  onSaveStockEntry: (entry: Omit<StockEntry, 'id' | 'productName' | 'createdAt'>) => Promise<void>;
+}
+
+type EntryMode = 'purchase' | 'adjustment';
+
+const ENTRY_TYPE_LABELS: Record<StockEntryType, string> = {
+  purchase: 'Stock In',
+  sale: 'Sale',
+  return: 'Return',
+  adjustment: 'Adjustment'
+};
+
+const RECENT_ENTRY_LIMIT = 50;
+
+export const Inventory: React.FC<InventoryProps> = ({
+  products,
+  stockEntries,
+  onSaveStockEntry
+}) => {
+  const [mode, setMode] = useState<EntryMode>('purchase');
+  const [productId, setProductId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [date, setDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const lowStock = useMemo(() => products.filter(isLowStock), [products]);
+  const selectedProduct = products.find(p => p.id === productId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedProduct) return;
+    const value = parseFloat(quantity);
+    if (isNaN(value) || value < 0 || (mode === 'purchase' && value === 0)) {
+      alert("Please enter a valid quantity.");
+      return;
+    }
+
+    // Adjustments take the counted quantity and record the difference
+    const delta = mode === 'purchase' ? value : value - (selectedProduct.stock || 0);
+    if (delta === 0) {
+      alert(`${selectedProduct.name} already shows ${value} ${selectedProduct.unit} in stock.`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSaveStockEntry({
+        productId: selectedProduct.id,
+        date,
+        type: mode,
+        quantity: delta,
+        reference: reference.trim(),
+        note: note.trim()
+      });
+      setQuantity('');
+      setReference('');
+      setNote('');
+    } catch (e) {
+      // onSaveStockEntry will have alerted; keep the form filled in
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="max-w-6xl mx-auto w-full bg-white md:rounded-lg shadow-sm border-0 md:border border-slate-200 flex flex-col h-full overflow-hidden">
+        {/* Header */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-gradient-to-r from-sky-50 to-indigo-50 flex justify-between items-center shrink-0">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-slate-800 flex items-center gap-2">
+              <Boxes className="w-6 h-6 text-sky-600" />
+              Inventory
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">Stock on hand, stock-in and low stock alerts</p>
+          </div>
+          <div className="flex gap-2">
+            <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+              <div className="text-lg md:text-2xl font-bold text-sky-600">{products.filter(p => isStockTracked(p)).length}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Tracked</div>
+            </div>
+            <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+              <div className={`text-lg md:text-2xl font-bold ${lowStock.length > 0 ? 'text-red-600' : 'text-green-600'}`}>{lowStock.length}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Low Stock</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Stock In / Adjustment Form */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-slate-50 shrink-0">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex gap-2">
+              {(['purchase', 'adjustment'] as EntryMode[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1.5 rounded text-xs font-bold border transition-colors ${mode === m ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                >
+                  {m === 'purchase' ? 'Stock In (Purchase)' : 'Adjust to Count'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+              <select
+                required
+                value={productId}
+                onChange={e => setProductId(e.target.value)}
+                className="col-span-2 p-2 border border-slate-300 rounded text-sm bg-white"
+              >
+                <option value="">Select product...</option>
+                {products.map(p => (
+                  <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                required
+                min="0"
+                step="any"
+                placeholder={mode === 'purchase' ? 'Qty received' : 'Counted qty'}
+                value={quantity}
+                onChange={e => setQuantity(e.target.value)}
+                className="p-2 border border-slate-300 rounded text-sm"
+              />
+              <input
+                type="text"
+                placeholder="DD/MM/YYYY"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="p-2 border border-slate-300 rounded text-sm"
+              />
+              <input
+                type="text"
+                placeholder={mode === 'purchase' ? 'Supplier Bill No.' : 'Reference'}
+                value={reference}
+                onChange={e => setReference(e.target.value)}
+                className="p-2 border border-slate-300 rounded text-sm"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="Note"
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  className="flex-1 min-w-0 p-2 border border-slate-300 rounded text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving || !productId}
+                  className="bg-sky-600 text-white p-2 rounded hover:bg-sky-700 flex items-center justify-center min-w-[40px] disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Save Stock Entry"
+                >
+                  {isSaving ? <Loader2 size={20} className="animate-spin" /> : <PlusCircle size={20} />}
+                </button>
+              </div>
+            </div>
+            {selectedProduct && (
+              <p className="text-xs text-slate-500">
+                On hand: <span className="font-bold">{isStockTracked(selectedProduct) ? `${selectedProduct.stock} ${selectedProduct.unit}` : 'not tracked yet'}</span>
+                {mode === 'adjustment' && ' · Enter the quantity physically counted; the difference is recorded as an adjustment.'}
+              </p>
+            )}
+          </form>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-5 space-y-5">
+          {/* Low Stock */}
+          {lowStock.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <div className="font-bold flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" /> Reorder Soon
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-xs">
+                {lowStock.map(p => (
+                  <div key={p.id} className="flex justify-between">
+                    <span>{p.name} {p.packing ? `(${p.packing})` : ''}</span>
+                    <span className="font-bold">{p.stock} / {p.reorderLevel} {p.unit}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Stock Levels */}
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">Stock Levels</div>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 text-left">Product</th>
+                  <th className="p-3 text-right">On Hand</th>
+                  <th className="p-3 text-right">Reorder At</th>
+                  <th className="p-3 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {products.map(p => (
+                  <tr key={p.id} className="hover:bg-slate-50">
+                    <td className="p-3 font-medium text-slate-800">{p.name} <span className="text-xs text-slate-400">{p.packing}</span></td>
+                    <td className={`p-3 text-right font-bold ${isStockTracked(p) && p.stock < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+                      {isStockTracked(p) ? `${p.stock} ${p.unit}` : '-'}
+                    </td>
+                    <td className="p-3 text-right text-slate-600">{p.reorderLevel ?? '-'}</td>
+                    <td className="p-3">
+                      {!isStockTracked(p) ? (
+                        <span className="text-xs text-slate-400">Not tracked</span>
+                      ) : isLowStock(p) ? (
+                        <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-bold">Low</span>
+                      ) : (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-bold">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {products.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="p-8 text-center text-slate-400">No products in your catalog</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Recent Movements */}
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <div className="px-4 py-2 bg-slate-100 text-xs font-bold text-slate-600 uppercase">Recent Stock Movements</div>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 text-left">Date</th>
+                  <th className="p-3 text-left">Product</th>
+                  <th className="p-3 text-left">Type</th>
+                  <th className="p-3 text-left">Reference</th>
+                  <th className="p-3 text-right">Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {stockEntries.slice(0, RECENT_ENTRY_LIMIT).map(entry => (
+                  <tr key={entry.id} className="hover:bg-slate-50">
+                    <td className="p-3 text-slate-600 whitespace-nowrap">{entry.date}</td>
+                    <td className="p-3 font-medium text-slate-800">{entry.productName}</td>
+                    <td className="p-3 text-slate-600">{ENTRY_TYPE_LABELS[entry.type]}</td>
+                    <td className="p-3 text-slate-500 text-xs">{entry.reference || '-'}{entry.note ? ` · ${entry.note}` : ''}</td>
+                    <td className={`p-3 text-right font-bold whitespace-nowrap ${entry.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      <span className="inline-flex items-center gap-1">
+                        {entry.quantity < 0 ? <ArrowUpCircle className="w-3.5 h-3.5" /> : <ArrowDownCircle className="w-3.5 h-3.5" />}
+                        {entry.quantity > 0 ? '+' : ''}{entry.quantity}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+                {stockEntries.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-slate-400">No stock movements yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
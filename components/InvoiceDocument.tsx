@@ -0,0 +1,27 @@
+import React from 'react';
+import { InvoiceLayout } from '../types';
+import { InvoiceTemplate, InvoiceTemplateProps } from './InvoiceTemplate';
+import { ModernInvoiceTemplate } from './ModernInvoiceTemplate';
+import { ThermalReceipt } from './ThermalReceipt';
+import { DeliveryChallanTemplate } from './DeliveryChallanTemplate';
+
+interface InvoiceDocumentProps extends InvoiceTemplateProps {
+  layout?: InvoiceLayout; // Falls back to the business default, then classic
+}
+
+// Renders a bill in the chosen print layout
+export const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({ layout, ...props }) => {
+  switch (layout || props.settings.invoiceLayout || 'classic') {
+    case 'modern':
+      return <ModernInvoiceTemplate {...props} />;
+    case 'thermal80':
+      return <ThermalReceipt {...props} paperWidthMm={80} />;
+    case 'thermal58':
+      return <ThermalReceipt {...props} paperWidthMm={58} />;
+    case 'challan':
+      // The challan has its own heading; keep the bill number for reference
+      return <DeliveryChallanTemplate {...props} documentTitle={undefined} />;
+    default:
+      return <InvoiceTemplate {...props} />;
+  }
+};
@@ -1,15 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Minus, Trash2, Printer, Save, Eye, FilePlus, Loader2 } from 'lucide-react';
-import { InvoiceTemplate } from './InvoiceTemplate';
-import { Product, Customer, InvoiceItem, BusinessSettings, Invoice } from '../types';
+import { Plus, Minus, Trash2, Printer, Save, Eye, FilePlus, Loader2, AlertTriangle, Download, Share2, ScanLine, Camera } from 'lucide-react';
+import { InvoiceDocument } from './InvoiceDocument';
+import { BarcodeScanner, canScanWithCamera } from './BarcodeScanner';
+import { Product, Customer, InvoiceItem, BusinessSettings, Invoice, SaveInvoiceResult, InvoiceLayout, InvoiceDraft, Discount, DiscountType, ExtraCharge } from '../types';
+import { printElement } from '../utils/print';
+import { pdfFileName, downloadPdf, sharePdf, canSharePdf } from '../utils/pdf';
+import { peekNextInvoiceNumber } from '../utils/numbering';
+import { calculateInvoiceTotals, getBusinessStateCode, getUniformGstRate, isInterStateSupply, priceLine, roundMoney } from '../utils/gst';
+import { getStockShortfalls, isStockTracked } from '../utils/stock';
+import { resolveRate } from '../utils/pricing';
+import { findProductByCode } from '../utils/barcode';
+import { INDIAN_STATES, INVOICE_LAYOUTS } from '../constants';
 
 interface InvoiceGeneratorProps {
   products: Product[];
   customers: Customer[];
   settings: BusinessSettings;
   onUpdateSettings: (newSettings: BusinessSettings) => void;
-  onSaveInvoice: (invoice: Invoice) => Promise<void>;
+  onSaveInvoice: (invoice: Invoice) => Promise<SaveInvoiceResult>; // Resolves with the allocated bill number
   onUnsavedChanges?: (hasChanges: boolean) => void;
+  // Amendment mode: a saved invoice reopened from history
+  editingInvoice?: Invoice | null;
+  onAmendInvoice?: (invoice: Invoice) => Promise<void>;
+  onCancelAmend?: () => void;
+  // A recurring draft, quotation or challans opened for review; saved as a new bill
+  draft?: InvoiceDraft | null;
+  onCloseDraft?: () => void;
 }
 
 export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
@@ -18,30 +34,87 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
   settings,
   onUpdateSettings,
   onSaveInvoice,
-  onUnsavedChanges
+  onUnsavedChanges,
+  editingInvoice,
+  onAmendInvoice,
+  onCancelAmend,
+  draft,
+  onCloseDraft
 }) => {
-  // Initialize billNo from settings
-  const [billNo, setBillNo] = useState<string>(settings.nextInvoiceNumber.toString());
   const [date, setDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  // Initialize billNo from settings; the final number is allocated when saving
+  const [billNo, setBillNo] = useState<string>(peekNextInvoiceNumber(settings, date).id);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerName, setCustomerName] = useState('');
   const [customerCity, setCustomerCity] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState(''); // Buyer's state code; empty means within our state
 
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [selectedProductID, setSelectedProductID] = useState<string>('');
   const [qty, setQty] = useState<number>(1);
   const [customRate, setCustomRate] = useState<string>(''); // Custom rate input
+  const [scanCode, setScanCode] = useState('');
+  const [scanStatus, setScanStatus] = useState<{ text: string; found: boolean } | null>(null);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
+  const [billDiscountType, setBillDiscountType] = useState<DiscountType>('percent');
+  const [billDiscountValue, setBillDiscountValue] = useState<string>('');
+  const [charges, setCharges] = useState<ExtraCharge[]>([]);
+  const [tcsRate, setTcsRate] = useState(0); // 0 when TCS is not collected on this bill
   const [showPreviewMobile, setShowPreviewMobile] = useState(false); // Mobile tab state
   const [isSaved, setIsSaved] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [exporting, setExporting] = useState<'pdf' | 'share' | null>(null);
+  const [layout, setLayout] = useState<InvoiceLayout>(settings.invoiceLayout || 'classic');
+  const paperWidthMm = INVOICE_LAYOUTS.find(l => l.value === layout)?.paperWidthMm;
+  const isAmending = !!editingInvoice;
+
+  // Follow the business default when it changes in settings; a pick here is for this print only
+  useEffect(() => {
+    setLayout(settings.invoiceLayout || 'classic');
+  }, [settings.invoiceLayout]);
 
   // Sync billNo if settings change externally or on mount
   useEffect(() => {
-    // Only update billNo if we're not looking at a just-saved invoice
-    if (!isSaved) {
-      setBillNo(settings.nextInvoiceNumber.toString());
+    // Only update billNo if we're not looking at a just-saved or reopened invoice
+    if (!isSaved && !editingInvoice) {
+      setBillNo(peekNextInvoiceNumber(settings, date).id);
     }
-  }, [settings.nextInvoiceNumber, isSaved]);
+  }, [settings, date, isSaved, editingInvoice]);
+
+  // Load a reopened invoice into the form
+  useEffect(() => {
+    if (!editingInvoice) return;
+    setBillNo(editingInvoice.id);
+    setDate(editingInvoice.date);
+    setSelectedCustomer(customers.find(c => c.id === editingInvoice.customerId) || null);
+    setCustomerName(editingInvoice.customerName);
+    setCustomerCity(editingInvoice.customerCity);
+    setCustomerGstin(editingInvoice.customerGstin || '');
+    setPlaceOfSupply(editingInvoice.placeOfSupply || '');
+    setItems(editingInvoice.items);
+    setBillDiscountType(editingInvoice.discount?.type || 'percent');
+    setBillDiscountValue(editingInvoice.discount ? editingInvoice.discount.value.toString() : '');
+    setCharges(editingInvoice.charges || []);
+    setTcsRate(editingInvoice.tcsRate || 0);
+    setIsSaved(false);
+  }, [editingInvoice]);
+
+  // Load a draft into the form; it takes the next bill number like any new bill
+  useEffect(() => {
+    if (!draft) return;
+    setDate(draft.date);
+    setSelectedCustomer(customers.find(c => c.id === draft.customerId) || null);
+    setCustomerName(draft.customerName);
+    setCustomerCity(draft.customerCity);
+    setCustomerGstin(draft.customerGstin || '');
+    setPlaceOfSupply(draft.placeOfSupply || '');
+    setItems(draft.items);
+    setBillDiscountValue('');
+    setCharges([]);
+    setTcsRate(0);
+    setIsSaved(false);
+  }, [draft]);
 
   // Notify parent of unsaved changes
   useEffect(() => {
@@ -51,21 +124,19 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
     }
   }, [items, customerName, customerCity, isSaved, onUnsavedChanges]);
 
-  // Auto-fill rate when product is selected
+  // Auto-fill the rate for the customer's price list and the quantity being added
+  const priceList = selectedCustomer?.priceList;
+  const selectedProduct = products.find(p => p.id === selectedProductID);
+  const suggestedRate = selectedProduct ? resolveRate(selectedProduct, qty, priceList) : null;
   useEffect(() => {
-    if (selectedProductID) {
-      const product = products.find(p => p.id === selectedProductID);
-      if (product) {
-        setCustomRate(product.rate.toString());
-      }
-    } else {
-      setCustomRate('');
-    }
-  }, [selectedProductID, products]);
+    setCustomRate(suggestedRate ? suggestedRate.rate.toString() : '');
+  }, [selectedProductID, products, qty, priceList]);
 
   // Scaling logic for responsiveness
   const [scale, setScale] = useState(1);
   const previewContainerRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [previewHeight, setPreviewHeight] = useState(1123);
 
   useEffect(() => {
     const calculateScale = () => {
@@ -90,74 +161,131 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
     return () => window.removeEventListener('resize', calculateScale);
   }, [showPreviewMobile]);
 
+  // Long bills run onto extra A4 sheets; track the unscaled height so the preview can scroll through them
+  useEffect(() => {
+    if (previewRef.current) setPreviewHeight(previewRef.current.offsetHeight);
+  }, [items, settings, showPreviewMobile, billDiscountValue, charges, tcsRate]);
+
   // Calculations
-  const subtotal = items.reduce((sum, i) => sum + i.amount, 0);
   const gstRate = settings.enableGst ? (settings.defaultGstRate || 0) : 0;
+  const billDiscount: Discount | undefined = parseFloat(billDiscountValue) > 0
+    ? { type: billDiscountType, value: parseFloat(billDiscountValue) }
+    : undefined;
+  const totals = calculateInvoiceTotals(items, {
+    enableGst: settings.enableGst,
+    defaultGstRate: gstRate,
+    isInterState: isInterStateSupply(getBusinessStateCode(settings), placeOfSupply),
+    billDiscount,
+    charges,
+    tcsRate,
+    roundOff: !!settings.roundOffTotal
+  });
+  const billedCharges = charges.filter(c => c.amount > 0);
+  const uniformRate = getUniformGstRate(totals.hsnSummary);
+  // An amended bill has already taken its original quantities out of stock
+  const stockShortfalls = getStockShortfalls(items, products, editingInvoice?.items);
 
-  // Split GST into SGST and CGST
-  const halfRate = gstRate / 2;
-  const sgstAmount = settings.enableGst ? Math.round(subtotal * (halfRate / 100)) : 0;
-  const cgstAmount = settings.enableGst ? Math.round(subtotal * (halfRate / 100)) : 0;
-
-  const totalTax = sgstAmount + cgstAmount;
-  const grandTotal = subtotal + totalTax;
-
-
-  const addItem = () => {
-    if (!selectedProductID) return;
-
-    const product = products.find(p => p.id === selectedProductID);
-    if (!product) return;
 
-    // Use custom rate if provided, otherwise use product's default rate
-    const finalRate = customRate && parseFloat(customRate) > 0 ? parseFloat(customRate) : product.rate;
+  // Adds `quantity` of a product, merging into a line already billed at the same rate.
+  // Without a typed rate it joins the line on the automatic rate, which follows the slabs.
+  const addProduct = (product: Product, quantity: number, typedRate?: number) => {
+    const resolved = resolveRate(product, quantity, priceList);
+    const finalRate = typedRate ?? resolved.rate;
+    const rateNote = typedRate === undefined ? resolved.note : finalRate !== product.rate ? 'Special rate' : undefined;
 
-    // Check if item with same productId and same rate already exists in current bill
-    const existingIndex = items.findIndex(item => item.productId === product.id && item.rate === finalRate);
+    setItems(prev => {
+      const existingIndex = prev.findIndex(item => item.productId === product.id && (typedRate === undefined
+        ? item.rate === resolveRate(product, item.quantity, priceList).rate
+        : item.rate === finalRate));
 
-    if (existingIndex > -1) {
-      const newItems = [...items];
-      const existingItem = newItems[existingIndex];
-      const newQty = existingItem.quantity + qty;
-      newItems[existingIndex] = {
-        ...existingItem,
-        quantity: newQty,
-        amount: newQty * existingItem.rate
-      };
-      setItems(newItems);
-    } else {
+      if (existingIndex > -1) {
+        const newItems = [...prev];
+        const existingItem = newItems[existingIndex];
+        newItems[existingIndex] = withQuantity(existingItem, existingItem.quantity + quantity);
+        return newItems;
+      }
       const newItem: InvoiceItem = {
-        id: Date.now().toString(),
+        id: `${Date.now()}${prev.length}`,
         productId: product.id,
         name: product.name,
-        quantity: qty,
+        quantity,
         unit: product.unit,
         rate: finalRate,
-        amount: qty * finalRate,
-        packing: product.packing
+        amount: roundMoney(quantity * finalRate),
+        packing: product.packing,
+        hsnCode: product.hsnCode,
+        gstRate: product.gstRate ?? settings.defaultGstRate,
+        rateNote
       };
-      setItems([...items, newItem]);
-    }
+      return [...prev, newItem];
+    });
+    setIsSaved(false);
+  };
+
+  const addItem = () => {
+    const product = products.find(p => p.id === selectedProductID);
+    if (!product) return;
+
+    // A rate typed over the suggested one is kept as a special rate
+    const typed = parseFloat(customRate);
+    addProduct(product, qty, typed > 0 && typed !== resolveRate(product, qty, priceList).rate ? typed : undefined);
 
     setSelectedProductID('');
     setQty(1);
     setCustomRate('');
-    setIsSaved(false);
+  };
+
+  // Keyboard-wedge scanners type the code and press Enter; the camera scanner calls this directly
+  const handleScan = (code: string) => {
+    const product = findProductByCode(products, code);
+    if (!product) {
+      setScanStatus({ text: `No product with barcode/SKU "${code.trim()}"`, found: false });
+      return;
+    }
+    addProduct(product, 1);
+    setScanStatus({ text: `Added ${product.name}${product.packing ? ` (${product.packing})` : ''}`, found: true });
+  };
+
+  // A line still on its automatic rate moves with the quantity slabs; a typed rate is kept
+  const withQuantity = (item: InvoiceItem, quantity: number): InvoiceItem => {
+    const product = products.find(p => p.id === item.productId);
+    let { rate, rateNote } = item;
+    if (product && resolveRate(product, item.quantity, priceList).rate === item.rate) {
+      ({ rate, note: rateNote } = resolveRate(product, quantity, priceList));
+    }
+    return priceLine({ ...item, rate, rateNote }, quantity);
   };
 
   const updateItemQty = (id: string, delta: number) => {
     setIsSaved(false);
-    setItems(items.map(item => {
-      if (item.id === id) {
-        const newQty = Math.max(1, item.quantity + delta);
-        return {
-          ...item,
-          quantity: newQty,
-          amount: newQty * item.rate
-        };
-      }
-      return item;
-    }));
+    setItems(items.map(item => item.id === id ? withQuantity(item, Math.max(1, item.quantity + delta)) : item));
+  };
+
+  // Discount taken off this line's quantity x rate, before tax
+  const updateItemDiscount = (id: string, type: DiscountType, value: string) => {
+    setIsSaved(false);
+    const amount = parseFloat(value);
+    setItems(items.map(item => item.id === id
+      ? priceLine({ ...item, discount: amount > 0 ? { type, value: amount } : undefined })
+      : item));
+  };
+
+  const addCharge = (value: string) => {
+    if (!value) return;
+    let charge: Omit<ExtraCharge, 'amount'> | undefined = (settings.chargePresets || [])[Number(value)];
+    if (value === 'other') {
+      const label = window.prompt("Name of the charge (e.g. Loading):");
+      if (!label || !label.trim()) return;
+      charge = { label: label.trim(), taxable: true };
+    }
+    if (!charge) return;
+    setIsSaved(false);
+    setCharges([...charges, { ...charge, amount: 0 }]);
+  };
+
+  const updateCharge = (index: number, changes: Partial<ExtraCharge>) => {
+    setIsSaved(false);
+    setCharges(charges.map((c, i) => i === index ? { ...c, ...changes } : c));
   };
 
   const removeItem = (id: string) => {
@@ -166,10 +294,23 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
   };
 
   const resetForm = () => {
+    if (editingInvoice && onCancelAmend) {
+      onCancelAmend();
+    }
+    if (draft && onCloseDraft) {
+      onCloseDraft();
+    }
+    setBillNo(peekNextInvoiceNumber(settings, new Date().toLocaleDateString('en-GB')).id);
     setItems([]);
     setSelectedCustomer(null);
     setCustomerName('');
     setCustomerCity('');
+    setCustomerGstin('');
+    setPlaceOfSupply('');
+    setBillDiscountType('percent');
+    setBillDiscountValue('');
+    setCharges([]);
+    setTcsRate(0);
     setIsSaved(false);
     setDate(new Date().toLocaleDateString('en-GB'));
   };
@@ -181,12 +322,16 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
       setSelectedCustomer(null);
       setCustomerName('');
       setCustomerCity('');
+      setCustomerGstin('');
+      setPlaceOfSupply('');
     } else {
       const customer = customers.find(c => c.id === custId);
       if (customer) {
         setSelectedCustomer(customer);
         setCustomerName(customer.name);
         setCustomerCity(customer.city);
+        setCustomerGstin(customer.gstin || '');
+        setPlaceOfSupply(customer.stateCode || '');
       }
     }
   };
@@ -196,20 +341,37 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
       alert("Please add items to the bill before saving.");
       return;
     }
+    if (stockShortfalls.length > 0) {
+      const list = stockShortfalls.map(s => `${s.name}: ${s.available} ${s.unit} in stock, bill needs ${s.required}`).join('\n');
+      if (!window.confirm(`This bill will take stock below zero:\n\n${list}\n\nSave anyway?`)) return;
+    }
 
     const invoice: Invoice = {
       id: billNo,
       date,
+      customerId: selectedCustomer?.id,
       customerName,
       customerCity,
+      customerGstin: customerGstin.trim().toUpperCase() || undefined,
+      placeOfSupply: placeOfSupply || undefined,
       items,
-      total: grandTotal,
+      total: totals.total,
+      discount: billDiscount,
+      discountAmount: totals.discountAmount || undefined,
+      charges: billedCharges.length > 0 ? billedCharges : undefined,
+      chargesAmount: roundMoney(totals.taxableChargesAmount + totals.otherChargesAmount) || undefined,
+      tcsRate: totals.tcsAmount ? tcsRate : undefined,
+      tcsAmount: totals.tcsAmount || undefined,
+      roundOff: settings.roundOffTotal ? totals.roundOff : undefined,
       // Save tax details
-      subtotal: subtotal,
-      gstAmount: totalTax,
+      subtotal: totals.subtotal,
+      gstAmount: totals.gstAmount,
       gstRate: gstRate,
-      sgstAmount: sgstAmount,
-      cgstAmount: cgstAmount
+      sgstAmount: totals.sgstAmount,
+      cgstAmount: totals.cgstAmount,
+      igstAmount: totals.igstAmount,
+      gstEnabled: settings.enableGst,
+      isInterState: totals.isInterState
     };
 
     try {
@@ -217,8 +379,19 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
       // Set isSaved to true BEFORE the save to lock the current bill number
       // This prevents the useEffect from updating billNo when settings.nextInvoiceNumber changes
       setIsSaved(true);
-      await onSaveInvoice(invoice);
-      alert("Invoice saved to history successfully! You can now download or share it.");
+      if (isAmending && onAmendInvoice) {
+        await onAmendInvoice(invoice);
+        alert(`Invoice #${invoice.id} amended. The previous version has been kept in history.`);
+      } else {
+        const { invoice: saved, queued } = await onSaveInvoice(invoice);
+        // Another counter may have taken the previewed number
+        setBillNo(saved.id);
+        if (queued) {
+          alert(`You are offline. Invoice #${saved.id} has been saved on this device and will upload when the connection returns. If another counter uses this number first, it will be renumbered during sync.`);
+        } else {
+          alert(`Invoice #${saved.id} saved to history successfully! You can now download or share it.`);
+        }
+      }
     } catch (e) {
       setIsSaved(false);
       // onSaveInvoice will have alerted; keep current form intact
@@ -228,62 +401,43 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
   };
 
   const handlePrint = () => {
-    // Save original title and set new title for PDF filename
-    const originalTitle = document.title;
-    document.title = `Invoice_${billNo}_${customerName.replace(/[^a-z0-9]/gi, '_')}`;
-
-    // Create a temporary container for printing
-    const printContainer = document.createElement('div');
-    printContainer.id = 'print-only-container';
-    printContainer.className = 'print-only-container';
-    // Ensure immediate visibility for mobile browsers
-    printContainer.style.cssText = 'display: block !important; visibility: visible !important; position: static; width: 100%; height: auto; min-height: 0; background: white; z-index: 99999;';
-    document.body.appendChild(printContainer);
-
-    // Clone the invoice template and render it in the print container
-    const invoiceElement = document.getElementById('invoice-capture');
-    if (invoiceElement) {
-      const clone = invoiceElement.cloneNode(true) as HTMLElement;
-      clone.style.transform = 'none';
-      clone.style.margin = '0';
-      clone.style.padding = '0'; // Use internal padding from template
-      clone.style.width = '794px'; // A4 width in pixels at 96dpi
-      clone.style.maxWidth = '100%';
-      clone.style.boxSizing = 'border-box';
-      clone.style.visibility = 'visible';
-      clone.style.display = 'block';
-      clone.style.background = 'white';
-      clone.style.minHeight = '0'; // Override min-h-[297mm] to prevent blank second page
-      clone.style.height = 'auto';
-      printContainer.appendChild(clone);
+    printElement('invoice-capture', `Invoice_${billNo}_${customerName.replace(/[^a-z0-9]/gi, '_')}`, paperWidthMm);
+  };
+
+  // Rendered from the hidden full-size copy so it works while the preview is hidden on mobile
+  const handleDownloadPdf = async () => {
+    try {
+      setExporting('pdf');
+      await downloadPdf('invoice-capture-hidden', pdfFileName(layout === 'challan' ? 'Challan' : 'Bill', billNo, customerName), paperWidthMm);
+    } catch (e) {
+      console.error("Error creating PDF: ", e);
+      alert("Could not create the PDF.");
+    } finally {
+      setExporting(null);
     }
+  };
 
-    // Use requestAnimationFrame to ensure DOM is painted before printing
-    requestAnimationFrame(() => {
-      requestAnimationFrame(() => {
-        window.print();
-
-        // Clean up after print dialog closes
-        const cleanup = () => {
-          if (document.body.contains(printContainer)) {
-            document.body.removeChild(printContainer);
-          }
-          // Restore original title
-          document.title = originalTitle;
-        };
-
-        const handleFocus = () => {
-          setTimeout(cleanup, 500);
-          window.removeEventListener('focus', handleFocus);
-        };
-        window.addEventListener('focus', handleFocus);
-        setTimeout(cleanup, 3000);
-      });
-    });
+  const handleShare = async () => {
+    try {
+      setExporting('share');
+      await sharePdf(
+        'invoice-capture-hidden',
+        pdfFileName(layout === 'challan' ? 'Challan' : 'Bill', billNo, customerName),
+        `Bill #${billNo}`,
+        `Bill #${billNo} from ${settings.name} for ₹${totals.total}`,
+        paperWidthMm
+      );
+    } catch (e) {
+      console.error("Error sharing PDF: ", e);
+      alert("Could not share the bill. Try Download PDF instead.");
+    } finally {
+      setExporting(null);
+    }
   };
 
 
 
+
   return (
     <div className="flex flex-col lg:flex-row h-full gap-4 lg:gap-4 relative overflow-hidden">
 
@@ -308,12 +462,12 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
             <Printer className="w-5 h-5 text-red-600" />
-            Bill Details
+            {isAmending ? 'Amend Bill' : 'Bill Details'}
           </h2>
           <button
             onClick={() => {
-              if (items.length > 0) {
-                if (window.confirm("Start a new bill? Current items will be cleared.")) {
+              if (items.length > 0 && !isSaved) {
+                if (window.confirm(isAmending ? "Discard this amendment? The saved invoice will stay unchanged." : "Start a new bill? Current items will be cleared.")) {
                   resetForm();
                 }
               } else {
@@ -327,10 +481,27 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
           </button>
         </div>
 
+        {isAmending && !isSaved && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+            You are amending saved bill <span className="font-bold">#{editingInvoice?.id}</span>. Saving will replace it and keep the current version in its history.
+          </div>
+        )}
+
+        {draft && !isSaved && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+            {draft.quotationId
+              ? <>Bill for <span className="font-bold">{draft.customerName}</span> from quotation {draft.quotationId}.</>
+              : draft.challanIds
+                ? <>Bill for <span className="font-bold">{draft.customerName}</span> covering challan(s) {draft.challanIds.join(', ')}.</>
+                : <>Recurring bill for <span className="font-bold">{draft.customerName}</span> due {draft.date}.</>}
+            {' '}Check the quantities and add any discounts, charges or TCS, then save to issue it.
+          </div>
+        )}
+
         {/* Header Details */}
         <div className="grid grid-cols-2 gap-3 mb-4">
           <div>
-            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Bill No (Auto)</label>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{isAmending || isSaved ? 'Bill No' : 'Bill No (Next)'}</label>
             <input
               type="text"
               value={billNo}
@@ -358,7 +529,7 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
             onChange={handleCustomerSelect}
             disabled={isSaved}
             className="w-full p-2 border border-slate-300 rounded mb-2 focus:outline-none focus:border-red-500 text-sm bg-white disabled:bg-slate-50 disabled:text-slate-500"
-            defaultValue="new"
+            value={selectedCustomer?.id || 'new'}
           >
             <option value="new">+ New Customer</option>
             {customers.map(c => (
@@ -388,12 +559,75 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
             disabled={isSaved}
             className="w-full p-2 border border-slate-300 rounded outline-none focus:border-red-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
           />
+          {settings.enableGst && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <input
+                type="text"
+                placeholder="GSTIN (optional)"
+                value={customerGstin}
+                onChange={(e) => {
+                  setCustomerGstin(e.target.value.toUpperCase());
+                  setIsSaved(false);
+                }}
+                disabled={isSaved}
+                maxLength={15}
+                className="w-full p-2 border border-slate-300 rounded outline-none focus:border-red-500 text-sm uppercase disabled:bg-slate-50 disabled:text-slate-500"
+              />
+              <select
+                value={placeOfSupply}
+                onChange={(e) => {
+                  setPlaceOfSupply(e.target.value);
+                  setIsSaved(false);
+                }}
+                disabled={isSaved}
+                title="Place of Supply"
+                className="w-full p-2 border border-slate-300 rounded outline-none focus:border-red-500 text-sm bg-white disabled:bg-slate-50 disabled:text-slate-500"
+              >
+                <option value="">Place of Supply: Local</option>
+                {INDIAN_STATES.map(s => (
+                  <option key={s.code} value={s.code}>{s.code} - {s.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Add Items */}
         <div className="mb-6">
           <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Add Products</h3>
-          <div className="space-y-2 mb-2">
+          <div className="flex gap-2 mb-1">
+            <div className="relative flex-1">
+              <ScanLine className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+              <input
+                type="text"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return;
+                  e.preventDefault();
+                  if (scanCode.trim()) handleScan(scanCode);
+                  setScanCode('');
+                }}
+                disabled={isSaved}
+                placeholder="Scan barcode or type SKU + Enter"
+                className="w-full p-2 pl-8 border border-slate-300 rounded outline-none focus:border-red-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
+              />
+            </div>
+            {canScanWithCamera() && (
+              <button
+                onClick={() => { setScanStatus(null); setShowCameraScanner(true); }}
+                disabled={isSaved}
+                className="bg-slate-700 text-white p-2 rounded hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Scan with camera"
+              >
+                <Camera className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+          {scanStatus && !showCameraScanner && (
+            <p className={`text-xs mb-2 ${scanStatus.found ? 'text-green-700' : 'text-red-600'}`}>{scanStatus.text}</p>
+          )}
+          <div className="space-y-2 mb-2 mt-2">
             <select
               value={selectedProductID}
               onChange={(e) => setSelectedProductID(e.target.value)}
@@ -402,12 +636,16 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
             >
               <option value="">Select Item...</option>
               {products.map(p => (
-                <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''}</option>
+                <option key={p.id} value={p.id}>
+                  {p.name} {p.packing ? `(${p.packing})` : ''}{isStockTracked(p) ? ` · Stock: ${p.stock}` : ''}
+                </option>
               ))}
             </select>
             <div className="flex gap-2 items-start">
               <div className="flex-1">
-                <label className="text-xs text-slate-500 block mb-1">Rate (₹)</label>
+                <label className="text-xs text-slate-500 block mb-1">
+                  Rate (₹){suggestedRate?.note && <span className="ml-1 text-amber-600 font-medium">· {suggestedRate.note}</span>}
+                </label>
                 <input
                   type="number"
                   value={customRate}
@@ -447,6 +685,16 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
 
         {/* Items List (Editable) */}
         <div className="mb-6">
+          {stockShortfalls.length > 0 && !isSaved && (
+            <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+              <div className="font-bold flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" /> Not enough stock
+              </div>
+              {stockShortfalls.map(s => (
+                <div key={s.productId}>{s.name}: {s.available} {s.unit} in stock, bill needs {s.required}</div>
+              ))}
+            </div>
+          )}
           <div className="space-y-2">
             {items.map((item, idx) => (
               <div key={item.id} className="bg-white p-3 border border-slate-200 rounded-lg shadow-sm">
@@ -457,6 +705,8 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
                     </div>
                     <div className="text-slate-500 text-xs font-medium">
                       Rate: ₹{item.rate} | {item.packing ? 'Pkt' : item.unit}
+                      {item.rateNote && <span className="text-amber-600"> | {item.rateNote}</span>}
+                      {settings.enableGst && ` | GST ${item.gstRate ?? gstRate}%${item.hsnCode ? ` | HSN ${item.hsnCode}` : ''}`}
                     </div>
                   </div>
                   <button
@@ -489,8 +739,31 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
                       <Plus className="w-3 h-3" />
                     </button>
                   </div>
-                  <div className="text-sm font-bold text-slate-900">
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={item.discount?.type || 'percent'}
+                      onChange={e => updateItemDiscount(item.id, e.target.value as DiscountType, item.discount ? item.discount.value.toString() : '')}
+                      disabled={isSaved}
+                      className="p-1 border border-slate-200 rounded text-xs bg-white disabled:opacity-50"
+                      title="Line discount type"
+                    >
+                      <option value="percent">%</option>
+                      <option value="flat">₹</option>
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      value={item.discount ? item.discount.value : ''}
+                      onChange={e => updateItemDiscount(item.id, item.discount?.type || 'percent', e.target.value)}
+                      disabled={isSaved}
+                      placeholder="Disc."
+                      className="w-14 p-1 border border-slate-200 rounded text-xs disabled:opacity-50"
+                      title="Line discount"
+                    />
+                  </div>
+                  <div className="text-sm font-bold text-slate-900 text-right">
                     ₹{item.amount}
+                    {item.discountAmount ? <div className="text-xs font-normal text-green-700">-₹{item.discountAmount}</div> : null}
                   </div>
                 </div>
               </div>
@@ -501,25 +774,135 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
           {/* Live Totals in Controls */}
           {items.length > 0 && (
             <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200">
+              <div className="flex justify-between items-center text-sm text-slate-600 mb-1">
+                <span>Items Total:</span>
+                <span>₹{totals.itemsTotal}</span>
+              </div>
+              <div className="flex justify-between items-center text-sm text-slate-600 mb-1">
+                <div className="flex items-center gap-1">
+                  <span>Bill Discount</span>
+                  <select
+                    value={billDiscountType}
+                    onChange={e => { setBillDiscountType(e.target.value as DiscountType); setIsSaved(false); }}
+                    disabled={isSaved}
+                    className="p-1 border border-slate-200 rounded text-xs bg-white disabled:opacity-50"
+                  >
+                    <option value="percent">%</option>
+                    <option value="flat">₹</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    value={billDiscountValue}
+                    onChange={e => { setBillDiscountValue(e.target.value); setIsSaved(false); }}
+                    disabled={isSaved}
+                    placeholder="0"
+                    className="w-16 p-1 border border-slate-200 rounded text-xs disabled:opacity-50"
+                  />
+                </div>
+                <span>{totals.billDiscountAmount > 0 ? `-₹${totals.billDiscountAmount}` : '—'}</span>
+              </div>
+              {totals.discountAmount > 0 && (
+                <div className="text-xs text-green-700 mb-1">
+                  Total discount on this bill: ₹{totals.discountAmount}
+                </div>
+              )}
+              {charges.map((charge, i) => (
+                <div key={i} className="flex justify-between items-center text-sm text-slate-600 mb-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <button
+                      onClick={() => { setIsSaved(false); setCharges(charges.filter((_, j) => j !== i)); }}
+                      disabled={isSaved}
+                      className="text-slate-300 hover:text-red-500 disabled:opacity-30"
+                      title="Remove charge"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="truncate">{charge.label}</span>
+                    {settings.enableGst && (
+                      <label className="flex items-center gap-1 text-xs text-slate-500 shrink-0">
+                        <input
+                          type="checkbox"
+                          checked={charge.taxable}
+                          onChange={e => updateCharge(i, { taxable: e.target.checked })}
+                          disabled={isSaved}
+                        />
+                        GST
+                      </label>
+                    )}
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    value={charge.amount || ''}
+                    onChange={e => updateCharge(i, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    disabled={isSaved}
+                    placeholder="0"
+                    className="w-20 p-1 border border-slate-200 rounded text-xs text-right disabled:opacity-50"
+                  />
+                </div>
+              ))}
+              {!isSaved && (
+                <select
+                  value=""
+                  onChange={e => addCharge(e.target.value)}
+                  className="w-full mb-1 p-1 border border-dashed border-slate-300 rounded text-xs bg-white text-slate-500"
+                >
+                  <option value="">+ Add charge (freight, packing...)</option>
+                  {(settings.chargePresets || []).map((preset, i) => preset.label.trim() && (
+                    <option key={i} value={i}>{preset.label}{settings.enableGst && !preset.taxable ? ' (no GST)' : ''}</option>
+                  ))}
+                  <option value="other">Other...</option>
+                </select>
+              )}
               {settings.enableGst && (
                 <>
                   <div className="flex justify-between text-sm text-slate-600 mb-1">
-                    <span>Subtotal:</span>
-                    <span>₹{subtotal}</span>
-                  </div>
-                  <div className="flex justify-between text-sm text-slate-600 mb-1">
-                    <span>CGST ({halfRate}%):</span>
-                    <span>₹{cgstAmount}</span>
-                  </div>
-                  <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
-                    <span>SGST ({halfRate}%):</span>
-                    <span>₹{sgstAmount}</span>
+                    <span>Taxable Value:</span>
+                    <span>₹{totals.subtotal}</span>
                   </div>
+                  {totals.isInterState ? (
+                    <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                      <span>IGST{uniformRate !== null ? ` (${uniformRate}%)` : ''}:</span>
+                      <span>₹{totals.igstAmount}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-sm text-slate-600 mb-1">
+                        <span>CGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}:</span>
+                        <span>₹{totals.cgstAmount}</span>
+                      </div>
+                      <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                        <span>SGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}:</span>
+                        <span>₹{totals.sgstAmount}</span>
+                      </div>
+                    </>
+                  )}
                 </>
               )}
+              {((settings.tcsRate || 0) > 0 || tcsRate > 0) && (
+                <div className="flex justify-between items-center text-sm text-slate-600 mb-1">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={tcsRate > 0}
+                      onChange={e => { setTcsRate(e.target.checked ? (settings.tcsRate || 0) : 0); setIsSaved(false); }}
+                      disabled={isSaved}
+                    />
+                    TCS{tcsRate > 0 ? ` (${tcsRate}%)` : ` @ ${settings.tcsRate}%`}:
+                  </label>
+                  <span>{totals.tcsAmount > 0 ? `₹${totals.tcsAmount}` : '—'}</span>
+                </div>
+              )}
+              {totals.roundOff !== 0 && (
+                <div className="flex justify-between text-sm text-slate-600 mb-1">
+                  <span>Round Off:</span>
+                  <span>{totals.roundOff > 0 ? '+' : '-'}₹{Math.abs(totals.roundOff).toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-bold text-lg text-slate-900 mt-1">
                 <span>Total:</span>
-                <span>₹{grandTotal}</span>
+                <span>₹{totals.total}</span>
               </div>
             </div>
           )}
@@ -527,6 +910,16 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
 
         {/* Actions */}
         <div className="grid grid-cols-2 gap-3 mt-auto pb-4 lg:pb-0">
+          <select
+            value={layout}
+            onChange={e => setLayout(e.target.value as InvoiceLayout)}
+            className="col-span-2 p-2 border border-slate-300 rounded text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            title="Layout used to print, download and share this bill"
+          >
+            {INVOICE_LAYOUTS.map(l => (
+              <option key={l.value} value={l.value}>Layout: {l.label}</option>
+            ))}
+          </select>
           <button
             onClick={handleSave}
             disabled={items.length === 0 || isSaved || !customerName.trim() || isSaving}
@@ -534,7 +927,7 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
             className="flex items-center justify-center gap-2 bg-indigo-600 text-white p-3 rounded hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
           >
             {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-            {isSaving ? "Save" : "Save"}
+            {isAmending ? "Save Amendment" : "Save"}
           </button>
           <button
             onClick={handlePrint}
@@ -543,6 +936,22 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
           >
             <Printer className="w-4 h-4" /> Print
           </button>
+          <button
+            onClick={handleDownloadPdf}
+            disabled={!isSaved || isSaving || exporting !== null}
+            className={`flex items-center justify-center gap-2 bg-slate-700 text-white p-3 rounded hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold ${canSharePdf() ? '' : 'col-span-2'}`}
+          >
+            {exporting === 'pdf' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Download PDF
+          </button>
+          {canSharePdf() && (
+            <button
+              onClick={handleShare}
+              disabled={!isSaved || isSaving || exporting !== null}
+              className="flex items-center justify-center gap-2 bg-green-600 text-white p-3 rounded hover:bg-green-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
+            >
+              {exporting === 'share' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />} Share
+            </button>
+          )}
 
           {isSaved && (
             <button
@@ -558,32 +967,54 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
       {/* RIGHT: Live Preview (Scaled) */}
       <div
         ref={previewContainerRef}
-        className={`w-full lg:w-3/5 h-full bg-slate-500/10 lg:bg-slate-200 overflow-hidden flex justify-center items-center p-4 rounded-lg relative ${!showPreviewMobile ? 'hidden lg:flex' : 'flex'}`}
+        className={`w-full lg:w-3/5 h-full bg-slate-500/10 lg:bg-slate-200 overflow-x-hidden overflow-y-auto flex justify-center ${previewHeight > 1123 ? 'items-start' : 'items-center'} p-4 rounded-lg relative ${!showPreviewMobile ? 'hidden lg:flex' : 'flex'}`}
       >
-        <div className="print-container origin-center transition-transform duration-200 ease-out" style={{ transform: `scale(${scale})` }}>
-          <InvoiceTemplate
+        <div
+          ref={previewRef}
+          className={`print-container ${previewHeight > 1123 ? 'origin-top' : 'origin-center'} transition-transform duration-200 ease-out`}
+          style={{ transform: `scale(${scale})`, marginBottom: previewHeight > 1123 ? `${-previewHeight * (1 - scale)}px` : undefined }}
+        >
+          <InvoiceDocument
+            layout={layout}
             id="invoice-capture"
             billNo={billNo}
             date={date}
             customerName={customerName}
             customerCity={customerCity}
+            customerGstin={customerGstin}
+            placeOfSupply={placeOfSupply}
             items={items}
             settings={settings}
+            discount={billDiscount}
+            charges={billedCharges}
+            tcsRate={tcsRate}
+            roundOff={!!settings.roundOffTotal}
           />
         </div>
       </div>
 
+      {showCameraScanner && (
+        <BarcodeScanner onScan={handleScan} onClose={() => setShowCameraScanner(false)} status={scanStatus?.text} />
+      )}
+
       {/* Hidden container for PDF capture to ensure it works even if main preview is hidden on mobile */}
       <div className="absolute -left-[9999px] top-0">
         <div style={{ width: '794px', height: '1123px', background: 'white' }}>
-          <InvoiceTemplate
+          <InvoiceDocument
+            layout={layout}
             id="invoice-capture-hidden"
             billNo={billNo}
             date={date}
             customerName={customerName}
             customerCity={customerCity}
+            customerGstin={customerGstin}
+            placeOfSupply={placeOfSupply}
             items={items}
             settings={settings}
+            discount={billDiscount}
+            charges={billedCharges}
+            tcsRate={tcsRate}
+            roundOff={!!settings.roundOffTotal}
           />
         </div>
       </div>
@@ -1,20 +1,80 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Invoice, BusinessSettings } from '../types';
-import { Search, Eye, X, Printer, Download } from 'lucide-react';
-import { InvoiceTemplate } from './InvoiceTemplate';
+import { Invoice, BusinessSettings, CreditNote, Payment, PaymentStatus, Customer, EInvoiceDetails, InvoiceLayout } from '../types';
+import { Search, Eye, X, Printer, Download, Edit, Ban, Undo2, Wallet, FileCode, Share2, Loader2, Landmark } from 'lucide-react';
+import { InvoiceDocument } from './InvoiceDocument';
+import { CreditNoteForm } from './CreditNoteForm';
+import { PaymentForm } from './PaymentForm';
+import { BankReconciliation } from './BankReconciliation';
+import { EInvoicePanel } from './EInvoicePanel';
+import { getOutstanding, getPaymentStatus } from '../utils/payments';
+import { printElement } from '../utils/print';
+import { pdfFileName, downloadPdf, sharePdf, canSharePdf } from '../utils/pdf';
+import { downloadFile } from '../utils/download';
+import { INVOICE_LAYOUTS } from '../constants';
+
+const PAYMENT_STATUS_STYLES: Record<PaymentStatus, { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+  partial: { label: 'Partial', className: 'bg-amber-100 text-amber-700' },
+  unpaid: { label: 'Unpaid', className: 'bg-red-100 text-red-700' }
+};
 
 interface InvoiceHistoryProps {
   invoices: Invoice[];
+  customers: Customer[];
+  creditNotes: CreditNote[];
+  payments: Payment[];
   settings: BusinessSettings;
+  onEditInvoice: (invoice: Invoice) => void;
+  onCancelInvoice: (invoice: Invoice, reason: string) => Promise<void>;
+  onSaveCreditNote: (note: CreditNote) => Promise<CreditNote>;
+  onSavePayment: (payment: Omit<Payment, 'id'>) => Promise<void>;
+  onSavePayments: (payments: Omit<Payment, 'id'>[]) => Promise<void>;
+  onDeletePayment: (payment: Payment) => Promise<void>;
+  onSaveEInvoice: (invoice: Invoice, details: EInvoiceDetails) => Promise<void>;
+  canManage: boolean; // Payments, amendments, credit notes and cancellation; clerks only view and print
 }
 
-export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settings }) => {
+export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({
+  invoices,
+  customers,
+  creditNotes,
+  payments,
+  settings,
+  onEditInvoice,
+  onCancelInvoice,
+  onSaveCreditNote,
+  onSavePayment,
+  onSavePayments,
+  onDeletePayment,
+  onSaveEInvoice,
+  canManage
+}) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null);
+  const [viewingCreditNote, setViewingCreditNote] = useState<CreditNote | null>(null);
+  const [creditingInvoice, setCreditingInvoice] = useState<Invoice | null>(null);
+  const [payingInvoiceId, setPayingInvoiceId] = useState<string | null>(null);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [eInvoicingInvoice, setEInvoicingInvoice] = useState<Invoice | null>(null);
+  const [exporting, setExporting] = useState<'pdf' | 'share' | null>(null);
+  const [layout, setLayout] = useState<InvoiceLayout>(settings.invoiceLayout || 'classic');
+  const paperWidthMm = INVOICE_LAYOUTS.find(l => l.value === layout)?.paperWidthMm;
+  const [paymentFilter, setPaymentFilter] = useState<PaymentStatus | ''>('');
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
+  const isCancelled = (inv: Invoice) => inv.status === 'cancelled';
+
+  // Look up by id so the form reflects live paidAmount updates
+  const payingInvoice = payingInvoiceId ? invoices.find(inv => inv.id === payingInvoiceId) || null : null;
+
+  const renderPaymentBadge = (inv: Invoice) => {
+    if (isCancelled(inv)) return null;
+    const style = PAYMENT_STATUS_STYLES[getPaymentStatus(inv)];
+    return <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${style.className}`}>{style.label}</span>;
+  };
+
   // Scale for modal view
   const [scale, setScale] = useState(1);
   const modalContainerRef = useRef<HTMLDivElement>(null);
@@ -45,7 +105,7 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
       }
     };
 
-    if (viewingInvoice) {
+    if (viewingInvoice || viewingCreditNote) {
       // Slight delay to ensure DOM is ready
       const timer = setTimeout(calculateScale, 10);
       window.addEventListener('resize', calculateScale);
@@ -54,7 +114,22 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
         window.removeEventListener('resize', calculateScale);
       };
     }
-  }, [viewingInvoice]);
+  }, [viewingInvoice, viewingCreditNote]);
+
+  // Keep the open modal in sync with live Firestore updates (e.g. after cancel)
+  useEffect(() => {
+    if (!viewingInvoice) return;
+    const latest = invoices.find(inv => inv.id === viewingInvoice.id);
+    if (latest && latest !== viewingInvoice) setViewingInvoice(latest);
+  }, [invoices, viewingInvoice]);
+
+  const creditNotesByInvoice = useMemo(() => {
+    const grouped: Record<string, CreditNote[]> = {};
+    creditNotes.forEach(note => {
+      (grouped[note.invoiceId] = grouped[note.invoiceId] || []).push(note);
+    });
+    return grouped;
+  }, [creditNotes]);
 
   const filteredInvoices = useMemo(() => {
     return invoices.filter(invoice => {
@@ -84,82 +159,85 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
         }
       }
 
-      return matchesSearch && matchesDate;
+      const matchesPayment = !paymentFilter || (!isCancelled(invoice) && getPaymentStatus(invoice) === paymentFilter);
+
+      return matchesSearch && matchesDate && matchesPayment;
     }).sort((a, b) => {
-      // Sort by Bill No descending (assuming string number)
-      return parseInt(b.id) - parseInt(a.id);
+      // Sort by Bill No descending; numeric compare keeps INV/2026-27/0010 after 0009
+      return b.id.localeCompare(a.id, undefined, { numeric: true });
     });
-  }, [invoices, searchTerm, startDate, endDate]);
+  }, [invoices, searchTerm, startDate, endDate, paymentFilter]);
+
+  const handleCancel = async (invoice: Invoice) => {
+    const irnNote = invoice.eInvoice ? ' Remember to also cancel its IRN on the e-invoice portal.' : '';
+    const reason = window.prompt(`Cancel Bill #${invoice.id}?${irnNote} Enter the reason for cancellation:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert("A reason is required to cancel an invoice.");
+      return;
+    }
+    try {
+      await onCancelInvoice(invoice, reason.trim());
+    } catch (e) {
+      // onCancelInvoice will have alerted
+    }
+  };
+
+  const handleEdit = (invoice: Invoice) => {
+    if (invoice.eInvoice) {
+      alert(`Bill #${invoice.id} already has an IRN and cannot be amended. Issue a credit note, or cancel the bill and its IRN.`);
+      return;
+    }
+    if (!window.confirm(`Reopen Bill #${invoice.id} for amendment? The current version will be kept in its history.`)) return;
+    setViewingInvoice(null);
+    onEditInvoice(invoice);
+  };
+
+  const handleSaveEInvoice = async (details: EInvoiceDetails) => {
+    if (!eInvoicingInvoice) return;
+    await onSaveEInvoice(eInvoicingInvoice, details);
+    // Refresh the open preview so the signed QR shows straight away
+    setViewingInvoice(prev => prev && prev.id === eInvoicingInvoice.id ? { ...prev, eInvoice: details } : prev);
+  };
+
+  const closeViewer = () => {
+    setViewingInvoice(null);
+    setViewingCreditNote(null);
+  };
 
   const handlePrint = () => {
-    if (!viewingInvoice) return;
+    const viewingDoc = viewingInvoice || viewingCreditNote;
+    if (!viewingDoc) return;
+    printElement('history-view', `${viewingCreditNote ? 'CreditNote' : 'Invoice'}_${viewingDoc.id}_${viewingDoc.customerName.replace(/[^a-z0-9]/gi, '_')}`, paperWidthMm);
+  };
 
-    // Save original title and set new title for PDF filename
-    const originalTitle = document.title;
-    document.title = `Invoice_${viewingInvoice.id}_${viewingInvoice.customerName.replace(/[^a-z0-9]/gi, '_')}`;
-
-    // Create a temporary container for printing
-    const printContainer = document.createElement('div');
-    printContainer.id = 'print-only-container';
-    printContainer.className = 'print-only-container';
-    // Ensure immediate visibility for mobile browsers - use height: auto to prevent blank second page
-    printContainer.style.cssText = 'display: block !important; visibility: visible !important; position: static; width: 100%; height: auto; min-height: 0; background: white; z-index: 99999;';
-    document.body.appendChild(printContainer);
-
-    // Clone the invoice template and render it in the print container
-    const invoiceElement = document.getElementById('history-view');
-    if (invoiceElement) {
-      const clone = invoiceElement.cloneNode(true) as HTMLElement;
-      clone.style.transform = 'none';
-      clone.style.margin = '0';
-      clone.style.padding = '0'; // Use internal padding from template
-      clone.style.width = '794px'; // A4 width in pixels at 96dpi
-      clone.style.maxWidth = '100%';
-      clone.style.boxSizing = 'border-box';
-      clone.style.visibility = 'visible';
-      clone.style.display = 'block';
-      clone.style.background = 'white';
-      clone.style.minHeight = '0'; // Override min-h-[297mm] to prevent blank second page
-      clone.style.height = 'auto';
-      printContainer.appendChild(clone);
+  const handleExportPdf = async (mode: 'pdf' | 'share') => {
+    const viewingDoc = viewingInvoice || viewingCreditNote;
+    if (!viewingDoc) return;
+    const label = viewingCreditNote ? 'Credit Note' : 'Bill';
+    const fileName = pdfFileName(viewingCreditNote ? 'CreditNote' : layout === 'challan' ? 'Challan' : 'Bill', viewingDoc.id, viewingDoc.customerName);
+    try {
+      setExporting(mode);
+      if (mode === 'pdf') {
+        await downloadPdf('history-view', fileName, paperWidthMm);
+      } else {
+        await sharePdf('history-view', fileName, `${label} #${viewingDoc.id}`, `${label} #${viewingDoc.id} from ${settings.name} for ₹${viewingDoc.total}`, paperWidthMm);
+      }
+    } catch (e) {
+      console.error("Error exporting PDF: ", e);
+      alert(mode === 'pdf' ? "Could not create the PDF." : "Could not share the bill. Try Download PDF instead.");
+    } finally {
+      setExporting(null);
     }
-
-    // Use requestAnimationFrame to ensure DOM is painted before printing
-    // This is more reliable on mobile browsers than setTimeout
-    requestAnimationFrame(() => {
-      requestAnimationFrame(() => {
-        // Double RAF ensures the browser has painted the content
-        window.print();
-
-        // Clean up after print dialog closes
-        // Use a longer delay for mobile browsers which may take longer to close print dialog
-        const cleanup = () => {
-          if (document.body.contains(printContainer)) {
-            document.body.removeChild(printContainer);
-          }
-          // Restore original title
-          document.title = originalTitle;
-        };
-
-        // Try to detect when print dialog closes using focus event (works on some browsers)
-        const handleFocus = () => {
-          setTimeout(cleanup, 500);
-          window.removeEventListener('focus', handleFocus);
-        };
-        window.addEventListener('focus', handleFocus);
-
-        // Fallback cleanup after a longer delay for mobile
-        setTimeout(cleanup, 3000);
-      });
-    });
   };
 
 
 
+
   const handleExportCSV = () => {
     if (filteredInvoices.length === 0) return;
 
-    const headers = ['Bill No', 'Date', 'Customer Name', 'City', 'Items', 'Total Amount'];
+    const headers = ['Bill No', 'Date', 'Customer Name', 'City', 'Items', 'Total Amount', 'Status', 'Credited', 'Paid', 'Balance'];
     const csvContent = [
       headers.join(','),
       ...filteredInvoices.map(inv => {
@@ -174,19 +252,16 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
           `"${inv.customerName.replace(/"/g, '""')}"`, // Escape quotes
           `"${inv.customerCity.replace(/"/g, '""')}"`,
           `"${itemsString.replace(/"/g, '""')}"`, // Escape quotes in items
-          inv.total
+          inv.total,
+          isCancelled(inv) ? 'Cancelled' : 'Active',
+          inv.creditedAmount || 0,
+          inv.paidAmount || 0,
+          getOutstanding(inv)
         ].join(',');
       })
     ].join('\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `invoices_export_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(csvContent, `invoices_export_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
   };
 
   return (
@@ -202,6 +277,15 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
             <p className="text-xs text-slate-500 mt-1">View and manage all invoices</p>
           </div>
           <div className="flex items-center gap-2 w-full md:w-auto">
+            {canManage && (
+              <button
+                onClick={() => setShowReconciliation(true)}
+                className="flex-1 md:flex-initial flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-medium transition-colors shadow-sm"
+                title="Match bank statement or UPI settlement credits to bills"
+              >
+                <Landmark size={14} /> <span>Reconcile</span>
+              </button>
+            )}
             <button
               onClick={handleExportCSV}
               disabled={filteredInvoices.length === 0}
@@ -251,6 +335,18 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                 />
               </div>
             </div>
+
+            <div className="flex gap-2">
+              {(['', 'unpaid', 'partial', 'paid'] as const).map(status => (
+                <button
+                  key={status || 'all'}
+                  onClick={() => setPaymentFilter(status)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${paymentFilter === status ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'}`}
+                >
+                  {status ? PAYMENT_STATUS_STYLES[status].label : 'All'}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
 
@@ -272,6 +368,9 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                       <div className="flex items-center gap-2 mb-1">
                         <span className="inline-block bg-indigo-100 text-indigo-700 text-xs font-bold px-2 py-1 rounded">#{inv.id}</span>
                         <span className="text-xs text-slate-400">{inv.date}</span>
+                        {isCancelled(inv) && <span className="text-[10px] font-bold uppercase bg-red-100 text-red-700 px-2 py-0.5 rounded">Cancelled</span>}
+                        {renderPaymentBadge(inv)}
+                        {!!inv.creditedAmount && <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-700 px-2 py-0.5 rounded">CN ₹{inv.creditedAmount}</span>}
                       </div>
                       <h3 className="font-bold text-slate-900">{inv.customerName}</h3>
                       <p className="text-xs text-slate-500 flex items-center gap-1 mt-1">
@@ -283,8 +382,11 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                       </p>
                     </div>
                     <div className="text-right">
-                      <div className="text-xl font-bold text-indigo-600">₹{inv.total}</div>
+                      <div className={`text-xl font-bold ${isCancelled(inv) ? 'text-slate-400 line-through' : 'text-indigo-600'}`}>₹{inv.total}</div>
                       <div className="text-xs text-slate-500">{inv.items.length} items</div>
+                      {!isCancelled(inv) && getPaymentStatus(inv) !== 'paid' && (
+                        <div className="text-xs font-bold text-red-600">Due ₹{getOutstanding(inv)}</div>
+                      )}
                     </div>
                   </div>
                   <div className="pt-3 border-t border-slate-100">
@@ -315,15 +417,23 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                   <th className="p-4 whitespace-nowrap">Customer</th>
                   <th className="p-4 whitespace-nowrap text-right">Items</th>
                   <th className="p-4 whitespace-nowrap text-right">Total Amount</th>
+                  <th className="p-4 whitespace-nowrap text-center">Payment</th>
                   <th className="p-4 whitespace-nowrap text-center">Action</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100 text-sm">
                 {filteredInvoices.map(inv => (
                   <React.Fragment key={inv.id}>
-                    <tr className="hover:bg-slate-50 transition-colors">
-                      <td className="p-4 font-bold text-slate-700">#{inv.id}</td>
-                      <td className="p-4 text-slate-500">{inv.date}</td>
+                    <tr className={`hover:bg-slate-50 transition-colors ${isCancelled(inv) ? 'opacity-60' : ''}`}>
+                      <td className="p-4 font-bold text-slate-700">
+                        #{inv.id}
+                        {isCancelled(inv) && <span className="block text-[10px] font-bold uppercase text-red-600">Cancelled</span>}
+                        {(inv.version || 1) > 1 && <span className="block text-[10px] font-bold uppercase text-slate-400">Amended (v{inv.version})</span>}
+                      </td>
+                      <td className="p-4 text-slate-500">
+                        {inv.date}
+                        {inv.createdBy && <span className="block text-[10px] text-slate-400 truncate max-w-[10rem]" title={`Created by ${inv.createdBy}`}>by {inv.createdBy}</span>}
+                      </td>
                       <td className="p-4 font-medium">{inv.customerName} <span className="text-xs text-slate-400">({inv.customerCity})</span></td>
                       <td className="p-4 text-right">
                         <div className="text-sm text-slate-600">
@@ -335,7 +445,16 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                           )}
                         </div>
                       </td>
-                      <td className="p-4 text-right font-bold text-slate-900">₹{inv.total}</td>
+                      <td className="p-4 text-right font-bold text-slate-900">
+                        <span className={isCancelled(inv) ? 'line-through text-slate-400' : ''}>₹{inv.total}</span>
+                        {!!inv.creditedAmount && <span className="block text-xs font-medium text-amber-600">Credited ₹{inv.creditedAmount}</span>}
+                      </td>
+                      <td className="p-4 text-center">
+                        {renderPaymentBadge(inv)}
+                        {!isCancelled(inv) && getPaymentStatus(inv) !== 'paid' && (
+                          <span className="block text-xs text-slate-500 mt-1">Due ₹{getOutstanding(inv)}</span>
+                        )}
+                      </td>
                       <td className="p-4 text-center">
                         <div className="flex items-center justify-center gap-2">
                           <button
@@ -358,7 +477,7 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
 
                     {expandedId === inv.id && (
                       <tr id={`inv-expanded-${inv.id}`} className="bg-slate-50">
-                        <td colSpan={6} className="p-4">
+                        <td colSpan={7} className="p-4">
                           <div className="grid gap-2">
                             {inv.items.map(it => (
                               <div key={it.id} className="flex justify-between text-sm text-slate-700">
@@ -367,6 +486,23 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                               </div>
                             ))}
                           </div>
+                          {isCancelled(inv) && (
+                            <p className="mt-3 text-xs text-red-600"><span className="font-bold">Cancelled:</span> {inv.cancelReason}</p>
+                          )}
+                          {(creditNotesByInvoice[inv.id] || []).length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-slate-200 grid gap-1">
+                              {creditNotesByInvoice[inv.id].map(note => (
+                                <button
+                                  key={note.id}
+                                  onClick={() => setViewingCreditNote(note)}
+                                  className="flex justify-between text-xs text-amber-700 hover:bg-amber-50 rounded px-1 py-0.5 text-left"
+                                >
+                                  <span><span className="font-bold">{note.id}</span> ({note.date}) — {note.reason}</span>
+                                  <span className="font-bold">−₹{note.total}</span>
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </td>
                       </tr>
                     )}
@@ -374,7 +510,7 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                 ))}
                 {filteredInvoices.length === 0 && (
                   <tr>
-                    <td colSpan={6} className="p-8 text-center text-slate-400">
+                    <td colSpan={7} className="p-8 text-center text-slate-400">
                       No invoices found matching your criteria.
                     </td>
                   </tr>
@@ -384,17 +520,71 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
           </div>
         </div>
 
-        {/* Invoice View Modal */}
-        {viewingInvoice && (
+        {/* Invoice / Credit Note View Modal */}
+        {(viewingInvoice || viewingCreditNote) && (
           <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-0 md:p-4 backdrop-blur-sm">
             <div className="bg-slate-200 w-full md:max-w-5xl h-full md:h-[90vh] md:rounded-lg shadow-2xl flex flex-col relative overflow-hidden">
               {/* Toolbar */}
               <div className="bg-slate-800 text-white p-3 md:p-4 flex flex-wrap justify-between items-center no-print gap-2 shrink-0 safe-top">
                 <div className="flex flex-col">
-                  <span className="text-[10px] md:text-xs text-slate-400 uppercase tracking-wider">Viewing Invoice</span>
-                  <h3 className="font-bold text-sm md:text-lg">#{viewingInvoice.id}</h3>
+                  <span className="text-[10px] md:text-xs text-slate-400 uppercase tracking-wider">{viewingCreditNote ? 'Viewing Credit Note' : 'Viewing Invoice'}</span>
+                  <h3 className="font-bold text-sm md:text-lg">
+                    {viewingCreditNote ? viewingCreditNote.id : `#${viewingInvoice?.id}`}
+                    {viewingInvoice && isCancelled(viewingInvoice) && <span className="ml-2 text-xs font-bold uppercase bg-red-600 px-2 py-0.5 rounded">Cancelled</span>}
+                  </h3>
                 </div>
                 <div className="flex flex-wrap gap-2 md:gap-3">
+                  {viewingInvoice && !isCancelled(viewingInvoice) && canManage && (
+                    <>
+                      <button
+                        onClick={() => setPayingInvoiceId(viewingInvoice.id)}
+                        className="flex items-center gap-1 md:gap-2 bg-green-600 hover:bg-green-700 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-green-500"
+                      >
+                        <Wallet size={14} className="md:w-4 md:h-4" />
+                        <span>Payment</span>
+                      </button>
+                      <button
+                        onClick={() => handleEdit(viewingInvoice)}
+                        className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                      >
+                        <Edit size={14} className="md:w-4 md:h-4" />
+                        <span>Amend</span>
+                      </button>
+                      <button
+                        onClick={() => setCreditingInvoice(viewingInvoice)}
+                        className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-amber-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                      >
+                        <Undo2 size={14} className="md:w-4 md:h-4" />
+                        <span>Credit Note</span>
+                      </button>
+                      {settings.enableGst && (
+                        <button
+                          onClick={() => setEInvoicingInvoice(viewingInvoice)}
+                          className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-teal-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                        >
+                          <FileCode size={14} className="md:w-4 md:h-4" />
+                          <span>{viewingInvoice.eInvoice ? 'IRN' : 'E-Invoice'}</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleCancel(viewingInvoice)}
+                        className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-red-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                      >
+                        <Ban size={14} className="md:w-4 md:h-4" />
+                        <span>Cancel Bill</span>
+                      </button>
+                    </>
+                  )}
+                  <select
+                    value={layout}
+                    onChange={e => setLayout(e.target.value as InvoiceLayout)}
+                    className="bg-slate-700 hover:bg-slate-600 px-2 py-1.5 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg border border-slate-600 outline-none"
+                    title="Print layout"
+                  >
+                    {INVOICE_LAYOUTS.map(l => (
+                      <option key={l.value} value={l.value}>{l.label}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={handlePrint}
                     className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
@@ -403,7 +593,25 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                     <span>Print</span>
                   </button>
                   <button
-                    onClick={() => setViewingInvoice(null)}
+                    onClick={() => handleExportPdf('pdf')}
+                    disabled={exporting !== null}
+                    className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600 disabled:opacity-50"
+                  >
+                    {exporting === 'pdf' ? <Loader2 size={14} className="md:w-4 md:h-4 animate-spin" /> : <Download size={14} className="md:w-4 md:h-4" />}
+                    <span>PDF</span>
+                  </button>
+                  {canSharePdf() && (
+                    <button
+                      onClick={() => handleExportPdf('share')}
+                      disabled={exporting !== null}
+                      className="flex items-center gap-1 md:gap-2 bg-green-600 hover:bg-green-700 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-green-500 disabled:opacity-50"
+                    >
+                      {exporting === 'share' ? <Loader2 size={14} className="md:w-4 md:h-4 animate-spin" /> : <Share2 size={14} className="md:w-4 md:h-4" />}
+                      <span>Share</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={closeViewer}
                     className="bg-slate-700 hover:bg-red-600 p-1.5 md:p-2 rounded-full transition-colors ml-1"
                   >
                     <X size={18} className="md:w-5 md:h-5" />
@@ -417,16 +625,49 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
                   className="print-container origin-top shadow-xl transition-transform duration-200 ease-out bg-white"
                   style={{ transform: `scale(${scale})`, marginBottom: `${Math.max(0, scale * 300)}px` }}
                 >
-                  <InvoiceTemplate
-                    id="history-view"
-                    billNo={viewingInvoice.id}
-                    date={viewingInvoice.date}
-                    customerName={viewingInvoice.customerName}
-                    customerCity={viewingInvoice.customerCity}
-                    items={viewingInvoice.items}
-                    settings={settings}
-                    gstRate={viewingInvoice.gstRate}
-                  />
+                  {viewingCreditNote ? (
+                    <InvoiceDocument
+                      layout={layout}
+                      id="history-view"
+                      billNo={viewingCreditNote.id}
+                      date={viewingCreditNote.date}
+                      customerName={viewingCreditNote.customerName}
+                      customerCity={viewingCreditNote.customerCity}
+                      customerGstin={viewingCreditNote.customerGstin}
+                      placeOfSupply={viewingCreditNote.placeOfSupply}
+                      items={viewingCreditNote.items}
+                      settings={settings}
+                      gstRate={viewingCreditNote.gstRate}
+                      documentTitle="CREDIT NOTE"
+                      billNoLabel="Credit Note No."
+                      referenceNote={`Against Bill No. ${viewingCreditNote.invoiceId} — Reason: ${viewingCreditNote.reason}`}
+                      discount={viewingCreditNote.discount}
+                      savedTotals={viewingCreditNote}
+                    />
+                  ) : viewingInvoice && (
+                    <InvoiceDocument
+                      layout={layout}
+                      id="history-view"
+                      billNo={viewingInvoice.id}
+                      date={viewingInvoice.date}
+                      customerName={viewingInvoice.customerName}
+                      customerCity={viewingInvoice.customerCity}
+                      customerGstin={viewingInvoice.customerGstin}
+                      placeOfSupply={viewingInvoice.placeOfSupply}
+                      items={viewingInvoice.items}
+                      settings={settings}
+                      gstRate={viewingInvoice.gstRate}
+                      watermark={isCancelled(viewingInvoice) ? 'CANCELLED' : undefined}
+                      amountPaid={viewingInvoice.paidAmount || 0}
+                      amountCredited={viewingInvoice.creditedAmount || 0}
+                      eInvoice={viewingInvoice.eInvoice}
+                      discount={viewingInvoice.discount}
+                      charges={viewingInvoice.charges}
+                      tcsRate={viewingInvoice.tcsRate}
+                      roundOff={viewingInvoice.roundOff !== undefined}
+                      savedTotals={viewingInvoice}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -434,6 +675,45 @@ export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ invoices, settin
             </div>
           </div>
         )}
+
+        {creditingInvoice && (
+          <CreditNoteForm
+            invoice={creditingInvoice}
+            creditNotes={creditNotes}
+            settings={settings}
+            onSave={onSaveCreditNote}
+            onClose={() => setCreditingInvoice(null)}
+          />
+        )}
+
+        {eInvoicingInvoice && (
+          <EInvoicePanel
+            invoice={eInvoicingInvoice}
+            customer={customers.find(c => c.id === eInvoicingInvoice.customerId)}
+            settings={settings}
+            onSave={handleSaveEInvoice}
+            onClose={() => setEInvoicingInvoice(null)}
+          />
+        )}
+
+        {payingInvoice && (
+          <PaymentForm
+            invoice={payingInvoice}
+            payments={payments.filter(p => p.invoiceId === payingInvoice.id)}
+            onSave={onSavePayment}
+            onDelete={onDeletePayment}
+            onClose={() => setPayingInvoiceId(null)}
+          />
+        )}
+
+        {showReconciliation && (
+          <BankReconciliation
+            invoices={invoices}
+            payments={payments}
+            onSave={onSavePayments}
+            onClose={() => setShowReconciliation(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,12 +1,21 @@
 import React from 'react';
-import { BusinessSettings, InvoiceItem } from '../types';
-
-interface InvoiceTemplateProps {
+import { BusinessSettings, InvoiceItem, EInvoiceDetails, Discount, ExtraCharge } from '../types';
+import { BusinessHeader } from './BusinessHeader';
+import { hexToRgba } from '../utils/theme';
+import { applySavedTotals, calculateInvoiceTotals, formatDiscount, formatPlaceOfSupply, getGstTreatment, getUniformGstRate, roundMoney, splitCharges, SavedTotals } from '../utils/gst';
+import { paginateRows } from '../utils/pagination';
+import { numberToWords, formatTotalWeight } from '../utils/format';
+import { buildUpiUri } from '../utils/upi';
+import { QrCode } from './QrCode';
+
+export interface InvoiceTemplateProps {
   id: string; // The HTML ID for printing context
   billNo: string;
   date: string;
   customerName: string;
   customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string; // Buyer's GST state code; decides CGST+SGST vs IGST
   items: InvoiceItem[];
   settings: BusinessSettings;
   // Optional: if coming from history, specific tax values might be passed, 
@@ -14,46 +23,39 @@ interface InvoiceTemplateProps {
   gstAmount?: number;
   subtotal?: number;
   gstRate?: number;
+  // Optional document heading (e.g. "CREDIT NOTE") and bill number label
+  documentTitle?: string;
+  billNoLabel?: string;
+  referenceNote?: string; // Extra line under the meta row, e.g. "Against Bill No. 12"
+  watermark?: string; // Large diagonal stamp, e.g. "CANCELLED"
+  // Settlement so far, printed as a balance due below the total (history reprints)
+  amountPaid?: number;
+  amountCredited?: number;
+  eInvoice?: EInvoiceDetails; // Prints the IRN block with the signed QR
+  discount?: Discount; // Bill-level discount, taken off before tax
+  charges?: ExtraCharge[];
+  tcsRate?: number;
+  roundOff?: boolean; // Round the total to the nearest rupee
+  savedTotals?: SavedTotals; // History reprints: tax treatment and figures as saved, not from today's settings
 }
 
-// Helper to create lighter shades for backgrounds
-const hexToRgba = (hex: string, alpha: number) => {
-  let r = 0, g = 0, b = 0;
-  if (hex.length === 4) {
-    r = parseInt("0x" + hex[1] + hex[1]);
-    g = parseInt("0x" + hex[2] + hex[2]);
-    b = parseInt("0x" + hex[3] + hex[3]);
-  } else if (hex.length === 7) {
-    r = parseInt("0x" + hex[1] + hex[2]);
-    g = parseInt("0x" + hex[3] + hex[4]);
-    b = parseInt("0x" + hex[5] + hex[6]);
-  }
-  return `rgba(${r},${g},${b},${alpha})`;
-};
-
-// Simple number to words converter (Indian Number System)
-const numberToWords = (num: number): string => {
-  if (num === 0) return "Zero";
-
-  const a = ['', 'One ', 'Two ', 'Three ', 'Four ', 'Five ', 'Six ', 'Seven ', 'Eight ', 'Nine ', 'Ten ', 'Eleven ', 'Twelve ', 'Thirteen ', 'Fourteen ', 'Fifteen ', 'Sixteen ', 'Seventeen ', 'Eighteen ', 'Nineteen '];
-  const b = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
-
-  const inWords = (inputNum: number): string => {
-    const n = inputNum.toString();
-    if (n.length > 9) return 'overflow';
-    let n_array: any = ('000000000' + n).slice(-9).match(/^(\d{2})(\d{2})(\d{2})(\d{1})(\d{2})$/);
-    if (!n_array) return "";
-    let str = '';
-    str += (Number(n_array[1]) !== 0) ? (a[Number(n_array[1])] || b[Number(n_array[1][0])] + ' ' + a[Number(n_array[1][1])]) + 'Crore ' : '';
-    str += (Number(n_array[2]) !== 0) ? (a[Number(n_array[2])] || b[Number(n_array[2][0])] + ' ' + a[Number(n_array[2][1])]) + 'Lakh ' : '';
-    str += (Number(n_array[3]) !== 0) ? (a[Number(n_array[3])] || b[Number(n_array[3][0])] + ' ' + a[Number(n_array[3][1])]) + 'Thousand ' : '';
-    str += (Number(n_array[4]) !== 0) ? (a[Number(n_array[4])] || b[Number(n_array[4][0])] + ' ' + a[Number(n_array[4][1])]) + 'Hundred ' : '';
-    str += (Number(n_array[5]) !== 0) ? ((str !== '') ? 'and ' : '') + (a[Number(n_array[5])] || b[Number(n_array[5][0])] + ' ' + a[Number(n_array[5][1])]) : '';
-    return str;
-  };
-
-  return inWords(num) + "Only";
-};
+// Item rows on a sheet that continues onto the next, between the brought and carried forward lines
+const ROWS_PER_PAGE = 16;
+
+// One line of the totals block between the items and the grand total
+const TotalsRow: React.FC<{ label: string; value: React.ReactNode; borderColor: string }> = ({ label, value, borderColor }) => (
+  <div className="flex border-t" style={{ borderColor }}>
+    <div className="w-10 border-r" style={{ borderColor }}></div>
+    <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor }}>
+      {label}
+    </div>
+    <div className="w-40 border-r" style={{ borderColor }}></div>
+    <div className="w-20 border-r" style={{ borderColor }}></div>
+    <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+      {value}
+    </div>
+  </div>
+);
 
 export const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({
   id,
@@ -61,336 +63,517 @@ export const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({
   date,
   customerName,
   customerCity,
+  customerGstin,
+  placeOfSupply,
   items,
   settings,
-  gstRate: propGstRate
+  gstRate: propGstRate,
+  documentTitle,
+  billNoLabel = 'Bill No.',
+  referenceNote,
+  watermark,
+  amountPaid = 0,
+  amountCredited = 0,
+  eInvoice,
+  discount,
+  charges = [],
+  tcsRate,
+  roundOff,
+  savedTotals
 }) => {
   // Calculate financials
-  const calcSubtotal = items.reduce((sum, item) => sum + item.amount, 0);
-
-  const isGstEnabled = settings.enableGst;
-  // Use prop if available (for History view), else settings (for Generator view)
+  const { enableGst: isGstEnabled, isInterState } = getGstTreatment(settings, placeOfSupply, savedTotals);
+  // Use prop if available (for History view), else settings (for Generator view).
+  // Only applies to items saved before they carried their own rate.
   const rate = propGstRate !== undefined ? propGstRate : (settings.defaultGstRate || 0);
-
-  const halfRate = rate / 2;
-  const calcSgst = isGstEnabled ? Math.round(calcSubtotal * (halfRate / 100)) : 0;
-  const calcCgst = isGstEnabled ? Math.round(calcSubtotal * (halfRate / 100)) : 0;
-  const totalAmount = calcSubtotal + calcSgst + calcCgst;
+  const totals = applySavedTotals(calculateInvoiceTotals(items, {
+    enableGst: isGstEnabled,
+    defaultGstRate: rate,
+    isInterState,
+    billDiscount: discount,
+    charges,
+    tcsRate,
+    roundOff
+  }), savedTotals);
+  const calcSubtotal = totals.subtotal;
+  const hasBillDiscount = totals.billDiscountAmount > 0;
+  const { beforeTax: chargesBeforeTax, afterTax: chargesAfterTax } = splitCharges(charges, isGstEnabled);
+  const chargeCount = chargesBeforeTax.length + chargesAfterTax.length;
+  const showTaxableValue = isGstEnabled && (hasBillDiscount || chargesBeforeTax.length > 0);
+  const showSubtotal = isGstEnabled || hasBillDiscount || chargeCount > 0 || totals.tcsAmount > 0 || totals.roundOff !== 0;
+  const totalAmount = totals.total;
+  const upiUri = settings.showUpiQr ? buildUpiUri(settings, totalAmount, billNo) : null;
+  const uniformRate = getUniformGstRate(totals.hsnSummary);
+  const placeOfSupplyLabel = formatPlaceOfSupply(placeOfSupply);
 
   const totalQty = items.reduce((sum, item) => sum + item.quantity, 0);
-  const amountInWords = numberToWords(Math.round(totalAmount));
+  const amountInWords = numberToWords(totalAmount);
+  const showBalance = amountPaid > 0 || amountCredited > 0;
+  const balanceDue = Math.max(0, Math.round((totalAmount - amountCredited - amountPaid) * 100) / 100);
 
   // Calculate total weight from packing
-  const totalWeightDisplay = React.useMemo(() => {
-    const totalGrams = items.reduce((sum, item) => {
-      if (!item.packing) return sum;
-      const text = item.packing.toLowerCase().trim();
-      const match = text.match(/^(\d+(\.\d+)?)\s*(kg|gm|g|ltr|ml|l)/);
-
-      if (match) {
-        let value = parseFloat(match[1]);
-        const unit = match[3];
-        if (['kg', 'ltr', 'l'].includes(unit)) {
-          value *= 1000;
-        }
-        return sum + (value * item.quantity);
-      }
-      return sum;
-    }, 0);
-
-    if (totalGrams === 0) return "-";
-
-    const kg = Math.floor(totalGrams / 1000);
-    const gm = Math.round(totalGrams % 1000);
-
-    const parts = [];
-    if (kg > 0) parts.push(`${kg} Kg`);
-    if (gm > 0) parts.push(`${gm} Gm`);
-
-    return parts.join(' ');
-  }, [items]);
+  const totalWeightDisplay = React.useMemo(() => formatTotalWeight(items), [items]);
 
   // Ensure we have enough empty rows
-  // When GST is enabled, we have 3 extra footer rows (Subtotal, CGST, SGST), so fewer empty rows needed
+  // When GST is enabled, we have extra footer rows (Subtotal, tax lines) and the HSN summary, so fewer empty rows needed
   // When GST is disabled, add more empty rows to fill the space
-  const minRows = isGstEnabled ? 8 : 10;
-  const emptyRows = Math.max(0, minRows - items.length);
+  // Discounts, charges, TCS and round-off each take a row of their own
+  const totalsRows = (!isGstEnabled && showSubtotal ? 1 : 0) + (hasBillDiscount ? 1 : 0) + (showTaxableValue ? 1 : 0)
+    + chargeCount + (totals.tcsAmount > 0 ? 1 : 0) + (totals.roundOff !== 0 ? 1 : 0);
+  const minRows = Math.max(0, (isGstEnabled ? Math.max(4, 8 - totals.hsnSummary.length) : 10) - totalsRows);
+
+  // Long bills continue on further A4 sheets. The header, bill number and column headings
+  // repeat on every sheet, and the totals, bank details and signature close the last one.
+  const pages = paginateRows<InvoiceItem>(items, {
+    rowsPerPage: ROWS_PER_PAGE,
+    lastPageRows: minRows + 1, // Leaves a row for the brought forward line
+    firstPageReserve: eInvoice ? 4 : 0 // The IRN block and QR take about four rows
+  });
+  const isMultiPage = pages.length > 1;
+  // Item total before each sheet, printed as brought / carried forward
+  const runningTotals = pages.reduce<number[]>((acc, page) => {
+    acc.push(roundMoney(acc[acc.length - 1] + page.rows.reduce((sum, item) => sum + item.amount, 0)));
+    return acc;
+  }, [0]);
+  // A single sheet pads to minRows; continued sheets stretch one blank row instead, as their
+  // height is fixed and padding rows could push the carried forward line off the page
+  const emptyRows = isMultiPage ? 1 : Math.max(0, minRows - items.length);
 
   const themeColor = settings.themeColor || '#dc2626';
   const lightBg = hexToRgba(themeColor, 0.05);
   const borderColor = themeColor;
   const lightBorder = hexToRgba(themeColor, 0.3);
 
-  const logoWidth = settings.logoWidth || 80;
-
   return (
-    <div id={id} className="bg-white w-[210mm] min-h-[297mm] print:min-h-0 print:h-auto mx-auto relative font-serif-custom flex flex-col" style={{ color: themeColor }}>
-      <div className="p-4 flex-1 flex flex-col">
-        {/* Outer Border */}
-        <div className="border-2 flex-1 flex flex-col" style={{ borderColor: borderColor }}>
-
-          {/* Header Section */}
-          <div className="border-b-2 p-4 text-center relative" style={{ borderColor: borderColor }}>
-            {/* Logo */}
-            {settings.logoUrl ? (
-              <img
-                src={settings.logoUrl}
-                alt="Logo"
-                className="absolute left-4 top-4 object-contain"
-                style={{ width: `${logoWidth}px`, maxHeight: '120px' }}
-              />
-            ) : (
-              <div
-                className="absolute left-4 top-4 w-16 h-16 border-2 rounded-full flex items-center justify-center"
-                style={{ borderColor: borderColor }}>
-                <div className="text-center">
-                  <span className="block text-2xl font-bold leading-none">{settings.logoInitial}</span>
-                </div>
+    <div id={id} className={`bg-white w-[210mm] mx-auto relative font-serif-custom ${isMultiPage ? '' : 'min-h-[297mm] print:min-h-0 print:h-auto flex flex-col'}`} style={{ color: themeColor }}>
+      {pages.map((page, pageIndex) => {
+        const isFirstPage = pageIndex === 0;
+        const isLastPage = pageIndex === pages.length - 1;
+        const broughtForward = runningTotals[pageIndex];
+        const carriedForward = runningTotals[pageIndex + 1];
+        return (
+          <div key={pageIndex} className={isMultiPage ? 'invoice-sheet min-h-[297mm] relative flex flex-col' : 'flex-1 flex flex-col'}>
+            {watermark && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
+                <span className="text-8xl font-bold tracking-widest border-8 px-6 py-2 opacity-20" style={{ color: themeColor, borderColor: themeColor, transform: 'rotate(-30deg)' }}>
+                  {watermark}
+                </span>
               </div>
             )}
+            <div className="p-4 flex-1 flex flex-col">
+              {/* Outer Border */}
+              <div className="border-2 flex-1 flex flex-col" style={{ borderColor: borderColor }}>
 
-            <div className="mt-2">
-              <h1 className="text-5xl font-bold tracking-wider mb-1" style={{ color: themeColor }}>{settings.name}</h1>
-              <h2 className="text-2xl font-bold" style={{ color: themeColor }}>{settings.subName}</h2>
-              <p className="mt-1 text-sm" style={{ color: themeColor }}>{settings.address} M.: {settings.mobile}</p>
-              {settings.enableGst && settings.gstin && (
-                <p className="text-sm font-bold" style={{ color: themeColor }}>GSTIN: {settings.gstin}</p>
-              )}
-            </div>
-          </div>
-
-          {/* Meta Data Section */}
-          <div className="flex border-b-2" style={{ borderColor: borderColor }}>
-            <div className="flex-1 p-2 border-r flex items-center" style={{ borderColor: borderColor }}>
-              <span className="font-bold mr-2">Bill No.:</span>
-              <span className="text-xl font-medium text-slate-900">{billNo}</span>
-            </div>
-            <div className="flex-1 p-2 flex items-center justify-end">
-              <span className="font-bold mr-2">Date:</span>
-              <span className="text-xl font-medium text-slate-900">{date}</span>
-            </div>
-          </div>
+                {/* Header Section */}
+                <BusinessHeader settings={settings} />
 
-          <div className="p-2 border-b-2 flex items-end" style={{ borderColor: borderColor }}>
-            <span className="font-bold mr-2 mb-1">M/s.</span>
-            <div className="flex-1 border-b border-dashed text-xl font-medium text-slate-900 px-2" style={{ borderColor: lightBorder }}>
-              {customerName}
-            </div>
-            <div className="w-1/3 border-b border-dashed text-xl font-medium text-slate-900 px-2 text-center" style={{ borderColor: lightBorder }}>
-              {customerCity ? `(${customerCity})` : ''}
-            </div>
-          </div>
+                {documentTitle && (
+                  <div className="border-b-2 py-1 text-center text-xl font-bold tracking-[0.3em]" style={{ borderColor: borderColor, backgroundColor: lightBg }}>
+                    {documentTitle}
+                  </div>
+                )}
 
-          {/* Table Header */}
-          <div className="flex border-b-2" style={{ borderColor: borderColor, backgroundColor: lightBg }}>
-            <div className="w-10 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>No.</div>
-            <div className="flex-1 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Details</div>
-            <div className="w-24 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Packing</div>
-            <div className="w-16 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Qty</div>
-            <div className="w-20 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Rate</div>
-            <div className="w-24 p-1 text-center font-bold">Amount</div>
-          </div>
+                {eInvoice && isFirstPage && (
+                  <div className="flex border-b-2 text-xs" style={{ borderColor: borderColor }}>
+                    <div className="flex-1 p-2 space-y-1 text-slate-900">
+                      <div className="font-bold text-sm" style={{ color: themeColor }}>e-Invoice</div>
+                      <div className="break-all"><span className="font-bold" style={{ color: themeColor }}>IRN:</span> {eInvoice.irn}</div>
+                      <div><span className="font-bold" style={{ color: themeColor }}>Ack No.:</span> {eInvoice.ackNo}</div>
+                      {eInvoice.ackDate && <div><span className="font-bold" style={{ color: themeColor }}>Ack Date:</span> {eInvoice.ackDate}</div>}
+                    </div>
+                    <div className="p-2 border-l" style={{ borderColor: lightBorder }}>
+                      <QrCode value={eInvoice.signedQrCode} ecl="L" title="e-Invoice QR Code" className="w-28 h-28 block" />
+                    </div>
+                  </div>
+                )}
 
-          {/* Table Body */}
-          <div className="flex-1 flex flex-col">
-            {items.map((item, index) => (
-              <div key={item.id} className="flex border-b" style={{ borderColor: lightBorder }}>
-                <div className="w-10 p-1 text-center border-r flex items-center justify-center text-slate-800" style={{ borderColor: borderColor }}>
-                  {index + 1}
-                </div>
-                <div className="flex-1 p-1 pl-3 text-left border-r text-lg text-slate-800 font-medium" style={{ borderColor: borderColor }}>
-                  {item.name}
-                </div>
-                <div className="w-24 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
-                  {item.packing || '-'}
-                </div>
-                <div className="w-16 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
-                  {item.quantity} {['Kg', 'Gm', 'G', 'Ltr', 'Ml', 'L'].includes(item.unit) ? '' : item.unit}
-                </div>
-                <div className="w-20 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
-                  {item.rate}
-                </div>
-                <div className="w-24 p-1 text-center text-lg font-handwriting font-bold text-slate-900 flex items-center justify-center">
-                  {item.amount}
-                </div>
-              </div>
-            ))}
-
-            {/* Empty Rows Filler */}
-            <div className="flex-1 flex flex-col">
-              {Array.from({ length: emptyRows }).map((_, i) => (
-                <div key={`empty-${i}`} className="flex border-b flex-1 min-h-[40px]" style={{ borderColor: hexToRgba(themeColor, 0.1) }}>
-                  <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="flex-1 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-24 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-16 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-24"></div>
+                {/* Meta Data Section */}
+                <div className="flex border-b-2" style={{ borderColor: borderColor }}>
+                  <div className="flex-1 p-2 border-r flex items-center" style={{ borderColor: borderColor }}>
+                    <span className="font-bold mr-2">{billNoLabel}:</span>
+                    <span className="text-xl font-medium text-slate-900">{billNo}</span>
+                  </div>
+                  {isMultiPage && (
+                    <div className="px-4 p-2 border-r flex items-center text-sm font-bold whitespace-nowrap" style={{ borderColor: borderColor }}>
+                      Page {pageIndex + 1} of {pages.length}
+                    </div>
+                  )}
+                  <div className="flex-1 p-2 flex items-center justify-end">
+                    <span className="font-bold mr-2">Date:</span>
+                    <span className="text-xl font-medium text-slate-900">{date}</span>
+                  </div>
                 </div>
-              ))}
-            </div>
 
-            {/* Subtotal Row (If GST enabled) */}
-            {isGstEnabled && (
-              <div className="flex border-t" style={{ borderColor: borderColor }}>
-                <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
-                <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
-                  Subtotal
-                </div>
-                <div className="w-40 border-r text-center p-1 font-bold text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
-                  {totalWeightDisplay !== '-' ? totalWeightDisplay : Number(totalQty.toFixed(2))}
-                </div>
-                <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
-                <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
-                  ₹{calcSubtotal}
-                </div>
-              </div>
-            )}
+                {referenceNote && (
+                  <div className="px-2 py-1 border-b-2 text-sm font-bold" style={{ borderColor: borderColor }}>
+                    {referenceNote}
+                  </div>
+                )}
 
-            {/* GST Split Rows (If enabled) */}
-            {isGstEnabled && (
-              <>
-                <div className="flex border-t" style={{ borderColor: borderColor }}>
-                  <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
-                    Add: CGST ({halfRate}%)
+                <div className="p-2 border-b-2 flex items-end" style={{ borderColor: borderColor }}>
+                  <span className="font-bold mr-2 mb-1">M/s.</span>
+                  <div className="flex-1 border-b border-dashed text-xl font-medium text-slate-900 px-2" style={{ borderColor: lightBorder }}>
+                    {customerName}
                   </div>
-                  <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
-                    ₹{calcCgst}
+                  <div className="w-1/3 border-b border-dashed text-xl font-medium text-slate-900 px-2 text-center" style={{ borderColor: lightBorder }}>
+                    {customerCity ? `(${customerCity})` : ''}
                   </div>
                 </div>
-                <div className="flex border-t" style={{ borderColor: borderColor }}>
-                  <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
-                    Add: SGST ({halfRate}%)
-                  </div>
-                  <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
-                  <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
-                    ₹{calcSgst}
+
+                {isGstEnabled && (customerGstin || placeOfSupplyLabel) && (
+                  <div className="flex border-b-2 text-sm" style={{ borderColor: borderColor }}>
+                    <div className="flex-1 px-2 py-1 border-r" style={{ borderColor: borderColor }}>
+                      <span className="font-bold mr-2">GSTIN:</span>
+                      <span className="font-medium text-slate-900">{customerGstin || 'Unregistered'}</span>
+                    </div>
+                    <div className="flex-1 px-2 py-1 text-right">
+                      <span className="font-bold mr-2">Place of Supply:</span>
+                      <span className="font-medium text-slate-900">{placeOfSupplyLabel || '-'}</span>
+                    </div>
                   </div>
+                )}
+
+                {/* Table Header */}
+                <div className="flex border-b-2" style={{ borderColor: borderColor, backgroundColor: lightBg }}>
+                  <div className="w-10 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>No.</div>
+                  <div className="flex-1 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Details</div>
+                  {isGstEnabled && <div className="w-20 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>HSN</div>}
+                  <div className="w-24 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Packing</div>
+                  <div className="w-16 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Qty</div>
+                  <div className="w-20 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Rate</div>
+                  <div className="w-24 p-1 text-center font-bold">Amount</div>
                 </div>
-              </>
-            )}
 
-            {/* Grand Total Row */}
-            <div className="flex border-t" style={{ borderColor: borderColor }}>
-              <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
-              <div className="flex-1 border-r text-right p-1 pr-4 font-bold text-lg" style={{ borderColor: borderColor }}>
-                {isGstEnabled ? 'Grand Total' : 'Total'}
-              </div>
-              {/* If GST is NOT enabled, show the weight summary here. If GST IS enabled, we showed it in subtotal to avoid clutter */}
-              <div className="w-40 border-r text-center p-1 font-bold text-lg text-slate-900 flex items-center justify-center leading-tight whitespace-pre-line" style={{ borderColor: borderColor }}>
-                {!isGstEnabled ? (totalWeightDisplay !== '-' ? totalWeightDisplay : Number(totalQty.toFixed(2))) : ''}
-              </div>
-              <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
-              <div className="w-24 text-center p-1 font-bold text-lg text-slate-900 flex items-center justify-center">
-                ₹{totalAmount}
-              </div>
-            </div>
-          </div>
+                {/* Table Body */}
+                <div className="flex-1 flex flex-col">
+                  {!isFirstPage && (
+                    <div className="flex border-b" style={{ borderColor: borderColor }}>
+                      <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="flex-1 border-r text-right p-1 pr-4 font-bold italic" style={{ borderColor: borderColor }}>
+                        Brought Forward
+                      </div>
+                      <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                        ₹{broughtForward}
+                      </div>
+                    </div>
+                  )}
 
-          {/* Footer Area */}
-          <div className="border-t-2" style={{ borderColor: borderColor }}>
+                  {page.rows.map((item, index) => (
+                    <div key={item.id} className="flex border-b" style={{ borderColor: lightBorder }}>
+                      <div className="w-10 p-1 text-center border-r flex items-center justify-center text-slate-800" style={{ borderColor: borderColor }}>
+                        {page.startIndex + index + 1}
+                      </div>
+                      <div className="flex-1 p-1 pl-3 text-left border-r text-lg text-slate-800 font-medium" style={{ borderColor: borderColor }}>
+                        {item.name}
+                        {item.rateNote && <span className="ml-2 text-xs font-normal text-slate-500">({item.rateNote})</span>}
+                        {item.discount && item.discountAmount ? (
+                          <span className="ml-2 text-xs font-normal text-slate-500">(Less {formatDiscount(item.discount)} = ₹{item.discountAmount})</span>
+                        ) : null}
+                      </div>
+                      {isGstEnabled && (
+                        <div className="w-20 p-1 text-center border-r text-sm text-slate-800 flex items-center justify-center" style={{ borderColor: borderColor }}>
+                          {item.hsnCode || '-'}
+                        </div>
+                      )}
+                      <div className="w-24 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
+                        {item.packing || '-'}
+                      </div>
+                      <div className="w-16 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
+                        {item.quantity} {['Kg', 'Gm', 'G', 'Ltr', 'Ml', 'L'].includes(item.unit) ? '' : item.unit}
+                      </div>
+                      <div className="w-20 p-1 text-center border-r text-lg font-handwriting text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
+                        {item.rate}
+                      </div>
+                      <div className="w-24 p-1 text-center text-lg font-handwriting font-bold text-slate-900 flex items-center justify-center">
+                        {item.amount}
+                      </div>
+                    </div>
+                  ))}
+
+                  {/* Empty Rows Filler */}
+                  <div className="flex-1 flex flex-col">
+                    {Array.from({ length: emptyRows }).map((_, i) => (
+                      <div key={`empty-${i}`} className={`flex border-b flex-1 ${isMultiPage ? 'min-h-0' : 'min-h-[40px]'}`} style={{ borderColor: hexToRgba(themeColor, 0.1) }}>
+                        <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="flex-1 border-r" style={{ borderColor: borderColor }}></div>
+                        {isGstEnabled && <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>}
+                        <div className="w-24 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-16 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-24"></div>
+                      </div>
+                    ))}
+                  </div>
 
-            <div className="flex">
-              {/* LEFT SIDE: Words & Bank Details */}
-              <div className="flex-1 border-r-2 flex flex-col" style={{ borderColor: borderColor }}>
+                  {!isLastPage && (
+                    <div className="flex border-t" style={{ borderColor: borderColor }}>
+                      <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="flex-1 border-r text-right p-1 pr-4 font-bold italic" style={{ borderColor: borderColor }}>
+                        Carried Forward
+                      </div>
+                      <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                        ₹{carriedForward}
+                      </div>
+                    </div>
+                  )}
 
-                {/* Amount In Words */}
-                <div className="p-2 border-b flex-1" style={{ borderColor: lightBorder }}>
-                  <span className="font-bold text-sm block mb-1">Amount Chargeable (in words):</span>
-                  <span className="font-bold italic text-slate-900">{amountInWords}</span>
-                </div>
+                  {/* Subtotal Row (If GST enabled, or to add the discount and charges to) */}
+                  {isLastPage && showSubtotal && (
+                    <div className="flex border-t" style={{ borderColor: borderColor }}>
+                      <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
+                        Subtotal
+                      </div>
+                      <div className="w-40 border-r text-center p-1 font-bold text-slate-900 flex items-center justify-center" style={{ borderColor: borderColor }}>
+                        {isGstEnabled ? (totalWeightDisplay !== '-' ? totalWeightDisplay : Number(totalQty.toFixed(2))) : ''}
+                      </div>
+                      <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                        ₹{totals.itemsTotal}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Bill discount and taxable charges, before tax */}
+                  {isLastPage && hasBillDiscount && discount && (
+                    <TotalsRow
+                      label={`Less: Discount${discount.type === 'percent' ? ` (${discount.value}%)` : ''}`}
+                      value={`-₹${totals.billDiscountAmount}`}
+                      borderColor={borderColor}
+                    />
+                  )}
+                  {isLastPage && chargesBeforeTax.map((charge, i) => (
+                    <TotalsRow key={`charge-${i}`} label={`Add: ${charge.label}`} value={`₹${charge.amount}`} borderColor={borderColor} />
+                  ))}
+                  {isLastPage && showTaxableValue && (
+                    <TotalsRow label="Taxable Value" value={`₹${calcSubtotal}`} borderColor={borderColor} />
+                  )}
 
-                {/* Bank Details & UPI QR */}
-                <div className="flex">
-                  <div className="flex-1">
-                    {settings.bankName && (
-                      <div className="p-2 text-sm">
-                        <h3 className="font-bold underline mb-1">Company's Bank Details</h3>
-                        <div className="grid grid-cols-[80px_1fr] gap-x-2">
-                          <span className="font-semibold">Bank Name:</span>
-                          <span className="text-slate-900 font-medium">{settings.bankName}</span>
-
-                          <span className="font-semibold">A/c No.:</span>
-                          <span className="text-slate-900 font-medium">{settings.bankAccountNumber}</span>
-
-                          <span className="font-semibold">Branch & IFS:</span>
-                          <span className="text-slate-900 font-medium">{settings.bankBranch} {settings.bankIfsc}</span>
+                  {/* GST Rows (If enabled): IGST for inter-state supplies, CGST + SGST otherwise */}
+                  {isLastPage && isGstEnabled && totals.isInterState && (
+                    <div className="flex border-t" style={{ borderColor: borderColor }}>
+                      <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
+                        Add: IGST{uniformRate !== null ? ` (${uniformRate}%)` : ''}
+                      </div>
+                      <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                        ₹{totals.igstAmount}
+                      </div>
+                    </div>
+                  )}
+                  {isLastPage && isGstEnabled && !totals.isInterState && (
+                    <>
+                      <div className="flex border-t" style={{ borderColor: borderColor }}>
+                        <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
+                          Add: CGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}
+                        </div>
+                        <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                          ₹{totals.cgstAmount}
                         </div>
                       </div>
-                    )}
-                  </div>
-                  {settings.showUpiQr && settings.upiId && (
-                    <div className="p-2 flex flex-col items-center justify-center border-l" style={{ borderColor: lightBorder }}>
-                      <div className="bg-white p-1 border relative" style={{ borderColor: borderColor }}>
-                        <img
-                          src={`https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(`upi://pay?pa=${settings.upiId}&pn=${settings.name}&am=${totalAmount.toFixed(2)}&cu=INR`)}&ecc=H`}
-                          alt="UPI QR Code"
-                          className="w-24 h-24 block"
-                        />
-                        {/* UPI Logo Overlay */}
-                        <div className="absolute inset-0 flex items-center justify-center">
-                          <div className="bg-white p-0.5 rounded-sm shadow-sm border border-slate-100">
-                            <img
-                              src="https://upload.wikimedia.org/wikipedia/commons/thumb/e/e1/UPI-Logo-vector.svg/64px-UPI-Logo-vector.svg.png"
-                              className="w-5 h-5 object-contain"
-                              alt="UPI Logo"
-                            />
-                          </div>
+                      <div className="flex border-t" style={{ borderColor: borderColor }}>
+                        <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="flex-1 border-r text-right p-1 pr-4 font-bold" style={{ borderColor: borderColor }}>
+                          Add: SGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}
+                        </div>
+                        <div className="w-40 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                        <div className="w-24 text-center p-1 font-bold text-slate-900 flex items-center justify-center">
+                          ₹{totals.sgstAmount}
                         </div>
                       </div>
-                      <span className="text-[10px] font-bold mt-1">Scan to Pay: ₹{totalAmount}</span>
-                      <span className="text-[8px] opacity-70">UPI: {settings.upiId}</span>
+                    </>
+                  )}
+
+                  {/* Charges added after tax, TCS and round-off */}
+                  {isLastPage && chargesAfterTax.map((charge, i) => (
+                    <TotalsRow key={`other-${i}`} label={`Add: ${charge.label}`} value={`₹${charge.amount}`} borderColor={borderColor} />
+                  ))}
+                  {isLastPage && totals.tcsAmount > 0 && (
+                    <TotalsRow label={`Add: TCS (${tcsRate}%)`} value={`₹${totals.tcsAmount}`} borderColor={borderColor} />
+                  )}
+                  {isLastPage && totals.roundOff !== 0 && (
+                    <TotalsRow label="Round Off" value={`${totals.roundOff > 0 ? '+' : '-'}₹${Math.abs(totals.roundOff).toFixed(2)}`} borderColor={borderColor} />
+                  )}
+
+                  {/* Grand Total Row */}
+                  {isLastPage && (
+                    <div className="flex border-t" style={{ borderColor: borderColor }}>
+                      <div className="w-10 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="flex-1 border-r text-right p-1 pr-4 font-bold text-lg" style={{ borderColor: borderColor }}>
+                        {isGstEnabled ? 'Grand Total' : 'Total'}
+                      </div>
+                      {/* If GST is NOT enabled, show the weight summary here. If GST IS enabled, we showed it in subtotal to avoid clutter */}
+                      <div className="w-40 border-r text-center p-1 font-bold text-lg text-slate-900 flex items-center justify-center leading-tight whitespace-pre-line" style={{ borderColor: borderColor }}>
+                        {!isGstEnabled ? (totalWeightDisplay !== '-' ? totalWeightDisplay : Number(totalQty.toFixed(2))) : ''}
+                      </div>
+                      <div className="w-20 border-r" style={{ borderColor: borderColor }}></div>
+                      <div className="w-24 text-center p-1 font-bold text-lg text-slate-900 flex items-center justify-center">
+                        ₹{totalAmount}
+                      </div>
                     </div>
                   )}
                 </div>
-              </div>
 
-              {/* RIGHT SIDE: Totals */}
-              <div className="w-1/3 flex flex-col">
-                <div className="flex-1"></div> {/* Spacer for alignment if needed */}
-                <div className="flex border-t" style={{ borderColor: lightBorder }}>
-                  <div className="flex-1 p-2 text-right font-bold text-xl bg-opacity-10" style={{ backgroundColor: lightBg }}>
-                    Total
-                  </div>
-                  <div className="w-32 p-2 text-center font-bold text-2xl text-slate-900">
-                    ₹{totalAmount}
+                {/* HSN-wise Tax Summary */}
+                {isLastPage && isGstEnabled && totals.hsnSummary.length > 0 && (
+                  <div className="border-t-2 text-xs text-slate-900" style={{ borderColor: borderColor }}>
+                    <div className="flex border-b font-bold" style={{ borderColor: lightBorder, backgroundColor: lightBg, color: themeColor }}>
+                      <div className="w-24 p-1 text-center border-r" style={{ borderColor: lightBorder }}>HSN/SAC</div>
+                      <div className="flex-1 p-1 text-center border-r" style={{ borderColor: lightBorder }}>Taxable Value</div>
+                      {totals.isInterState ? (
+                        <div className="w-40 p-1 text-center border-r" style={{ borderColor: lightBorder }}>IGST</div>
+                      ) : (
+                        <>
+                          <div className="w-40 p-1 text-center border-r" style={{ borderColor: lightBorder }}>CGST</div>
+                          <div className="w-40 p-1 text-center border-r" style={{ borderColor: lightBorder }}>SGST</div>
+                        </>
+                      )}
+                      <div className="w-28 p-1 text-center">Total Tax</div>
+                    </div>
+                    {totals.hsnSummary.map(row => (
+                      <div key={`${row.hsnCode}-${row.gstRate}`} className="flex border-b" style={{ borderColor: lightBorder }}>
+                        <div className="w-24 p-1 text-center border-r" style={{ borderColor: lightBorder }}>{row.hsnCode || '-'}</div>
+                        <div className="flex-1 p-1 text-right pr-2 border-r" style={{ borderColor: lightBorder }}>{row.taxableValue.toFixed(2)}</div>
+                        {totals.isInterState ? (
+                          <div className="w-40 p-1 text-right pr-2 border-r" style={{ borderColor: lightBorder }}>{row.gstRate}% · {row.igstAmount.toFixed(2)}</div>
+                        ) : (
+                          <>
+                            <div className="w-40 p-1 text-right pr-2 border-r" style={{ borderColor: lightBorder }}>{row.gstRate / 2}% · {row.cgstAmount.toFixed(2)}</div>
+                            <div className="w-40 p-1 text-right pr-2 border-r" style={{ borderColor: lightBorder }}>{row.gstRate / 2}% · {row.sgstAmount.toFixed(2)}</div>
+                          </>
+                        )}
+                        <div className="w-28 p-1 text-right pr-2">{(row.cgstAmount + row.sgstAmount + row.igstAmount).toFixed(2)}</div>
+                      </div>
+                    ))}
                   </div>
-                </div>
-              </div>
-            </div>
+                )}
 
-            {/* Signatures */}
-            <div className="flex justify-between items-end p-3 pt-6 border-t-2" style={{ borderColor: borderColor }}>
-              <div className="text-center w-1/3">
-                <div className="text-xs text-left mb-4 italic text-slate-500">
-                  Declaration:<br />
-                  We declare that this invoice shows the actual price of the goods described and that all particulars are true and correct.
-                </div>
-              </div>
-              <div className="text-center w-1/3">
-                <p className="font-bold mb-1 text-sm">For, {settings.signatureName || settings.name}</p>
-                {settings.signatureUrl && (
-                  <div className="flex justify-center my-2">
-                    <img
-                      src={settings.signatureUrl}
-                      alt="Signature"
-                      className="max-h-12 object-contain"
-                    />
+                {/* Footer Area */}
+                {isLastPage && (
+                  <div className="border-t-2" style={{ borderColor: borderColor }}>
+
+                    <div className="flex">
+                      {/* LEFT SIDE: Words & Bank Details */}
+                      <div className="flex-1 border-r-2 flex flex-col" style={{ borderColor: borderColor }}>
+
+                        {/* Amount In Words */}
+                        <div className="p-2 border-b flex-1" style={{ borderColor: lightBorder }}>
+                          <span className="font-bold text-sm block mb-1">Amount Chargeable (in words):</span>
+                          <span className="font-bold italic text-slate-900">{amountInWords}</span>
+                        </div>
+
+                        {/* Bank Details & UPI QR */}
+                        <div className="flex">
+                          <div className="flex-1">
+                            {settings.bankName && (
+                              <div className="p-2 text-sm">
+                                <h3 className="font-bold underline mb-1">Company's Bank Details</h3>
+                                <div className="grid grid-cols-[80px_1fr] gap-x-2">
+                                  <span className="font-semibold">Bank Name:</span>
+                                  <span className="text-slate-900 font-medium">{settings.bankName}</span>
+
+                                  <span className="font-semibold">A/c No.:</span>
+                                  <span className="text-slate-900 font-medium">{settings.bankAccountNumber}</span>
+
+                                  <span className="font-semibold">Branch & IFS:</span>
+                                  <span className="text-slate-900 font-medium">{settings.bankBranch} {settings.bankIfsc}</span>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                          {upiUri && (
+                            <div className="p-2 flex flex-col items-center justify-center border-l" style={{ borderColor: lightBorder }}>
+                              <div className="bg-white p-1 border relative" style={{ borderColor: borderColor }}>
+                                <QrCode value={upiUri} ecl="H" title="UPI QR Code" className="w-24 h-24 block" />
+                                {/* UPI badge over the centre; high error correction keeps the code readable */}
+                                <div className="absolute inset-0 flex items-center justify-center">
+                                  <div className="bg-white px-0.5 rounded-sm border border-slate-100 text-[7px] font-black italic leading-tight text-slate-700">
+                                    UPI
+                                  </div>
+                                </div>
+                              </div>
+                              <span className="text-[10px] font-bold mt-1">Scan to Pay: ₹{totalAmount}</span>
+                              <span className="text-[8px] opacity-70">UPI: {settings.upiId}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {/* RIGHT SIDE: Totals */}
+                      <div className="w-1/3 flex flex-col">
+                        <div className="flex-1"></div> {/* Spacer for alignment if needed */}
+                        <div className="flex border-t" style={{ borderColor: lightBorder }}>
+                          <div className="flex-1 p-2 text-right font-bold text-xl bg-opacity-10" style={{ backgroundColor: lightBg }}>
+                            Total
+                          </div>
+                          <div className="w-32 p-2 text-center font-bold text-2xl text-slate-900">
+                            ₹{totalAmount}
+                          </div>
+                        </div>
+                        {showBalance && (
+                          <>
+                            {amountCredited > 0 && (
+                              <div className="flex border-t text-sm" style={{ borderColor: lightBorder }}>
+                                <div className="flex-1 p-1 pr-2 text-right font-bold">Less: Credit Notes</div>
+                                <div className="w-32 p-1 text-center font-bold text-slate-900">₹{amountCredited}</div>
+                              </div>
+                            )}
+                            {amountPaid > 0 && (
+                              <div className="flex border-t text-sm" style={{ borderColor: lightBorder }}>
+                                <div className="flex-1 p-1 pr-2 text-right font-bold">Less: Received</div>
+                                <div className="w-32 p-1 text-center font-bold text-slate-900">₹{amountPaid}</div>
+                              </div>
+                            )}
+                            <div className="flex border-t" style={{ borderColor: lightBorder }}>
+                              <div className="flex-1 p-2 text-right font-bold" style={{ backgroundColor: lightBg }}>Balance Due</div>
+                              <div className="w-32 p-2 text-center font-bold text-xl text-slate-900">₹{balanceDue}</div>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Signatures */}
+                    <div className="flex justify-between items-end p-3 pt-6 border-t-2" style={{ borderColor: borderColor }}>
+                      <div className="text-center w-1/3">
+                        <div className="text-xs text-left mb-4 italic text-slate-500">
+                          Declaration:<br />
+                          We declare that this invoice shows the actual price of the goods described and that all particulars are true and correct.
+                        </div>
+                      </div>
+                      <div className="text-center w-1/3">
+                        <p className="font-bold mb-1 text-sm">For, {settings.signatureName || settings.name}</p>
+                        {settings.signatureUrl && (
+                          <div className="flex justify-center my-2">
+                            <img
+                              src={settings.signatureUrl}
+                              alt="Signature"
+                              className="max-h-12 object-contain"
+                            />
+                          </div>
+                        )}
+                        <div className="border-t w-full mb-1" style={{ borderColor: lightBorder }}></div>
+                        <span className="text-xs">Authorised Signatory</span>
+                      </div>
+                    </div>
                   </div>
                 )}
-                <div className="border-t w-full mb-1" style={{ borderColor: lightBorder }}></div>
-                <span className="text-xs">Authorised Signatory</span>
+
               </div>
             </div>
           </div>
-
-        </div>
-      </div>
+        );
+      })}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,286 @@
+import React from 'react';
+import { InvoiceItem } from '../types';
+import { InvoiceTemplateProps } from './InvoiceTemplate';
+import { applySavedTotals, calculateInvoiceTotals, formatDiscount, formatPlaceOfSupply, getGstTreatment, getUniformGstRate, roundMoney, splitCharges } from '../utils/gst';
+import { paginateRows } from '../utils/pagination';
+import { numberToWords } from '../utils/format';
+import { buildUpiUri } from '../utils/upi';
+import { QrCode } from './QrCode';
+
+// Item rows on a sheet that continues onto the next, and above the totals on the last sheet
+const ROWS_PER_PAGE = 18;
+const LAST_PAGE_ROWS = 12;
+
+// Plain A4 layout: no borders or letterhead, just the theme colour as an accent.
+export const ModernInvoiceTemplate: React.FC<InvoiceTemplateProps> = ({
+  id,
+  billNo,
+  date,
+  customerName,
+  customerCity,
+  customerGstin,
+  placeOfSupply,
+  items,
+  settings,
+  gstRate: propGstRate,
+  documentTitle,
+  billNoLabel = 'Bill No.',
+  referenceNote,
+  watermark,
+  amountPaid = 0,
+  amountCredited = 0,
+  eInvoice,
+  discount,
+  charges = [],
+  tcsRate,
+  roundOff,
+  savedTotals
+}) => {
+  const { enableGst: isGstEnabled, isInterState } = getGstTreatment(settings, placeOfSupply, savedTotals);
+  const rate = propGstRate !== undefined ? propGstRate : (settings.defaultGstRate || 0);
+  const totals = applySavedTotals(calculateInvoiceTotals(items, {
+    enableGst: isGstEnabled,
+    defaultGstRate: rate,
+    isInterState,
+    billDiscount: discount,
+    charges,
+    tcsRate,
+    roundOff
+  }), savedTotals);
+  const { beforeTax: chargesBeforeTax, afterTax: chargesAfterTax } = splitCharges(charges, isGstEnabled);
+  const uniformRate = getUniformGstRate(totals.hsnSummary);
+  const placeOfSupplyLabel = formatPlaceOfSupply(placeOfSupply);
+  const showBalance = amountPaid > 0 || amountCredited > 0;
+  const balanceDue = Math.max(0, Math.round((totals.total - amountCredited - amountPaid) * 100) / 100);
+  const upiUri = settings.showUpiQr ? buildUpiUri(settings, totals.total, billNo) : null;
+  const themeColor = settings.themeColor || '#dc2626';
+  const title = documentTitle || (isGstEnabled ? 'TAX INVOICE' : 'INVOICE');
+
+  // Long bills continue on further A4 sheets. The header, bill number and column headings
+  // repeat on every sheet; the customer block opens the first and the totals close the last.
+  const pages = paginateRows<InvoiceItem>(items, {
+    rowsPerPage: ROWS_PER_PAGE,
+    lastPageRows: LAST_PAGE_ROWS,
+    firstPageReserve: eInvoice ? 6 : 3 // The Bill To block, and the IRN block and QR
+  });
+  const isMultiPage = pages.length > 1;
+  // Item total before each sheet, printed as brought / carried forward
+  const runningTotals = pages.reduce<number[]>((acc, page) => {
+    acc.push(roundMoney(acc[acc.length - 1] + page.rows.reduce((sum, item) => sum + item.amount, 0)));
+    return acc;
+  }, [0]);
+  const columnCount = isGstEnabled ? 6 : 5;
+
+  return (
+    <div id={id} className={`bg-white w-[210mm] mx-auto relative text-slate-800 font-sans text-sm ${isMultiPage ? '' : 'min-h-[297mm] print:min-h-0 flex flex-col'}`}>
+      {pages.map((page, pageIndex) => {
+        const isFirstPage = pageIndex === 0;
+        const isLastPage = pageIndex === pages.length - 1;
+        return (
+          <div key={pageIndex} className={isMultiPage ? 'invoice-sheet min-h-[297mm] relative p-10 flex flex-col' : 'flex-1 relative p-10 flex flex-col'}>
+            {watermark && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
+                <span className="text-8xl font-bold tracking-widest border-8 px-6 py-2 opacity-20" style={{ color: themeColor, borderColor: themeColor, transform: 'rotate(-30deg)' }}>
+                  {watermark}
+                </span>
+              </div>
+            )}
+
+            {/* Header */}
+            <div className="flex justify-between items-start pb-6 border-b-4" style={{ borderColor: themeColor }}>
+              <div className="flex items-start gap-4">
+                {settings.logoUrl && (
+                  <img src={settings.logoUrl} alt="Logo" className="object-contain" style={{ width: `${settings.logoWidth || 80}px`, maxHeight: '80px' }} />
+                )}
+                <div>
+                  <h1 className="text-3xl font-bold text-slate-900">{settings.name}</h1>
+                  {settings.subName && <p className="text-slate-500">{settings.subName}</p>}
+                  <p className="text-xs text-slate-500 mt-1">{settings.address}</p>
+                  <p className="text-xs text-slate-500">Mobile: {settings.mobile}</p>
+                  {isGstEnabled && settings.gstin && <p className="text-xs font-bold text-slate-700 mt-1">GSTIN: {settings.gstin}</p>}
+                </div>
+              </div>
+              <div className="text-right">
+                <h2 className="text-2xl font-bold tracking-widest" style={{ color: themeColor }}>{title}</h2>
+                <p className="mt-2"><span className="text-slate-500">{billNoLabel}</span> <span className="font-bold">{billNo}</span></p>
+                <p><span className="text-slate-500">Date</span> <span className="font-bold">{date}</span></p>
+                {isMultiPage && <p className="text-xs text-slate-500 mt-1">Page {pageIndex + 1} of {pages.length}</p>}
+              </div>
+            </div>
+
+            {isFirstPage && eInvoice && (
+              <div className="flex justify-between items-center gap-4 py-3 border-b border-slate-200 text-xs">
+                <div className="space-y-1">
+                  <div className="break-all"><span className="font-bold">IRN:</span> {eInvoice.irn}</div>
+                  <div><span className="font-bold">Ack No.:</span> {eInvoice.ackNo}{eInvoice.ackDate ? ` · ${eInvoice.ackDate}` : ''}</div>
+                </div>
+                <QrCode value={eInvoice.signedQrCode} ecl="L" title="e-Invoice QR Code" className="w-24 h-24 shrink-0" />
+              </div>
+            )}
+
+            {/* Bill To */}
+            {isFirstPage && (
+            <div className="flex justify-between gap-6 py-5">
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Bill To</p>
+                <p className="text-lg font-bold text-slate-900">{customerName}</p>
+                {customerCity && <p className="text-slate-600">{customerCity}</p>}
+                {isGstEnabled && <p className="text-xs text-slate-600 mt-1">GSTIN: {customerGstin || 'Unregistered'}</p>}
+              </div>
+              {isGstEnabled && placeOfSupplyLabel && (
+                <div className="text-right">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Place of Supply</p>
+                  <p className="font-medium">{placeOfSupplyLabel}</p>
+                </div>
+              )}
+            </div>
+            )}
+            {isFirstPage && referenceNote && <p className="mb-4 text-xs font-bold text-slate-600">{referenceNote}</p>}
+
+            {/* Items */}
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-white" style={{ backgroundColor: themeColor }}>
+                  <th className="p-2 w-10">#</th>
+                  <th className="p-2">Item</th>
+                  {isGstEnabled && <th className="p-2 w-20">HSN</th>}
+                  <th className="p-2 w-20 text-right">Qty</th>
+                  <th className="p-2 w-24 text-right">Rate</th>
+                  <th className="p-2 w-28 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {!isFirstPage && (
+                  <tr className="border-b border-slate-300 font-bold italic">
+                    <td colSpan={columnCount - 1} className="p-2 text-right">Brought Forward</td>
+                    <td className="p-2 text-right">₹{runningTotals[pageIndex]}</td>
+                  </tr>
+                )}
+                {page.rows.map((item, index) => (
+                  <tr key={item.id} className="border-b border-slate-200 break-inside-avoid even:bg-slate-50">
+                    <td className="p-2 text-slate-500">{page.startIndex + index + 1}</td>
+                    <td className="p-2">
+                      <div className="font-medium text-slate-900">{item.name}</div>
+                      {item.packing && <div className="text-xs text-slate-500">{item.packing}</div>}
+                      {item.rateNote && <div className="text-xs text-slate-500 italic">{item.rateNote}</div>}
+                      {item.discount && item.discountAmount ? (
+                        <div className="text-xs text-slate-500 italic">Less {formatDiscount(item.discount)} (₹{item.discountAmount})</div>
+                      ) : null}
+                    </td>
+                    {isGstEnabled && <td className="p-2 text-slate-600">{item.hsnCode || '-'}</td>}
+                    <td className="p-2 text-right">{item.quantity} {item.unit}</td>
+                    <td className="p-2 text-right">{item.rate}</td>
+                    <td className="p-2 text-right font-medium">₹{item.amount}</td>
+                  </tr>
+                ))}
+                {!isLastPage && (
+                  <tr className="border-t-2 font-bold italic" style={{ borderColor: themeColor }}>
+                    <td colSpan={columnCount - 1} className="p-2 text-right">Carried Forward</td>
+                    <td className="p-2 text-right">₹{runningTotals[pageIndex + 1]}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            {isLastPage && (
+              <>
+                {/* Totals */}
+                <div className="flex justify-between gap-8 mt-6 break-inside-avoid">
+                  <div className="flex-1 space-y-4">
+                    <div>
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Amount in Words</p>
+                      <p className="font-medium italic">{numberToWords(totals.total)}</p>
+                    </div>
+                    {settings.bankName && (
+                      <div className="text-xs">
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Bank Details</p>
+                        <p>{settings.bankName}</p>
+                        <p>A/c No. {settings.bankAccountNumber}</p>
+                        <p>{settings.bankBranch} {settings.bankIfsc}</p>
+                      </div>
+                    )}
+                    {upiUri && (
+                      <div className="flex items-center gap-3">
+                        <QrCode value={upiUri} title="UPI QR Code" className="w-20 h-20" />
+                        <div className="text-xs">
+                          <p className="font-bold">Scan to Pay ₹{totals.total}</p>
+                          <p className="text-slate-500">UPI: {settings.upiId}</p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="w-72">
+                    <div className="flex justify-between py-1"><span className="text-slate-500">Subtotal</span><span>₹{totals.itemsTotal}</span></div>
+                    {totals.billDiscountAmount > 0 && discount && (
+                      <div className="flex justify-between py-1">
+                        <span className="text-slate-500">Discount{discount.type === 'percent' ? ` (${discount.value}%)` : ''}</span><span>-₹{totals.billDiscountAmount}</span>
+                      </div>
+                    )}
+                    {chargesBeforeTax.map((charge, i) => (
+                      <div key={`charge-${i}`} className="flex justify-between py-1"><span className="text-slate-500">{charge.label}</span><span>₹{charge.amount}</span></div>
+                    ))}
+                    {isGstEnabled && (totals.billDiscountAmount > 0 || chargesBeforeTax.length > 0) && (
+                      <div className="flex justify-between py-1"><span className="text-slate-500">Taxable Value</span><span>₹{totals.subtotal}</span></div>
+                    )}
+                    {isGstEnabled && totals.isInterState && (
+                      <div className="flex justify-between py-1">
+                        <span className="text-slate-500">IGST{uniformRate !== null ? ` (${uniformRate}%)` : ''}</span><span>₹{totals.igstAmount}</span>
+                      </div>
+                    )}
+                    {isGstEnabled && !totals.isInterState && (
+                      <>
+                        <div className="flex justify-between py-1">
+                          <span className="text-slate-500">CGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}</span><span>₹{totals.cgstAmount}</span>
+                        </div>
+                        <div className="flex justify-between py-1">
+                          <span className="text-slate-500">SGST{uniformRate !== null ? ` (${uniformRate / 2}%)` : ''}</span><span>₹{totals.sgstAmount}</span>
+                        </div>
+                      </>
+                    )}
+                    {chargesAfterTax.map((charge, i) => (
+                      <div key={`other-${i}`} className="flex justify-between py-1"><span className="text-slate-500">{charge.label}</span><span>₹{charge.amount}</span></div>
+                    ))}
+                    {totals.tcsAmount > 0 && (
+                      <div className="flex justify-between py-1"><span className="text-slate-500">TCS ({tcsRate}%)</span><span>₹{totals.tcsAmount}</span></div>
+                    )}
+                    {totals.roundOff !== 0 && (
+                      <div className="flex justify-between py-1">
+                        <span className="text-slate-500">Round Off</span><span>{totals.roundOff > 0 ? '+' : '-'}₹{Math.abs(totals.roundOff).toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between py-2 mt-1 border-t-2 text-lg font-bold" style={{ borderColor: themeColor }}>
+                      <span>Total</span><span>₹{totals.total}</span>
+                    </div>
+                    {showBalance && (
+                      <>
+                        {amountCredited > 0 && (
+                          <div className="flex justify-between py-1 text-xs"><span className="text-slate-500">Less: Credit Notes</span><span>₹{amountCredited}</span></div>
+                        )}
+                        {amountPaid > 0 && (
+                          <div className="flex justify-between py-1 text-xs"><span className="text-slate-500">Less: Received</span><span>₹{amountPaid}</span></div>
+                        )}
+                        <div className="flex justify-between py-1 font-bold"><span>Balance Due</span><span>₹{balanceDue}</span></div>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {/* Signature */}
+                <div className="mt-auto pt-10 flex justify-between items-end break-inside-avoid">
+                  <p className="text-xs text-slate-400 max-w-xs">Thank you for your business.</p>
+                  <div className="text-center w-56">
+                    {settings.signatureUrl && (
+                      <img src={settings.signatureUrl} alt="Signature" className="max-h-12 mx-auto object-contain mb-1" />
+                    )}
+                    <div className="border-t border-slate-300 pt-1 text-xs">For, {settings.signatureName || settings.name}</div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { X, Save, Loader2, Wallet, Trash2 } from 'lucide-react';
+import { Invoice, Payment, PaymentMode } from '../types';
+import { PAYMENT_MODE_LABELS, getOutstanding } from '../utils/payments';
+
+interface PaymentFormProps {
+  invoice: Invoice;
+  payments: Payment[]; // Payments already recorded against this invoice
+  onSave: (payment: Omit<Payment, 'id'>) => Promise<void>;
+  onDelete: (payment: Payment) => Promise<void>;
+  onClose: () => void;
+}
+
+export const PaymentForm: React.FC<PaymentFormProps> = ({
+  invoice,
+  payments,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const outstanding = getOutstanding(invoice);
+  const [amount, setAmount] = useState<string>(outstanding > 0 ? outstanding.toString() : '');
+  const [mode, setMode] = useState<PaymentMode>('cash');
+  const [date, setDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      alert("Please enter a valid amount.");
+      return;
+    }
+    if (value > outstanding) {
+      alert(`₹${value} is more than the outstanding ₹${outstanding}.`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave({
+        invoiceId: invoice.id,
+        date,
+        amount: value,
+        mode,
+        reference: reference.trim(),
+        note: note.trim(),
+        createdAt: new Date().toISOString()
+      });
+      onClose();
+    } catch (e) {
+      // onSave will have alerted; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: Payment) => {
+    if (!window.confirm(`Delete the ₹${payment.amount} ${PAYMENT_MODE_LABELS[payment.mode]} payment of ${payment.date}?`)) return;
+    await onDelete(payment);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+      <div className="bg-white w-full max-w-lg rounded-lg shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-green-50 to-emerald-50 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-green-600" />
+              Payments for Bill #{invoice.id}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Total ₹{invoice.total}
+              {!!invoice.creditedAmount && ` · Credited ₹${invoice.creditedAmount}`}
+              {' · '}Outstanding <span className="font-bold text-slate-700">₹{outstanding}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Existing Payments */}
+          {payments.length > 0 && (
+            <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {payments.map(p => (
+                <div key={p.id} className="flex justify-between items-center p-2 text-sm">
+                  <div>
+                    <div className="font-medium text-slate-800">₹{p.amount} <span className="text-xs text-slate-500">via {PAYMENT_MODE_LABELS[p.mode]}</span></div>
+                    <div className="text-xs text-slate-400">{p.date}{p.reference ? ` · Ref: ${p.reference}` : ''}{p.note ? ` · ${p.note}` : ''}</div>
+                  </div>
+                  <button onClick={() => handleDelete(p)} className="text-slate-300 hover:text-red-500 p-1 transition-colors" title="Delete payment">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* New Payment */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Amount (₹)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full p-2 border border-slate-300 rounded outline-none focus:border-green-500 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Date</label>
+              <input
+                type="text"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                placeholder="DD/MM/YYYY"
+                className="w-full p-2 border border-slate-300 rounded outline-none focus:border-green-500 text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Mode</label>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`py-2 rounded text-xs font-bold border transition-colors ${mode === m ? 'bg-green-600 text-white border-green-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                >
+                  {PAYMENT_MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {mode !== 'cash' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reference</label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={mode === 'cheque' ? 'Cheque No.' : 'UTR / Transaction ID'}
+                className="w-full p-2 border border-slate-300 rounded outline-none focus:border-green-500 text-sm"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-green-500 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 rounded bg-slate-100 text-slate-700 hover:bg-slate-200 text-sm font-bold transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-green-600 text-white hover:bg-green-700 text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Record Payment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
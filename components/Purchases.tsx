@@ -0,0 +1,535 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Minus, Trash2, Save, FilePlus, Loader2, ShoppingCart, Wallet, Search } from 'lucide-react';
+import { Product, Supplier, Purchase, InvoiceItem, BusinessSettings } from '../types';
+import { calculateInvoiceTotals, getBusinessStateCode, isInterStateSupply, roundMoney } from '../utils/gst';
+import { GST_RATES } from '../constants';
+
+interface PurchasesProps {
+  products: Product[];
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  settings: BusinessSettings;
+  onSavePurchase: (purchase: Omit<Purchase, 'id'>) => Promise<void>;
+  onDeletePurchase: (purchase: Purchase) => Promise<void>;
+  onRecordPayment: (purchase: Purchase, amount: number) => Promise<void>;
+}
+
+export const Purchases: React.FC<PurchasesProps> = ({
+  products,
+  suppliers,
+  purchases,
+  settings,
+  onSavePurchase,
+  onDeletePurchase,
+  onRecordPayment
+}) => {
+  const [supplierId, setSupplierId] = useState('');
+  const [supplierBillNo, setSupplierBillNo] = useState('');
+  const [date, setDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [gstCharged, setGstCharged] = useState(settings.enableGst);
+  const [paid, setPaid] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showRegisterMobile, setShowRegisterMobile] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Item being added
+  const [selectedProductID, setSelectedProductID] = useState('');
+  const [qty, setQty] = useState<number>(1);
+  const [costRate, setCostRate] = useState('');
+  const [itemGstRate, setItemGstRate] = useState('');
+
+  const supplier = suppliers.find(s => s.id === supplierId);
+  const isInterState = isInterStateSupply(getBusinessStateCode(settings), supplier?.stateCode || '');
+  const totals = calculateInvoiceTotals(items, {
+    enableGst: gstCharged,
+    defaultGstRate: settings.defaultGstRate || 0,
+    isInterState
+  });
+
+  const duplicateBill = supplier && supplierBillNo.trim()
+    ? purchases.find(p => p.supplierId === supplier.id && p.supplierBillNo.toLowerCase() === supplierBillNo.trim().toLowerCase())
+    : undefined;
+
+  const handleProductSelect = (id: string) => {
+    setSelectedProductID(id);
+    const product = products.find(p => p.id === id);
+    // There is no separate cost price; start from the selling rate and let it be corrected
+    setCostRate(product ? product.rate.toString() : '');
+    setItemGstRate(product ? String(product.gstRate ?? settings.defaultGstRate ?? 0) : '');
+  };
+
+  const addItem = () => {
+    const product = products.find(p => p.id === selectedProductID);
+    if (!product) return;
+    const rate = parseFloat(costRate);
+    if (!rate || rate <= 0 || qty <= 0) {
+      alert("Please enter the purchase rate and quantity.");
+      return;
+    }
+    setItems([...items, {
+      id: Date.now().toString(),
+      productId: product.id,
+      name: product.name,
+      quantity: qty,
+      unit: product.unit,
+      rate,
+      amount: roundMoney(qty * rate),
+      packing: product.packing,
+      hsnCode: product.hsnCode,
+      gstRate: itemGstRate === '' ? undefined : Number(itemGstRate)
+    }]);
+    setSelectedProductID('');
+    setQty(1);
+    setCostRate('');
+    setItemGstRate('');
+  };
+
+  const updateItemQty = (id: string, delta: number) => {
+    setItems(items.map(item => {
+      if (item.id !== id) return item;
+      const quantity = Math.max(1, item.quantity + delta);
+      return { ...item, quantity, amount: roundMoney(quantity * item.rate) };
+    }));
+  };
+
+  const resetForm = () => {
+    setSupplierId('');
+    setSupplierBillNo('');
+    setDate(new Date().toLocaleDateString('en-GB'));
+    setItems([]);
+    setGstCharged(settings.enableGst);
+    setPaid('');
+    setNote('');
+  };
+
+  const handleSupplierSelect = (id: string) => {
+    setSupplierId(id);
+    const selected = suppliers.find(s => s.id === id);
+    // Unregistered suppliers cannot charge GST
+    setGstCharged(settings.enableGst && !!selected?.gstin);
+  };
+
+  const handleSave = async () => {
+    if (!supplier) {
+      alert("Please select a supplier.");
+      return;
+    }
+    if (!supplierBillNo.trim()) {
+      alert("Please enter the supplier's bill number.");
+      return;
+    }
+    if (items.length === 0) {
+      alert("Please add items to the purchase before saving.");
+      return;
+    }
+    if (duplicateBill && !window.confirm(`Bill ${duplicateBill.supplierBillNo} from ${supplier.name} was already entered on ${duplicateBill.date}. Save it again?`)) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSavePurchase({
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        supplierGstin: supplier.gstin || undefined,
+        supplierBillNo: supplierBillNo.trim(),
+        date,
+        items,
+        isInterState,
+        subtotal: totals.subtotal,
+        gstAmount: totals.gstAmount,
+        cgstAmount: totals.cgstAmount,
+        sgstAmount: totals.sgstAmount,
+        igstAmount: totals.igstAmount,
+        total: totals.total,
+        paidAmount: Math.min(parseFloat(paid) || 0, totals.total),
+        note: note.trim() || undefined,
+        createdAt: new Date().toISOString()
+      });
+      alert(`Purchase bill ${supplierBillNo.trim()} from ${supplier.name} saved. Stock has been updated.`);
+      resetForm();
+    } catch (e) {
+      // onSavePurchase will have alerted; keep the form intact
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePay = async (purchase: Purchase) => {
+    const outstanding = roundMoney(purchase.total - (purchase.paidAmount || 0));
+    const input = window.prompt(`Payment to ${purchase.supplierName} against bill ${purchase.supplierBillNo} (₹${outstanding} due):`, outstanding.toString());
+    if (input === null) return;
+    const amount = parseFloat(input);
+    if (!amount || amount <= 0) {
+      alert("Please enter a valid amount.");
+      return;
+    }
+    if (amount > outstanding) {
+      alert(`The payment is more than the ₹${outstanding} due on this bill.`);
+      return;
+    }
+    try {
+      await onRecordPayment(purchase, amount);
+    } catch (e) {
+      // onRecordPayment will have alerted
+    }
+  };
+
+  const handleDelete = async (purchase: Purchase) => {
+    if ((purchase.paidAmount || 0) > 0) {
+      alert(`₹${purchase.paidAmount} has been paid against bill ${purchase.supplierBillNo}, so it cannot be deleted.`);
+      return;
+    }
+    if (!window.confirm(`Delete purchase bill ${purchase.supplierBillNo} from ${purchase.supplierName}? Its stock will be taken back out.`)) return;
+    try {
+      await onDeletePurchase(purchase);
+    } catch (e) {
+      // onDeletePurchase will have alerted
+    }
+  };
+
+  const filteredPurchases = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return purchases;
+    return purchases.filter(p =>
+      p.supplierName.toLowerCase().includes(term) ||
+      p.supplierBillNo.toLowerCase().includes(term) ||
+      p.date.includes(term)
+    );
+  }, [purchases, searchTerm]);
+
+  return (
+    <div className="flex flex-col lg:flex-row h-full gap-4 lg:gap-4 relative overflow-hidden">
+
+      {/* Mobile Toggle Tabs */}
+      <div className="lg:hidden flex mb-2 bg-slate-200 p-1 rounded-lg">
+        <button
+          onClick={() => setShowRegisterMobile(false)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${!showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          New Purchase
+        </button>
+        <button
+          onClick={() => setShowRegisterMobile(true)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          Purchase Register
+        </button>
+      </div>
+
+      {/* LEFT: Entry */}
+      <div className={`w-full lg:w-2/5 h-full bg-white p-4 lg:p-6 rounded-lg shadow-md border border-slate-200 overflow-y-auto no-print ${showRegisterMobile ? 'hidden lg:block' : 'block'}`}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5 text-amber-600" />
+            Purchase Entry
+          </h2>
+          <button
+            onClick={() => {
+              if (items.length === 0 || window.confirm("Start a new purchase? Current items will be cleared.")) resetForm();
+            }}
+            className="text-xs font-bold text-amber-600 hover:text-amber-700 flex items-center gap-1 px-2 py-1 bg-amber-50 rounded transition-colors"
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+            New
+          </button>
+        </div>
+
+        {/* Supplier */}
+        <div className="mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Supplier</label>
+          <select
+            value={supplierId}
+            onChange={(e) => handleSupplierSelect(e.target.value)}
+            className="w-full p-2 border border-slate-300 rounded mb-2 focus:outline-none focus:border-amber-500 text-sm bg-white"
+          >
+            <option value="">Select supplier...</option>
+            {suppliers.map(s => (
+              <option key={s.id} value={s.id}>{s.name} ({s.city})</option>
+            ))}
+          </select>
+          {suppliers.length === 0 && <p className="text-xs text-slate-500">Add suppliers under the Suppliers tab first.</p>}
+          {supplier && (
+            <p className="text-xs text-slate-500">
+              {supplier.gstin ? `GSTIN ${supplier.gstin}` : 'Unregistered supplier'}{isInterState ? ' · Inter-state (IGST)' : ''}
+            </p>
+          )}
+        </div>
+
+        {/* Bill Details */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Supplier Bill No *</label>
+            <input
+              type="text"
+              value={supplierBillNo}
+              onChange={(e) => setSupplierBillNo(e.target.value)}
+              className={`w-full p-2 border rounded outline-none text-sm ${duplicateBill ? 'border-red-400 focus:border-red-500' : 'border-slate-300 focus:border-amber-500'}`}
+            />
+            {duplicateBill && <p className="text-[10px] text-red-500 mt-1">Already entered on {duplicateBill.date}</p>}
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Bill Date</label>
+            <input
+              type="text"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              placeholder="DD/MM/YYYY"
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+
+        {/* Add Items */}
+        <div className="mb-6">
+          <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Add Items</h3>
+          <div className="space-y-2 mb-2">
+            <select
+              value={selectedProductID}
+              onChange={(e) => handleProductSelect(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm bg-white"
+            >
+              <option value="">Select Item...</option>
+              {products.map(p => (
+                <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <label className="text-xs text-slate-500 block mb-1">Cost Rate (₹)</label>
+                <input
+                  type="number"
+                  value={costRate}
+                  onChange={(e) => setCostRate(e.target.value)}
+                  disabled={!selectedProductID}
+                  min="0"
+                  step="0.01"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
+                />
+              </div>
+              <div className="w-20">
+                <label className="text-xs text-slate-500 block mb-1">Qty</label>
+                <input
+                  type="number"
+                  value={qty}
+                  onChange={(e) => setQty(Number(e.target.value))}
+                  min="1"
+                  step="any"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm text-center"
+                />
+              </div>
+              {gstCharged && (
+                <div className="w-20">
+                  <label className="text-xs text-slate-500 block mb-1">GST %</label>
+                  <select
+                    value={itemGstRate}
+                    onChange={(e) => setItemGstRate(e.target.value)}
+                    disabled={!selectedProductID}
+                    className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm bg-white disabled:bg-slate-50"
+                  >
+                    {GST_RATES.map(r => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="pt-5">
+                <button
+                  onClick={addItem}
+                  disabled={!selectedProductID}
+                  className="bg-amber-600 text-white p-2 rounded hover:bg-amber-700 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add Item"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Items List */}
+        <div className="mb-6">
+          <div className="space-y-2">
+            {items.map((item, idx) => (
+              <div key={item.id} className="bg-white p-3 border border-slate-200 rounded-lg shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="text-sm overflow-hidden flex-1 pr-2">
+                    <div className="font-bold text-slate-800 truncate">
+                      {idx + 1}. {item.name} <span className="text-slate-400 font-normal text-xs">{item.packing ? `(${item.packing})` : ''}</span>
+                    </div>
+                    <div className="text-slate-500 text-xs font-medium">
+                      Cost: ₹{item.rate} / {item.unit}
+                      {gstCharged && ` | GST ${item.gstRate ?? settings.defaultGstRate ?? 0}%`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setItems(items.filter(i => i.id !== item.id))}
+                    className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                    title="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex justify-between items-center bg-slate-50 p-2 rounded-md">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => updateItemQty(item.id, -1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                    <div className="w-10 text-center font-bold text-slate-700 text-sm">{item.quantity}</div>
+                    <button
+                      onClick={() => updateItemQty(item.id, 1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="text-sm font-bold text-slate-900">₹{item.amount}</div>
+                </div>
+              </div>
+            ))}
+            {items.length === 0 && <div className="text-center p-4 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 text-sm">No items added</div>}
+          </div>
+
+          {/* Totals */}
+          {items.length > 0 && (
+            <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200">
+              {settings.enableGst && (
+                <label className="flex items-center gap-2 text-xs text-slate-600 mb-2">
+                  <input type="checkbox" checked={gstCharged} onChange={(e) => setGstCharged(e.target.checked)} />
+                  Supplier charged GST on this bill
+                </label>
+              )}
+              {gstCharged && (
+                <>
+                  <div className="flex justify-between text-sm text-slate-600 mb-1">
+                    <span>Subtotal:</span>
+                    <span>₹{totals.subtotal}</span>
+                  </div>
+                  {totals.isInterState ? (
+                    <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                      <span>IGST:</span>
+                      <span>₹{totals.igstAmount}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-sm text-slate-600 mb-1">
+                        <span>CGST:</span>
+                        <span>₹{totals.cgstAmount}</span>
+                      </div>
+                      <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                        <span>SGST:</span>
+                        <span>₹{totals.sgstAmount}</span>
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+              <div className="flex justify-between font-bold text-lg text-slate-900 mt-1">
+                <span>Total:</span>
+                <span>₹{totals.total}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Payment */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Amount Paid (₹)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={paid}
+              onChange={(e) => setPaid(e.target.value)}
+              placeholder="0"
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={items.length === 0 || !supplier || isSaving}
+          className="w-full flex items-center justify-center gap-2 bg-amber-600 text-white p-3 rounded hover:bg-amber-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Purchase
+        </button>
+      </div>
+
+      {/* RIGHT: Purchase Register */}
+      <div className={`w-full lg:w-3/5 h-full bg-white rounded-lg shadow-md border border-slate-200 flex-col overflow-hidden ${!showRegisterMobile ? 'hidden lg:flex' : 'flex'}`}>
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-amber-50 to-yellow-50 shrink-0">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold text-slate-800">Purchase Register</h2>
+            <div className="text-xs text-slate-500">{purchases.length} bill(s)</div>
+          </div>
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search supplier, bill no or date..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none"
+            />
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {filteredPurchases.map(p => {
+            const due = roundMoney(p.total - (p.paidAmount || 0));
+            return (
+              <div key={p.id} className="p-4 flex justify-between items-start gap-3 hover:bg-slate-50">
+                <div className="min-w-0">
+                  <div className="font-bold text-slate-800 truncate">{p.supplierName}</div>
+                  <div className="text-xs text-slate-500">
+                    Bill {p.supplierBillNo} · {p.date} · {p.items.length} item(s)
+                    {p.gstAmount > 0 && ` · GST ₹${p.gstAmount}`}
+                  </div>
+                  {p.note && <div className="text-xs text-slate-400 truncate">{p.note}</div>}
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="font-bold text-slate-900">₹{p.total}</div>
+                  <div className={`text-xs font-medium ${due > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {due > 0 ? `Due ₹${due}` : 'Paid'}
+                  </div>
+                  <div className="flex justify-end gap-1 mt-1">
+                    {due > 0 && (
+                      <button onClick={() => handlePay(p)} className="text-green-600 hover:bg-green-50 p-1.5 rounded transition-colors" title="Record payment">
+                        <Wallet className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => handleDelete(p)} className="text-red-500 hover:bg-red-50 p-1.5 rounded transition-colors" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {filteredPurchases.length === 0 && (
+            <div className="p-12 text-center">
+              <ShoppingCart className="w-16 h-16 mx-auto text-slate-300 mb-3" />
+              <p className="text-slate-400 font-medium">{purchases.length === 0 ? 'No purchases recorded yet' : 'No purchases match your search'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
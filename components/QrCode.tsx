@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { encodeQr, QrErrorCorrection } from '../utils/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  ecl?: QrErrorCorrection;
+  className?: string;
+  title?: string;
+}
+
+const QUIET_ZONE = 4; // Modules of white border the spec asks for around the symbol
+
+// QR code drawn as inline SVG, so it survives printElement's DOM clone and PDF capture without a network call
+export const QrCode: React.FC<QrCodeProps> = ({ value, ecl = 'M', className, title }: QrCodeProps) => {
+  const modules = useMemo(() => {
+    try {
+      return encodeQr(value, ecl);
+    } catch (e) {
+      console.error("QR code error: ", e);
+      return null;
+    }
+  }, [value, ecl]);
+  if (!modules) return null;
+
+  // One path, with each horizontal run of dark modules as a single rectangle
+  const size = modules.length + QUIET_ZONE * 2;
+  let path = '';
+  modules.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      let run = 1;
+      while (x + run < row.length && row[x + run]) run++;
+      path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h${run}v1h-${run}z`;
+      x += run - 1;
+    }
+  });
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={className} shapeRendering="crispEdges" role="img" aria-label={title}>
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
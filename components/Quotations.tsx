@@ -0,0 +1,673 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Plus, Minus, Trash2, Save, FilePlus, Loader2, FileSignature, Search, Eye, Edit, FileCheck, X, Printer, Download, Share2 } from 'lucide-react';
+import { Product, Customer, Quotation, QuotationStatus, InvoiceItem, BusinessSettings } from '../types';
+import { InvoiceTemplate } from './InvoiceTemplate';
+import { calculateInvoiceTotals, getBusinessStateCode, isInterStateSupply, roundMoney } from '../utils/gst';
+import { resolveRate } from '../utils/pricing';
+import { addDaysToBillDate } from '../utils/dates';
+import { getQuotationStatus, DEFAULT_QUOTATION_VALIDITY_DAYS } from '../utils/quotations';
+import { printElement } from '../utils/print';
+import { pdfFileName, downloadPdf, sharePdf, canSharePdf } from '../utils/pdf';
+import { INDIAN_STATES } from '../constants';
+
+interface QuotationsProps {
+  products: Product[];
+  customers: Customer[];
+  quotations: Quotation[];
+  settings: BusinessSettings;
+  onSaveQuotation: (quotation: Omit<Quotation, 'id'>, id?: string) => Promise<Quotation>;
+  onUpdateStatus: (quotation: Quotation, status: QuotationStatus) => Promise<void>;
+  onDeleteQuotation: (quotation: Quotation) => Promise<void>;
+  onConvertToInvoice: (quotation: Quotation) => void; // Opens the bill in Create Bill
+}
+
+const STATUS_STYLES: Record<QuotationStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  sent: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  expired: 'bg-red-100 text-red-600'
+};
+
+export const Quotations: React.FC<QuotationsProps> = ({
+  products,
+  customers,
+  quotations,
+  settings,
+  onSaveQuotation,
+  onUpdateStatus,
+  onDeleteQuotation,
+  onConvertToInvoice
+}) => {
+  const today = () => new Date().toLocaleDateString('en-GB');
+  const [editingQuotation, setEditingQuotation] = useState<Quotation | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [customerCity, setCustomerCity] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [date, setDate] = useState<string>(today());
+  const [validUntil, setValidUntil] = useState<string>(addDaysToBillDate(today(), DEFAULT_QUOTATION_VALIDITY_DAYS));
+  const [note, setNote] = useState('');
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showRegisterMobile, setShowRegisterMobile] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<QuotationStatus | ''>('');
+
+  // Item being added
+  const [selectedProductID, setSelectedProductID] = useState('');
+  const [qty, setQty] = useState<number>(1);
+  const [customRate, setCustomRate] = useState('');
+
+  // Print preview
+  const [viewing, setViewing] = useState<Quotation | null>(null);
+  const [exporting, setExporting] = useState<'pdf' | 'share' | null>(null);
+  const [scale, setScale] = useState(1);
+  const modalContainerRef = useRef<HTMLDivElement>(null);
+
+  const gstRate = settings.enableGst ? (settings.defaultGstRate || 0) : 0;
+  const totals = calculateInvoiceTotals(items, {
+    enableGst: settings.enableGst,
+    defaultGstRate: gstRate,
+    isInterState: isInterStateSupply(getBusinessStateCode(settings), placeOfSupply)
+  });
+
+  useEffect(() => {
+    if (!viewing) return;
+    const calculateScale = () => {
+      if (modalContainerRef.current) {
+        const containerWidth = modalContainerRef.current.offsetWidth;
+        setScale(Math.max(Math.min((containerWidth - 24) / 794, 0.95), 0.3));
+      }
+    };
+    const timer = setTimeout(calculateScale, 10);
+    window.addEventListener('resize', calculateScale);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('resize', calculateScale);
+    };
+  }, [viewing]);
+
+  const handleCustomerSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const customer = customers.find(c => c.id === e.target.value);
+    setSelectedCustomer(customer || null);
+    setCustomerName(customer?.name || '');
+    setCustomerCity(customer?.city || '');
+    setCustomerGstin(customer?.gstin || '');
+    setPlaceOfSupply(customer?.stateCode || '');
+  };
+
+  const addItem = () => {
+    const product = products.find(p => p.id === selectedProductID);
+    if (!product) return;
+    const resolved = resolveRate(product, qty, selectedCustomer?.priceList);
+    const rate = customRate && parseFloat(customRate) > 0 ? parseFloat(customRate) : resolved.rate;
+    if (qty <= 0) return;
+    setItems([...items, {
+      id: Date.now().toString(),
+      productId: product.id,
+      name: product.name,
+      quantity: qty,
+      unit: product.unit,
+      rate,
+      amount: roundMoney(qty * rate),
+      packing: product.packing,
+      hsnCode: product.hsnCode,
+      gstRate: product.gstRate ?? settings.defaultGstRate,
+      rateNote: rate === resolved.rate ? resolved.note : rate !== product.rate ? 'Special rate' : undefined
+    }]);
+    setSelectedProductID('');
+    setQty(1);
+    setCustomRate('');
+  };
+
+  const updateItemQty = (id: string, delta: number) => {
+    setItems(items.map(item => {
+      if (item.id !== id) return item;
+      const quantity = Math.max(1, item.quantity + delta);
+      return { ...item, quantity, amount: roundMoney(quantity * item.rate) };
+    }));
+  };
+
+  const resetForm = () => {
+    setEditingQuotation(null);
+    setSelectedCustomer(null);
+    setCustomerName('');
+    setCustomerCity('');
+    setCustomerGstin('');
+    setPlaceOfSupply('');
+    setDate(today());
+    setValidUntil(addDaysToBillDate(today(), DEFAULT_QUOTATION_VALIDITY_DAYS));
+    setNote('');
+    setItems([]);
+  };
+
+  const startEdit = (quotation: Quotation) => {
+    setEditingQuotation(quotation);
+    setSelectedCustomer(customers.find(c => c.id === quotation.customerId) || null);
+    setCustomerName(quotation.customerName);
+    setCustomerCity(quotation.customerCity);
+    setCustomerGstin(quotation.customerGstin || '');
+    setPlaceOfSupply(quotation.placeOfSupply || '');
+    setDate(quotation.date);
+    setValidUntil(quotation.validUntil);
+    setNote(quotation.note || '');
+    setItems(quotation.items);
+    setShowRegisterMobile(false);
+  };
+
+  const handleSave = async () => {
+    if (!customerName.trim()) {
+      alert("Please enter the customer name.");
+      return;
+    }
+    if (items.length === 0) {
+      alert("Please add items to the quotation before saving.");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await onSaveQuotation({
+        date,
+        validUntil,
+        customerId: selectedCustomer?.id,
+        customerName: customerName.trim(),
+        customerCity: customerCity.trim(),
+        customerGstin: customerGstin.trim().toUpperCase() || undefined,
+        placeOfSupply: placeOfSupply || undefined,
+        items,
+        total: totals.total,
+        subtotal: totals.subtotal,
+        gstAmount: totals.gstAmount,
+        gstRate,
+        sgstAmount: totals.sgstAmount,
+        cgstAmount: totals.cgstAmount,
+        igstAmount: totals.igstAmount,
+        status: editingQuotation?.status || 'draft',
+        note: note.trim() || undefined,
+        createdAt: editingQuotation?.createdAt || new Date().toISOString()
+      }, editingQuotation?.id);
+      resetForm();
+      setViewing(saved);
+    } catch (e) {
+      // onSaveQuotation will have alerted; keep the form intact
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (quotation: Quotation, status: QuotationStatus) => {
+    try {
+      await onUpdateStatus(quotation, status);
+    } catch (e) {
+      // onUpdateStatus will have alerted
+    }
+  };
+
+  const handleDelete = async (quotation: Quotation) => {
+    if (!window.confirm(`Delete quotation ${quotation.id} for ${quotation.customerName}?`)) return;
+    try {
+      await onDeleteQuotation(quotation);
+      if (editingQuotation?.id === quotation.id) resetForm();
+    } catch (e) {
+      // onDeleteQuotation will have alerted
+    }
+  };
+
+  const handleExport = async (mode: 'pdf' | 'share') => {
+    if (!viewing) return;
+    const fileName = pdfFileName('Quotation', viewing.id, viewing.customerName);
+    try {
+      setExporting(mode);
+      if (mode === 'pdf') {
+        await downloadPdf('quotation-view', fileName);
+      } else {
+        await sharePdf('quotation-view', fileName, `Quotation ${viewing.id}`, `Quotation ${viewing.id} from ${settings.name} for ₹${viewing.total}, valid until ${viewing.validUntil}`);
+      }
+    } catch (e) {
+      console.error("Error exporting PDF: ", e);
+      alert(mode === 'pdf' ? "Could not create the PDF." : "Could not share the quotation. Try Download PDF instead.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const filteredQuotations = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return quotations.filter(q => {
+      if (statusFilter && getQuotationStatus(q) !== statusFilter) return false;
+      if (!term) return true;
+      return q.id.toLowerCase().includes(term) ||
+        q.customerName.toLowerCase().includes(term) ||
+        q.date.includes(term);
+    });
+  }, [quotations, searchTerm, statusFilter]);
+
+  return (
+    <div className="flex flex-col lg:flex-row h-full gap-4 lg:gap-4 relative overflow-hidden">
+
+      {/* Mobile Toggle Tabs */}
+      <div className="lg:hidden flex mb-2 bg-slate-200 p-1 rounded-lg">
+        <button
+          onClick={() => setShowRegisterMobile(false)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${!showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          {editingQuotation ? 'Edit Quotation' : 'New Quotation'}
+        </button>
+        <button
+          onClick={() => setShowRegisterMobile(true)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          Quotations
+        </button>
+      </div>
+
+      {/* LEFT: Entry */}
+      <div className={`w-full lg:w-2/5 h-full bg-white p-4 lg:p-6 rounded-lg shadow-md border border-slate-200 overflow-y-auto no-print ${showRegisterMobile ? 'hidden lg:block' : 'block'}`}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileSignature className="w-5 h-5 text-sky-600" />
+            {editingQuotation ? `Edit ${editingQuotation.id}` : 'New Quotation'}
+          </h2>
+          <button
+            onClick={() => {
+              if (items.length === 0 || window.confirm("Start a new quotation? Current items will be cleared.")) resetForm();
+            }}
+            className="text-xs font-bold text-sky-600 hover:text-sky-700 flex items-center gap-1 px-2 py-1 bg-sky-50 rounded transition-colors"
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+            New
+          </button>
+        </div>
+
+        {/* Customer */}
+        <div className="mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Customer</label>
+          <select
+            value={selectedCustomer?.id || 'new'}
+            onChange={handleCustomerSelect}
+            className="w-full p-2 border border-slate-300 rounded mb-2 focus:outline-none focus:border-sky-500 text-sm bg-white"
+          >
+            <option value="new">+ New / Walk-in Customer</option>
+            {customers.map(c => (
+              <option key={c.id} value={c.id}>{c.name} ({c.city})</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Customer Name *"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            <input
+              type="text"
+              placeholder="City"
+              value={customerCity}
+              onChange={(e) => setCustomerCity(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            {settings.enableGst && (
+              <>
+                <input
+                  type="text"
+                  placeholder="GSTIN"
+                  maxLength={15}
+                  value={customerGstin}
+                  onChange={(e) => setCustomerGstin(e.target.value.toUpperCase())}
+                  disabled={!!selectedCustomer}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm uppercase disabled:bg-slate-100"
+                />
+                <select
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm bg-white"
+                >
+                  <option value="">Place of supply (own state)</option>
+                  {INDIAN_STATES.map(st => (
+                    <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Dates */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Date</label>
+            <input
+              type="text"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              placeholder="DD/MM/YYYY"
+              className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Valid Until</label>
+            <input
+              type="text"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              placeholder="DD/MM/YYYY"
+              className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+
+        {/* Add Items */}
+        <div className="mb-6">
+          <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Add Items</h3>
+          <div className="space-y-2 mb-2">
+            <select
+              value={selectedProductID}
+              onChange={(e) => setSelectedProductID(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-sky-500 text-sm bg-white"
+            >
+              <option value="">Select Item...</option>
+              {products.map(p => (
+                <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''} - ₹{p.rate}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <label className="text-xs text-slate-500 block mb-1">Quoted Rate (₹)</label>
+                <input
+                  type="number"
+                  value={customRate}
+                  onChange={(e) => setCustomRate(e.target.value)}
+                  placeholder={(() => {
+                    const product = products.find(p => p.id === selectedProductID);
+                    return product ? resolveRate(product, qty, selectedCustomer?.priceList).rate.toString() : '';
+                  })()}
+                  disabled={!selectedProductID}
+                  min="0"
+                  step="0.01"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-sky-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
+                />
+              </div>
+              <div className="w-20">
+                <label className="text-xs text-slate-500 block mb-1">Qty</label>
+                <input
+                  type="number"
+                  value={qty}
+                  onChange={(e) => setQty(Number(e.target.value))}
+                  min="1"
+                  step="any"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-sky-500 text-sm text-center"
+                />
+              </div>
+              <div className="pt-5">
+                <button
+                  onClick={addItem}
+                  disabled={!selectedProductID}
+                  className="bg-sky-600 text-white p-2 rounded hover:bg-sky-700 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add Item"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Items List */}
+        <div className="mb-6">
+          <div className="space-y-2">
+            {items.map((item, idx) => (
+              <div key={item.id} className="bg-white p-3 border border-slate-200 rounded-lg shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="text-sm overflow-hidden flex-1 pr-2">
+                    <div className="font-bold text-slate-800 truncate">
+                      {idx + 1}. {item.name} <span className="text-slate-400 font-normal text-xs">{item.packing ? `(${item.packing})` : ''}</span>
+                    </div>
+                    <div className="text-slate-500 text-xs font-medium">₹{item.rate} / {item.unit}</div>
+                  </div>
+                  <button
+                    onClick={() => setItems(items.filter(i => i.id !== item.id))}
+                    className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                    title="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex justify-between items-center bg-slate-50 p-2 rounded-md">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => updateItemQty(item.id, -1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                    <div className="w-10 text-center font-bold text-slate-700 text-sm">{item.quantity}</div>
+                    <button
+                      onClick={() => updateItemQty(item.id, 1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="text-sm font-bold text-slate-900">₹{item.amount}</div>
+                </div>
+              </div>
+            ))}
+            {items.length === 0 && <div className="text-center p-4 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 text-sm">No items added</div>}
+          </div>
+
+          {items.length > 0 && (
+            <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200">
+              {settings.enableGst && (
+                <>
+                  <div className="flex justify-between text-sm text-slate-600 mb-1">
+                    <span>Subtotal:</span>
+                    <span>₹{totals.subtotal}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-slate-600 mb-1 border-b border-dashed border-slate-300 pb-1">
+                    <span>GST:</span>
+                    <span>₹{totals.gstAmount}</span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between font-bold text-lg text-slate-900 mt-1">
+                <span>Total:</span>
+                <span>₹{totals.total}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note / Terms</label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Delivery within 7 days of order"
+            className="w-full p-2 border border-slate-300 rounded focus:border-sky-500 outline-none text-sm"
+          />
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={items.length === 0 || !customerName.trim() || isSaving}
+          className="w-full flex items-center justify-center gap-2 bg-sky-600 text-white p-3 rounded hover:bg-sky-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {editingQuotation ? 'Update Quotation' : 'Save Quotation'}
+        </button>
+      </div>
+
+      {/* RIGHT: Register */}
+      <div className={`w-full lg:w-3/5 h-full bg-white rounded-lg shadow-md border border-slate-200 flex-col overflow-hidden ${!showRegisterMobile ? 'hidden lg:flex' : 'flex'}`}>
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-sky-50 to-cyan-50 shrink-0">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold text-slate-800">Quotations</h2>
+            <div className="text-xs text-slate-500">{quotations.length} quotation(s)</div>
+          </div>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search number, customer or date..."
+                className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as QuotationStatus | '')}
+              className="px-2 py-2 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:border-sky-500"
+            >
+              <option value="">All</option>
+              <option value="draft">Draft</option>
+              <option value="sent">Sent</option>
+              <option value="accepted">Accepted</option>
+              <option value="expired">Expired</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {filteredQuotations.map(q => {
+            const status = getQuotationStatus(q);
+            return (
+              <div key={q.id} className={`p-4 flex justify-between items-start gap-3 hover:bg-slate-50 ${editingQuotation?.id === q.id ? 'bg-sky-50' : ''}`}>
+                <div className="min-w-0">
+                  <div className="font-bold text-slate-800 truncate">
+                    {q.id} · {q.customerName}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {q.date} · valid until {q.validUntil} · {q.items.length} item(s)
+                  </div>
+                  {q.invoiceId && <div className="text-xs text-green-600 font-medium">Billed as #{q.invoiceId}</div>}
+                  {q.note && <div className="text-xs text-slate-400 truncate">{q.note}</div>}
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="font-bold text-slate-900">₹{q.total}</div>
+                  {q.invoiceId ? (
+                    <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_STYLES[status]}`}>{status}</span>
+                  ) : (
+                    <select
+                      value={status}
+                      onChange={(e) => handleStatusChange(q, e.target.value as QuotationStatus)}
+                      className={`mt-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase border-0 outline-none cursor-pointer ${STATUS_STYLES[status]}`}
+                    >
+                      <option value="draft">Draft</option>
+                      <option value="sent">Sent</option>
+                      <option value="accepted">Accepted</option>
+                      <option value="expired">Expired</option>
+                    </select>
+                  )}
+                  <div className="flex justify-end gap-1 mt-1">
+                    <button onClick={() => setViewing(q)} className="text-slate-600 hover:bg-slate-100 p-1.5 rounded transition-colors" title="View / Print">
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    {!q.invoiceId && (
+                      <>
+                        {status === 'accepted' && (
+                          <button
+                            onClick={() => onConvertToInvoice(q)}
+                            className="text-green-600 hover:bg-green-50 p-1.5 rounded transition-colors"
+                            title="Convert to bill"
+                          >
+                            <FileCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => startEdit(q)} className="text-blue-500 hover:bg-blue-50 p-1.5 rounded transition-colors" title="Edit">
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(q)} className="text-red-500 hover:bg-red-50 p-1.5 rounded transition-colors" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {filteredQuotations.length === 0 && (
+            <div className="p-12 text-center">
+              <FileSignature className="w-16 h-16 mx-auto text-slate-300 mb-3" />
+              <p className="text-slate-400 font-medium">{quotations.length === 0 ? 'No quotations yet' : 'No quotations match your filters'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Print Preview */}
+      {viewing && (
+        <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-0 md:p-4 no-print">
+          <div className="bg-white w-full h-full md:rounded-lg flex flex-col overflow-hidden max-w-5xl">
+            <div className="bg-slate-800 text-white p-3 md:p-4 flex justify-between items-center shrink-0">
+              <h3 className="font-bold text-sm md:text-lg truncate">Quotation {viewing.id}</h3>
+              <div className="flex gap-2 items-center">
+                <button
+                  onClick={() => printElement('quotation-view', `Quotation_${viewing.id}_${viewing.customerName.replace(/[^a-z0-9]/gi, '_')}`)}
+                  className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                >
+                  <Printer size={14} className="md:w-4 md:h-4" />
+                  <span>Print</span>
+                </button>
+                <button
+                  onClick={() => handleExport('pdf')}
+                  disabled={exporting !== null}
+                  className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600 disabled:opacity-50"
+                >
+                  {exporting === 'pdf' ? <Loader2 size={14} className="md:w-4 md:h-4 animate-spin" /> : <Download size={14} className="md:w-4 md:h-4" />}
+                  <span>PDF</span>
+                </button>
+                {canSharePdf() && (
+                  <button
+                    onClick={() => handleExport('share')}
+                    disabled={exporting !== null}
+                    className="flex items-center gap-1 md:gap-2 bg-green-600 hover:bg-green-700 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-green-500 disabled:opacity-50"
+                  >
+                    {exporting === 'share' ? <Loader2 size={14} className="md:w-4 md:h-4 animate-spin" /> : <Share2 size={14} className="md:w-4 md:h-4" />}
+                    <span>Share</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setViewing(null)}
+                  className="bg-slate-700 hover:bg-red-600 p-1.5 md:p-2 rounded-full transition-colors ml-1"
+                >
+                  <X size={18} className="md:w-5 md:h-5" />
+                </button>
+              </div>
+            </div>
+            <div ref={modalContainerRef} className="flex-1 overflow-auto p-4 md:p-8 flex justify-center bg-slate-500/10 relative">
+              <div
+                className="print-container origin-top shadow-xl transition-transform duration-200 ease-out bg-white"
+                style={{ transform: `scale(${scale})`, marginBottom: `${Math.max(0, scale * 300)}px` }}
+              >
+                <InvoiceTemplate
+                  id="quotation-view"
+                  billNo={viewing.id}
+                  date={viewing.date}
+                  customerName={viewing.customerName}
+                  customerCity={viewing.customerCity}
+                  customerGstin={viewing.customerGstin}
+                  placeOfSupply={viewing.placeOfSupply}
+                  items={viewing.items}
+                  settings={settings}
+                  gstRate={viewing.gstRate}
+                  documentTitle="ESTIMATE"
+                  billNoLabel="Quotation No."
+                  referenceNote={`Valid until ${viewing.validUntil}${viewing.note ? ` — ${viewing.note}` : ''}`}
+                  watermark={getQuotationStatus(viewing) === 'expired' ? 'EXPIRED' : undefined}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
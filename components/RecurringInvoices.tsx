@@ -0,0 +1,520 @@
+import React, { useState } from 'react';
+import { Plus, Minus, Trash2, Save, FilePlus, Loader2, Repeat, Pause, Play, Edit, FileText, X } from 'lucide-react';
+import { Product, Customer, RecurringInvoice, RecurringFrequency, InvoiceDraft, InvoiceItem, BusinessSettings, PriceList } from '../types';
+import { calculateInvoiceTotals, getBusinessStateCode, isInterStateSupply, roundMoney } from '../utils/gst';
+import { resolveRate } from '../utils/pricing';
+import { INDIAN_STATES, RECURRING_FREQUENCIES } from '../constants';
+
+interface RecurringInvoicesProps {
+  products: Product[];
+  customers: Customer[];
+  profiles: RecurringInvoice[];
+  drafts: InvoiceDraft[];
+  settings: BusinessSettings;
+  onSaveProfile: (profile: Omit<RecurringInvoice, 'id'>, id?: string) => Promise<void>;
+  onTogglePause: (profile: RecurringInvoice) => Promise<void>;
+  onDeleteProfile: (profile: RecurringInvoice) => Promise<void>;
+  onOpenDraft: (draft: InvoiceDraft) => void;
+  onDiscardDraft: (draft: InvoiceDraft) => Promise<void>;
+}
+
+export const RecurringInvoices: React.FC<RecurringInvoicesProps> = ({
+  products,
+  customers,
+  profiles,
+  drafts,
+  settings,
+  onSaveProfile,
+  onTogglePause,
+  onDeleteProfile,
+  onOpenDraft,
+  onDiscardDraft
+}) => {
+  const [editingProfile, setEditingProfile] = useState<RecurringInvoice | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [customerCity, setCustomerCity] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [nextRunDate, setNextRunDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  const [reviewEachRun, setReviewEachRun] = useState(false);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showListMobile, setShowListMobile] = useState(false);
+
+  // Item being added
+  const [selectedProductID, setSelectedProductID] = useState('');
+  const [qty, setQty] = useState<number>(1);
+  const [customRate, setCustomRate] = useState('');
+
+  const totalFor = (lines: InvoiceItem[], stateCode?: string) => calculateInvoiceTotals(lines, {
+    enableGst: settings.enableGst,
+    defaultGstRate: settings.enableGst ? (settings.defaultGstRate || 0) : 0,
+    isInterState: isInterStateSupply(getBusinessStateCode(settings), stateCode)
+  }).total;
+
+  // A line still on its automatic rate follows the quantity slabs and the customer's price
+  // list; a typed rate is kept
+  const repriced = (item: InvoiceItem, quantity: number, fromList?: PriceList, toList?: PriceList): InvoiceItem => {
+    const product = products.find(p => p.id === item.productId);
+    let { rate, rateNote } = item;
+    if (product && resolveRate(product, item.quantity, fromList).rate === item.rate) {
+      ({ rate, note: rateNote } = resolveRate(product, quantity, toList));
+    }
+    return { ...item, quantity, rate, rateNote, amount: roundMoney(quantity * rate) };
+  };
+
+  const handleCustomerSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const customer = customers.find(c => c.id === e.target.value);
+    setItems(items.map(item => repriced(item, item.quantity, selectedCustomer?.priceList, customer?.priceList)));
+    setSelectedCustomer(customer || null);
+    setCustomerName(customer?.name || '');
+    setCustomerCity(customer?.city || '');
+    setCustomerGstin(customer?.gstin || '');
+    setPlaceOfSupply(customer?.stateCode || '');
+  };
+
+  const addItem = () => {
+    const product = products.find(p => p.id === selectedProductID);
+    if (!product || qty <= 0) return;
+    const resolved = resolveRate(product, qty, selectedCustomer?.priceList);
+    const rate = customRate && parseFloat(customRate) > 0 ? parseFloat(customRate) : resolved.rate;
+    setItems([...items, {
+      id: Date.now().toString(),
+      productId: product.id,
+      name: product.name,
+      quantity: qty,
+      unit: product.unit,
+      rate,
+      amount: roundMoney(qty * rate),
+      packing: product.packing,
+      hsnCode: product.hsnCode,
+      gstRate: product.gstRate ?? settings.defaultGstRate,
+      rateNote: rate === resolved.rate ? resolved.note : rate !== product.rate ? 'Special rate' : undefined
+    }]);
+    setSelectedProductID('');
+    setQty(1);
+    setCustomRate('');
+  };
+
+  const updateItemQty = (id: string, delta: number) => {
+    const priceList = selectedCustomer?.priceList;
+    setItems(items.map(item => item.id === id ? repriced(item, Math.max(1, item.quantity + delta), priceList, priceList) : item));
+  };
+
+  const resetForm = () => {
+    setEditingProfile(null);
+    setSelectedCustomer(null);
+    setCustomerName('');
+    setCustomerCity('');
+    setCustomerGstin('');
+    setPlaceOfSupply('');
+    setFrequency('monthly');
+    setNextRunDate(new Date().toLocaleDateString('en-GB'));
+    setReviewEachRun(false);
+    setItems([]);
+  };
+
+  const startEdit = (profile: RecurringInvoice) => {
+    setEditingProfile(profile);
+    setSelectedCustomer(customers.find(c => c.id === profile.customerId) || null);
+    setCustomerName(profile.customerName);
+    setCustomerCity(profile.customerCity);
+    setCustomerGstin(profile.customerGstin || '');
+    setPlaceOfSupply(profile.placeOfSupply || '');
+    setFrequency(profile.frequency);
+    setNextRunDate(profile.nextRunDate);
+    setReviewEachRun(!!profile.reviewEachRun);
+    setItems(profile.items);
+    setShowListMobile(false);
+  };
+
+  const handleSave = async () => {
+    if (!customerName.trim()) {
+      alert("Please enter the customer name.");
+      return;
+    }
+    if (items.length === 0) {
+      alert("Please add the items billed every time.");
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await onSaveProfile({
+        customerId: selectedCustomer?.id,
+        customerName: customerName.trim(),
+        customerCity: customerCity.trim(),
+        customerGstin: customerGstin.trim().toUpperCase() || undefined,
+        placeOfSupply: placeOfSupply || undefined,
+        items,
+        frequency,
+        // A moved run date also moves the day of the month later runs fall on
+        startDate: editingProfile && editingProfile.nextRunDate === nextRunDate ? editingProfile.startDate : nextRunDate,
+        nextRunDate,
+        lastRunDate: editingProfile?.lastRunDate,
+        lastInvoiceId: editingProfile?.lastInvoiceId,
+        reviewEachRun: reviewEachRun || undefined,
+        paused: editingProfile?.paused ?? false,
+        createdAt: editingProfile?.createdAt || new Date().toISOString()
+      }, editingProfile?.id);
+      resetForm();
+      setShowListMobile(true);
+    } catch (e) {
+      // onSaveProfile will have alerted; keep the form intact
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePause = async (profile: RecurringInvoice) => {
+    try {
+      await onTogglePause(profile);
+    } catch (e) {
+      // onTogglePause will have alerted
+    }
+  };
+
+  const handleDelete = async (profile: RecurringInvoice) => {
+    if (!window.confirm(`Stop billing ${profile.customerName} on a schedule and delete this profile? Bills already raised are not affected.`)) return;
+    try {
+      await onDeleteProfile(profile);
+      if (editingProfile?.id === profile.id) resetForm();
+    } catch (e) {
+      // onDeleteProfile will have alerted
+    }
+  };
+
+  const handleDiscard = async (draft: InvoiceDraft) => {
+    if (!window.confirm(`Discard the ${draft.date} bill for ${draft.customerName}? It will not be raised again.`)) return;
+    try {
+      await onDiscardDraft(draft);
+    } catch (e) {
+      // onDiscardDraft will have alerted
+    }
+  };
+
+  const frequencyLabel = (value: RecurringFrequency) => RECURRING_FREQUENCIES.find(f => f.value === value)?.label || value;
+
+  return (
+    <div className="flex flex-col lg:flex-row h-full gap-4 lg:gap-4 relative overflow-hidden">
+
+      {/* Mobile Toggle Tabs */}
+      <div className="lg:hidden flex mb-2 bg-slate-200 p-1 rounded-lg">
+        <button
+          onClick={() => setShowListMobile(false)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${!showListMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          {editingProfile ? 'Edit Profile' : 'New Profile'}
+        </button>
+        <button
+          onClick={() => setShowListMobile(true)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${showListMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          Profiles{drafts.length > 0 ? ` (${drafts.length} due)` : ''}
+        </button>
+      </div>
+
+      {/* LEFT: Profile entry */}
+      <div className={`w-full lg:w-2/5 h-full bg-white p-4 lg:p-6 rounded-lg shadow-md border border-slate-200 overflow-y-auto no-print ${showListMobile ? 'hidden lg:block' : 'block'}`}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-amber-600" />
+            {editingProfile ? 'Edit Recurring Bill' : 'New Recurring Bill'}
+          </h2>
+          <button
+            onClick={() => {
+              if (items.length === 0 || window.confirm("Start a new profile? Current items will be cleared.")) resetForm();
+            }}
+            className="text-xs font-bold text-amber-600 hover:text-amber-700 flex items-center gap-1 px-2 py-1 bg-amber-50 rounded transition-colors"
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+            New
+          </button>
+        </div>
+
+        {/* Customer */}
+        <div className="mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Customer</label>
+          <select
+            value={selectedCustomer?.id || 'new'}
+            onChange={handleCustomerSelect}
+            className="w-full p-2 border border-slate-300 rounded mb-2 focus:outline-none focus:border-amber-500 text-sm bg-white"
+          >
+            <option value="new">+ New Customer</option>
+            {customers.map(c => (
+              <option key={c.id} value={c.id}>{c.name} ({c.city})</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Customer Name *"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            <input
+              type="text"
+              placeholder="City"
+              value={customerCity}
+              onChange={(e) => setCustomerCity(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            {settings.enableGst && (
+              <>
+                <input
+                  type="text"
+                  placeholder="GSTIN"
+                  maxLength={15}
+                  value={customerGstin}
+                  onChange={(e) => setCustomerGstin(e.target.value.toUpperCase())}
+                  disabled={!!selectedCustomer}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm uppercase disabled:bg-slate-100"
+                />
+                <select
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm bg-white"
+                >
+                  <option value="">Place of supply (own state)</option>
+                  {INDIAN_STATES.map(st => (
+                    <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Frequency</label>
+            <select
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as RecurringFrequency)}
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm bg-white"
+            >
+              {RECURRING_FREQUENCIES.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{editingProfile ? 'Next Run' : 'First Run'}</label>
+            <input
+              type="text"
+              value={nextRunDate}
+              onChange={(e) => setNextRunDate(e.target.value)}
+              placeholder="DD/MM/YYYY"
+              className="w-full p-2 border border-slate-300 rounded focus:border-amber-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+        {settings.recurringCreatesFinal && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-slate-600">
+            <input type="checkbox" checked={reviewEachRun} onChange={e => setReviewEachRun(e.target.checked)} />
+            Raise a draft for review each time, to add discounts, charges or TCS
+          </label>
+        )}
+
+        {/* Add Items */}
+        <div className="mb-6">
+          <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Items Billed Each Time</h3>
+          <div className="space-y-2 mb-2">
+            <select
+              value={selectedProductID}
+              onChange={(e) => setSelectedProductID(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm bg-white"
+            >
+              <option value="">Select Item...</option>
+              {products.map(p => (
+                <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''} - ₹{p.rate}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <label className="text-xs text-slate-500 block mb-1">Rate (₹)</label>
+                <input
+                  type="number"
+                  value={customRate}
+                  onChange={(e) => setCustomRate(e.target.value)}
+                  placeholder={(() => {
+                    const product = products.find(p => p.id === selectedProductID);
+                    return product ? resolveRate(product, qty, selectedCustomer?.priceList).rate.toString() : '';
+                  })()}
+                  disabled={!selectedProductID}
+                  min="0"
+                  step="0.01"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
+                />
+              </div>
+              <div className="w-20">
+                <label className="text-xs text-slate-500 block mb-1">Qty</label>
+                <input
+                  type="number"
+                  value={qty}
+                  onChange={(e) => setQty(Number(e.target.value))}
+                  min="1"
+                  step="any"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-amber-500 text-sm text-center"
+                />
+              </div>
+              <div className="pt-5">
+                <button
+                  onClick={addItem}
+                  disabled={!selectedProductID}
+                  className="bg-amber-600 text-white p-2 rounded hover:bg-amber-700 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add Item"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {items.map((item, idx) => (
+              <div key={item.id} className="bg-white p-3 border border-slate-200 rounded-lg shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="text-sm overflow-hidden flex-1 pr-2">
+                    <div className="font-bold text-slate-800 truncate">
+                      {idx + 1}. {item.name} <span className="text-slate-400 font-normal text-xs">{item.packing ? `(${item.packing})` : ''}</span>
+                    </div>
+                    <div className="text-slate-500 text-xs font-medium">₹{item.rate} / {item.unit}</div>
+                  </div>
+                  <button
+                    onClick={() => setItems(items.filter(i => i.id !== item.id))}
+                    className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                    title="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex justify-between items-center bg-slate-50 p-2 rounded-md">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => updateItemQty(item.id, -1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                    <div className="w-10 text-center font-bold text-slate-700 text-sm">{item.quantity}</div>
+                    <button
+                      onClick={() => updateItemQty(item.id, 1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="text-sm font-bold text-slate-900">₹{item.amount}</div>
+                </div>
+              </div>
+            ))}
+            {items.length === 0 && <div className="text-center p-4 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 text-sm">No items added</div>}
+          </div>
+
+          {items.length > 0 && (
+            <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200 flex justify-between font-bold text-lg text-slate-900">
+              <span>Each Bill:</span>
+              <span>₹{totalFor(items, placeOfSupply)}</span>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={items.length === 0 || !customerName.trim() || isSaving}
+          className="w-full flex items-center justify-center gap-2 bg-amber-600 text-white p-3 rounded hover:bg-amber-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {editingProfile ? 'Update Profile' : 'Save Profile'}
+        </button>
+      </div>
+
+      {/* RIGHT: Drafts and profiles */}
+      <div className={`w-full lg:w-3/5 h-full bg-white rounded-lg shadow-md border border-slate-200 flex-col overflow-hidden ${!showListMobile ? 'hidden lg:flex' : 'flex'}`}>
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-amber-50 to-orange-50 shrink-0 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-800">Recurring Bills</h2>
+          <div className="text-xs text-slate-500">
+            {profiles.filter(p => !p.paused).length} active · {settings.recurringCreatesFinal ? 'saved automatically' : 'drafts for review'}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {drafts.length > 0 && (
+            <div className="p-4 border-b border-amber-200 bg-amber-50/60">
+              <h3 className="text-xs font-bold text-amber-700 uppercase mb-2">Due for Review ({drafts.length})</h3>
+              <div className="space-y-2">
+                {drafts.map(draft => (
+                  <div key={draft.id} className="bg-white p-3 rounded-lg border border-amber-200 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold text-slate-800 truncate">{draft.customerName}</div>
+                      <div className="text-xs text-slate-500">{draft.date} · {draft.items.length} item(s) · ₹{totalFor(draft.items, draft.placeOfSupply)}</div>
+                    </div>
+                    <button
+                      onClick={() => onOpenDraft(draft)}
+                      className="flex items-center gap-1 bg-amber-600 text-white px-3 py-1.5 rounded hover:bg-amber-700 transition-colors text-xs font-bold"
+                    >
+                      <FileText className="w-3.5 h-3.5" /> Review & Save
+                    </button>
+                    <button onClick={() => handleDiscard(draft)} className="text-slate-400 hover:text-red-500 p-1.5 rounded transition-colors" title="Discard">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="divide-y divide-slate-100">
+            {profiles.map(profile => (
+              <div key={profile.id} className={`p-4 flex justify-between items-start gap-3 ${profile.paused ? 'bg-slate-50' : ''}`}>
+                <div className="min-w-0">
+                  <div className="font-bold text-slate-800 truncate flex items-center gap-2">
+                    {profile.customerName}
+                    {profile.paused && <span className="text-[10px] font-bold uppercase bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded">Paused</span>}
+                    {settings.recurringCreatesFinal && profile.reviewEachRun && <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">Review</span>}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {frequencyLabel(profile.frequency)} · {profile.items.length} item(s) · ₹{totalFor(profile.items, profile.placeOfSupply)}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    Last run: <span className="font-medium text-slate-700">{profile.lastRunDate || 'Not yet'}</span>
+                    {profile.lastInvoiceId && <span> (Bill #{profile.lastInvoiceId})</span>}
+                    {' · '}Next run: <span className={`font-medium ${profile.paused ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{profile.nextRunDate}</span>
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => handleTogglePause(profile)}
+                    className="text-amber-600 hover:bg-amber-50 p-2 rounded transition-colors"
+                    title={profile.paused ? 'Resume' : 'Pause'}
+                  >
+                    {profile.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => startEdit(profile)} className="text-blue-600 hover:bg-blue-50 p-2 rounded transition-colors" title="Edit">
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(profile)} className="text-red-500 hover:bg-red-50 p-2 rounded transition-colors" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            {profiles.length === 0 && (
+              <div className="p-12 text-center">
+                <Repeat className="w-16 h-16 mx-auto text-slate-300 mb-3" />
+                <p className="text-slate-400 font-medium">No recurring bills yet</p>
+                <p className="text-xs text-slate-400 mt-1">Set one up for customers who take the same items every week or month.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,857 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Plus, Minus, Trash2, Save, FilePlus, Loader2, ClipboardList, Search, Truck, FileCheck, Eye, X, Printer, Download, ChevronDown, ChevronUp, Lock, Unlock } from 'lucide-react';
+import { Product, Customer, SalesOrder, SalesOrderStatus, DeliveryChallan, InvoiceItem, BusinessSettings } from '../types';
+import { DeliveryChallanTemplate } from './DeliveryChallanTemplate';
+import { calculateInvoiceTotals, getBusinessStateCode, isInterStateSupply, roundMoney } from '../utils/gst';
+import { resolveRate } from '../utils/pricing';
+import { getOrderProgress, isOrderFullyDispatched } from '../utils/salesOrders';
+import { printElement } from '../utils/print';
+import { pdfFileName, downloadPdf } from '../utils/pdf';
+import { INDIAN_STATES } from '../constants';
+
+interface SalesOrdersProps {
+  products: Product[];
+  customers: Customer[];
+  salesOrders: SalesOrder[];
+  challans: DeliveryChallan[];
+  settings: BusinessSettings;
+  onSaveOrder: (order: Omit<SalesOrder, 'id'>) => Promise<SalesOrder>;
+  onUpdateOrderStatus: (order: SalesOrder, status: SalesOrderStatus) => Promise<void>;
+  onDeleteOrder: (order: SalesOrder) => Promise<void>;
+  onSaveChallan: (challan: Omit<DeliveryChallan, 'id'>) => Promise<DeliveryChallan>;
+  onDeleteChallan: (challan: DeliveryChallan) => Promise<void>;
+  onInvoiceChallans: (challans: DeliveryChallan[]) => void; // Opens the bill in Create Bill
+}
+
+export const SalesOrders: React.FC<SalesOrdersProps> = ({
+  products,
+  customers,
+  salesOrders,
+  challans,
+  settings,
+  onSaveOrder,
+  onUpdateOrderStatus,
+  onDeleteOrder,
+  onSaveChallan,
+  onDeleteChallan,
+  onInvoiceChallans
+}) => {
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [customerCity, setCustomerCity] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [date, setDate] = useState<string>(new Date().toLocaleDateString('en-GB'));
+  const [note, setNote] = useState('');
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showRegisterMobile, setShowRegisterMobile] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SalesOrderStatus | ''>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Item being added
+  const [selectedProductID, setSelectedProductID] = useState('');
+  const [qty, setQty] = useState<number>(1);
+  const [customRate, setCustomRate] = useState('');
+
+  // Dispatch form for one order
+  const [dispatchingOrder, setDispatchingOrder] = useState<SalesOrder | null>(null);
+  const [dispatchQty, setDispatchQty] = useState<Record<string, string>>({});
+  const [dispatchDate, setDispatchDate] = useState('');
+  const [vehicleNo, setVehicleNo] = useState('');
+  const [dispatchNote, setDispatchNote] = useState('');
+
+  // Challans ticked for billing, and the one being viewed
+  const [selectedChallanIds, setSelectedChallanIds] = useState<string[]>([]);
+  const [viewingChallan, setViewingChallan] = useState<DeliveryChallan | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [scale, setScale] = useState(1);
+  const modalContainerRef = useRef<HTMLDivElement>(null);
+
+  const totals = calculateInvoiceTotals(items, {
+    enableGst: settings.enableGst,
+    defaultGstRate: settings.enableGst ? (settings.defaultGstRate || 0) : 0,
+    isInterState: isInterStateSupply(getBusinessStateCode(settings), placeOfSupply)
+  });
+
+  useEffect(() => {
+    if (!viewingChallan) return;
+    const calculateScale = () => {
+      if (modalContainerRef.current) {
+        const containerWidth = modalContainerRef.current.offsetWidth;
+        setScale(Math.max(Math.min((containerWidth - 24) / 794, 0.95), 0.3));
+      }
+    };
+    const timer = setTimeout(calculateScale, 10);
+    window.addEventListener('resize', calculateScale);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('resize', calculateScale);
+    };
+  }, [viewingChallan]);
+
+  const handleCustomerSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const customer = customers.find(c => c.id === e.target.value);
+    setSelectedCustomer(customer || null);
+    setCustomerName(customer?.name || '');
+    setCustomerCity(customer?.city || '');
+    setCustomerGstin(customer?.gstin || '');
+    setPlaceOfSupply(customer?.stateCode || '');
+  };
+
+  const addItem = () => {
+    const product = products.find(p => p.id === selectedProductID);
+    if (!product || qty <= 0) return;
+    const resolved = resolveRate(product, qty, selectedCustomer?.priceList);
+    const rate = customRate && parseFloat(customRate) > 0 ? parseFloat(customRate) : resolved.rate;
+    setItems([...items, {
+      id: Date.now().toString(),
+      productId: product.id,
+      name: product.name,
+      quantity: qty,
+      unit: product.unit,
+      rate,
+      amount: roundMoney(qty * rate),
+      packing: product.packing,
+      hsnCode: product.hsnCode,
+      gstRate: product.gstRate ?? settings.defaultGstRate,
+      rateNote: rate === resolved.rate ? resolved.note : rate !== product.rate ? 'Special rate' : undefined
+    }]);
+    setSelectedProductID('');
+    setQty(1);
+    setCustomRate('');
+  };
+
+  const updateItemQty = (id: string, delta: number) => {
+    setItems(items.map(item => {
+      if (item.id !== id) return item;
+      const quantity = Math.max(1, item.quantity + delta);
+      return { ...item, quantity, amount: roundMoney(quantity * item.rate) };
+    }));
+  };
+
+  const resetForm = () => {
+    setSelectedCustomer(null);
+    setCustomerName('');
+    setCustomerCity('');
+    setCustomerGstin('');
+    setPlaceOfSupply('');
+    setDate(new Date().toLocaleDateString('en-GB'));
+    setNote('');
+    setItems([]);
+  };
+
+  const handleSave = async () => {
+    if (!customerName.trim()) {
+      alert("Please enter the customer name.");
+      return;
+    }
+    if (items.length === 0) {
+      alert("Please add items to the order before saving.");
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const saved = await onSaveOrder({
+        date,
+        customerId: selectedCustomer?.id,
+        customerName: customerName.trim(),
+        customerCity: customerCity.trim(),
+        customerGstin: customerGstin.trim().toUpperCase() || undefined,
+        placeOfSupply: placeOfSupply || undefined,
+        items,
+        total: totals.total,
+        status: 'open',
+        note: note.trim() || undefined,
+        createdAt: new Date().toISOString()
+      });
+      resetForm();
+      setStatusFilter('open');
+      setExpandedId(saved.id);
+      setShowRegisterMobile(true);
+    } catch (e) {
+      // onSaveOrder will have alerted; keep the form intact
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openDispatch = (order: SalesOrder) => {
+    const quantities: Record<string, string> = {};
+    getOrderProgress(order, challans).forEach(p => {
+      quantities[p.line.id] = p.pending > 0 ? String(p.pending) : '';
+    });
+    setDispatchQty(quantities);
+    setDispatchDate(new Date().toLocaleDateString('en-GB'));
+    setVehicleNo('');
+    setDispatchNote('');
+    setDispatchingOrder(order);
+  };
+
+  const handleDispatch = async () => {
+    if (!dispatchingOrder) return;
+    const progress = getOrderProgress(dispatchingOrder, challans);
+    const lines: InvoiceItem[] = [];
+    for (const p of progress) {
+      const quantity = parseFloat(dispatchQty[p.line.id] || '') || 0;
+      if (quantity <= 0) continue;
+      if (quantity > p.pending) {
+        alert(`${p.line.name}: only ${p.pending} ${p.line.unit} is still pending on this order.`);
+        return;
+      }
+      lines.push({ ...p.line, quantity, amount: roundMoney(quantity * p.line.rate) });
+    }
+    if (lines.length === 0) {
+      alert("Enter the quantity being dispatched for at least one item.");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await onSaveChallan({
+        orderId: dispatchingOrder.id,
+        date: dispatchDate,
+        customerId: dispatchingOrder.customerId,
+        customerName: dispatchingOrder.customerName,
+        customerCity: dispatchingOrder.customerCity,
+        customerGstin: dispatchingOrder.customerGstin,
+        placeOfSupply: dispatchingOrder.placeOfSupply,
+        items: lines,
+        vehicleNo: vehicleNo.trim() || undefined,
+        note: dispatchNote.trim() || undefined,
+        createdAt: new Date().toISOString()
+      });
+      setDispatchingOrder(null);
+      setViewingChallan(saved);
+    } catch (e) {
+      // onSaveChallan will have alerted
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleChallan = (id: string) => {
+    setSelectedChallanIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const handleCreateBill = (orderChallans: DeliveryChallan[]) => {
+    const selected = orderChallans.filter(c => selectedChallanIds.includes(c.id));
+    if (selected.length === 0) return;
+    setSelectedChallanIds([]);
+    onInvoiceChallans(selected);
+  };
+
+  const handleDeleteChallan = async (challan: DeliveryChallan) => {
+    if (!window.confirm(`Delete challan ${challan.id}? Its quantities will show as pending again.`)) return;
+    try {
+      await onDeleteChallan(challan);
+      setSelectedChallanIds(prev => prev.filter(id => id !== challan.id));
+    } catch (e) {
+      // onDeleteChallan will have alerted
+    }
+  };
+
+  const handleToggleStatus = async (order: SalesOrder) => {
+    const status: SalesOrderStatus = order.status === 'open' ? 'closed' : 'open';
+    if (status === 'closed' && !window.confirm(`Close order ${order.id}? Anything not yet dispatched will no longer show as pending.`)) return;
+    try {
+      await onUpdateOrderStatus(order, status);
+    } catch (e) {
+      // onUpdateOrderStatus will have alerted
+    }
+  };
+
+  const handleDeleteOrder = async (order: SalesOrder) => {
+    if (!window.confirm(`Delete order ${order.id} for ${order.customerName}?`)) return;
+    try {
+      await onDeleteOrder(order);
+    } catch (e) {
+      // onDeleteOrder will have alerted
+    }
+  };
+
+  const handleChallanPdf = async () => {
+    if (!viewingChallan) return;
+    try {
+      setExporting(true);
+      await downloadPdf('challan-view', pdfFileName('Challan', viewingChallan.id, viewingChallan.customerName));
+    } catch (e) {
+      console.error("Error creating PDF: ", e);
+      alert("Could not create the PDF.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const filteredOrders = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return salesOrders.filter(o => {
+      if (statusFilter && o.status !== statusFilter) return false;
+      if (!term) return true;
+      return o.id.toLowerCase().includes(term) ||
+        o.customerName.toLowerCase().includes(term) ||
+        o.date.includes(term);
+    });
+  }, [salesOrders, searchTerm, statusFilter]);
+
+  return (
+    <div className="flex flex-col lg:flex-row h-full gap-4 lg:gap-4 relative overflow-hidden">
+
+      {/* Mobile Toggle Tabs */}
+      <div className="lg:hidden flex mb-2 bg-slate-200 p-1 rounded-lg">
+        <button
+          onClick={() => setShowRegisterMobile(false)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${!showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          New Order
+        </button>
+        <button
+          onClick={() => setShowRegisterMobile(true)}
+          className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${showRegisterMobile ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+        >
+          Orders
+        </button>
+      </div>
+
+      {/* LEFT: Entry */}
+      <div className={`w-full lg:w-2/5 h-full bg-white p-4 lg:p-6 rounded-lg shadow-md border border-slate-200 overflow-y-auto no-print ${showRegisterMobile ? 'hidden lg:block' : 'block'}`}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-violet-600" />
+            New Sales Order
+          </h2>
+          <button
+            onClick={() => {
+              if (items.length === 0 || window.confirm("Start a new order? Current items will be cleared.")) resetForm();
+            }}
+            className="text-xs font-bold text-violet-600 hover:text-violet-700 flex items-center gap-1 px-2 py-1 bg-violet-50 rounded transition-colors"
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+            New
+          </button>
+        </div>
+
+        {/* Customer */}
+        <div className="mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Customer</label>
+          <select
+            value={selectedCustomer?.id || 'new'}
+            onChange={handleCustomerSelect}
+            className="w-full p-2 border border-slate-300 rounded mb-2 focus:outline-none focus:border-violet-500 text-sm bg-white"
+          >
+            <option value="new">+ New Customer</option>
+            {customers.map(c => (
+              <option key={c.id} value={c.id}>{c.name} ({c.city})</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Customer Name *"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            <input
+              type="text"
+              placeholder="City"
+              value={customerCity}
+              onChange={(e) => setCustomerCity(e.target.value)}
+              disabled={!!selectedCustomer}
+              className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm disabled:bg-slate-100"
+            />
+            {settings.enableGst && (
+              <>
+                <input
+                  type="text"
+                  placeholder="GSTIN"
+                  maxLength={15}
+                  value={customerGstin}
+                  onChange={(e) => setCustomerGstin(e.target.value.toUpperCase())}
+                  disabled={!!selectedCustomer}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm uppercase disabled:bg-slate-100"
+                />
+                <select
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                  className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm bg-white"
+                >
+                  <option value="">Place of supply (own state)</option>
+                  {INDIAN_STATES.map(st => (
+                    <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Order Date</label>
+          <input
+            type="text"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            placeholder="DD/MM/YYYY"
+            className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm"
+          />
+        </div>
+
+        {/* Add Items */}
+        <div className="mb-6">
+          <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Ordered Items</h3>
+          <div className="space-y-2 mb-2">
+            <select
+              value={selectedProductID}
+              onChange={(e) => setSelectedProductID(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded outline-none focus:border-violet-500 text-sm bg-white"
+            >
+              <option value="">Select Item...</option>
+              {products.map(p => (
+                <option key={p.id} value={p.id}>{p.name} {p.packing ? `(${p.packing})` : ''} - ₹{p.rate}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <label className="text-xs text-slate-500 block mb-1">Agreed Rate (₹)</label>
+                <input
+                  type="number"
+                  value={customRate}
+                  onChange={(e) => setCustomRate(e.target.value)}
+                  placeholder={(() => {
+                    const product = products.find(p => p.id === selectedProductID);
+                    return product ? resolveRate(product, qty, selectedCustomer?.priceList).rate.toString() : '';
+                  })()}
+                  disabled={!selectedProductID}
+                  min="0"
+                  step="0.01"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-violet-500 text-sm disabled:bg-slate-50 disabled:text-slate-500"
+                />
+              </div>
+              <div className="w-20">
+                <label className="text-xs text-slate-500 block mb-1">Qty</label>
+                <input
+                  type="number"
+                  value={qty}
+                  onChange={(e) => setQty(Number(e.target.value))}
+                  min="1"
+                  step="any"
+                  className="w-full p-2 border border-slate-300 rounded outline-none focus:border-violet-500 text-sm text-center"
+                />
+              </div>
+              <div className="pt-5">
+                <button
+                  onClick={addItem}
+                  disabled={!selectedProductID}
+                  className="bg-violet-600 text-white p-2 rounded hover:bg-violet-700 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add Item"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {items.map((item, idx) => (
+              <div key={item.id} className="bg-white p-3 border border-slate-200 rounded-lg shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="text-sm overflow-hidden flex-1 pr-2">
+                    <div className="font-bold text-slate-800 truncate">
+                      {idx + 1}. {item.name} <span className="text-slate-400 font-normal text-xs">{item.packing ? `(${item.packing})` : ''}</span>
+                    </div>
+                    <div className="text-slate-500 text-xs font-medium">₹{item.rate} / {item.unit}</div>
+                  </div>
+                  <button
+                    onClick={() => setItems(items.filter(i => i.id !== item.id))}
+                    className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                    title="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex justify-between items-center bg-slate-50 p-2 rounded-md">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => updateItemQty(item.id, -1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                    <div className="w-10 text-center font-bold text-slate-700 text-sm">{item.quantity}</div>
+                    <button
+                      onClick={() => updateItemQty(item.id, 1)}
+                      className="w-7 h-7 flex items-center justify-center bg-white border border-slate-200 rounded shadow-xs hover:bg-slate-100 text-slate-600 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="text-sm font-bold text-slate-900">₹{item.amount}</div>
+                </div>
+              </div>
+            ))}
+            {items.length === 0 && <div className="text-center p-4 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 text-sm">No items added</div>}
+          </div>
+
+          {items.length > 0 && (
+            <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200 flex justify-between font-bold text-lg text-slate-900">
+              <span>Order Value:</span>
+              <span>₹{totals.total}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note</label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Customer PO number, delivery schedule"
+            className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm"
+          />
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={items.length === 0 || !customerName.trim() || isSaving}
+          className="w-full flex items-center justify-center gap-2 bg-violet-600 text-white p-3 rounded hover:bg-violet-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-sm font-bold"
+        >
+          {isSaving && !dispatchingOrder ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Order
+        </button>
+      </div>
+
+      {/* RIGHT: Orders */}
+      <div className={`w-full lg:w-3/5 h-full bg-white rounded-lg shadow-md border border-slate-200 flex-col overflow-hidden ${!showRegisterMobile ? 'hidden lg:flex' : 'flex'}`}>
+        <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-violet-50 to-purple-50 shrink-0">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold text-slate-800">Sales Orders</h2>
+            <div className="text-xs text-slate-500">{salesOrders.filter(o => o.status === 'open').length} open</div>
+          </div>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search order no, customer or date..."
+                className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as SalesOrderStatus | '')}
+              className="px-2 py-2 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:border-violet-500"
+            >
+              <option value="open">Open</option>
+              <option value="closed">Closed</option>
+              <option value="">All</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {filteredOrders.map(order => {
+            const progress = getOrderProgress(order, challans);
+            const orderChallans = challans.filter(c => c.orderId === order.id);
+            const unbilled = orderChallans.filter(c => !c.invoiceId);
+            const pendingLines = progress.filter(p => p.pending > 0).length;
+            const fullyDispatched = isOrderFullyDispatched(progress);
+            const isExpanded = expandedId === order.id;
+            const selectedHere = unbilled.filter(c => selectedChallanIds.includes(c.id));
+
+            return (
+              <div key={order.id} className={isExpanded ? 'bg-violet-50/40' : ''}>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : order.id)}
+                  className="w-full p-4 flex justify-between items-start gap-3 hover:bg-slate-50 text-left"
+                >
+                  <div className="min-w-0">
+                    <div className="font-bold text-slate-800 truncate">{order.id} · {order.customerName}</div>
+                    <div className="text-xs text-slate-500">
+                      {order.date} · {order.items.length} item(s) · {orderChallans.length} challan(s)
+                    </div>
+                    {order.note && <div className="text-xs text-slate-400 truncate">{order.note}</div>}
+                  </div>
+                  <div className="text-right shrink-0 flex items-start gap-2">
+                    <div>
+                      <div className="font-bold text-slate-900">₹{order.total}</div>
+                      <div className={`text-xs font-medium ${order.status === 'closed' ? 'text-slate-400' : fullyDispatched ? 'text-green-600' : 'text-amber-600'}`}>
+                        {order.status === 'closed' ? 'Closed' : fullyDispatched ? 'Dispatched' : `${pendingLines} item(s) pending`}
+                      </div>
+                      {unbilled.length > 0 && <div className="text-xs font-medium text-red-600">{unbilled.length} challan(s) to bill</div>}
+                    </div>
+                    {isExpanded ? <ChevronUp className="w-4 h-4 text-slate-400 mt-1" /> : <ChevronDown className="w-4 h-4 text-slate-400 mt-1" />}
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-4 pb-4 space-y-3">
+                    {/* Ordered / dispatched / invoiced per line */}
+                    <div className="overflow-x-auto border border-slate-200 rounded-lg bg-white">
+                      <table className="w-full text-sm">
+                        <thead className="bg-slate-100 text-slate-600 text-xs uppercase">
+                          <tr>
+                            <th className="p-2 text-left">Item</th>
+                            <th className="p-2 text-right">Ordered</th>
+                            <th className="p-2 text-right">Dispatched</th>
+                            <th className="p-2 text-right">Invoiced</th>
+                            <th className="p-2 text-right">Pending</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {progress.map(p => (
+                            <tr key={p.line.id}>
+                              <td className="p-2 text-slate-800">
+                                {p.line.name} {p.line.packing && <span className="text-xs text-slate-400">({p.line.packing})</span>}
+                                <div className="text-xs text-slate-400">₹{p.line.rate} / {p.line.unit}</div>
+                              </td>
+                              <td className="p-2 text-right">{p.ordered}</td>
+                              <td className="p-2 text-right">{p.dispatched}</td>
+                              <td className="p-2 text-right">{p.invoiced}</td>
+                              <td className={`p-2 text-right font-bold ${p.pending > 0 && order.status === 'open' ? 'text-amber-600' : 'text-slate-400'}`}>{p.pending}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {/* Challans */}
+                    {orderChallans.length > 0 && (
+                      <div className="border border-slate-200 rounded-lg bg-white divide-y divide-slate-100">
+                        {orderChallans.map(c => (
+                          <div key={c.id} className="p-2 flex items-center gap-2 text-sm">
+                            {!c.invoiceId ? (
+                              <input
+                                type="checkbox"
+                                checked={selectedChallanIds.includes(c.id)}
+                                onChange={() => toggleChallan(c.id)}
+                                className="accent-violet-600"
+                                title="Include in bill"
+                              />
+                            ) : (
+                              <FileCheck className="w-4 h-4 text-green-600 shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <span className="font-bold text-slate-800">{c.id}</span>
+                              <span className="text-xs text-slate-500"> · {c.date} · {c.items.map(i => `${i.name} ${i.quantity}`).join(', ')}</span>
+                              {c.invoiceId && <div className="text-xs text-green-600">Billed as #{c.invoiceId}</div>}
+                            </div>
+                            <button onClick={() => setViewingChallan(c)} className="text-slate-600 hover:bg-slate-100 p-1.5 rounded transition-colors" title="View / Print">
+                              <Eye className="w-4 h-4" />
+                            </button>
+                            {!c.invoiceId && (
+                              <button onClick={() => handleDeleteChallan(c)} className="text-red-500 hover:bg-red-50 p-1.5 rounded transition-colors" title="Delete">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {order.status === 'open' && !fullyDispatched && (
+                        <button
+                          onClick={() => openDispatch(order)}
+                          className="flex items-center gap-2 bg-violet-600 text-white px-3 py-2 rounded hover:bg-violet-700 transition-colors text-sm font-bold"
+                        >
+                          <Truck className="w-4 h-4" /> New Challan
+                        </button>
+                      )}
+                      {unbilled.length > 0 && (
+                        <button
+                          onClick={() => handleCreateBill(orderChallans)}
+                          disabled={selectedHere.length === 0}
+                          className="flex items-center gap-2 bg-green-600 text-white px-3 py-2 rounded hover:bg-green-700 transition-colors text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <FileCheck className="w-4 h-4" />
+                          Create Bill{selectedHere.length > 0 ? ` (${selectedHere.length})` : ''}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleToggleStatus(order)}
+                        className="flex items-center gap-2 bg-slate-100 text-slate-700 px-3 py-2 rounded hover:bg-slate-200 transition-colors text-sm font-bold"
+                      >
+                        {order.status === 'open' ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                        {order.status === 'open' ? 'Close Order' : 'Reopen'}
+                      </button>
+                      {orderChallans.length === 0 && (
+                        <button
+                          onClick={() => handleDeleteOrder(order)}
+                          className="flex items-center gap-2 text-red-600 px-3 py-2 rounded hover:bg-red-50 transition-colors text-sm font-bold"
+                        >
+                          <Trash2 className="w-4 h-4" /> Delete
+                        </button>
+                      )}
+                    </div>
+                    {unbilled.length > 0 && selectedHere.length === 0 && (
+                      <p className="text-xs text-slate-500">Tick the challans to include, then Create Bill.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {filteredOrders.length === 0 && (
+            <div className="p-12 text-center">
+              <ClipboardList className="w-16 h-16 mx-auto text-slate-300 mb-3" />
+              <p className="text-slate-400 font-medium">{salesOrders.length === 0 ? 'No sales orders yet' : 'No orders match your filters'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Dispatch Form */}
+      {dispatchingOrder && (
+        <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 no-print">
+          <div className="bg-white w-full max-w-lg rounded-lg shadow-xl flex flex-col max-h-full overflow-hidden">
+            <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+              <div>
+                <h3 className="font-bold text-slate-800">New Challan for {dispatchingOrder.id}</h3>
+                <p className="text-xs text-slate-500">{dispatchingOrder.customerName}</p>
+              </div>
+              <button onClick={() => setDispatchingOrder(null)} className="text-slate-400 hover:text-slate-600 p-1">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Date</label>
+                  <input
+                    type="text"
+                    value={dispatchDate}
+                    onChange={(e) => setDispatchDate(e.target.value)}
+                    placeholder="DD/MM/YYYY"
+                    className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Vehicle No.</label>
+                  <input
+                    type="text"
+                    value={vehicleNo}
+                    onChange={(e) => setVehicleNo(e.target.value.toUpperCase())}
+                    className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm uppercase"
+                  />
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="py-1 text-left">Item</th>
+                    <th className="py-1 text-right">Pending</th>
+                    <th className="py-1 text-right w-24">Dispatch</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {getOrderProgress(dispatchingOrder, challans).map(p => (
+                    <tr key={p.line.id}>
+                      <td className="py-2 text-slate-800">{p.line.name} {p.line.packing && <span className="text-xs text-slate-400">({p.line.packing})</span>}</td>
+                      <td className="py-2 text-right text-slate-500">{p.pending} {p.line.unit}</td>
+                      <td className="py-2 pl-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max={p.pending}
+                          step="any"
+                          value={dispatchQty[p.line.id] || ''}
+                          onChange={(e) => setDispatchQty({ ...dispatchQty, [p.line.id]: e.target.value })}
+                          disabled={p.pending === 0}
+                          className="w-full p-1.5 border border-slate-300 rounded text-right outline-none focus:border-violet-500 disabled:bg-slate-50"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <input
+                type="text"
+                value={dispatchNote}
+                onChange={(e) => setDispatchNote(e.target.value)}
+                placeholder="Note (transporter, LR number...)"
+                className="w-full p-2 border border-slate-300 rounded focus:border-violet-500 outline-none text-sm"
+              />
+            </div>
+            <div className="p-4 border-t border-slate-200 flex justify-end gap-2">
+              <button onClick={() => setDispatchingOrder(null)} className="px-4 py-2 rounded text-sm font-bold text-slate-600 hover:bg-slate-100">
+                Cancel
+              </button>
+              <button
+                onClick={handleDispatch}
+                disabled={isSaving}
+                className="flex items-center gap-2 bg-violet-600 text-white px-4 py-2 rounded hover:bg-violet-700 transition-colors text-sm font-bold disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Truck className="w-4 h-4" />}
+                Save Challan
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Challan Preview */}
+      {viewingChallan && (
+        <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-0 md:p-4 no-print">
+          <div className="bg-white w-full h-full md:rounded-lg flex flex-col overflow-hidden max-w-5xl">
+            <div className="bg-slate-800 text-white p-3 md:p-4 flex justify-between items-center shrink-0">
+              <h3 className="font-bold text-sm md:text-lg truncate">Challan {viewingChallan.id}</h3>
+              <div className="flex gap-2 items-center">
+                <button
+                  onClick={() => printElement('challan-view', `Challan_${viewingChallan.id}_${viewingChallan.customerName.replace(/[^a-z0-9]/gi, '_')}`)}
+                  className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600"
+                >
+                  <Printer size={14} className="md:w-4 md:h-4" />
+                  <span>Print</span>
+                </button>
+                <button
+                  onClick={handleChallanPdf}
+                  disabled={exporting}
+                  className="flex items-center gap-1 md:gap-2 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 md:px-4 md:py-2 rounded text-[10px] md:text-sm font-bold shadow-lg transition-colors border border-slate-600 disabled:opacity-50"
+                >
+                  {exporting ? <Loader2 size={14} className="md:w-4 md:h-4 animate-spin" /> : <Download size={14} className="md:w-4 md:h-4" />}
+                  <span>PDF</span>
+                </button>
+                <button
+                  onClick={() => setViewingChallan(null)}
+                  className="bg-slate-700 hover:bg-red-600 p-1.5 md:p-2 rounded-full transition-colors ml-1"
+                >
+                  <X size={18} className="md:w-5 md:h-5" />
+                </button>
+              </div>
+            </div>
+            <div ref={modalContainerRef} className="flex-1 overflow-auto p-4 md:p-8 flex justify-center bg-slate-500/10 relative">
+              <div
+                className="print-container origin-top shadow-xl transition-transform duration-200 ease-out bg-white"
+                style={{ transform: `scale(${scale})`, marginBottom: `${Math.max(0, scale * 300)}px` }}
+              >
+                <DeliveryChallanTemplate
+                  id="challan-view"
+                  billNo={viewingChallan.id}
+                  billNoLabel="Challan No."
+                  date={viewingChallan.date}
+                  customerName={viewingChallan.customerName}
+                  customerCity={viewingChallan.customerCity}
+                  customerGstin={viewingChallan.customerGstin}
+                  placeOfSupply={viewingChallan.placeOfSupply}
+                  items={viewingChallan.items}
+                  settings={settings}
+                  referenceNote={[
+                    `Against Order No. ${viewingChallan.orderId}`,
+                    viewingChallan.vehicleNo && `Vehicle No. ${viewingChallan.vehicleNo}`,
+                    viewingChallan.note
+                  ].filter(Boolean).join(' — ')}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
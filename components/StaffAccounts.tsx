@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { UserPlus, Trash2, Loader2 } from 'lucide-react';
+import { StaffMember, UserRole } from '../types';
+import { ROLE_LABELS } from '../utils/permissions';
+
+interface StaffAccountsProps {
+  staff: StaffMember[];
+  currentUserId: string;
+  onAdd: (member: { name: string; email: string; password: string; role: UserRole }) => Promise<void>;
+  onChangeRole: (member: StaffMember, role: UserRole) => Promise<void>;
+  onRemove: (member: StaffMember) => Promise<void>;
+}
+
+const ROLE_HELP: Record<UserRole, string> = {
+  owner: 'Everything, including settings, bank details, numbering and staff',
+  manager: 'Everything except settings and staff',
+  clerk: 'Create bills and view bill history'
+};
+
+export const StaffAccounts: React.FC<StaffAccountsProps> = ({ staff, currentUserId, onAdd, onChangeRole, onRemove }) => {
+  const [form, setForm] = useState({ name: '', email: '', password: '', role: 'clerk' as UserRole });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.password.length < 6) {
+      alert("The password must be at least 6 characters.");
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await onAdd({ ...form, name: form.name.trim(), email: form.email.trim() });
+      setForm({ name: '', email: '', password: '', role: 'clerk' });
+    } catch (e) {
+      // onAdd will have alerted
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    if (!window.confirm(`Remove ${member.name || member.email}? They will no longer be able to open the app.`)) return;
+    await onRemove(member);
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-4">
+      <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 bg-white">
+        {staff.map(member => (
+          <div key={member.id} className="flex items-center gap-3 p-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-slate-800 truncate">
+                {member.name || member.email}
+                {member.id === currentUserId && <span className="text-xs text-slate-400"> (you)</span>}
+              </div>
+              <div className="text-xs text-slate-400 truncate">{member.email}</div>
+            </div>
+            <select
+              value={member.role}
+              onChange={e => onChangeRole(member, e.target.value as UserRole)}
+              disabled={member.id === currentUserId}
+              className="p-1.5 border border-slate-300 rounded text-xs bg-white disabled:bg-slate-100"
+              title={ROLE_HELP[member.role]}
+            >
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <button
+              onClick={() => handleRemove(member)}
+              disabled={member.id === currentUserId}
+              className="text-slate-300 hover:text-red-500 p-1 transition-colors disabled:invisible"
+              title="Remove access"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          value={form.name}
+          onChange={e => setForm({ ...form, name: e.target.value })}
+          placeholder="Name"
+          className="p-2 border border-slate-300 rounded"
+          required
+        />
+        <input
+          type="email"
+          value={form.email}
+          onChange={e => setForm({ ...form, email: e.target.value })}
+          placeholder="Login email"
+          className="p-2 border border-slate-300 rounded"
+          required
+        />
+        <input
+          type="password"
+          value={form.password}
+          onChange={e => setForm({ ...form, password: e.target.value })}
+          placeholder="Password (min 6 characters)"
+          className="p-2 border border-slate-300 rounded"
+          autoComplete="new-password"
+          required
+        />
+        <select
+          value={form.role}
+          onChange={e => setForm({ ...form, role: e.target.value as UserRole })}
+          className="p-2 border border-slate-300 rounded bg-white"
+        >
+          {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <p className="text-xs text-slate-500 md:col-span-2">{ROLE_LABELS[form.role]}: {ROLE_HELP[form.role]}.</p>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="md:col-span-2 flex items-center justify-center gap-2 bg-slate-800 text-white py-2 rounded hover:bg-slate-700 transition-colors font-bold text-sm disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          Add Staff Login
+        </button>
+      </form>
+    </div>
+  );
+};
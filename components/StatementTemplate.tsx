@@ -0,0 +1,126 @@
+import React from 'react';
+import { BusinessSettings, Customer } from '../types';
+import { BusinessHeader } from './BusinessHeader';
+import { CustomerLedger, formatBalance } from '../utils/ledger';
+import { hexToRgba } from '../utils/theme';
+
+interface StatementTemplateProps {
+  id: string; // The HTML ID for printing context
+  customer: Customer;
+  ledger: CustomerLedger;
+  periodLabel: string;
+  settings: BusinessSettings;
+}
+
+export const StatementTemplate: React.FC<StatementTemplateProps> = ({
+  id,
+  customer,
+  ledger,
+  periodLabel,
+  settings
+}) => {
+  const themeColor = settings.themeColor || '#dc2626';
+  const borderColor = themeColor;
+  const lightBg = hexToRgba(themeColor, 0.05);
+  const lightBorder = hexToRgba(themeColor, 0.3);
+
+  return (
+    <div id={id} className="bg-white w-[210mm] min-h-[297mm] print:min-h-0 print:h-auto mx-auto relative font-serif-custom flex flex-col" style={{ color: themeColor }}>
+      <div className="p-4 flex-1 flex flex-col">
+        <div className="border-2 flex-1 flex flex-col" style={{ borderColor: borderColor }}>
+          <BusinessHeader settings={settings} />
+
+          <div className="border-b-2 py-1 text-center text-xl font-bold tracking-[0.3em]" style={{ borderColor: borderColor, backgroundColor: lightBg }}>
+            STATEMENT OF ACCOUNT
+          </div>
+
+          <div className="flex border-b-2" style={{ borderColor: borderColor }}>
+            <div className="flex-1 p-2 border-r" style={{ borderColor: borderColor }}>
+              <span className="font-bold mr-2">M/s.</span>
+              <span className="text-xl font-medium text-slate-900">{customer.name}</span>
+              <div className="text-sm text-slate-700 pl-9">
+                {customer.city}{customer.phone ? ` · ${customer.phone}` : ''}
+              </div>
+            </div>
+            <div className="w-1/3 p-2 flex flex-col justify-center text-right">
+              <span className="font-bold text-sm">Period</span>
+              <span className="text-lg font-medium text-slate-900">{periodLabel}</span>
+            </div>
+          </div>
+
+          {/* Table Header */}
+          <div className="flex border-b-2 text-sm" style={{ borderColor: borderColor, backgroundColor: lightBg }}>
+            <div className="w-24 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Date</div>
+            <div className="flex-1 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Particulars</div>
+            <div className="w-24 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Debit</div>
+            <div className="w-24 p-1 text-center font-bold border-r" style={{ borderColor: borderColor }}>Credit</div>
+            <div className="w-28 p-1 text-center font-bold">Balance</div>
+          </div>
+
+          {/* Table Body */}
+          <div className="flex-1 flex flex-col text-sm text-slate-900">
+            <div className="flex border-b font-bold" style={{ borderColor: lightBorder }}>
+              <div className="w-24 p-1 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="flex-1 p-1 pl-3 border-r" style={{ borderColor: borderColor }}>Opening Balance</div>
+              <div className="w-24 p-1 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="w-24 p-1 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="w-28 p-1 text-right pr-2">{formatBalance(ledger.openingBalance)}</div>
+            </div>
+
+            {ledger.entries.map((entry, index) => (
+              <div key={`${entry.type}-${entry.reference}-${index}`} className="flex border-b" style={{ borderColor: lightBorder }}>
+                <div className="w-24 p-1 text-center border-r" style={{ borderColor: borderColor }}>{entry.date}</div>
+                <div className="flex-1 p-1 pl-3 border-r" style={{ borderColor: borderColor }}>
+                  {entry.description}
+                  {entry.type === 'payment' && entry.reference !== '-' && <span className="text-xs text-slate-500"> · Ref {entry.reference}</span>}
+                </div>
+                <div className="w-24 p-1 text-right pr-2 border-r" style={{ borderColor: borderColor }}>{entry.debit ? entry.debit.toLocaleString('en-IN') : ''}</div>
+                <div className="w-24 p-1 text-right pr-2 border-r" style={{ borderColor: borderColor }}>{entry.credit ? entry.credit.toLocaleString('en-IN') : ''}</div>
+                <div className="w-28 p-1 text-right pr-2">{formatBalance(entry.balance)}</div>
+              </div>
+            ))}
+
+            <div className="flex-1 flex">
+              <div className="w-24 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="flex-1 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="w-24 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="w-24 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="w-28"></div>
+            </div>
+
+            <div className="flex border-t-2 font-bold" style={{ borderColor: borderColor }}>
+              <div className="w-24 p-1 border-r" style={{ borderColor: borderColor }}></div>
+              <div className="flex-1 p-1 pr-4 text-right border-r" style={{ borderColor: borderColor }}>Total</div>
+              <div className="w-24 p-1 text-right pr-2 border-r" style={{ borderColor: borderColor }}>{ledger.totalDebit.toLocaleString('en-IN')}</div>
+              <div className="w-24 p-1 text-right pr-2 border-r" style={{ borderColor: borderColor }}>{ledger.totalCredit.toLocaleString('en-IN')}</div>
+              <div className="w-28 p-1"></div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-between items-end p-3 pt-6 border-t-2" style={{ borderColor: borderColor }}>
+            <div className="w-1/2">
+              <span className="font-bold text-sm block mb-1">Closing Balance:</span>
+              <span className="text-2xl font-bold text-slate-900">{formatBalance(ledger.closingBalance)}</span>
+              <p className="text-xs italic text-slate-500 mt-2">Please report any discrepancy within 7 days of receipt of this statement.</p>
+            </div>
+            <div className="text-center w-1/3">
+              <p className="font-bold mb-1 text-sm">For, {settings.signatureName || settings.name}</p>
+              {settings.signatureUrl && (
+                <div className="flex justify-center my-2">
+                  <img
+                    src={settings.signatureUrl}
+                    alt="Signature"
+                    className="max-h-12 object-contain"
+                  />
+                </div>
+              )}
+              <div className="border-t w-full mb-1" style={{ borderColor: lightBorder }}></div>
+              <span className="text-xs">Authorised Signatory</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Truck, PlusCircle, Save, X, Edit, Trash } from 'lucide-react';
+import { Supplier, Purchase } from '../types';
+import { stateCodeFromGstin, getStateName, roundMoney } from '../utils/gst';
+import { INDIAN_STATES } from '../constants';
+
+interface SuppliersProps {
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  onSaveSupplier: (supplier: Omit<Supplier, 'id'>, id?: string) => Promise<void>;
+  onDeleteSupplier: (supplier: Supplier) => Promise<void>;
+}
+
+const EMPTY_FORM = { name: '', city: '', phone: '', gstin: '', stateCode: '', address: '' };
+
+export const Suppliers: React.FC<SuppliersProps> = ({
+  suppliers,
+  purchases,
+  onSaveSupplier,
+  onDeleteSupplier
+}) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const formRef = useRef<HTMLDivElement>(null);
+
+  // What we still owe each supplier across their bills
+  const payables = useMemo(() => {
+    const totals: Record<string, number> = {};
+    purchases.forEach(p => {
+      totals[p.supplierId] = roundMoney((totals[p.supplierId] || 0) + p.total - (p.paidAmount || 0));
+    });
+    return totals;
+  }, [purchases]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    try {
+      await onSaveSupplier({
+        name: form.name.trim(),
+        city: form.city.trim(),
+        phone: form.phone.trim(),
+        gstin: form.gstin.trim().toUpperCase(),
+        stateCode: form.stateCode,
+        address: form.address.trim()
+      }, editingId || undefined);
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (e) {
+      // onSaveSupplier will have alerted; keep the form filled in
+    }
+  };
+
+  const startEdit = (supplier: Supplier) => {
+    setForm({
+      name: supplier.name,
+      city: supplier.city,
+      phone: supplier.phone || '',
+      gstin: supplier.gstin || '',
+      stateCode: supplier.stateCode || '',
+      address: supplier.address || ''
+    });
+    setEditingId(supplier.id);
+    setTimeout(() => {
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  };
+
+  const cancelEdit = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Are you sure you want to delete ${supplier.name}?`)) return;
+    await onDeleteSupplier(supplier);
+    if (editingId === supplier.id) cancelEdit();
+  };
+
+  const inputClass = "w-full p-3 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none";
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="max-w-6xl mx-auto w-full bg-white md:rounded-lg shadow-sm border-0 md:border border-slate-200 flex flex-col h-full overflow-hidden">
+        {/* Header */}
+        <div className="p-4 md:p-5 border-b border-slate-200 bg-gradient-to-r from-amber-50 to-yellow-50 flex justify-between items-center shrink-0">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-slate-800 flex items-center gap-2">
+              <Truck className="w-6 h-6 text-amber-600" />
+              Suppliers
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">The parties you buy raw material and goods from</p>
+          </div>
+          <div className="bg-white px-3 py-2 rounded-lg shadow-sm border border-slate-200">
+            <div className="text-2xl font-bold text-amber-600">{suppliers.length}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Suppliers</div>
+          </div>
+        </div>
+
+        <div ref={formRef} className="p-4 md:p-5 border-b border-slate-200 bg-slate-50 shrink-0">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                required
+                placeholder="Supplier Name *"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                required
+                placeholder="City *"
+                value={form.city}
+                onChange={e => setForm({ ...form, city: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                placeholder="GSTIN (needed to claim input tax)"
+                maxLength={15}
+                value={form.gstin}
+                onChange={e => {
+                  const gstin = e.target.value.toUpperCase();
+                  setForm({ ...form, gstin, stateCode: stateCodeFromGstin(gstin) || form.stateCode });
+                }}
+                className={`${inputClass} uppercase`}
+              />
+              <select
+                value={form.stateCode}
+                onChange={e => setForm({ ...form, stateCode: e.target.value })}
+                className={`${inputClass} bg-white`}
+              >
+                <option value="">State (same as business)</option>
+                {INDIAN_STATES.map(st => (
+                  <option key={st.code} value={st.code}>{st.code} - {st.name}</option>
+                ))}
+              </select>
+              <input
+                placeholder="Address"
+                value={form.address}
+                onChange={e => setForm({ ...form, address: e.target.value })}
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <input
+                  placeholder="Phone Number"
+                  value={form.phone}
+                  onChange={e => setForm({ ...form, phone: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+                {editingId ? (
+                  <>
+                    <button type="submit" className="bg-amber-600 text-white px-4 py-3 rounded-lg hover:bg-amber-700 flex items-center justify-center gap-2 font-medium text-sm transition-colors shadow-sm" title="Update Supplier">
+                      <Save size={18} /> <span className="hidden sm:inline">Update</span>
+                    </button>
+                    <button type="button" onClick={cancelEdit} className="bg-slate-400 text-white px-4 py-3 rounded-lg hover:bg-slate-500 flex items-center justify-center transition-colors" title="Cancel Edit">
+                      <X size={18} />
+                    </button>
+                  </>
+                ) : (
+                  <button type="submit" className="bg-amber-600 text-white px-4 py-3 rounded-lg hover:bg-amber-700 flex items-center justify-center gap-2 font-medium text-sm transition-colors shadow-sm" title="Add Supplier">
+                    <PlusCircle size={18} /> <span className="hidden sm:inline">Add</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          </form>
+        </div>
+
+        {/* Suppliers List */}
+        <div className="flex-1 overflow-y-auto overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-100 text-slate-600 text-xs uppercase font-bold sticky top-0">
+              <tr>
+                <th className="p-4 whitespace-nowrap">Supplier</th>
+                <th className="p-4 whitespace-nowrap">City</th>
+                <th className="p-4 whitespace-nowrap hidden md:table-cell">Phone</th>
+                <th className="p-4 whitespace-nowrap text-right">Payable</th>
+                <th className="p-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {suppliers.map(s => (
+                <tr key={s.id} className={`hover:bg-slate-50 transition-colors ${editingId === s.id ? 'bg-amber-50' : ''}`}>
+                  <td className="p-4 font-semibold text-slate-900">
+                    {s.name}
+                    {s.gstin && <div className="text-xs font-normal text-slate-400">GSTIN {s.gstin}</div>}
+                    {!s.gstin && s.stateCode && <div className="text-xs font-normal text-slate-400">{getStateName(s.stateCode)}</div>}
+                  </td>
+                  <td className="p-4 text-slate-600">{s.city}</td>
+                  <td className="p-4 text-slate-500 hidden md:table-cell">{s.phone || '-'}</td>
+                  <td className={`p-4 text-right font-bold ${(payables[s.id] || 0) > 0 ? 'text-red-600' : 'text-green-600'}`}>₹{payables[s.id] || 0}</td>
+                  <td className="p-4 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => startEdit(s)} className="text-blue-500 hover:text-blue-700 hover:bg-blue-50 p-2 rounded transition-colors" title="Edit">
+                        <Edit size={18} />
+                      </button>
+                      <button onClick={() => handleDelete(s)} className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 rounded transition-colors" title="Delete">
+                        <Trash size={18} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {suppliers.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-12 text-center">
+                    <Truck className="w-16 h-16 mx-auto text-slate-300 mb-3" />
+                    <p className="text-slate-400 font-medium">No suppliers yet</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
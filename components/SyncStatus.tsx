@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { PendingInvoice, SyncConflict } from '../utils/offlineQueue';
+
+interface SyncStatusProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingInvoices: PendingInvoice[];
+  conflicts: SyncConflict[];
+  onSyncNow: () => void;
+  onDismissConflicts: () => void;
+  compact?: boolean; // Icon-only badge for the mobile header
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  isOnline,
+  isSyncing,
+  pendingInvoices,
+  conflicts,
+  onSyncNow,
+  onDismissConflicts,
+  compact = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const pendingCount = pendingInvoices.length;
+
+  let label = 'Online · All synced';
+  let tone = 'text-green-400';
+  let Icon = Cloud;
+  if (isSyncing) {
+    label = `Syncing ${pendingCount} bill(s)…`;
+    tone = 'text-blue-400';
+    Icon = RefreshCw;
+  } else if (!isOnline) {
+    label = pendingCount > 0 ? `Offline · ${pendingCount} waiting` : 'Offline';
+    tone = 'text-amber-400';
+    Icon = CloudOff;
+  } else if (pendingCount > 0) {
+    label = `${pendingCount} bill(s) not synced`;
+    tone = 'text-amber-400';
+    Icon = CloudOff;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-2 rounded transition-colors hover:bg-slate-800 ${compact ? 'p-2' : 'w-full px-2 py-1.5 text-xs font-medium'} ${tone}`}
+        title={label}
+      >
+        <Icon className={`w-4 h-4 shrink-0 ${isSyncing ? 'animate-spin' : ''}`} />
+        {!compact && <span className="truncate">{label}</span>}
+        {conflicts.length > 0 && <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute z-[80] mt-2 w-72 bg-white text-slate-800 rounded-lg shadow-2xl border border-slate-200 text-sm ${compact ? 'right-0' : 'left-0'}`}>
+          <div className="p-3 border-b border-slate-100 flex justify-between items-center">
+            <span className="font-bold">{isOnline ? 'Connected' : 'Working offline'}</span>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-700">
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="p-3 space-y-2 max-h-72 overflow-y-auto">
+            {conflicts.length > 0 && (
+              <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-800 space-y-1">
+                <div className="font-bold">Bill numbers changed during sync</div>
+                {conflicts.map(c => (
+                  <div key={`${c.provisionalId}-${c.syncedAt}`}>
+                    #{c.provisionalId} ({c.customerName}) was saved as <span className="font-bold">#{c.finalId}</span>. Reprint it from Invoice History.
+                  </div>
+                ))}
+                <button onClick={onDismissConflicts} className="text-red-700 font-bold underline">Dismiss</button>
+              </div>
+            )}
+
+            {pendingCount === 0 ? (
+              <p className="text-xs text-slate-500">No bills waiting to upload.</p>
+            ) : (
+              <>
+                <p className="text-xs text-slate-500">Saved on this device, waiting to upload:</p>
+                {pendingInvoices.map(p => (
+                  <div key={p.invoice.id} className="flex justify-between items-start text-xs border-b border-slate-100 pb-1">
+                    <div>
+                      <div className="font-bold">#{p.invoice.id} · {p.invoice.customerName}</div>
+                      <div className="text-slate-400">{p.invoice.date}</div>
+                      {p.lastError && <div className="text-red-500">{p.lastError}</div>}
+                    </div>
+                    <div className="font-bold">₹{p.invoice.total}</div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          {pendingCount > 0 && (
+            <div className="p-3 border-t border-slate-100">
+              <button
+                onClick={onSyncNow}
+                disabled={!isOnline || isSyncing}
+                className="w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white py-2 rounded text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} /> Sync Now
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
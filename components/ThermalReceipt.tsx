@@ -0,0 +1,139 @@
+import React from 'react';
+import { InvoiceTemplateProps } from './InvoiceTemplate';
+import { QrCode } from './QrCode';
+import { applySavedTotals, calculateInvoiceTotals, formatDiscount, getGstTreatment, getUniformGstRate, splitCharges } from '../utils/gst';
+import { buildUpiUri } from '../utils/upi';
+
+interface ThermalReceiptProps extends InvoiceTemplateProps {
+  paperWidthMm: number; // 80 or 58
+}
+
+const Divider = () => <div className="border-t border-dashed border-black my-1" />;
+
+const Row: React.FC<{ label: React.ReactNode; value: React.ReactNode; bold?: boolean }> = ({ label, value, bold }) => (
+  <div className={`flex justify-between gap-2 ${bold ? 'font-bold' : ''}`}>
+    <span>{label}</span>
+    <span className="text-right whitespace-nowrap">{value}</span>
+  </div>
+);
+
+// Black-and-white receipt for roll printers carried by the delivery staff.
+// Each item takes two lines (name, then qty x rate = amount) to fit the narrow paper.
+export const ThermalReceipt: React.FC<ThermalReceiptProps> = ({
+  id,
+  billNo,
+  date,
+  customerName,
+  customerCity,
+  customerGstin,
+  placeOfSupply,
+  items,
+  settings,
+  gstRate: propGstRate,
+  documentTitle,
+  billNoLabel = 'Bill No.',
+  referenceNote,
+  watermark,
+  amountPaid = 0,
+  amountCredited = 0,
+  eInvoice,
+  discount,
+  charges = [],
+  tcsRate,
+  roundOff,
+  savedTotals,
+  paperWidthMm
+}) => {
+  const { enableGst: isGstEnabled, isInterState } = getGstTreatment(settings, placeOfSupply, savedTotals);
+  const rate = propGstRate !== undefined ? propGstRate : (settings.defaultGstRate || 0);
+  const totals = applySavedTotals(calculateInvoiceTotals(items, {
+    enableGst: isGstEnabled,
+    defaultGstRate: rate,
+    isInterState,
+    billDiscount: discount,
+    charges,
+    tcsRate,
+    roundOff
+  }), savedTotals);
+  const { beforeTax: chargesBeforeTax, afterTax: chargesAfterTax } = splitCharges(charges, isGstEnabled);
+  const uniformRate = getUniformGstRate(totals.hsnSummary);
+  const showBalance = amountPaid > 0 || amountCredited > 0;
+  const balanceDue = Math.max(0, Math.round((totals.total - amountCredited - amountPaid) * 100) / 100);
+  const upiUri = settings.showUpiQr ? buildUpiUri(settings, totals.total, billNo) : null;
+  const totalQty = items.reduce((sum, item) => sum + item.quantity, 0);
+  const isNarrow = paperWidthMm < 70;
+
+  return (
+    <div
+      id={id}
+      className={`bg-white mx-auto text-black font-mono leading-snug ${isNarrow ? 'text-[9px] p-1' : 'text-[11px] p-2'}`}
+      style={{ width: `${paperWidthMm}mm` }}
+    >
+      <div className="text-center">
+        <div className={`font-bold ${isNarrow ? 'text-xs' : 'text-sm'}`}>{settings.name}</div>
+        {settings.subName && <div>{settings.subName}</div>}
+        <div>{settings.address}</div>
+        <div>Mob: {settings.mobile}</div>
+        {isGstEnabled && settings.gstin && <div>GSTIN: {settings.gstin}</div>}
+        <div className="font-bold mt-1">{documentTitle || (isGstEnabled ? 'TAX INVOICE' : 'CASH MEMO')}</div>
+        {watermark && <div className="font-bold">*** {watermark} ***</div>}
+      </div>
+      <Divider />
+
+      <Row label={`${billNoLabel} ${billNo}`} value={date} />
+      <div>To: {customerName}{customerCity ? `, ${customerCity}` : ''}</div>
+      {isGstEnabled && customerGstin && <div>GSTIN: {customerGstin}</div>}
+      {referenceNote && <div>{referenceNote}</div>}
+      {eInvoice && <div className="break-all">IRN: {eInvoice.irn}</div>}
+      <Divider />
+
+      {items.map((item, index) => (
+        <div key={item.id} className="mb-1">
+          <div>{index + 1}. {item.name}{item.packing ? ` ${item.packing}` : ''}</div>
+          <Row label={`  ${item.quantity} ${item.unit} x ${item.rate}`} value={item.amount} />
+          {item.rateNote && <div>  ({item.rateNote})</div>}
+          {item.discount && item.discountAmount ? <div>  Less {formatDiscount(item.discount)}: -{item.discountAmount}</div> : null}
+        </div>
+      ))}
+      <Divider />
+
+      <Row label={`Items ${items.length} / Qty ${Number(totalQty.toFixed(2))}`} value={totals.itemsTotal} />
+      {totals.billDiscountAmount > 0 && discount && (
+        <Row label={`Discount${discount.type === 'percent' ? ` ${discount.value}%` : ''}`} value={`-${totals.billDiscountAmount}`} />
+      )}
+      {chargesBeforeTax.map((charge, i) => <Row key={`charge-${i}`} label={charge.label} value={charge.amount} />)}
+      {isGstEnabled && totals.isInterState && (
+        <Row label={`IGST${uniformRate !== null ? ` ${uniformRate}%` : ''}`} value={totals.igstAmount} />
+      )}
+      {isGstEnabled && !totals.isInterState && (
+        <>
+          <Row label={`CGST${uniformRate !== null ? ` ${uniformRate / 2}%` : ''}`} value={totals.cgstAmount} />
+          <Row label={`SGST${uniformRate !== null ? ` ${uniformRate / 2}%` : ''}`} value={totals.sgstAmount} />
+        </>
+      )}
+      {chargesAfterTax.map((charge, i) => <Row key={`other-${i}`} label={charge.label} value={charge.amount} />)}
+      {totals.tcsAmount > 0 && <Row label={`TCS ${tcsRate}%`} value={totals.tcsAmount} />}
+      {totals.roundOff !== 0 && <Row label="Round Off" value={`${totals.roundOff > 0 ? '+' : '-'}${Math.abs(totals.roundOff).toFixed(2)}`} />}
+      <Divider />
+      <div className={isNarrow ? 'text-xs' : 'text-sm'}>
+        <Row label="TOTAL" value={`₹${totals.total}`} bold />
+      </div>
+      {showBalance && (
+        <>
+          {amountCredited > 0 && <Row label="Less: Credit" value={amountCredited} />}
+          {amountPaid > 0 && <Row label="Less: Received" value={amountPaid} />}
+          <Row label="Balance Due" value={`₹${balanceDue}`} bold />
+        </>
+      )}
+
+      {upiUri && (
+        <div className="flex flex-col items-center mt-2">
+          <QrCode value={upiUri} title="UPI QR Code" className={isNarrow ? 'w-20 h-20' : 'w-28 h-28'} />
+          <div>UPI: {settings.upiId}</div>
+        </div>
+      )}
+      <Divider />
+      <div className="text-center">Thank you! Visit again.</div>
+    </div>
+  );
+};
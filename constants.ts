@@ -1,4 +1,4 @@
-import { BusinessSettings } from "./types";
+import { BusinessSettings, InvoiceLayout, PriceList, RecurringFrequency } from "./types";
 
 export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
   name: "My Business",
@@ -16,9 +16,79 @@ export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
   bankIfsc: "",
   bankBranch: "",
   nextInvoiceNumber: 1,
+  nextCreditNoteNumber: 1,
+  invoiceNumberFormat: "{SEQ}",
+  invoiceNumberPadding: 1,
+  resetNumberingEachYear: false,
   enableGst: false,
   gstin: "",
   defaultGstRate: 12,
+  stateCode: "",
   upiId: "",
-  showUpiQr: false
-};
\ No newline at end of file
+  showUpiQr: false,
+  invoiceLayout: "classic"
+};
+
+// paperWidthMm is set for roll printers, whose page is as long as the receipt
+export const INVOICE_LAYOUTS: { value: InvoiceLayout; label: string; description: string; paperWidthMm?: number }[] = [
+  { value: 'classic', label: 'Classic', description: 'Bordered A4 bill in the theme colour' },
+  { value: 'modern', label: 'Modern', description: 'Plain A4 layout with a clean table' },
+  { value: 'thermal80', label: 'Thermal 80mm', description: 'Compact receipt for 80mm roll printers', paperWidthMm: 80 },
+  { value: 'thermal58', label: 'Thermal 58mm', description: 'Compact receipt for 58mm roll printers', paperWidthMm: 58 },
+  { value: 'challan', label: 'Delivery Challan', description: 'A4 delivery note with quantities but no prices' }
+];
+
+export const PRICE_LISTS: { value: PriceList; label: string }[] = [
+  { value: 'retail', label: 'Retail' },
+  { value: 'wholesale', label: 'Wholesale' },
+  { value: 'distributor', label: 'Distributor' }
+];
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' }
+];
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+// GST state codes as used in GSTINs and the place-of-supply field
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" }
+];
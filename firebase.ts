@@ -1,6 +1,6 @@
-import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { initializeApp, getApps } from "firebase/app";
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from "firebase/firestore";
+import { getAuth, createUserWithEmailAndPassword, signOut } from "firebase/auth";
 
 // TODO: Replace the following with your app's Firebase project configuration
 // You can obtain this from the Firebase Console > Project Settings > General > Your Apps
@@ -16,5 +16,19 @@ const firebaseConfig = {
 
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
-export const db = getFirestore(app);
-export const auth = getAuth(app);
\ No newline at end of file
+// Optional fields (HSN code, GSTIN, packing...) are often left unset; drop them instead of failing the write.
+// The persistent cache keeps products, customers and settings available when the shop loses its connection.
+export const db = initializeFirestore(app, {
+  ignoreUndefinedProperties: true,
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+});
+export const auth = getAuth(app);
+// Staff logins are created from the owner's session. Doing that on the main auth would sign
+// the owner out and into the new account, so it goes through a second app instance instead.
+export const createStaffLogin = async (email: string, password: string): Promise<string> => {
+  const staffApp = getApps().find(a => a.name === 'staff-admin') || initializeApp(firebaseConfig, 'staff-admin');
+  const staffAuth = getAuth(staffApp);
+  const { user } = await createUserWithEmailAndPassword(staffAuth, email, password);
+  await signOut(staffAuth);
+  return user.uid;
+};
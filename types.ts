@@ -1,9 +1,25 @@
+// Rate card a customer buys on; retail is the product's own rate
+export type PriceList = 'retail' | 'wholesale' | 'distributor';
+
+// Rate that applies from `minQty` units upwards on one bill line
+export interface QuantitySlab {
+  minQty: number;
+  rate: number;
+}
+
 export interface Product {
   id: string;
   name: string;
   rate: number;
   unit: string; // e.g., kg, gm, pcs
   packing?: string; // e.g. 1 kg, 250 gm
+  hsnCode?: string; // HSN (goods) or SAC (services) code
+  barcode?: string; // Barcode or SKU on the pack; scanning it adds the product to a bill
+  gstRate?: number; // Falls back to settings.defaultGstRate when missing
+  stock?: number; // Quantity on hand in `unit`; missing until stock tracking starts for the product
+  reorderLevel?: number; // Listed as low stock at or below this quantity
+  priceListRates?: Partial<Record<PriceList, number>>; // Lists without a rate here use `rate`
+  quantitySlabs?: QuantitySlab[]; // Sorted by minQty
 }
 
 export interface Customer {
@@ -11,6 +27,38 @@ export interface Customer {
   name: string;
   city: string;
   phone?: string;
+  openingBalance?: number; // Amount owed before the first bill in this system (udhaar carried over)
+  stateCode?: string; // GST state code, e.g. "24" for Gujarat
+  gstin?: string;
+  address?: string;
+  pincode?: string;
+  priceList?: PriceList; // Missing means retail
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  city: string;
+  phone?: string;
+  gstin?: string;
+  stateCode?: string; // Decides CGST+SGST or IGST on their bills
+  address?: string;
+}
+
+export type DiscountType = 'percent' | 'flat';
+
+// Discount taken off before GST is worked out
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percentage, or rupees for 'flat'
+}
+
+// Freight, packing and the like. Taxable charges follow the GST rate of the main goods
+// on the bill; the rest are added after tax.
+export interface ExtraCharge {
+  label: string;
+  amount: number;
+  taxable: boolean;
 }
 
 export interface InvoiceItem {
@@ -22,12 +70,22 @@ export interface InvoiceItem {
   rate: number;
   amount: number;
   packing?: string;
+  hsnCode?: string;
+  gstRate?: number; // Missing on older bills, which used the bill-level gstRate
+  rateNote?: string; // Why the rate differs from the product's rate, e.g. "Wholesale rate"; printed on the bill
+  discount?: Discount;
+  discountAmount?: number; // Rupees taken off quantity x rate; `amount` is net of it
 }
 
+// Print layouts for a bill; all render the same Invoice and BusinessSettings data
+export type InvoiceLayout = 'classic' | 'modern' | 'thermal80' | 'thermal58' | 'challan';
+
 export interface BusinessSettings {
   name: string;
   subName: string;
   address: string;
+  city?: string; // Location and PIN are required for e-invoicing
+  pincode?: string;
   mobile: string;
   logoInitial: string;
   themeColor: string;
@@ -42,28 +100,328 @@ export interface BusinessSettings {
   bankBranch?: string;
   // Auto Increment
   nextInvoiceNumber: number;
+  nextCreditNoteNumber?: number;
+  nextQuotationNumber?: number;
+  nextSalesOrderNumber?: number;
+  nextChallanNumber?: number;
+  // Bill number format, e.g. "INV/{FY}/{SEQ}" (see utils/numbering.ts for tokens)
+  invoiceNumberFormat?: string;
+  invoiceNumberPadding?: number; // Minimum digits for {SEQ}, e.g. 4 -> 0001
+  resetNumberingEachYear?: boolean; // Restart {SEQ} at 1 every 1 April
+  numberingCounters?: Record<string, number>; // Next {SEQ} per financial year when restarting yearly, e.g. { "2026-27": 12 }
+  numberingFinancialYear?: string; // Older installs: financial year nextInvoiceNumber belonged to; read only as a fallback
+
   // GST Settings
   enableGst: boolean;
   gstin?: string;
   defaultGstRate?: number;
+  stateCode?: string; // Business state for place-of-supply checks; derived from GSTIN if empty
+  // Bill totals
+  chargePresets?: Omit<ExtraCharge, 'amount'>[]; // Charges offered when billing, e.g. Freight
+  roundOffTotal?: boolean; // Round bill totals to the nearest rupee with a Round Off line
+  tcsRate?: number; // TCS percentage offered on bills, e.g. 0.1
   // UPI Settings
   upiId?: string;
   showUpiQr?: boolean;
+  invoiceLayout?: InvoiceLayout; // Default print layout for bills; can be switched per print
+  recurringCreatesFinal?: boolean; // Due recurring profiles save bills straight away instead of drafts
 }
 
 export interface Invoice {
   id: string; // Bill No
   date: string;
+  customerId?: string; // Missing on bills saved before customers were linked
   customerName: string;
   customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string; // GST state code of the buyer; differs from ours for IGST bills
   items: InvoiceItem[];
   total: number;
+  sequence?: number; // Numeric part of the bill number, assigned on save
+  financialYear?: string;
   // GST details (optional for backward compatibility)
   subtotal?: number;
   gstAmount?: number;
   gstRate?: number;
   sgstAmount?: number;
   cgstAmount?: number;
+  igstAmount?: number;
+  gstEnabled?: boolean; // GST setting when the bill was saved; reprints follow it, not today's setting
+  isInterState?: boolean; // IGST rather than CGST+SGST, as decided when the bill was saved
+  discount?: Discount; // Bill-level discount, shared over the lines in proportion to their value
+  discountAmount?: number; // Line and bill discounts together; gross sales = subtotal + discountAmount
+  charges?: ExtraCharge[];
+  chargesAmount?: number; // All charges; the taxable ones are also inside subtotal
+  tcsRate?: number;
+  tcsAmount?: number;
+  roundOff?: number; // Set when the total was rounded, even if by ₹0
+  eInvoice?: EInvoiceDetails; // Set once the IRN has been generated on the IRP
+  // Amendment / cancellation tracking
+  status?: InvoiceStatus; // Missing means 'active' (older invoices)
+  version?: number; // Starts at 1, bumped on every amendment
+  amendedAt?: string; // ISO timestamp of last amendment
+  cancelReason?: string;
+  cancelledAt?: string; // ISO timestamp
+  creditedAmount?: number; // Sum of credit notes raised against this bill
+  returnedQuantities?: Record<string, number>; // Quantity credited back per line id, kept by credit notes
+  paidAmount?: number; // Sum of payments recorded against this bill
+  quotationId?: string; // Quotation converted into this bill
+  challanIds?: string[]; // Delivery challans billed by this invoice
+  createdBy?: string; // Email of the staff login that saved the bill
+  businessId?: string; // Not stored; set on bills loaded for the all-businesses analytics
+}
+
+// Registration details returned by the Invoice Registration Portal
+export interface EInvoiceDetails {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedQrCode: string; // Signed JWT to be printed as a QR code
+}
+
+export type InvoiceStatus = 'active' | 'cancelled';
+
+// Outcome of saving a new bill: queued bills carry a provisional number until they sync
+export interface SaveInvoiceResult {
+  invoice: Invoice;
+  queued: boolean;
+}
+
+// Snapshot of an invoice before it was amended (stored under invoices/{id}/versions)
+export interface InvoiceVersion {
+  invoice: Invoice;
+  replacedAt: string; // ISO timestamp
+}
+
+export type PaymentMode = 'cash' | 'upi' | 'cheque' | 'bank';
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  date: string; // DD/MM/YYYY, same as invoices
+  amount: number;
+  mode: PaymentMode;
+  reference?: string; // UPI txn id, cheque no, UTR etc.
+  note?: string;
+  createdAt: string; // ISO timestamp, used for ordering
+}
+
+export interface CreditNote {
+  id: string; // Credit Note No, e.g. CN-1
+  invoiceId: string; // Original Bill No
+  date: string;
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  items: InvoiceItem[]; // Returned quantities
+  reason: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  discount?: Discount; // The original bill's discount; a flat one is shared down to the value returned
+  charges?: ExtraCharge[]; // The original bill's charges, shared by the value returned
+  total: number;
+  subtotal?: number;
+  gstAmount?: number;
+  gstRate?: number;
+  sgstAmount?: number;
+  cgstAmount?: number;
+  igstAmount?: number;
+  businessId?: string; // Not stored; set on notes loaded for the all-businesses analytics
+}
+
+// 'expired' is stored when marked by hand; open quotations past validUntil are also shown as expired
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired';
+
+// Price quotation / estimate sent before the customer confirms; numbered QT-1, QT-2...
+export interface Quotation {
+  id: string;
+  date: string;
+  validUntil: string; // DD/MM/YYYY
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  items: InvoiceItem[];
+  total: number;
+  subtotal?: number;
+  gstAmount?: number;
+  gstRate?: number;
+  sgstAmount?: number;
+  cgstAmount?: number;
+  igstAmount?: number;
+  status: QuotationStatus;
+  note?: string;
+  invoiceId?: string; // Bill raised from this quotation once accepted
+  createdAt: string; // ISO timestamp
+}
+
+// 'closed' is set by hand when the rest of an order will not be dispatched
+export type SalesOrderStatus = 'open' | 'closed';
+
+// Customer order dispatched in lots through delivery challans; numbered SO-1, SO-2...
+export interface SalesOrder {
+  id: string;
+  date: string;
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  items: InvoiceItem[]; // Ordered quantities at the agreed rates
+  total: number;
+  status: SalesOrderStatus;
+  note?: string;
+  createdAt: string; // ISO timestamp
+}
+
+// One dispatch against a sales order; numbered DC-1, DC-2...
+export interface DeliveryChallan {
+  id: string;
+  orderId: string;
+  date: string;
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  items: InvoiceItem[]; // Dispatched quantities; each keeps the id of its order line
+  vehicleNo?: string;
+  note?: string;
+  invoiceId?: string; // Bill raised for this dispatch
+  createdAt: string; // ISO timestamp
+}
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly';
+
+// Standing order billed on a schedule; profiles that have fallen due run when the app opens
+export interface RecurringInvoice {
+  id: string;
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  items: InvoiceItem[];
+  frequency: RecurringFrequency;
+  startDate: string; // DD/MM/YYYY; monthly runs keep its day of the month
+  nextRunDate: string; // DD/MM/YYYY
+  lastRunDate?: string;
+  lastInvoiceId?: string; // Bill raised on the last run, once saved
+  reviewEachRun?: boolean; // Always raise a draft, for bills that need discounts, charges or TCS added
+  paused: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+// Bill prepared by a recurring profile, or from a quotation or challans, checked and saved from
+// Create Bill. Only recurring drafts are stored; the others open straight in the form.
+export interface InvoiceDraft {
+  id: string; // Blank when the draft is not stored
+  profileId?: string; // Recurring profile that raised it
+  quotationId?: string; // Quotation being converted
+  challanIds?: string[]; // Delivery challans being billed
+  date: string; // The date the bill is for
+  customerId?: string;
+  customerName: string;
+  customerCity: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  items: InvoiceItem[];
+  createdAt: string; // ISO timestamp
+}
+
+// A supplier's bill entered against stock and input tax credit
+export interface Purchase {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  supplierGstin?: string;
+  supplierBillNo: string;
+  date: string; // DD/MM/YYYY, date on the supplier's bill
+  items: InvoiceItem[]; // `rate` is the purchase (cost) rate
+  isInterState: boolean;
+  subtotal: number;
+  gstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  total: number;
+  paidAmount: number;
+  note?: string;
+  createdAt: string; // ISO timestamp, used for ordering
+}
+
+export type StockEntryType = 'purchase' | 'sale' | 'return' | 'adjustment';
+
+// One movement of stock, stored in the stockEntries collection
+export interface StockEntry {
+  id: string;
+  productId: string;
+  productName: string;
+  date: string; // DD/MM/YYYY
+  type: StockEntryType;
+  quantity: number; // Positive for stock in, negative for stock out
+  reference?: string; // Bill No, credit note no or supplier bill no
+  note?: string;
+  createdAt: string; // ISO timestamp, used for ordering
+}
+
+export type LedgerEntryType = 'opening' | 'invoice' | 'credit_note' | 'payment';
+
+export interface LedgerEntry {
+  date: string;
+  type: LedgerEntryType;
+  reference: string; // Bill No, Credit Note No or payment reference
+  description: string;
+  debit: number; // Increases what the customer owes
+  credit: number; // Reduces what the customer owes
+  balance: number; // Running balance after this entry
+}
+
+// A firm or branch with its own settings, catalogue, customers and bill numbering (registry under businesses/{id})
+export interface Business {
+  id: string;
+  name: string; // Shown in the switcher; the bill heading comes from the business's own settings
+  createdAt: string; // ISO timestamp
+}
+
+// Staff roles apply to every business under the login.
+// owner: everything; manager: all but settings and staff; clerk: billing and bill history only
+export type UserRole = 'owner' | 'manager' | 'clerk';
+
+// A login allowed into the app, stored under staff/{uid}
+export interface StaffMember {
+  id: string; // Firebase Auth uid
+  email: string;
+  name: string;
+  role: UserRole;
+  createdAt: string; // ISO timestamp
+}
+
+export type AuditEntity = 'product' | 'customer' | 'settings' | 'invoice';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'cancel' | 'payment';
+
+// One changed field; values are stored as display text so old entries read the same after the data moves on
+export interface AuditChange {
+  field: string;
+  before?: string; // Missing when the field was empty
+  after?: string;
+}
+
+// An entry in the append-only change log; the app only ever adds these
+export interface AuditEntry {
+  id: string;
+  entity: AuditEntity;
+  entityId: string;
+  entityLabel: string; // Product/customer name or bill number at the time of the change
+  action: AuditAction;
+  changes: AuditChange[];
+  note?: string; // e.g. the cancellation reason or payment reference
+  user: string; // Email of the login that made the change
+  at: string; // ISO timestamp
 }
 
 export enum AppTab {
@@ -73,5 +431,12 @@ export enum AppTab {
   CUSTOMERS = 'CUSTOMERS',
   SETTINGS = 'SETTINGS',
   INVOICE_HISTORY = 'INVOICE_HISTORY',
-  ANALYTICS = 'ANALYTICS'
+  ANALYTICS = 'ANALYTICS',
+  GST_REPORTS = 'GST_REPORTS',
+  INVENTORY = 'INVENTORY',
+  PURCHASES = 'PURCHASES',
+  SUPPLIERS = 'SUPPLIERS',
+  QUOTATIONS = 'QUOTATIONS',
+  SALES_ORDERS = 'SALES_ORDERS',
+  RECURRING = 'RECURRING'
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { AuditAction, AuditChange, AuditEntity, Invoice, InvoiceItem } from '../types';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  product: 'Product',
+  customer: 'Customer',
+  settings: 'Settings',
+  invoice: 'Bill'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+  cancel: 'Cancelled',
+  payment: 'Payment'
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// JSON with sorted keys, so the same map read back from Firestore in another order compares equal
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Display text for a stored value; logos and signatures are summarised rather than copied into the log
+export const formatAuditValue = (value: unknown): string | undefined => {
+  if (isEmpty(value)) return undefined;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') {
+    return value.startsWith('data:') ? `Image (${Math.round((value.length * 3) / 4 / 1024)} KB)` : value;
+  }
+  if (typeof value === 'number') return String(value);
+  return stableStringify(value);
+};
+
+// "openingBalance" -> "Opening balance"
+export const formatFieldName = (field: string): string => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Fields that differ between two versions of a record. A missing side (create or delete)
+// lists every filled field of the other.
+export const diffFields = (
+  before: object | undefined,
+  after: object | undefined,
+  ignore: string[] = []
+): AuditChange[] => {
+  const b = (before || {}) as Record<string, unknown>;
+  const a = (after || {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(field => !ignore.includes(field));
+  return fields
+    .filter(field => !(isEmpty(b[field]) && isEmpty(a[field])) && stableStringify(b[field]) !== stableStringify(a[field]))
+    .map(field => ({ field, before: formatAuditValue(b[field]), after: formatAuditValue(a[field]) }));
+};
+
+// "Basmati Rice (25 kg): 10 Kg @ ₹42, less ₹20 (Wholesale rate)"
+const describeItem = (item: InvoiceItem): string =>
+  `${item.name}${item.packing ? ` (${item.packing})` : ''}: ${item.quantity} ${item.unit} @ ₹${item.rate}` +
+  (item.discountAmount ? `, less ₹${item.discountAmount}` : '') +
+  (item.rateNote ? ` (${item.rateNote})` : '');
+
+// Bill fields worth recording; the tax breakup follows from these and is left out
+const INVOICE_AUDIT_FIELDS: (keyof Invoice)[] = [
+  'date', 'customerName', 'customerCity', 'customerGstin', 'placeOfSupply', 'discount', 'charges', 'tcsRate', 'total'
+];
+
+// What changed on a bill, with one entry per added, removed or edited line so a
+// disputed rate shows up on its own
+export const diffInvoice = (before: Invoice | undefined, after: Invoice | undefined): AuditChange[] => {
+  const pick = (invoice: Invoice | undefined) =>
+    invoice ? Object.fromEntries(INVOICE_AUDIT_FIELDS.map(field => [field, invoice[field]])) : undefined;
+  const changes = diffFields(pick(before), pick(after));
+
+  const beforeItems = new Map((before?.items || []).map(item => [item.id, item]));
+  const afterItems = new Map((after?.items || []).map(item => [item.id, item]));
+  [...new Set([...beforeItems.keys(), ...afterItems.keys()])].forEach(id => {
+    const was = beforeItems.get(id);
+    const now = afterItems.get(id);
+    const change = { field: 'item', before: was && describeItem(was), after: now && describeItem(now) };
+    if (change.before !== change.after) changes.push(change);
+  });
+  return changes;
+};
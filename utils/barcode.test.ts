@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { encodeCode128, findProductByCode } from './barcode';
+
+const product = (id: string, barcode?: string): Product => ({ id, name: `Item ${id}`, rate: 10, unit: 'pcs', barcode });
+
+describe('findProductByCode', () => {
+  const products = [product('a', '8901234567890'), product('b', 'sku-12'), product('c')];
+
+  it.each([
+    ['8901234567890', 'a'],
+    [' SKU-12 ', 'b'],
+    ['sku-12', 'b'],
+    ['0000', undefined],
+    ['   ', undefined]
+  ])('%j -> %s', (code, expected) => {
+    expect(findProductByCode(products, code)?.id).toBe(expected);
+  });
+});
+
+// Bars and spaces of one symbol, as written in the Code 128 table
+const widths = (pattern: string) => Array.from(pattern).map(Number);
+
+describe('encodeCode128', () => {
+  it('uses set C for an even run of digits', () => {
+    // Start C (105), 12, checksum (105 + 12) % 103 = 14, stop
+    expect(encodeCode128('12')).toEqual([...widths('211232'), ...widths('112232'), ...widths('122231'), ...widths('2331112')]);
+  });
+
+  it('uses set B for text', () => {
+    // Start B (104), "A" (33), checksum (104 + 33) % 103 = 34, stop
+    expect(encodeCode128('A')).toEqual([...widths('211214'), ...widths('111323'), ...widths('131123'), ...widths('2331112')]);
+  });
+
+  it.each([
+    ['8901234567890', 13 + 3],
+    ['890123456789', 6 + 3],
+    ['SKU-12', 6 + 3]
+  ])('%s is %i symbols of 11 modules plus a 13-module stop', (value, symbols) => {
+    const bars = encodeCode128(value) as number[];
+    expect(bars.reduce((sum, w) => sum + w, 0)).toBe((symbols - 1) * 11 + 13);
+  });
+
+  it.each(['', 'café', 'tab\there'])('refuses %j', value => {
+    expect(encodeCode128(value)).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { Product } from '../types';
+
+// Scanned or typed code -> product, matching the barcode/SKU without regard to case or spaces
+export const findProductByCode = (products: Product[], code: string): Product | undefined => {
+  const wanted = code.trim().toUpperCase();
+  if (!wanted) return undefined;
+  return products.find(p => (p.barcode || '').trim().toUpperCase() === wanted);
+};
+
+// Code 128 bar/space widths (in modules) for symbol values 0-106; 103-105 start A/B/C, 106 stops
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+// Module widths of a Code 128 symbol, alternating bar and space and starting with a bar.
+// All-digit codes of even length use set C (two digits a symbol); anything else uses set B,
+// which covers printable ASCII. Returns null for characters a label scanner could not read back.
+export const encodeCode128 = (value: string): number[] | null => {
+  if (!value || !/^[\x20-\x7e]+$/.test(value)) return null;
+
+  const useSetC = /^\d+$/.test(value) && value.length % 2 === 0;
+  const values = useSetC
+    ? [START_C, ...(value.match(/\d{2}/g) as string[]).map(pair => Number(pair))]
+    : [START_B, ...Array.from(value).map(ch => ch.charCodeAt(0) - 32)];
+  const checksum = values.reduce((sum, v, i) => sum + v * Math.max(i, 1), 0) % 103;
+
+  return [...values, checksum, STOP].flatMap(v => Array.from(PATTERNS[v]).map(Number));
+};
@@ -0,0 +1,25 @@
+import { Business } from '../types';
+
+// The business every install starts with. It keeps the original top-level collections
+// (settings, products, invoices...) so existing data needs no migration; businesses added
+// later get the same collections under businesses/{id}/.
+export const DEFAULT_BUSINESS_ID = 'default';
+
+export const businessPath = (businessId: string, collectionName: string): string =>
+  businessId === DEFAULT_BUSINESS_ID ? collectionName : `businesses/${businessId}/${collectionName}`;
+
+// Suffix for per-business local storage keys; the default business keeps the original keys
+export const businessStorageKey = (key: string, businessId: string): string =>
+  businessId === DEFAULT_BUSINESS_ID ? key : `${key}.${businessId}`;
+
+const ACTIVE_BUSINESS_KEY = 'billing.activeBusiness';
+
+// Each device reopens the business it last worked in
+export const loadActiveBusinessId = (): string => localStorage.getItem(ACTIVE_BUSINESS_KEY) || DEFAULT_BUSINESS_ID;
+export const saveActiveBusinessId = (businessId: string) => localStorage.setItem(ACTIVE_BUSINESS_KEY, businessId);
+
+// The registry only lists the default business once a second one is added; until then it is implied
+export const withDefaultBusiness = (businesses: Business[], defaultName: string): Business[] =>
+  businesses.some(b => b.id === DEFAULT_BUSINESS_ID)
+    ? businesses
+    : [{ id: DEFAULT_BUSINESS_ID, name: defaultName, createdAt: '' }, ...businesses];
@@ -0,0 +1,28 @@
+// Bill dates are stored as DD/MM/YYYY strings (en-GB locale)
+export const parseBillDate = (value: string): Date | null => {
+  const parts = value.split('/');
+  if (parts.length !== 3) return null;
+  const [day, month, year] = parts.map(s => parseInt(s.trim(), 10));
+  if (isNaN(day) || isNaN(month) || isNaN(year)) return null;
+  const date = new Date(year, month - 1, day);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+// Parses the YYYY-MM-DD value of an <input type="date">
+export const parseInputDate = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+export const formatBillDate = (date: Date): string => date.toLocaleDateString('en-GB');
+
+// e.g. addDaysToBillDate('25/03/2026', 15) -> '09/04/2026'; falls back to today for an unreadable date
+export const addDaysToBillDate = (value: string, days: number): string => {
+  const date = parseBillDate(value) || new Date();
+  date.setDate(date.getDate() + days);
+  return formatBillDate(date);
+};
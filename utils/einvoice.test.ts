@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessSettings, Customer, Invoice, InvoiceItem } from '../types';
+import { DEFAULT_BUSINESS_SETTINGS } from '../constants';
+import { buildEInvoicePayload, validateEInvoicePayload } from './einvoice';
+
+const settings: BusinessSettings = {
+  ...DEFAULT_BUSINESS_SETTINGS,
+  name: 'Shree Traders',
+  address: '12 Market Yard',
+  city: 'Pune',
+  pincode: '411037',
+  enableGst: true,
+  gstin: '27AAAPL1234C1Z5',
+  defaultGstRate: 18
+};
+
+const customer: Customer = {
+  id: 'c1',
+  name: 'Hotel Sagar',
+  city: 'Mumbai',
+  gstin: '27BBBBB1111B1Z1',
+  address: '5 Marine Drive',
+  pincode: '400020',
+  phone: '9820012345'
+};
+
+const line = (id: string, quantity: number, rate: number, gstRate: number, hsnCode = '10019910'): InvoiceItem => ({
+  id,
+  productId: id,
+  name: `Wheat ${id}`,
+  quantity,
+  unit: 'kg',
+  rate,
+  amount: quantity * rate,
+  hsnCode,
+  gstRate
+});
+
+const bill = (changes: Partial<Invoice> = {}): Invoice => ({
+  id: 'INV/26/0012',
+  date: '05/09/2026',
+  customerName: 'Hotel Sagar',
+  customerCity: 'Mumbai',
+  customerGstin: '27BBBBB1111B1Z1',
+  placeOfSupply: '27',
+  items: [line('a', 10, 100, 5), line('b', 4, 125, 5)],
+  subtotal: 1500,
+  gstAmount: 75,
+  cgstAmount: 37.5,
+  sgstAmount: 37.5,
+  igstAmount: 0,
+  total: 1575,
+  gstEnabled: true,
+  isInterState: false,
+  ...changes
+});
+
+describe('buildEInvoicePayload', () => {
+  it('splits intra-state tax into CGST and SGST per line', () => {
+    const payload = buildEInvoicePayload(bill(), settings, customer);
+    expect(payload.DocDtls).toEqual({ Typ: 'INV', No: 'INV/26/0012', Dt: '05/09/2026' });
+    expect(payload.ItemList.map(item => [item.AssAmt, item.CgstAmt, item.SgstAmt, item.IgstAmt, item.Unit])).toEqual([
+      [1000, 25, 25, 0, 'KGS'],
+      [500, 12.5, 12.5, 0, 'KGS']
+    ]);
+    expect(payload.ValDtls).toEqual({ AssVal: 1500, CgstVal: 37.5, SgstVal: 37.5, IgstVal: 0, OthChrg: 0, RndOffAmt: 0, TotInvVal: 1575 });
+    expect(payload.BuyerDtls).toMatchObject({ Pin: 400020, Stcd: '27', Pos: '27', Ph: '9820012345' });
+    expect(validateEInvoicePayload(payload)).toEqual([]);
+  });
+
+  it('charges IGST when the bill was saved as inter-state', () => {
+    const payload = buildEInvoicePayload(bill({
+      customerGstin: '29BBBBB1111B1Z3',
+      placeOfSupply: '29',
+      isInterState: true,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 75
+    }), settings);
+    expect(payload.ItemList.map(item => item.IgstAmt)).toEqual([50, 25]);
+    expect(payload.ValDtls.IgstVal).toBe(75);
+    expect(payload.BuyerDtls.Stcd).toBe('29');
+  });
+
+  it('shares the bill discount over the lines and sends untaxed charges and TCS as other charges', () => {
+    const payload = buildEInvoicePayload(bill({
+      discount: { type: 'flat', value: 150 },
+      charges: [
+        { label: 'Freight', amount: 100, taxable: true },
+        { label: 'Hamali', amount: 20, taxable: false }
+      ],
+      tcsAmount: 1.5,
+      subtotal: 1450,
+      cgstAmount: 36.25,
+      sgstAmount: 36.25,
+      gstAmount: 72.5,
+      roundOff: 0.5,
+      total: 1545
+    }), settings, customer);
+
+    expect(payload.ItemList.map(item => [item.PrdDesc, item.Discount, item.AssAmt])).toEqual([
+      ['Wheat a', 100, 900],
+      ['Wheat b', 50, 450],
+      ['Freight', 0, 100]
+    ]);
+    expect(payload.ValDtls).toEqual({ AssVal: 1450, CgstVal: 36.25, SgstVal: 36.25, IgstVal: 0, OthChrg: 21.5, RndOffAmt: 0.5, TotInvVal: 1545 });
+    expect(validateEInvoicePayload(payload)).toEqual([]);
+  });
+
+  it('moves a few paise of rounding onto the largest line so the lines match the tax billed', () => {
+    const payload = buildEInvoicePayload(bill({
+      items: [line('a', 3, 33.33, 18), line('b', 1, 0.01, 18)],
+      subtotal: 100,
+      cgstAmount: 8.99,
+      sgstAmount: 8.99,
+      gstAmount: 17.98,
+      total: 117.98
+    }), settings, customer);
+    expect(payload.ItemList.map(item => [item.CgstAmt, item.SgstAmt])).toEqual([[8.99, 8.99], [0, 0]]);
+    expect(payload.ItemList[0].TotItemVal).toBe(117.97);
+    expect(validateEInvoicePayload(payload)).toEqual([]);
+  });
+
+  it('uses no tax on a bill saved with GST off', () => {
+    const payload = buildEInvoicePayload(bill({ gstEnabled: false, gstAmount: 0, cgstAmount: 0, sgstAmount: 0, total: 1500 }), settings, customer);
+    expect(payload.ItemList.map(item => [item.GstRt, item.CgstAmt])).toEqual([[0, 0], [0, 0]]);
+    expect(payload.ValDtls.TotInvVal).toBe(1500);
+  });
+});
+
+describe('validateEInvoicePayload', () => {
+  const valid = () => buildEInvoicePayload(bill(), settings, customer);
+
+  it.each([
+    ['a bill number starting with 0', p => { p.DocDtls.No = '012'; }, 'DocDtls.No'],
+    ['a missing buyer GSTIN', p => { p.BuyerDtls.Gstin = ''; }, 'BuyerDtls.Gstin'],
+    ['a state code that does not match the GSTIN', p => { p.BuyerDtls.Stcd = '29'; }, 'BuyerDtls.Stcd'],
+    ['a short PIN code', p => { p.SellerDtls.Pin = 4110; }, 'SellerDtls.Pin'],
+    ['a missing HSN code', p => { p.ItemList[0].HsnCd = ''; }, 'ItemList[0].HsnCd'],
+    ['a GST rate the IRP does not accept', p => { p.ItemList[0].GstRt = 10; }, 'ItemList[0].GstRt'],
+    ['a taxable value that does not add up', p => { p.ValDtls.AssVal = 1600; }, 'ValDtls.AssVal'],
+    ['a CGST total that does not add up', p => { p.ValDtls.CgstVal = 40; }, 'ValDtls.CgstVal'],
+    ['an invoice total that does not add up', p => { p.ValDtls.TotInvVal = 1600; }, 'ValDtls.TotInvVal']
+  ] as [string, (p: ReturnType<typeof valid>) => void, string][])('flags %s', (_, breakIt, path) => {
+    const payload = valid();
+    breakIt(payload);
+    expect(validateEInvoicePayload(payload).map(issue => issue.path)).toContain(path);
+  });
+});
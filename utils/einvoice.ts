@@ -0,0 +1,258 @@
+import { BusinessSettings, Customer, Invoice, InvoiceItem } from '../types';
+import { getBusinessStateCode, getDiscountAmount, getGstTreatment, getItemGstRate, roundMoney, stateCodeFromGstin } from './gst';
+import { getUqc } from './gstr';
+
+// NIC e-invoice schema version 1.1 (only the blocks this app fills in)
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  TrdNm?: string;
+  Pos?: string;
+  Addr1: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  TotItemVal: number;
+}
+
+export interface EInvoicePayload {
+  Version: '1.1';
+  TranDtls: { TaxSch: 'GST'; SupTyp: 'B2B'; RegRev: 'N'; IgstOnIntra: 'N' };
+  DocDtls: { Typ: 'INV'; No: string; Dt: string };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty;
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    OthChrg: number; // Charges outside the taxable value, and TCS
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+export interface EInvoiceIssue {
+  path: string;
+  message: string;
+}
+
+const toPin = (value?: string) => Number((value || '').replace(/\D/g, '')) || 0;
+
+export const buildEInvoicePayload = (
+  invoice: Invoice,
+  settings: BusinessSettings,
+  customer?: Customer
+): EInvoicePayload => {
+  const sellerState = getBusinessStateCode(settings);
+  const buyerGstin = (invoice.customerGstin || customer?.gstin || '').trim().toUpperCase();
+  const buyerState = stateCodeFromGstin(buyerGstin) || customer?.stateCode || invoice.placeOfSupply || '';
+  const pos = invoice.placeOfSupply || buyerState;
+  // The bill is reported as it was issued, not as today's settings would tax it
+  const { enableGst, isInterState } = getGstTreatment(settings, pos, invoice);
+  const rateOf = (item: InvoiceItem) => enableGst ? getItemGstRate(item, invoice.gstRate || 0) : 0;
+
+  // The bill discount is shared over the lines by value; the last line takes the paise left over
+  const itemsTotal = roundMoney(invoice.items.reduce((sum, item) => sum + item.amount, 0));
+  const billDiscount = getDiscountAmount(itemsTotal, invoice.discount);
+  let billDiscountLeft = billDiscount;
+
+  const ItemList: EInvoiceItem[] = invoice.items.map((item, index) => {
+    const rate = rateOf(item);
+    const share = index === invoice.items.length - 1
+      ? billDiscountLeft
+      : roundMoney(itemsTotal > 0 ? billDiscount * item.amount / itemsTotal : 0);
+    billDiscountLeft = roundMoney(billDiscountLeft - share);
+    const discount = roundMoney((item.discountAmount || 0) + share);
+    const assAmt = roundMoney(item.amount - share);
+    const igst = isInterState ? roundMoney(assAmt * rate / 100) : 0;
+    const half = isInterState ? 0 : roundMoney(assAmt * rate / 200);
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: item.packing ? `${item.name} ${item.packing}` : item.name,
+      IsServc: 'N',
+      HsnCd: item.hsnCode || '',
+      Qty: item.quantity,
+      Unit: getUqc(item.unit).split('-')[0],
+      UnitPrice: item.rate,
+      TotAmt: roundMoney(item.quantity * item.rate),
+      Discount: discount,
+      AssAmt: assAmt,
+      GstRt: rate,
+      IgstAmt: igst,
+      CgstAmt: half,
+      SgstAmt: half,
+      TotItemVal: roundMoney(assAmt + igst + half * 2)
+    };
+  });
+
+  // Taxable charges are part of the main goods' supply, so they go out on their HSN and rate
+  const mainItem = invoice.items.reduce<InvoiceItem | undefined>((best, item) => (!best || item.amount > best.amount ? item : best), undefined);
+  (invoice.charges || []).filter(c => c.taxable && c.amount > 0).forEach(charge => {
+    const rate = mainItem ? rateOf(mainItem) : (enableGst ? invoice.gstRate || 0 : 0);
+    const assAmt = roundMoney(charge.amount);
+    const igst = isInterState ? roundMoney(assAmt * rate / 100) : 0;
+    const half = isInterState ? 0 : roundMoney(assAmt * rate / 200);
+    ItemList.push({
+      SlNo: String(ItemList.length + 1),
+      PrdDesc: charge.label,
+      IsServc: 'N',
+      HsnCd: mainItem?.hsnCode || '',
+      Qty: 1,
+      Unit: 'OTH',
+      UnitPrice: assAmt,
+      TotAmt: assAmt,
+      Discount: 0,
+      AssAmt: assAmt,
+      GstRt: rate,
+      IgstAmt: igst,
+      CgstAmt: half,
+      SgstAmt: half,
+      TotItemVal: roundMoney(assAmt + igst + half * 2)
+    });
+  });
+  const othChrg = roundMoney((invoice.charges || [])
+    .filter(c => !c.taxable)
+    .reduce((total, c) => total + (c.amount || 0), 0) + (invoice.tcsAmount || 0));
+
+  const sum = (pick: (item: EInvoiceItem) => number) => roundMoney(ItemList.reduce((total, item) => total + pick(item), 0));
+  // Line-wise tax can differ from the bill's HSN-wise tax by a few paise; the largest line takes
+  // that difference so the lines add up to the tax billed. A bigger gap is left for validation.
+  const mainLine = ItemList.reduce<EInvoiceItem | undefined>((best, item) => (!best || item.AssAmt > best.AssAmt ? item : best), undefined);
+  if (mainLine) {
+    (['IgstAmt', 'CgstAmt', 'SgstAmt'] as const).forEach(field => {
+      const billed = { IgstAmt: invoice.igstAmount, CgstAmt: invoice.cgstAmount, SgstAmt: invoice.sgstAmount }[field];
+      if (billed === undefined) return;
+      const gap = roundMoney(billed - sum(item => item[field]));
+      if (gap === 0 || Math.abs(gap) > 1) return;
+      mainLine[field] = roundMoney(mainLine[field] + gap);
+      mainLine.TotItemVal = roundMoney(mainLine.TotItemVal + gap);
+    });
+  }
+
+  return {
+    Version: '1.1',
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: { Typ: 'INV', No: invoice.id, Dt: invoice.date },
+    SellerDtls: {
+      Gstin: (settings.gstin || '').trim().toUpperCase(),
+      LglNm: settings.subName || settings.name,
+      TrdNm: settings.name,
+      Addr1: settings.address,
+      Loc: settings.city || '',
+      Pin: toPin(settings.pincode),
+      Stcd: sellerState,
+      Ph: settings.mobile ? settings.mobile.replace(/\D/g, '') : undefined
+    },
+    BuyerDtls: {
+      Gstin: buyerGstin,
+      LglNm: invoice.customerName,
+      Pos: pos,
+      Addr1: customer?.address || invoice.customerCity,
+      Loc: invoice.customerCity,
+      Pin: toPin(customer?.pincode),
+      Stcd: buyerState,
+      Ph: customer?.phone ? customer.phone.replace(/\D/g, '') : undefined
+    },
+    ItemList,
+    ValDtls: {
+      AssVal: roundMoney(invoice.subtotal ?? sum(item => item.AssAmt)),
+      CgstVal: roundMoney(invoice.cgstAmount ?? sum(item => item.CgstAmt)),
+      SgstVal: roundMoney(invoice.sgstAmount ?? sum(item => item.SgstAmt)),
+      IgstVal: roundMoney(invoice.igstAmount ?? sum(item => item.IgstAmt)),
+      OthChrg: othChrg,
+      RndOffAmt: roundMoney(invoice.roundOff || 0),
+      TotInvVal: roundMoney(invoice.total)
+    }
+  };
+};
+
+// Patterns and limits taken from the NIC e-invoice JSON schema 1.1
+const GSTIN_PATTERN = /^[0-9]{2}[0-9A-Z]{13}$/;
+const DOC_NO_PATTERN = /^[A-Z1-9][A-Z0-9/-]{0,15}$/;
+const DOC_DATE_PATTERN = /^[0-3][0-9]\/[0-1][0-9]\/20[1-9][0-9]$/;
+const STATE_PATTERN = /^(?!0+$)[0-9]{1,2}$/;
+const HSN_PATTERN = /^(?!0+$)([0-9]{4}|[0-9]{6}|[0-9]{8})$/;
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// Checks the payload against the schema rules the IRP enforces, plus the value cross-checks
+export const validateEInvoicePayload = (payload: EInvoicePayload): EInvoiceIssue[] => {
+  const issues: EInvoiceIssue[] = [];
+  const check = (ok: boolean, path: string, message: string) => {
+    if (!ok) issues.push({ path, message });
+  };
+  const length = (value: string | undefined, min: number, max: number) => {
+    const len = (value || '').length;
+    return len >= min && len <= max;
+  };
+
+  check(DOC_NO_PATTERN.test(payload.DocDtls.No), 'DocDtls.No', 'Bill number must be 1-16 characters of A-Z, 0-9, "/" or "-", and cannot start with 0.');
+  check(DOC_DATE_PATTERN.test(payload.DocDtls.Dt), 'DocDtls.Dt', 'Bill date must be in DD/MM/YYYY format.');
+
+  const checkParty = (party: EInvoiceParty, path: string, label: string) => {
+    check(GSTIN_PATTERN.test(party.Gstin), `${path}.Gstin`, `${label} GSTIN is missing or invalid.`);
+    check(length(party.LglNm, 3, 100), `${path}.LglNm`, `${label} legal name must be 3-100 characters.`);
+    check(length(party.Addr1, 1, 100), `${path}.Addr1`, `${label} address must be 1-100 characters.`);
+    check(length(party.Loc, 3, 50), `${path}.Loc`, `${label} location (city) must be 3-50 characters.`);
+    check(party.Pin >= 100000 && party.Pin <= 999999, `${path}.Pin`, `${label} PIN code must be 6 digits.`);
+    check(STATE_PATTERN.test(party.Stcd), `${path}.Stcd`, `${label} state code is missing.`);
+    if (party.Ph !== undefined) {
+      check(length(party.Ph, 6, 12), `${path}.Ph`, `${label} phone must be 6-12 digits.`);
+    }
+    if (GSTIN_PATTERN.test(party.Gstin) && STATE_PATTERN.test(party.Stcd)) {
+      check(party.Gstin.slice(0, 2) === party.Stcd.padStart(2, '0'), `${path}.Stcd`, `${label} state code does not match the GSTIN.`);
+    }
+  };
+  checkParty(payload.SellerDtls, 'SellerDtls', 'Seller');
+  checkParty(payload.BuyerDtls, 'BuyerDtls', 'Buyer');
+  check(STATE_PATTERN.test(payload.BuyerDtls.Pos || ''), 'BuyerDtls.Pos', 'Place of supply is missing.');
+  check(payload.SellerDtls.Gstin !== payload.BuyerDtls.Gstin, 'BuyerDtls.Gstin', 'Buyer GSTIN cannot be the same as the seller GSTIN.');
+
+  check(payload.ItemList.length >= 1 && payload.ItemList.length <= 1000, 'ItemList', 'An e-invoice needs between 1 and 1000 items.');
+  payload.ItemList.forEach((item, index) => {
+    const path = `ItemList[${index}]`;
+    const label = `Item ${item.SlNo} (${item.PrdDesc})`;
+    check(HSN_PATTERN.test(item.HsnCd), `${path}.HsnCd`, `${label}: HSN code must be 4, 6 or 8 digits.`);
+    check(length(item.PrdDesc, 3, 300), `${path}.PrdDesc`, `${label}: description must be 3-300 characters.`);
+    check(length(item.Unit, 3, 8), `${path}.Unit`, `${label}: unit code is invalid.`);
+    check(item.Qty >= 0, `${path}.Qty`, `${label}: quantity cannot be negative.`);
+    check(GST_RATES.includes(item.GstRt), `${path}.GstRt`, `${label}: ${item.GstRt}% is not a valid GST rate.`);
+    check(Math.abs(item.TotAmt - item.UnitPrice * item.Qty) <= 1, `${path}.TotAmt`, `${label}: amount does not equal rate × quantity.`);
+    check(Math.abs(item.TotItemVal - (item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt)) <= 1, `${path}.TotItemVal`, `${label}: item total does not add up.`);
+  });
+
+  const { ValDtls } = payload;
+  const assVal = payload.ItemList.reduce((sum, item) => sum + item.AssAmt, 0);
+  check(Math.abs(ValDtls.AssVal - assVal) <= 1, 'ValDtls.AssVal', 'Taxable value does not match the sum of the items.');
+  (['Cgst', 'Sgst', 'Igst'] as const).forEach(tax => {
+    const itemTax = payload.ItemList.reduce((sum, item) => sum + item[`${tax}Amt`], 0);
+    check(Math.abs(ValDtls[`${tax}Val`] - itemTax) <= 1, `ValDtls.${tax}Val`, `${tax.toUpperCase()} on the bill does not match the sum of the items.`);
+  });
+  check(Math.abs(ValDtls.RndOffAmt) < 100, 'ValDtls.RndOffAmt', 'Round-off must be less than ₹100.');
+  check(
+    Math.abs(ValDtls.TotInvVal - (ValDtls.AssVal + ValDtls.CgstVal + ValDtls.SgstVal + ValDtls.IgstVal + ValDtls.OthChrg + ValDtls.RndOffAmt)) <= 1,
+    'ValDtls.TotInvVal',
+    'Invoice total does not match taxable value plus tax and charges.'
+  );
+
+  return issues;
+};
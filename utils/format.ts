@@ -0,0 +1,58 @@
+import { InvoiceItem } from '../types';
+
+// Simple number to words converter (Indian Number System); paise are read out after the rupees
+export const numberToWords = (num: number): string => {
+  if (num === 0) return "Zero";
+
+  const a = ['', 'One ', 'Two ', 'Three ', 'Four ', 'Five ', 'Six ', 'Seven ', 'Eight ', 'Nine ', 'Ten ', 'Eleven ', 'Twelve ', 'Thirteen ', 'Fourteen ', 'Fifteen ', 'Sixteen ', 'Seventeen ', 'Eighteen ', 'Nineteen '];
+  const b = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+  const inWords = (inputNum: number): string => {
+    const n = inputNum.toString();
+    if (n.length > 9) return 'overflow';
+    let n_array: any = ('000000000' + n).slice(-9).match(/^(\d{2})(\d{2})(\d{2})(\d{1})(\d{2})$/);
+    if (!n_array) return "";
+    let str = '';
+    str += (Number(n_array[1]) !== 0) ? (a[Number(n_array[1])] || b[Number(n_array[1][0])] + ' ' + a[Number(n_array[1][1])]) + 'Crore ' : '';
+    str += (Number(n_array[2]) !== 0) ? (a[Number(n_array[2])] || b[Number(n_array[2][0])] + ' ' + a[Number(n_array[2][1])]) + 'Lakh ' : '';
+    str += (Number(n_array[3]) !== 0) ? (a[Number(n_array[3])] || b[Number(n_array[3][0])] + ' ' + a[Number(n_array[3][1])]) + 'Thousand ' : '';
+    str += (Number(n_array[4]) !== 0) ? (a[Number(n_array[4])] || b[Number(n_array[4][0])] + ' ' + a[Number(n_array[4][1])]) + 'Hundred ' : '';
+    str += (Number(n_array[5]) !== 0) ? ((str !== '') ? 'and ' : '') + (a[Number(n_array[5])] || b[Number(n_array[5][0])] + ' ' + a[Number(n_array[5][1])]) : '';
+    return str;
+  };
+
+  const rupees = Math.floor(num);
+  const paise = Math.round((num - rupees) * 100);
+  if (paise === 0) return inWords(rupees) + "Only";
+  return (rupees > 0 ? inWords(rupees) + "and " : '') + inWords(paise) + "Paise Only";
+};
+
+// Total weight from the packing text (e.g. "500 gm" x 4 -> "2 Kg"), or "-" when no line has a weight
+export const formatTotalWeight = (items: InvoiceItem[]): string => {
+  const totalGrams = items.reduce((sum, item) => {
+    if (!item.packing) return sum;
+    const text = item.packing.toLowerCase().trim();
+    const match = text.match(/^(\d+(\.\d+)?)\s*(kg|gm|g|ltr|ml|l)/);
+
+    if (match) {
+      let value = parseFloat(match[1]);
+      const unit = match[3];
+      if (['kg', 'ltr', 'l'].includes(unit)) {
+        value *= 1000;
+      }
+      return sum + (value * item.quantity);
+    }
+    return sum;
+  }, 0);
+
+  if (totalGrams === 0) return "-";
+
+  const kg = Math.floor(totalGrams / 1000);
+  const gm = Math.round(totalGrams % 1000);
+
+  const parts = [];
+  if (kg > 0) parts.push(`${kg} Kg`);
+  if (gm > 0) parts.push(`${gm} Gm`);
+
+  return parts.join(' ');
+};
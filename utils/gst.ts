@@ -0,0 +1,226 @@
+import { BusinessSettings, Discount, ExtraCharge, Invoice, InvoiceItem } from '../types';
+import { INDIAN_STATES } from '../constants';
+
+// One row of the HSN-wise tax summary printed under the bill
+export interface HsnTaxRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface InvoiceTotals {
+  itemsTotal: number; // Sum of line amounts, after line discounts
+  billDiscountAmount: number;
+  discountAmount: number; // Line and bill discounts together
+  subtotal: number; // Taxable value: itemsTotal less the bill discount, plus taxable charges
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  gstAmount: number;
+  taxableChargesAmount: number;
+  otherChargesAmount: number; // Charges added after tax
+  tcsAmount: number;
+  roundOff: number;
+  total: number;
+  isInterState: boolean;
+  hsnSummary: HsnTaxRow[];
+}
+
+interface TotalsOptions {
+  enableGst: boolean;
+  defaultGstRate: number; // Used for items saved before per-item rates existed
+  isInterState: boolean;
+  billDiscount?: Discount;
+  charges?: ExtraCharge[];
+  tcsRate?: number; // TCS is collected on the bill value including GST and charges
+  roundOff?: boolean; // Round the total to the nearest rupee
+}
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// The first two digits of a GSTIN are the state code
+export const stateCodeFromGstin = (gstin?: string): string => {
+  const code = (gstin || '').trim().slice(0, 2);
+  return /^\d{2}$/.test(code) ? code : '';
+};
+
+export const getBusinessStateCode = (settings: BusinessSettings): string =>
+  settings.stateCode || stateCodeFromGstin(settings.gstin);
+
+export const getStateName = (code?: string): string => {
+  const state = INDIAN_STATES.find(s => s.code === code);
+  return state ? state.name : '';
+};
+
+export const formatPlaceOfSupply = (code?: string): string => {
+  const name = getStateName(code);
+  return name ? `${name} (${code})` : '';
+};
+
+// IGST applies only when both states are known and differ; otherwise treat as local
+export const isInterStateSupply = (businessStateCode?: string, placeOfSupply?: string): boolean =>
+  !!businessStateCode && !!placeOfSupply && businessStateCode !== placeOfSupply;
+
+export const getItemGstRate = (item: Pick<InvoiceItem, 'gstRate'>, defaultGstRate: number): number =>
+  typeof item.gstRate === 'number' ? item.gstRate : defaultGstRate;
+
+// Rupees off `base`; a flat discount never exceeds the amount it is taken from
+export const getDiscountAmount = (base: number, discount?: Discount): number => {
+  if (!discount || !(discount.value > 0)) return 0;
+  return roundMoney(discount.type === 'percent'
+    ? base * Math.min(discount.value, 100) / 100
+    : Math.min(discount.value, base));
+};
+
+// e.g. "10%" or "₹50"
+export const formatDiscount = (discount: Discount): string =>
+  discount.type === 'percent' ? `${discount.value}%` : `₹${discount.value}`;
+
+// Re-works a line's amount for a new quantity, taking its discount off quantity x rate
+export const priceLine = (item: InvoiceItem, quantity: number = item.quantity): InvoiceItem => {
+  const gross = quantity * item.rate;
+  const discountAmount = getDiscountAmount(gross, item.discount);
+  return { ...item, quantity, amount: roundMoney(gross - discountAmount), discountAmount: discountAmount || undefined };
+};
+
+// Printed order of a bill's charges: with GST on, taxable ones come before the tax lines
+export const splitCharges = (charges: ExtraCharge[] = [], enableGst: boolean) => {
+  const billed = charges.filter(c => c.amount > 0);
+  return {
+    beforeTax: enableGst ? billed.filter(c => c.taxable) : [],
+    afterTax: enableGst ? billed.filter(c => !c.taxable) : billed
+  };
+};
+
+const sumCharges = (charges: ExtraCharge[] = [], taxable: boolean) =>
+  roundMoney(charges.filter(c => c.taxable === taxable).reduce((sum, c) => sum + (c.amount || 0), 0));
+
+// Charges, TCS and round-off on top of the taxed value, in the order they print
+const addFinalLines = (
+  totals: Omit<InvoiceTotals, 'otherChargesAmount' | 'tcsAmount' | 'roundOff' | 'total'>,
+  options: TotalsOptions
+): InvoiceTotals => {
+  const otherChargesAmount = sumCharges(options.charges, false);
+  const beforeTcs = roundMoney(totals.subtotal + totals.gstAmount + otherChargesAmount);
+  const tcsAmount = options.tcsRate ? roundMoney(beforeTcs * options.tcsRate / 100) : 0;
+  const exactTotal = roundMoney(beforeTcs + tcsAmount);
+  const total = options.roundOff ? Math.round(exactTotal) : exactTotal;
+  return { ...totals, otherChargesAmount, tcsAmount, roundOff: roundMoney(total - exactTotal), total };
+};
+
+// Tax is worked out per HSN + rate group, as it is reported in GSTR-1. A bill discount
+// comes off before tax, shared over the groups in proportion to their value. Taxable
+// charges join the largest group, as they are taxed like the main goods on the bill.
+export const calculateInvoiceTotals = (items: InvoiceItem[], options: TotalsOptions): InvoiceTotals => {
+  const itemsTotal = roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const billDiscountAmount = getDiscountAmount(itemsTotal, options.billDiscount);
+  const discountAmount = roundMoney(items.reduce((sum, item) => sum + (item.discountAmount || 0), 0) + billDiscountAmount);
+  const taxableChargesAmount = sumCharges(options.charges, true);
+  const subtotal = roundMoney(itemsTotal - billDiscountAmount + taxableChargesAmount);
+
+  if (!options.enableGst) {
+    return addFinalLines({
+      itemsTotal,
+      billDiscountAmount,
+      discountAmount,
+      subtotal,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+      gstAmount: 0,
+      taxableChargesAmount,
+      isInterState: options.isInterState,
+      hsnSummary: []
+    }, options);
+  }
+
+  const groups = new Map<string, HsnTaxRow>();
+  items.forEach(item => {
+    const gstRate = getItemGstRate(item, options.defaultGstRate);
+    const hsnCode = item.hsnCode || '';
+    const key = `${hsnCode}|${gstRate}`;
+    const row = groups.get(key) || { hsnCode, gstRate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+    row.taxableValue += item.amount;
+    groups.set(key, row);
+  });
+
+  if (taxableChargesAmount > 0 && groups.size === 0) {
+    groups.set('', { hsnCode: '', gstRate: options.defaultGstRate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 });
+  }
+
+  // The last group takes the rounding remainder so the shares add up to the discount
+  let discountLeft = billDiscountAmount;
+  const groupRows = Array.from(groups.values());
+  const mainRow = groupRows.reduce((best, row) => (row.taxableValue > best.taxableValue ? row : best), groupRows[0]);
+  const hsnSummary = groupRows.map((row, index) => {
+    const share = index === groupRows.length - 1
+      ? discountLeft
+      : roundMoney(itemsTotal > 0 ? billDiscountAmount * row.taxableValue / itemsTotal : 0);
+    discountLeft = roundMoney(discountLeft - share);
+    const taxableValue = roundMoney(row.taxableValue - share + (row === mainRow ? taxableChargesAmount : 0));
+    if (options.isInterState) {
+      return { ...row, taxableValue, igstAmount: roundMoney(taxableValue * row.gstRate / 100) };
+    }
+    const half = roundMoney(taxableValue * row.gstRate / 200);
+    return { ...row, taxableValue, cgstAmount: half, sgstAmount: half };
+  });
+
+  const cgstAmount = roundMoney(hsnSummary.reduce((sum, row) => sum + row.cgstAmount, 0));
+  const sgstAmount = roundMoney(hsnSummary.reduce((sum, row) => sum + row.sgstAmount, 0));
+  const igstAmount = roundMoney(hsnSummary.reduce((sum, row) => sum + row.igstAmount, 0));
+  const gstAmount = roundMoney(cgstAmount + sgstAmount + igstAmount);
+
+  return addFinalLines({
+    itemsTotal,
+    billDiscountAmount,
+    discountAmount,
+    subtotal,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    gstAmount,
+    taxableChargesAmount,
+    isInterState: options.isInterState,
+    hsnSummary
+  }, options);
+};
+
+// Shown next to the CGST/SGST/IGST lines; blank when the bill mixes rates
+export const getUniformGstRate = (hsnSummary: HsnTaxRow[]): number | null => {
+  const rates = new Set(hsnSummary.map(row => row.gstRate));
+  return rates.size === 1 ? hsnSummary[0].gstRate : null;
+};
+
+// Tax figures stored on a saved bill or credit note
+export type SavedTotals = Pick<Invoice, 'total' | 'subtotal' | 'gstRate' | 'gstAmount' | 'cgstAmount' | 'sgstAmount' | 'igstAmount'>
+  & Partial<Pick<Invoice, 'gstEnabled' | 'isInterState' | 'tcsAmount' | 'roundOff'>>;
+
+// Whether a document is taxed, and as IGST or CGST+SGST. A saved one keeps what it was saved
+// with; older saves without the flags are read from their tax amounts. A new one follows settings.
+export const getGstTreatment = (settings: BusinessSettings, placeOfSupply?: string, saved?: SavedTotals) => saved
+  ? {
+      enableGst: saved.gstEnabled ?? ((saved.gstAmount || 0) > 0 || (saved.gstRate || 0) > 0),
+      isInterState: saved.isInterState ?? (saved.igstAmount || 0) > 0
+    }
+  : {
+      enableGst: settings.enableGst,
+      isInterState: isInterStateSupply(getBusinessStateCode(settings), placeOfSupply)
+    };
+
+// The stored figures win over a recalculation, so a reprint always shows what was billed
+export const applySavedTotals = (totals: InvoiceTotals, saved?: SavedTotals): InvoiceTotals => saved
+  ? {
+      ...totals,
+      subtotal: saved.subtotal ?? totals.subtotal,
+      gstAmount: saved.gstAmount ?? totals.gstAmount,
+      cgstAmount: saved.cgstAmount ?? totals.cgstAmount,
+      sgstAmount: saved.sgstAmount ?? totals.sgstAmount,
+      igstAmount: saved.igstAmount ?? totals.igstAmount,
+      tcsAmount: saved.tcsAmount ?? totals.tcsAmount,
+      roundOff: saved.roundOff ?? totals.roundOff,
+      total: saved.total
+    }
+  : totals;
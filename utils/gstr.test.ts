@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessSettings, CreditNote, Invoice, InvoiceItem, Purchase } from '../types';
+import { DEFAULT_BUSINESS_SETTINGS } from '../constants';
+import { buildGstReturn, getUqc, toGstr1Json, toGstr3bJson } from './gstr';
+
+const settings: BusinessSettings = {
+  ...DEFAULT_BUSINESS_SETTINGS,
+  enableGst: true,
+  gstin: '27AAAPL1234C1Z5',
+  defaultGstRate: 18
+};
+
+const line = (id: string, amount: number, gstRate: number, hsnCode: string, unit = 'kg'): InvoiceItem => ({
+  id,
+  productId: id,
+  name: `Item ${id}`,
+  quantity: 1,
+  unit,
+  rate: amount,
+  amount,
+  hsnCode,
+  gstRate
+});
+
+const bill = (id: string, changes: Partial<Invoice>): Invoice => ({
+  id,
+  date: '05/09/2026',
+  customerName: 'Customer',
+  customerCity: 'Pune',
+  items: [],
+  total: 0,
+  gstEnabled: true,
+  isInterState: false,
+  ...changes
+});
+
+// Registered buyer in the same state: 1500 at 18% as CGST + SGST
+const b2bBill = bill('INV-1', {
+  customerGstin: '27BBBBB1111B1Z1',
+  placeOfSupply: '27',
+  items: [line('a', 1000, 18, '1001'), line('b', 500, 18, '1002')],
+  subtotal: 1500,
+  gstAmount: 270,
+  cgstAmount: 135,
+  sgstAmount: 135,
+  igstAmount: 0,
+  total: 1770
+});
+
+// Unregistered buyer in Karnataka: 1000 at 5% as IGST
+const b2csBill = bill('INV-2', {
+  placeOfSupply: '29',
+  isInterState: true,
+  items: [line('c', 1000, 5, '2001', 'pcs')],
+  subtotal: 1000,
+  gstAmount: 50,
+  cgstAmount: 0,
+  sgstAmount: 0,
+  igstAmount: 50,
+  total: 1050
+});
+
+const build = (invoices: Invoice[], creditNotes: CreditNote[] = [], purchases: Purchase[] = [], withSettings = settings) =>
+  buildGstReturn('2026-09', invoices, creditNotes, purchases, withSettings);
+
+describe('getUqc', () => {
+  it.each([
+    ['kg', 'KGS-KILOGRAMS'],
+    [' PCS ', 'PCS-PIECES'],
+    ['ltr', 'LTR-LITRES'],
+    ['dozen', 'OTH-OTHERS']
+  ])('%s -> %s', (unit, expected) => {
+    expect(getUqc(unit)).toBe(expected);
+  });
+});
+
+describe('buildGstReturn', () => {
+  it('reports registered buyers bill-wise and the rest by state and rate', () => {
+    const data = build([b2bBill, b2csBill]);
+
+    expect(data.fp).toBe('092026');
+    expect(data.b2b).toHaveLength(1);
+    expect(data.b2b[0]).toMatchObject({ ctin: '27BBBBB1111B1Z1', inum: 'INV-1', val: 1770, pos: '27', isInterState: false });
+    expect(data.b2b[0].rates).toEqual([{ rate: 18, txval: 1500, iamt: 0, camt: 135, samt: 135 }]);
+    expect(data.b2cs).toEqual([{ splyType: 'INTER', pos: '29', rate: 5, txval: 1000, iamt: 50, camt: 0, samt: 0 }]);
+    expect(data.outward).toEqual({ txval: 2500, iamt: 50, camt: 135, samt: 135 });
+    expect(data.hsn.map(row => [row.hsn, row.uqc, row.txval])).toEqual([
+      ['1001', 'KGS-KILOGRAMS', 1000],
+      ['1002', 'KGS-KILOGRAMS', 500],
+      ['2001', 'PCS-PIECES', 1000]
+    ]);
+    expect(data.invoiceCount).toBe(2);
+  });
+
+  it.each([
+    ['a cancelled bill', { status: 'cancelled' as const }, false],
+    ['a bill from another month', { date: '05/10/2026' }, false],
+    ['a bill saved without GST', { gstEnabled: false, gstAmount: 0, cgstAmount: 0, sgstAmount: 0 }, true]
+  ])('leaves out %s', (_, changes, skipped) => {
+    const data = build([bill('INV-9', { ...b2bBill, ...changes })]);
+    expect(data.b2b).toHaveLength(0);
+    expect(data.invoiceCount).toBe(0);
+    expect(data.skippedInvoices).toHaveLength(skipped ? 1 : 0);
+  });
+
+  it('follows the treatment stored on the bill, not the current settings', () => {
+    const data = build([b2bBill], [], [], { ...settings, enableGst: false });
+    expect(data.b2b).toHaveLength(1);
+    expect(data.outward.camt).toBe(135);
+  });
+
+  it('files the tax that was billed when a recalculation differs by paise', () => {
+    const data = build([bill('INV-3', {
+      ...b2bBill,
+      items: [line('a', 33.33, 18, '1001'), line('b', 33.33, 18, '1001'), line('c', 33.33, 18, '1001')],
+      subtotal: 99.99,
+      gstAmount: 17.98,
+      cgstAmount: 8.99,
+      sgstAmount: 8.99,
+      total: 117.97
+    })]);
+    expect(data.b2b[0].rates).toEqual([{ rate: 18, txval: 99.99, iamt: 0, camt: 8.99, samt: 8.99 }]);
+    expect(data.b2b[0].val).toBe(117.97);
+  });
+
+  it('nets credit notes off the outward supplies and takes input tax from registered suppliers only', () => {
+    const note: CreditNote = {
+      id: 'CN-1',
+      invoiceId: 'INV-1',
+      date: '20/09/2026',
+      customerName: 'Customer',
+      customerCity: 'Pune',
+      items: [],
+      reason: 'Damaged',
+      subtotal: 500,
+      gstAmount: 90,
+      cgstAmount: 45,
+      sgstAmount: 45,
+      igstAmount: 0,
+      total: 590
+    };
+    const purchase = (id: string, supplierGstin?: string): Purchase => ({
+      id,
+      supplierId: id,
+      supplierName: 'Supplier',
+      supplierGstin,
+      supplierBillNo: id,
+      date: '10/09/2026',
+      items: [],
+      isInterState: true,
+      subtotal: 2000,
+      gstAmount: 240,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 240,
+      total: 2240,
+      paidAmount: 0,
+      createdAt: ''
+    });
+
+    const data = build([b2bBill], [note], [purchase('P-1', '29CCCCC2222C1Z2'), purchase('P-2')]);
+    expect(data.creditNotes).toEqual({ txval: 500, iamt: 0, camt: 45, samt: 45 });
+    expect(data.outward).toEqual({ txval: 1000, iamt: 0, camt: 90, samt: 90 });
+    expect(data.inputTax).toEqual({ txval: 2000, iamt: 240, camt: 0, samt: 0 });
+    expect(data.purchaseCount).toBe(1);
+  });
+});
+
+describe('toGstr1Json', () => {
+  it('writes intra-state B2B lines with CGST and SGST and inter-state B2CS with IGST', () => {
+    const json = toGstr1Json(build([b2bBill, b2csBill]));
+    expect(json.b2b[0].inv[0]).toMatchObject({ inum: 'INV-1', idt: '05-09-2026', val: 1770, pos: '27' });
+    expect(json.b2b[0].inv[0].itms[0].itm_det).toEqual({ txval: 1500, rt: 18, camt: 135, samt: 135, csamt: 0 });
+    expect(json.b2cs[0]).toEqual({ sply_ty: 'INTER', pos: '29', typ: 'OE', txval: 1000, rt: 5, iamt: 50, csamt: 0 });
+    expect(json.hsn.data.map(row => row.uqc)).toEqual(['KGS', 'KGS', 'PCS']);
+  });
+});
+
+describe('toGstr3bJson', () => {
+  it('lists inter-state supplies to unregistered buyers by state', () => {
+    const json = toGstr3bJson(build([b2bBill, b2csBill]));
+    expect(json.ret_period).toBe('092026');
+    expect(json.sup_details.osup_det).toEqual({ txval: 2500, iamt: 50, camt: 135, samt: 135, csamt: 0 });
+    expect(json.inter_sup.unreg_details).toEqual([{ pos: '29', txval: 1000, iamt: 50 }]);
+  });
+});
@@ -0,0 +1,341 @@
+import { BusinessSettings, CreditNote, Invoice, Purchase } from '../types';
+import { parseBillDate } from './dates';
+import { calculateInvoiceTotals, getBusinessStateCode, getGstTreatment, getItemGstRate, getStateName, HsnTaxRow, roundMoney, SavedTotals } from './gst';
+
+export interface TaxAmounts {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+}
+
+export interface B2bInvoice {
+  ctin: string;
+  receiverName: string;
+  inum: string;
+  date: Date;
+  val: number;
+  pos: string;
+  isInterState: boolean;
+  rates: (TaxAmounts & { rate: number })[];
+}
+
+export interface B2csRow extends TaxAmounts {
+  splyType: 'INTRA' | 'INTER';
+  pos: string;
+  rate: number;
+}
+
+export interface HsnRow extends TaxAmounts {
+  hsn: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rate: number;
+}
+
+export interface GstReturnData {
+  gstin: string;
+  fp: string; // Return period as the portal writes it: MMYYYY
+  b2b: B2bInvoice[];
+  b2cs: B2csRow[];
+  hsn: HsnRow[];
+  outward: TaxAmounts; // GSTR-3B 3.1(a), net of credit notes
+  creditNotes: TaxAmounts;
+  inputTax: TaxAmounts; // GSTR-3B 4(A)(5), GST paid on purchases from registered suppliers
+  purchaseCount: number;
+  invoiceCount: number;
+  skippedInvoices: Invoice[]; // Bills in the month with no GST charged
+}
+
+// Unit Quantity Codes accepted by the GST portal
+const UQC_CODES: Record<string, string> = {
+  kg: 'KGS-KILOGRAMS',
+  gm: 'GMS-GRAMMES',
+  g: 'GMS-GRAMMES',
+  ltr: 'LTR-LITRES',
+  l: 'LTR-LITRES',
+  ml: 'MLT-MILILITRE',
+  pkt: 'PAC-PACKS',
+  pcs: 'PCS-PIECES',
+  nos: 'NOS-NUMBERS',
+  box: 'BOX-BOX'
+};
+
+export const getUqc = (unit: string): string => UQC_CODES[unit.trim().toLowerCase()] || 'OTH-OTHERS';
+
+const emptyAmounts = (): TaxAmounts => ({ txval: 0, iamt: 0, camt: 0, samt: 0 });
+
+const addAmounts = (target: TaxAmounts, source: TaxAmounts, sign = 1) => {
+  target.txval = roundMoney(target.txval + sign * source.txval);
+  target.iamt = roundMoney(target.iamt + sign * source.iamt);
+  target.camt = roundMoney(target.camt + sign * source.camt);
+  target.samt = roundMoney(target.samt + sign * source.samt);
+};
+
+const isRegisteredGstin = (gstin?: string) => /^[0-9A-Z]{15}$/.test((gstin || '').trim().toUpperCase());
+
+const isInPeriod = (dateText: string, year: number, month: number) => {
+  const date = parseBillDate(dateText);
+  return !!date && date.getFullYear() === year && date.getMonth() + 1 === month;
+};
+
+// The HSN split is worked out again from the lines, but what is filed must equal what was
+// billed: the paise a recalculation differs by go to the largest group
+const matchSavedTax = (rows: HsnTaxRow[], saved: SavedTotals): HsnTaxRow[] => {
+  if (rows.length === 0) return rows;
+  const main = rows.reduce((best, row) => (row.taxableValue > best.taxableValue ? row : best), rows[0]);
+  const gap = (field: keyof Omit<HsnTaxRow, 'hsnCode' | 'gstRate'>, target?: number) =>
+    target === undefined ? 0 : roundMoney(target - rows.reduce((sum, row) => sum + row[field], 0));
+  const adjust = {
+    taxableValue: gap('taxableValue', saved.subtotal),
+    cgstAmount: gap('cgstAmount', saved.cgstAmount),
+    sgstAmount: gap('sgstAmount', saved.sgstAmount),
+    igstAmount: gap('igstAmount', saved.igstAmount)
+  };
+  return rows.map(row => row !== main ? row : {
+    ...row,
+    taxableValue: roundMoney(row.taxableValue + adjust.taxableValue),
+    cgstAmount: roundMoney(row.cgstAmount + adjust.cgstAmount),
+    sgstAmount: roundMoney(row.sgstAmount + adjust.sgstAmount),
+    igstAmount: roundMoney(row.igstAmount + adjust.igstAmount)
+  });
+};
+
+// `period` is the value of an <input type="month">, e.g. "2026-09"
+export const buildGstReturn = (
+  period: string,
+  invoices: Invoice[],
+  creditNotes: CreditNote[],
+  purchases: Purchase[],
+  settings: BusinessSettings
+): GstReturnData => {
+  const [year, month] = period.split('-').map(Number);
+  const businessState = getBusinessStateCode(settings);
+
+  const inMonth = invoices.filter(inv => inv.status !== 'cancelled' && isInPeriod(inv.date, year, month));
+  // Each bill is reported as it was issued, not as today's settings would tax it
+  const isTaxed = (inv: Invoice) =>
+    getGstTreatment(settings, inv.placeOfSupply || businessState, inv).enableGst && (inv.gstAmount || 0) > 0;
+  const taxable = inMonth.filter(isTaxed);
+
+  const b2b: B2bInvoice[] = [];
+  const b2cs = new Map<string, B2csRow>();
+  const hsn = new Map<string, HsnRow>();
+  const outward = emptyAmounts();
+
+  taxable.forEach(inv => {
+    const pos = inv.placeOfSupply || businessState;
+    const { isInterState } = getGstTreatment(settings, pos, inv);
+    const totals = calculateInvoiceTotals(inv.items, {
+      enableGst: true,
+      defaultGstRate: inv.gstRate || 0,
+      isInterState,
+      billDiscount: inv.discount,
+      charges: inv.charges,
+      tcsRate: inv.tcsRate,
+      roundOff: inv.roundOff !== undefined
+    });
+
+    // Collapse HSN rows to one line per rate, which is how both B2B and B2CS report
+    const byRate = new Map<number, TaxAmounts & { rate: number }>();
+    matchSavedTax(totals.hsnSummary, inv).forEach(row => {
+      const entry = byRate.get(row.gstRate) || { rate: row.gstRate, ...emptyAmounts() };
+      addAmounts(entry, { txval: row.taxableValue, iamt: row.igstAmount, camt: row.cgstAmount, samt: row.sgstAmount });
+      byRate.set(row.gstRate, entry);
+
+      const items = inv.items.filter(item => (item.hsnCode || '') === row.hsnCode && getItemGstRate(item, inv.gstRate || 0) === row.gstRate);
+      const uqc = getUqc(items[0]?.unit || '');
+      const key = `${row.hsnCode}|${row.gstRate}|${uqc}`;
+      const hsnRow = hsn.get(key) || { hsn: row.hsnCode, desc: items[0]?.name || '', uqc, qty: 0, rate: row.gstRate, ...emptyAmounts() };
+      hsnRow.qty = roundMoney(hsnRow.qty + items.reduce((sum, item) => sum + item.quantity, 0));
+      addAmounts(hsnRow, { txval: row.taxableValue, iamt: row.igstAmount, camt: row.cgstAmount, samt: row.sgstAmount });
+      hsn.set(key, hsnRow);
+    });
+
+    byRate.forEach(entry => addAmounts(outward, entry));
+
+    if (isRegisteredGstin(inv.customerGstin)) {
+      b2b.push({
+        ctin: (inv.customerGstin as string).trim().toUpperCase(),
+        receiverName: inv.customerName,
+        inum: inv.id,
+        date: parseBillDate(inv.date) as Date,
+        val: roundMoney(Number(inv.total) || 0),
+        pos,
+        isInterState,
+        rates: Array.from(byRate.values())
+      });
+    } else {
+      // Unregistered buyers are summarised by state and rate (large inter-state B2CL bills are not split out)
+      byRate.forEach(entry => {
+        const splyType = isInterState ? 'INTER' : 'INTRA';
+        const key = `${splyType}|${pos}|${entry.rate}`;
+        const row = b2cs.get(key) || { splyType, pos, rate: entry.rate, ...emptyAmounts() };
+        addAmounts(row, entry);
+        b2cs.set(key, row);
+      });
+    }
+  });
+
+  // Credit notes raised in the month reduce the tax payable in GSTR-3B
+  const creditTotals = emptyAmounts();
+  creditNotes
+    .filter(note => (note.gstAmount || 0) > 0 && isInPeriod(note.date, year, month))
+    .forEach(note => addAmounts(creditTotals, {
+      txval: note.subtotal || 0,
+      iamt: note.igstAmount || 0,
+      camt: note.cgstAmount || 0,
+      samt: note.sgstAmount || 0
+    }));
+  addAmounts(outward, creditTotals, -1);
+
+  // Credit is only available on bills from registered suppliers that charged GST
+  const inputTax = emptyAmounts();
+  const creditablePurchases = purchases.filter(p =>
+    p.gstAmount > 0 && isRegisteredGstin(p.supplierGstin) && isInPeriod(p.date, year, month)
+  );
+  creditablePurchases.forEach(p => addAmounts(inputTax, {
+    txval: p.subtotal,
+    iamt: p.igstAmount,
+    camt: p.cgstAmount,
+    samt: p.sgstAmount
+  }));
+
+  return {
+    gstin: (settings.gstin || '').trim().toUpperCase(),
+    fp: `${String(month).padStart(2, '0')}${year}`,
+    b2b: b2b.sort((a, b) => a.ctin.localeCompare(b.ctin) || a.inum.localeCompare(b.inum, undefined, { numeric: true })),
+    b2cs: Array.from(b2cs.values()),
+    hsn: Array.from(hsn.values()).sort((a, b) => a.hsn.localeCompare(b.hsn)),
+    outward,
+    creditNotes: creditTotals,
+    inputTax,
+    purchaseCount: creditablePurchases.length,
+    invoiceCount: taxable.length,
+    skippedInvoices: inMonth.filter(inv => !isTaxed(inv))
+  };
+};
+
+// dd-mm-yyyy for the JSON, dd-MMM-yyyy for the offline tool's Excel sheets
+const pad = (n: number) => String(n).padStart(2, '0');
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const jsonDate = (date: Date) => `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${date.getFullYear()}`;
+const sheetDate = (date: Date) => `${pad(date.getDate())}-${MONTHS[date.getMonth()]}-${date.getFullYear()}`;
+const sheetPos = (code: string) => `${code}-${getStateName(code)}`;
+
+// Shape accepted by the GSTR-1 offline tool's "Open JSON" import
+export const toGstr1Json = (data: GstReturnData) => {
+  const byCtin = new Map<string, B2bInvoice[]>();
+  data.b2b.forEach(inv => byCtin.set(inv.ctin, [...(byCtin.get(inv.ctin) || []), inv]));
+
+  return {
+    gstin: data.gstin,
+    fp: data.fp,
+    b2b: Array.from(byCtin.entries()).map(([ctin, invs]) => ({
+      ctin,
+      inv: invs.map(inv => ({
+        inum: inv.inum,
+        idt: jsonDate(inv.date),
+        val: inv.val,
+        pos: inv.pos,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: inv.rates.map((r, index) => ({
+          num: index + 1,
+          itm_det: inv.isInterState
+            ? { txval: r.txval, rt: r.rate, iamt: r.iamt, csamt: 0 }
+            : { txval: r.txval, rt: r.rate, camt: r.camt, samt: r.samt, csamt: 0 }
+        }))
+      }))
+    })),
+    b2cs: data.b2cs.map(row => ({
+      sply_ty: row.splyType,
+      pos: row.pos,
+      typ: 'OE',
+      txval: row.txval,
+      rt: row.rate,
+      ...(row.splyType === 'INTER' ? { iamt: row.iamt } : { camt: row.camt, samt: row.samt }),
+      csamt: 0
+    })),
+    hsn: {
+      data: data.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn,
+        desc: row.desc,
+        uqc: row.uqc.split('-')[0],
+        qty: row.qty,
+        rt: row.rate,
+        txval: row.txval,
+        iamt: row.iamt,
+        camt: row.camt,
+        samt: row.samt,
+        csamt: 0
+      }))
+    }
+  };
+};
+
+export const toGstr3bJson = (data: GstReturnData) => {
+  const interUnregistered = new Map<string, { pos: string; txval: number; iamt: number }>();
+  data.b2cs
+    .filter(row => row.splyType === 'INTER')
+    .forEach(row => {
+      const entry = interUnregistered.get(row.pos) || { pos: row.pos, txval: 0, iamt: 0 };
+      entry.txval = roundMoney(entry.txval + row.txval);
+      entry.iamt = roundMoney(entry.iamt + row.iamt);
+      interUnregistered.set(row.pos, entry);
+    });
+
+  const { txval, ...itc } = data.inputTax;
+  const noItc = { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+
+  return {
+    gstin: data.gstin,
+    ret_period: data.fp,
+    sup_details: {
+      osup_det: { ...data.outward, csamt: 0 }
+    },
+    inter_sup: {
+      unreg_details: Array.from(interUnregistered.values())
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: 'IMPG', ...noItc },
+        { ty: 'IMPS', ...noItc },
+        { ty: 'ISRC', ...noItc },
+        { ty: 'ISD', ...noItc },
+        { ty: 'OTH', ...itc, csamt: 0 }
+      ],
+      itc_rev: [
+        { ty: 'RUL', ...noItc },
+        { ty: 'OTH', ...noItc }
+      ],
+      itc_net: { ...itc, csamt: 0 },
+      itc_inelg: [
+        { ty: 'RUL', ...noItc },
+        { ty: 'OTH', ...noItc }
+      ]
+    }
+  };
+};
+
+// Column layouts of the b2b, b2cs and hsn sheets in the offline tool's Excel template
+export const toGstr1Sheets = (data: GstReturnData) => ({
+  b2b: {
+    headers: ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+    rows: data.b2b.flatMap(inv => inv.rates.map(r => [
+      inv.ctin, inv.receiverName, inv.inum, sheetDate(inv.date), inv.val, sheetPos(inv.pos), 'N', '', 'Regular B2B', '', r.rate, r.txval, 0
+    ]))
+  },
+  b2cs: {
+    headers: ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+    rows: data.b2cs.map(row => ['OE', sheetPos(row.pos), '', row.rate, row.txval, 0, ''])
+  },
+  hsn: {
+    headers: ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+    rows: data.hsn.map(row => [
+      row.hsn, row.desc, row.uqc, row.qty, roundMoney(row.txval + row.iamt + row.camt + row.samt), row.rate, row.txval, row.iamt, row.camt, row.samt, 0
+    ])
+  }
+});
@@ -0,0 +1,140 @@
+import { Customer, Invoice, CreditNote, Payment, LedgerEntry } from '../types';
+import { parseBillDate } from './dates';
+import { PAYMENT_MODE_LABELS } from './payments';
+
+export interface CustomerLedger {
+  openingBalance: number; // Balance brought forward into the period
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Positive balances are owed by the customer (Dr), negative are advances (Cr)
+export const formatBalance = (value: number) => {
+  if (value === 0) return '₹0';
+  return `₹${Math.abs(value).toLocaleString('en-IN')} ${value > 0 ? 'Dr' : 'Cr'}`;
+};
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Older bills only carry the copied name/city, so fall back to matching on those
+export const invoiceBelongsToCustomer = (
+  invoice: Pick<Invoice, 'customerId' | 'customerName' | 'customerCity'>,
+  customer: Customer
+): boolean => {
+  if (invoice.customerId) return invoice.customerId === customer.id;
+  return normalise(invoice.customerName) === normalise(customer.name) &&
+    normalise(invoice.customerCity || '') === normalise(customer.city || '');
+};
+
+interface DatedEntry {
+  date: Date;
+  order: number; // Keeps bills ahead of their payments on the same day
+  entry: Omit<LedgerEntry, 'balance'>;
+}
+
+export const buildCustomerLedger = (
+  customer: Customer,
+  invoices: Invoice[],
+  creditNotes: CreditNote[],
+  payments: Payment[],
+  from: Date | null,
+  to: Date | null
+): CustomerLedger => {
+  const allCustomerInvoices = invoices.filter(inv => invoiceBelongsToCustomer(inv, customer));
+  const customerInvoices = allCustomerInvoices.filter(inv => inv.status !== 'cancelled');
+  const invoiceIds = new Set(customerInvoices.map(inv => inv.id));
+  // Money received stays on the account after its bill is cancelled, as an advance
+  const cancelledIds = new Set(allCustomerInvoices.filter(inv => inv.status === 'cancelled').map(inv => inv.id));
+
+  const dated: DatedEntry[] = [];
+
+  customerInvoices.forEach(inv => {
+    const date = parseBillDate(inv.date);
+    if (!date) return;
+    dated.push({
+      date,
+      order: 0,
+      entry: {
+        date: inv.date,
+        type: 'invoice',
+        reference: inv.id,
+        description: `Sales Bill #${inv.id}`,
+        debit: Number(inv.total) || 0,
+        credit: 0
+      }
+    });
+  });
+
+  creditNotes
+    .filter(note => invoiceIds.has(note.invoiceId))
+    .forEach(note => {
+      const date = parseBillDate(note.date);
+      if (!date) return;
+      dated.push({
+        date,
+        order: 1,
+        entry: {
+          date: note.date,
+          type: 'credit_note',
+          reference: note.id,
+          description: `Credit Note against #${note.invoiceId} (${note.reason})`,
+          debit: 0,
+          credit: Number(note.total) || 0
+        }
+      });
+    });
+
+  payments
+    .filter(p => invoiceIds.has(p.invoiceId) || cancelledIds.has(p.invoiceId))
+    .forEach(p => {
+      const date = parseBillDate(p.date);
+      if (!date) return;
+      dated.push({
+        date,
+        order: 2,
+        entry: {
+          date: p.date,
+          type: 'payment',
+          reference: p.reference || '-',
+          description: cancelledIds.has(p.invoiceId)
+            ? `Payment (${PAYMENT_MODE_LABELS[p.mode]}) for cancelled #${p.invoiceId}, held as advance`
+            : `Payment (${PAYMENT_MODE_LABELS[p.mode]}) for #${p.invoiceId}`,
+          debit: 0,
+          credit: Number(p.amount) || 0
+        }
+      });
+    });
+
+  dated.sort((a, b) => a.date.getTime() - b.date.getTime() || a.order - b.order);
+
+  // Everything before the period rolls into the opening balance
+  let openingBalance = customer.openingBalance || 0;
+  const inPeriod: DatedEntry[] = [];
+  dated.forEach(item => {
+    if (from && item.date < from) {
+      openingBalance += item.entry.debit - item.entry.credit;
+    } else if (!to || item.date <= to) {
+      inPeriod.push(item);
+    }
+  });
+
+  let balance = openingBalance;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const entries: LedgerEntry[] = inPeriod.map(({ entry }) => {
+    balance = Math.round((balance + entry.debit - entry.credit) * 100) / 100;
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    return { ...entry, balance };
+  });
+
+  return {
+    openingBalance,
+    entries,
+    totalDebit,
+    totalCredit,
+    closingBalance: balance
+  };
+};
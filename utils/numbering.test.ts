@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessSettings } from '../types';
+import { DEFAULT_BUSINESS_SETTINGS } from '../constants';
+import {
+  advanceInvoiceCounter,
+  formatInvoiceNumber,
+  getFinancialYear,
+  invoiceDocId,
+  peekNextInvoiceNumber,
+  restartsEachYear,
+  validateInvoiceNumberFormat
+} from './numbering';
+
+const settingsWith = (changes: Partial<BusinessSettings>): BusinessSettings => ({ ...DEFAULT_BUSINESS_SETTINGS, ...changes });
+
+describe('getFinancialYear', () => {
+  it.each([
+    [new Date(2026, 3, 1), '2026-27'],
+    [new Date(2027, 2, 31), '2026-27'],
+    [new Date(2026, 2, 31), '2025-26'],
+    [new Date(2099, 11, 31), '2099-00']
+  ])('%s is in %s', (date, expected) => {
+    expect(getFinancialYear(date)).toBe(expected);
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  const date = new Date(2026, 8, 5);
+  it.each([
+    ['{SEQ}', 12, 1, '12'],
+    ['INV/{FY}/{SEQ}', 12, 4, 'INV/2026-27/0012'],
+    ['{FY_SHORT}-{SEQ}', 7, 3, '26-27-007'],
+    ['{YYYY}{MM}-{SEQ}', 123, 2, '202609-123'],
+    ['', 3, 1, '3']
+  ])('%s with %i padded to %i gives %s', (format, sequence, padding, expected) => {
+    expect(formatInvoiceNumber(format, sequence, date, padding)).toBe(expected);
+  });
+});
+
+describe('restartsEachYear', () => {
+  it.each([
+    [{ resetNumberingEachYear: true, invoiceNumberFormat: 'INV/{FY}/{SEQ}' }, true],
+    [{ resetNumberingEachYear: true, invoiceNumberFormat: '{FY_SHORT}{SEQ}' }, true],
+    [{ resetNumberingEachYear: true, invoiceNumberFormat: 'INV-{SEQ}' }, false],
+    [{ resetNumberingEachYear: false, invoiceNumberFormat: 'INV/{FY}/{SEQ}' }, false]
+  ])('%o -> %s', (changes, expected) => {
+    expect(restartsEachYear(settingsWith(changes))).toBe(expected);
+  });
+});
+
+describe('peekNextInvoiceNumber', () => {
+  const yearly = { resetNumberingEachYear: true, invoiceNumberFormat: '{FY}/{SEQ}', invoiceNumberPadding: 3 };
+
+  it.each([
+    ['running number', { nextInvoiceNumber: 41 }, '05/09/2026', '41', 41],
+    ['yearly, counter for the year', { ...yearly, numberingCounters: { '2026-27': 8 } }, '05/09/2026', '2026-27/008', 8],
+    ['yearly, new year starts at 1', { ...yearly, numberingCounters: { '2026-27': 8 } }, '02/04/2027', '2027-28/001', 1],
+    ['yearly, late bill for last year', { ...yearly, numberingCounters: { '2025-26': 90, '2026-27': 8 } }, '31/03/2026', '2025-26/090', 90],
+    ['yearly, older install', { ...yearly, nextInvoiceNumber: 15, numberingFinancialYear: '2026-27' }, '05/09/2026', '2026-27/015', 15],
+    ['yearly, older install in a new year', { ...yearly, nextInvoiceNumber: 15, numberingFinancialYear: '2025-26' }, '05/09/2026', '2026-27/001', 1]
+  ])('%s', (_, changes, billDate, id, sequence) => {
+    expect(peekNextInvoiceNumber(settingsWith(changes), billDate)).toMatchObject({ id, sequence });
+  });
+});
+
+describe('advanceInvoiceCounter', () => {
+  it('moves the running number on', () => {
+    expect(advanceInvoiceCounter(settingsWith({ nextInvoiceNumber: 41 }), { sequence: 41, financialYear: '2026-27' }))
+      .toEqual({ nextInvoiceNumber: 42 });
+  });
+
+  it('moves only the bill year counter when restarting yearly', () => {
+    const settings = settingsWith({
+      resetNumberingEachYear: true,
+      invoiceNumberFormat: '{FY}/{SEQ}',
+      numberingCounters: { '2025-26': 90, '2026-27': 8 }
+    });
+    expect(advanceInvoiceCounter(settings, { sequence: 90, financialYear: '2025-26' }))
+      .toEqual({ numberingCounters: { '2025-26': 91, '2026-27': 8 } });
+  });
+});
+
+describe('validateInvoiceNumberFormat', () => {
+  it.each([
+    ['INV/{FY}/{SEQ}', true, null],
+    ['INV-{SEQ}', false, null],
+    ['INV-{FY}', false, 'The format must contain {SEQ}.'],
+    ['INV-{SEQ}', true, 'Restarting every financial year needs {FY} or {FY_SHORT} in the format.']
+  ])('%s, yearly reset %s', (format, resetEachYear, expected) => {
+    expect(validateInvoiceNumberFormat(format, resetEachYear)).toBe(expected);
+  });
+});
+
+describe('invoiceDocId', () => {
+  it('keeps slashes out of document paths', () => {
+    expect(invoiceDocId('INV/2026-27/0012')).toBe('INV%2F2026-27%2F0012');
+  });
+});
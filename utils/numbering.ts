@@ -0,0 +1,96 @@
+import { BusinessSettings } from '../types';
+import { parseBillDate } from './dates';
+
+export const DEFAULT_INVOICE_NUMBER_FORMAT = '{SEQ}';
+
+export interface AllocatedNumber {
+  id: string; // Formatted bill number, e.g. INV/2026-27/0001
+  sequence: number;
+  financialYear: string;
+}
+
+// Indian financial year runs 1 April to 31 March, labelled e.g. "2026-27"
+export const getFinancialYear = (date: Date): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+};
+
+// Supported tokens: {SEQ}, {FY} (2026-27), {FY_SHORT} (26-27), {YYYY}, {MM}
+export const formatInvoiceNumber = (
+  format: string,
+  sequence: number,
+  date: Date,
+  padding = 1
+): string => {
+  const fy = getFinancialYear(date);
+  return (format || DEFAULT_INVOICE_NUMBER_FORMAT)
+    .replace(/\{SEQ\}/g, String(sequence).padStart(Math.max(1, padding), '0'))
+    .replace(/\{FY\}/g, fy)
+    .replace(/\{FY_SHORT\}/g, fy.slice(2))
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'));
+};
+
+const hasYearToken = (format: string): boolean => /\{FY(_SHORT)?\}/.test(format);
+
+// Numbers restart each April only when the year is part of the number; a format set up
+// before Settings checked this keeps the running number rather than reusing last year's
+export const restartsEachYear = (settings: BusinessSettings): boolean =>
+  !!settings.resetNumberingEachYear && hasYearToken(settings.invoiceNumberFormat || DEFAULT_INVOICE_NUMBER_FORMAT);
+
+// Next {SEQ} for a bill in `financialYear`. With the yearly reset each financial year
+// keeps its own counter, so a late bill for last year never restarts the current one.
+const nextSequence = (settings: BusinessSettings, financialYear: string): number => {
+  if (!restartsEachYear(settings)) return settings.nextInvoiceNumber || 1;
+  const counter = settings.numberingCounters?.[financialYear];
+  if (counter) return counter;
+  // Before per-year counters the running number was kept against numberingFinancialYear
+  return financialYear === settings.numberingFinancialYear ? settings.nextInvoiceNumber || 1 : 1;
+};
+
+// Works out the number the next bill dated `billDate` would get from these settings.
+// Used both for the on-screen preview and inside the allocation transaction.
+export const peekNextInvoiceNumber = (settings: BusinessSettings, billDate: string): AllocatedNumber => {
+  const date = parseBillDate(billDate) || new Date();
+  const financialYear = getFinancialYear(date);
+  const sequence = nextSequence(settings, financialYear);
+
+  return {
+    id: formatInvoiceNumber(settings.invoiceNumberFormat || DEFAULT_INVOICE_NUMBER_FORMAT, sequence, date, settings.invoiceNumberPadding),
+    sequence,
+    financialYear
+  };
+};
+
+// Counter fields to write once `allocated` has been used; merged into the settings doc
+export const advanceInvoiceCounter = (
+  settings: BusinessSettings,
+  allocated: Pick<AllocatedNumber, 'sequence' | 'financialYear'>
+): Partial<BusinessSettings> => restartsEachYear(settings)
+  ? { numberingCounters: { ...settings.numberingCounters, [allocated.financialYear]: allocated.sequence + 1 } }
+  : { nextInvoiceNumber: allocated.sequence + 1 };
+
+// The counter the Settings page shows and edits: this year's when numbering restarts yearly
+export const getEditableInvoiceCounter = (settings: BusinessSettings): number =>
+  nextSequence(settings, getFinancialYear(new Date()));
+
+// Returns why the format cannot be used, or null. Every bill needs {SEQ}, and restarting
+// each year needs the year in the number, or 1 April would reuse last year's bill numbers.
+export const validateInvoiceNumberFormat = (format: string, resetEachYear: boolean): string | null => {
+  if (!format.includes('{SEQ}')) return 'The format must contain {SEQ}.';
+  if (resetEachYear && !hasYearToken(format)) {
+    return 'Restarting every financial year needs {FY} or {FY_SHORT} in the format.';
+  }
+  return null;
+};
+
+// Bill numbers may contain "/" which Firestore treats as a path separator
+export const invoiceDocId = (billNo: string): string => encodeURIComponent(billNo);
+
+// Raised when the allocated number already belongs to a saved document
+export class DuplicateBillNumberError extends Error {
+  constructor(public billNo: string) {
+    super(`Bill No. ${billNo} already exists`);
+    this.name = 'DuplicateBillNumberError';
+  }
+}
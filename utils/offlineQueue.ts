@@ -0,0 +1,69 @@
+import { BusinessSettings, Invoice } from '../types';
+import { peekNextInvoiceNumber, advanceInvoiceCounter, AllocatedNumber } from './numbering';
+import { businessStorageKey } from './business';
+
+// Bills saved while the counter was offline, waiting for a number from the server
+export interface PendingInvoice {
+  invoice: Invoice; // Carries the provisional bill number it was printed with
+  queuedAt: string;
+  lastError?: string;
+}
+
+// Recorded when the server had already given the provisional number to another bill
+export interface SyncConflict {
+  provisionalId: string;
+  finalId: string;
+  customerName: string;
+  syncedAt: string;
+}
+
+const PENDING_KEY = 'billing.pendingInvoices';
+const CONFLICTS_KEY = 'billing.syncConflicts';
+
+const read = <T>(key: string): T[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error(`Could not read ${key} from local storage`, e);
+    return [];
+  }
+};
+
+const write = <T>(key: string, value: T[]) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+// Each business has its own queue, uploaded while that business is open
+export const loadPendingInvoices = (businessId: string) => read<PendingInvoice>(businessStorageKey(PENDING_KEY, businessId));
+export const savePendingInvoices = (businessId: string, pending: PendingInvoice[]) => write(businessStorageKey(PENDING_KEY, businessId), pending);
+
+export const loadSyncConflicts = (businessId: string) => read<SyncConflict>(businessStorageKey(CONFLICTS_KEY, businessId));
+export const saveSyncConflicts = (businessId: string, conflicts: SyncConflict[]) => write(businessStorageKey(CONFLICTS_KEY, businessId), conflicts);
+
+// Continues numbering after bills already waiting in the queue, which the
+// cached settings know nothing about (e.g. after a reload while offline)
+export const peekOfflineInvoiceNumber = (
+  settings: BusinessSettings,
+  billDate: string,
+  pending: PendingInvoice[]
+): AllocatedNumber => {
+  const next = peekNextInvoiceNumber(settings, billDate);
+  const queuedInYear = pending
+    .map(p => p.invoice)
+    .filter(inv => inv.financialYear === next.financialYear && inv.sequence);
+  if (queuedInYear.length === 0) return next;
+
+  const lastQueued = Math.max(...queuedInYear.map(inv => inv.sequence as number));
+  if (lastQueued < next.sequence) return next;
+  return peekNextInvoiceNumber(
+    { ...settings, ...advanceInvoiceCounter(settings, { sequence: lastQueued, financialYear: next.financialYear }) },
+    billDate
+  );
+};
+
+// Network failures, as opposed to rejected writes that would fail again on retry
+export const isOfflineError = (error: unknown): boolean => {
+  const code = (error as { code?: string })?.code;
+  return !navigator.onLine || code === 'unavailable' || code === 'deadline-exceeded';
+};
@@ -0,0 +1,31 @@
+export interface PageSlice<T> {
+  rows: T[];
+  startIndex: number; // Position of the first row in the full list, for serial numbers
+}
+
+interface PaginateOptions {
+  rowsPerPage: number; // Rows that fit on a page that continues onto the next one
+  lastPageRows: number; // Rows that fit above the totals, bank details and signature
+  firstPageReserve?: number; // Rows lost on the first page to blocks printed only there
+}
+
+// Splits table rows across A4 pages. Everything fits on one page when it can;
+// otherwise full pages are filled and at least one row is kept for the last page,
+// so the totals never sit on a page of their own.
+export const paginateRows = <T>(rows: T[], options: PaginateOptions): PageSlice<T>[] => {
+  const { rowsPerPage, lastPageRows, firstPageReserve = 0 } = options;
+  const pages: PageSlice<T>[] = [];
+  let start = 0;
+
+  while (true) {
+    const reserve = pages.length === 0 ? firstPageReserve : 0;
+    const remaining = rows.length - start;
+    if (remaining <= Math.max(1, lastPageRows - reserve)) {
+      pages.push({ rows: rows.slice(start), startIndex: start });
+      return pages;
+    }
+    const take = Math.min(remaining - 1, Math.max(1, rowsPerPage - reserve));
+    pages.push({ rows: rows.slice(start, start + take), startIndex: start });
+    start += take;
+  }
+};
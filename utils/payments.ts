@@ -0,0 +1,21 @@
+import { Invoice, PaymentMode, PaymentStatus } from '../types';
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  bank: 'Bank Transfer'
+};
+
+// Amount the customer still owes after returns and payments
+export const getOutstanding = (invoice: Invoice): number => {
+  if (invoice.status === 'cancelled') return 0;
+  const due = (Number(invoice.total) || 0) - (invoice.creditedAmount || 0) - (invoice.paidAmount || 0);
+  // Guard against float dust from partial payments like 0.1 + 0.2
+  return Math.max(0, Math.round(due * 100) / 100);
+};
+
+export const getPaymentStatus = (invoice: Invoice): PaymentStatus => {
+  if (getOutstanding(invoice) <= 0) return 'paid';
+  return (invoice.paidAmount || 0) > 0 ? 'partial' : 'unpaid';
+};
@@ -0,0 +1,139 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+const A4_WIDTH_PX = 794; // A4 width at 96dpi, same as the on-screen templates
+const MM_TO_PX = 96 / 25.4;
+const RENDER_SCALE = 2;
+const SLIVER_PX = 4; // Rounding leftovers below a sheet that is exactly one A4 high
+
+// Canvas offsets (in rendered pixels) where a page may end without cutting through a line
+const rowBoundaries = (root: HTMLElement) => {
+  const top = root.getBoundingClientRect().top;
+  return Array.from(root.querySelectorAll('tr, .break-inside-avoid'))
+    .map(el => Math.round((el.getBoundingClientRect().bottom - top) * RENDER_SCALE))
+    .sort((a, b) => a - b);
+};
+
+// Adds `canvas` as one or more A4 pages, ending each page at the last row that fits
+// rather than at a fixed height. Falls back to a hard cut for a single row taller than a page.
+const addCanvasPages = (pdf: jsPDF, canvas: HTMLCanvasElement, boundaries: number[], startOnNewPage: boolean) => {
+  const pageHeightPx = Math.floor(canvas.width * A4_HEIGHT_MM / A4_WIDTH_MM);
+  const pageCanvas = document.createElement('canvas');
+  pageCanvas.width = canvas.width;
+  const context = pageCanvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  let newPage = startOnNewPage;
+  for (let offset = 0; canvas.height - offset > SLIVER_PX;) {
+    let end = Math.min(offset + pageHeightPx, canvas.height);
+    if (end < canvas.height) {
+      const rowEnd = boundaries.filter(boundary => boundary > offset && boundary <= end).pop();
+      if (rowEnd) end = rowEnd;
+    }
+    const sliceHeight = end - offset;
+    pageCanvas.height = sliceHeight;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, pageCanvas.width, sliceHeight);
+    context.drawImage(canvas, 0, offset, canvas.width, sliceHeight, 0, 0, canvas.width, sliceHeight);
+
+    if (newPage) pdf.addPage();
+    newPage = true;
+    pdf.addImage(pageCanvas.toDataURL('image/jpeg', 0.95), 'JPEG', 0, 0, A4_WIDTH_MM, sliceHeight * A4_WIDTH_MM / canvas.width);
+    offset = end;
+  }
+};
+
+// e.g. pdfFileName('Bill', 'INV/2026-27/0012', 'Shree Traders') -> "Bill-INV_2026-27_0012-Shree_Traders.pdf"
+export const pdfFileName = (prefix: string, docNo: string, customerName: string) => {
+  const clean = (value: string) => value.trim().replace(/[^a-z0-9-]+/gi, '_').replace(/^_+|_+$/g, '');
+  return `${[prefix, clean(docNo), clean(customerName)].filter(Boolean).join('-')}.pdf`;
+};
+
+// Renders a document (invoice, statement...) into an A4 PDF. Paginated templates are
+// rendered one `.invoice-sheet` per page; anything else is split between table rows.
+// Works on a detached clone so preview scaling does not leak in.
+// With `paperWidthMm` (thermal receipts) it is a single page as long as the document.
+export const renderElementToPdf = async (elementId: string, paperWidthMm?: number): Promise<Blob> => {
+  const element = document.getElementById(elementId);
+  if (!element) throw new Error(`Element #${elementId} not found`);
+  const widthPx = paperWidthMm ? Math.round(paperWidthMm * MM_TO_PX) : A4_WIDTH_PX;
+
+  const container = document.createElement('div');
+  container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${widthPx}px; background: white;`;
+  const clone = element.cloneNode(true) as HTMLElement;
+  clone.removeAttribute('id');
+  clone.style.transform = 'none';
+  clone.style.margin = '0';
+  clone.style.width = `${widthPx}px`;
+  clone.style.minHeight = '0'; // Same as printing: don't pad a short bill onto a blank second page
+  clone.style.height = 'auto';
+  container.appendChild(clone);
+  document.body.appendChild(container);
+
+  try {
+    const options = {
+      scale: RENDER_SCALE,
+      useCORS: true, // Logo and QR images may come from other origins
+      backgroundColor: '#ffffff',
+      windowWidth: widthPx
+    };
+
+    if (paperWidthMm) {
+      const canvas = await html2canvas(clone, options);
+      const heightMm = canvas.height * paperWidthMm / canvas.width;
+      const receipt = new jsPDF({ orientation: heightMm > paperWidthMm ? 'portrait' : 'landscape', unit: 'mm', format: [paperWidthMm, heightMm] });
+      receipt.addImage(canvas.toDataURL('image/jpeg', 0.95), 'JPEG', 0, 0, paperWidthMm, heightMm);
+      return receipt.output('blob');
+    }
+
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const sheets = Array.from(clone.querySelectorAll<HTMLElement>('.invoice-sheet'));
+    const parts = sheets.length > 0 ? sheets : [clone];
+    for (let index = 0; index < parts.length; index++) {
+      const canvas = await html2canvas(parts[index], options);
+      addCanvasPages(pdf, canvas, rowBoundaries(parts[index]), index > 0);
+    }
+
+    return pdf.output('blob');
+  } finally {
+    document.body.removeChild(container);
+  }
+};
+
+export const downloadPdf = async (elementId: string, fileName: string, paperWidthMm?: number) => {
+  const blob = await renderElementToPdf(elementId, paperWidthMm);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Web Share with files is mostly available on phones (Android Chrome, iOS Safari)
+export const canSharePdf = () => {
+  if (typeof navigator.canShare !== 'function') return false;
+  try {
+    return navigator.canShare({ files: [new File([''], 'check.pdf', { type: 'application/pdf' })] });
+  } catch (e) {
+    return false;
+  }
+};
+
+// Opens the share sheet (WhatsApp, mail...) with the PDF attached. Resolves false
+// if the user dismissed the sheet.
+export const sharePdf = async (elementId: string, fileName: string, title: string, text?: string, paperWidthMm?: number): Promise<boolean> => {
+  const blob = await renderElementToPdf(elementId, paperWidthMm);
+  const file = new File([blob], fileName, { type: 'application/pdf' });
+  try {
+    await navigator.share({ files: [file], title, text });
+    return true;
+  } catch (e) {
+    if ((e as DOMException)?.name === 'AbortError') return false;
+    throw e;
+  }
+};
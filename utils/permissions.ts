@@ -0,0 +1,22 @@
+import { AppTab, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  clerk: 'Billing Clerk'
+};
+
+const ROLE_RANK: Record<UserRole, number> = { clerk: 0, manager: 1, owner: 2 };
+
+// True when the role is at least `minimum`, e.g. hasRole('owner', 'manager')
+export const hasRole = (role: UserRole | null, minimum: UserRole): boolean =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+const CLERK_TABS = [AppTab.CREATE_BILL, AppTab.INVOICE_HISTORY];
+
+// Settings hold bank details and bill numbering, so only the owner sees them
+export const canOpenTab = (role: UserRole | null, tab: AppTab): boolean => {
+  if (tab === AppTab.SETTINGS) return hasRole(role, 'owner');
+  if (CLERK_TABS.includes(tab)) return hasRole(role, 'clerk');
+  return hasRole(role, 'manager');
+};
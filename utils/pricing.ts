@@ -0,0 +1,46 @@
+import { PriceList, Product, QuantitySlab } from '../types';
+import { PRICE_LISTS } from '../constants';
+
+export interface ResolvedRate {
+  rate: number;
+  note?: string; // Set when the rate is not the product's own rate
+}
+
+export const getPriceListLabel = (priceList: PriceList = 'retail') =>
+  PRICE_LISTS.find(l => l.value === priceList)?.label || priceList;
+
+// Rate for `quantity` units on the customer's price list. A quantity slab only
+// applies when it is cheaper than the list rate, so volume breaks reach every list.
+export const resolveRate = (product: Product, quantity: number, priceList: PriceList = 'retail'): ResolvedRate => {
+  let resolved: ResolvedRate = { rate: product.rate };
+  const listRate = priceList !== 'retail' ? product.priceListRates?.[priceList] : undefined;
+  if (listRate !== undefined) {
+    resolved = { rate: listRate, note: `${getPriceListLabel(priceList)} rate` };
+  }
+  const slab = (product.quantitySlabs || [])
+    .filter(s => quantity >= s.minQty)
+    .reduce<QuantitySlab | null>((best, s) => (!best || s.minQty > best.minQty ? s : best), null);
+  if (slab && slab.rate < resolved.rate) {
+    resolved = { rate: slab.rate, note: `Rate for ${slab.minQty}+ ${product.unit}` };
+  }
+  return resolved;
+};
+
+// Slabs are typed as "50:95, 100:90" (from 50 units at ₹95, from 100 at ₹90)
+export const parseQuantitySlabs = (value: string): QuantitySlab[] =>
+  value.split(',')
+    .map(part => part.split(':').map(n => parseFloat(n.trim())))
+    .filter(([minQty, rate]) => minQty > 0 && rate >= 0 && !isNaN(rate))
+    .map(([minQty, rate]) => ({ minQty, rate }))
+    .sort((a, b) => a.minQty - b.minQty);
+
+export const formatQuantitySlabs = (slabs: QuantitySlab[] = []): string =>
+  slabs.map(s => `${s.minQty}:${s.rate}`).join(', ');
+
+// Short summary for the product list, e.g. "Wholesale ₹90 · 50+ @ ₹95"
+export const describePricing = (product: Product): string => [
+  ...PRICE_LISTS
+    .filter(l => product.priceListRates?.[l.value] !== undefined)
+    .map(l => `${l.label} ₹${product.priceListRates![l.value]}`),
+  ...(product.quantitySlabs || []).map(s => `${s.minQty}+ @ ₹${s.rate}`)
+].join(' · ');
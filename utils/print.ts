@@ -0,0 +1,75 @@
+// Prints a single on-screen document by cloning it into a temporary container.
+// The print stylesheet in index.html hides everything else on the page.
+// `paperWidthMm` is for roll (thermal) printers: the page becomes that wide and as long as the document.
+export const printElement = (elementId: string, documentTitle: string, paperWidthMm?: number) => {
+  // Save original title and set new title for PDF filename
+  const originalTitle = document.title;
+  document.title = documentTitle;
+
+  // Create a temporary container for printing
+  const printContainer = document.createElement('div');
+  printContainer.id = 'print-only-container';
+  printContainer.className = 'print-only-container';
+  // Ensure immediate visibility for mobile browsers - use height: auto to prevent blank second page
+  printContainer.style.cssText = 'display: block !important; visibility: visible !important; position: static; width: 100%; height: auto; min-height: 0; background: white; z-index: 99999;';
+  document.body.appendChild(printContainer);
+
+  // Clone the document and render it in the print container
+  const element = document.getElementById(elementId);
+  if (element) {
+    const clone = element.cloneNode(true) as HTMLElement;
+    clone.style.transform = 'none';
+    clone.style.margin = '0';
+    clone.style.padding = '0'; // Use internal padding from template
+    clone.style.width = paperWidthMm ? `${paperWidthMm}mm` : '794px'; // A4 width in pixels at 96dpi
+    clone.style.maxWidth = '100%';
+    clone.style.boxSizing = 'border-box';
+    clone.style.visibility = 'visible';
+    clone.style.display = 'block';
+    clone.style.background = 'white';
+    clone.style.minHeight = '0'; // Override min-h-[297mm] to prevent blank second page
+    clone.style.height = 'auto';
+    printContainer.appendChild(clone);
+  }
+
+  // Overrides the A4 @page rule in index.html while this print is open
+  let pageStyle: HTMLStyleElement | null = null;
+  if (paperWidthMm && element) {
+    const heightMm = Math.ceil(element.offsetHeight * 25.4 / 96) + 5;
+    pageStyle = document.createElement('style');
+    pageStyle.textContent = `@page { size: ${paperWidthMm}mm ${heightMm}mm; margin: 0; }`;
+    document.head.appendChild(pageStyle);
+  }
+
+  // Use requestAnimationFrame to ensure DOM is painted before printing
+  // This is more reliable on mobile browsers than setTimeout
+  requestAnimationFrame(() => {
+    requestAnimationFrame(() => {
+      // Double RAF ensures the browser has painted the content
+      window.print();
+
+      // Clean up after print dialog closes
+      // Use a longer delay for mobile browsers which may take longer to close print dialog
+      const cleanup = () => {
+        if (document.body.contains(printContainer)) {
+          document.body.removeChild(printContainer);
+        }
+        if (pageStyle && document.head.contains(pageStyle)) {
+          document.head.removeChild(pageStyle);
+        }
+        // Restore original title
+        document.title = originalTitle;
+      };
+
+      // Try to detect when print dialog closes using focus event (works on some browsers)
+      const handleFocus = () => {
+        setTimeout(cleanup, 500);
+        window.removeEventListener('focus', handleFocus);
+      };
+      window.addEventListener('focus', handleFocus);
+
+      // Fallback cleanup after a longer delay for mobile
+      setTimeout(cleanup, 3000);
+    });
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQr, getNumDataCodewords, QrErrorCorrection } from './qrcode';
+
+describe('getNumDataCodewords', () => {
+  // Data capacities from ISO/IEC 18004 table 7
+  it.each([
+    [1, 'L', 19],
+    [1, 'M', 16],
+    [1, 'Q', 13],
+    [1, 'H', 9],
+    [10, 'M', 216],
+    [40, 'L', 2956],
+    [40, 'H', 1276]
+  ] as [number, QrErrorCorrection, number][])('version %i at %s holds %i codewords', (version, ecl, expected) => {
+    expect(getNumDataCodewords(version, ecl)).toBe(expected);
+  });
+});
+
+describe('encodeQr', () => {
+  // Byte mode capacities: version 1 holds 14 bytes at M and 17 at L
+  it.each([
+    [14, 'M', 21],
+    [15, 'M', 25],
+    [17, 'L', 21],
+    [18, 'L', 25]
+  ] as [number, QrErrorCorrection, number][])('fits %i bytes at %s in %i modules', (length, ecl, size) => {
+    const modules = encodeQr('A'.repeat(length), ecl);
+    expect(modules).toHaveLength(size);
+    modules.forEach(row => expect(row).toHaveLength(size));
+  });
+
+  it('fits a UPI payment link in version 5', () => {
+    expect(encodeQr('upi://pay?pa=shree@upi&pn=Shree%20Traders&am=1770.00&tr=INV2026270012&cu=INR', 'M')).toHaveLength(37);
+  });
+
+  it('draws the finder and timing patterns', () => {
+    const modules = encodeQr('INV/2026-27/0012');
+    const size = modules.length;
+    // Finder corners are dark with a light ring inside, and a dark 3x3 centre
+    [[0, 0], [0, size - 7], [size - 7, 0]].forEach(([top, left]) => {
+      expect(modules[top][left]).toBe(true);
+      expect(modules[top + 6][left + 6]).toBe(true);
+      expect(modules[top + 1][left + 1]).toBe(false);
+      expect(modules[top + 3][left + 3]).toBe(true);
+    });
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it('gives the same symbol for the same text', () => {
+    expect(encodeQr('upi://pay?pa=shree@upi', 'Q')).toEqual(encodeQr('upi://pay?pa=shree@upi', 'Q'));
+  });
+
+  it('throws when the text cannot fit', () => {
+    expect(() => encodeQr('x'.repeat(3000), 'L')).toThrow('Text too long for a QR code');
+  });
+});
@@ -0,0 +1,15 @@
+import { Quotation, QuotationStatus } from '../types';
+import { parseBillDate } from './dates';
+
+export const DEFAULT_QUOTATION_VALIDITY_DAYS = 15;
+
+// Draft and sent quotations lapse on their own once the validity date has passed
+export const getQuotationStatus = (quotation: Quotation, today: Date = new Date()): QuotationStatus => {
+  if (quotation.status === 'draft' || quotation.status === 'sent') {
+    const validUntil = parseBillDate(quotation.validUntil);
+    const startOfToday = new Date(today);
+    startOfToday.setHours(0, 0, 0, 0);
+    if (validUntil && validUntil < startOfToday) return 'expired';
+  }
+  return quotation.status;
+};
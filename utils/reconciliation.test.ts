@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Invoice, Payment } from '../types';
+import { parseCsv, parseStatementCsv, parseStatementDate, StatementCredit, suggestMatches } from './reconciliation';
+
+describe('parseCsv', () => {
+  it('reads quoted commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,"two\nlines",3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3']
+    ]);
+  });
+});
+
+describe('parseStatementDate', () => {
+  it.each([
+    ['05/03/2026', '05/03/2026'],
+    ['05-03-26', '05/03/2026'],
+    ['05-Mar-2026', '05/03/2026'],
+    ['5 March 2026 14:02', '05/03/2026'],
+    ['2026-03-05T10:15:00', '05/03/2026'],
+    ['32/01/2026', null],
+    ['Opening Balance', null]
+  ])('%s -> %s', (value, expected) => {
+    expect(parseStatementDate(value)).toBe(expected);
+  });
+});
+
+describe('parseStatementCsv', () => {
+  it('finds the table under the account details and keeps only money in', () => {
+    const csv = [
+      'Account No,XXXX1234',
+      'Statement From,01/09/2026 to 30/09/2026',
+      'Txn Date,Value Date,Description,Ref No./Cheque No.,Debit,Credit,Balance',
+      '05/09/2026,05/09/2026,UPI/HOTEL SAGAR/INV/2026/0012,612345678901,,"1,770.00","11,770.00"',
+      '06/09/2026,06/09/2026,NEFT-RENT,N123,"5,000.00",,"6,770.00"',
+      '07/09/2026,07/09/2026,CASH DEPOSIT,,,500.00,"7,270.00"',
+      'Total,,,,"5,000.00","2,270.00",'
+    ].join('\n');
+    expect(parseStatementCsv(csv)).toEqual([
+      { row: 4, date: '05/09/2026', amount: 1770, description: 'UPI/HOTEL SAGAR/INV/2026/0012', reference: '612345678901', mode: 'upi' },
+      { row: 6, date: '07/09/2026', amount: 500, description: 'CASH DEPOSIT', reference: '', mode: 'bank' }
+    ]);
+  });
+
+  it('skips failed settlements and debit rows of a single amount column', () => {
+    const csv = [
+      'Date,Amount,Dr/Cr,Status,UTR,Payer VPA',
+      '05/09/2026,250.00,CR,SUCCESS,UTR1,ram@upi',
+      '05/09/2026,300.00,CR,FAILED,UTR2,shyam@upi',
+      '06/09/2026,120.00,DR,SUCCESS,UTR3,refund@upi'
+    ].join('\n');
+    expect(parseStatementCsv(csv).map(c => [c.amount, c.reference, c.mode])).toEqual([[250, 'UTR1', 'upi']]);
+  });
+});
+
+const bill = (id: string, date: string, total: number, changes: Partial<Invoice> = {}): Invoice => ({
+  id,
+  date,
+  customerName: 'Customer',
+  customerCity: 'Pune',
+  items: [],
+  total,
+  ...changes
+});
+
+const credit = (row: number, date: string, amount: number, description = '', reference = ''): StatementCredit => ({
+  row,
+  date,
+  amount,
+  description,
+  reference,
+  mode: 'bank'
+});
+
+const payment = (invoiceId: string, date: string, amount: number, reference?: string): Payment => ({
+  id: `${invoiceId}-${date}`,
+  invoiceId,
+  date,
+  amount,
+  mode: 'cash',
+  reference,
+  createdAt: ''
+});
+
+describe('suggestMatches', () => {
+  const invoices = [
+    bill('INV/2026/0012', '01/09/2026', 1770),
+    bill('INV/2026/0013', '02/09/2026', 500),
+    bill('INV/2026/0014', '03/09/2026', 500),
+    bill('12', '01/09/2026', 900)
+  ];
+
+  it.each([
+    ['bill number and exact amount', credit(1, '05/09/2026', 1770, 'UPI/INV/2026/0012'), 'INV/2026/0012', 'high'],
+    ['compact bill number as the UPI reference', credit(1, '05/09/2026', 1000, 'UPI-INV20260012-SAGAR'), 'INV/2026/0012', 'high'],
+    ['amount matching two bills, nearest date', credit(1, '04/09/2026', 500, 'NEFT'), 'INV/2026/0014', 'low'],
+    ['amount matching one bill', credit(1, '05/09/2026', 900, 'NEFT'), '12', 'medium'],
+    ['short bill number inside a UTR', credit(1, '05/09/2026', 123, 'NEFT 5512399'), undefined, undefined],
+    ['amount paid before the bill date', credit(1, '01/09/2026', 500, 'NEFT'), undefined, undefined]
+  ])('%s', (_, statementCredit, invoiceId, confidence) => {
+    const [match] = suggestMatches([statementCredit], invoices, []);
+    expect(match.invoiceId).toBe(invoiceId);
+    expect(match.confidence).toBe(confidence);
+  });
+
+  it('leaves a credit larger than the amount due unmatched', () => {
+    const [match] = suggestMatches([credit(1, '05/09/2026', 2000, 'INV/2026/0012')], invoices, []);
+    expect(match.invoiceId).toBeUndefined();
+  });
+
+  it('uses up what is due so two credits are not put against one bill', () => {
+    const matches = suggestMatches([
+      credit(1, '05/09/2026', 1000, 'INV/2026/0012'),
+      credit(2, '06/09/2026', 1000, 'INV/2026/0012')
+    ], invoices, []);
+    expect(matches.map(m => m.invoiceId)).toEqual(['INV/2026/0012', undefined]);
+  });
+
+  it.each([
+    ['the same reference', [payment('INV/2026/0013', '01/09/2026', 1, 'UTR99')], credit(1, '05/09/2026', 1770, 'INV/2026/0012', 'utr99'), true],
+    ['the same date, amount and bill', [payment('INV/2026/0012', '05/09/2026', 770)], credit(1, '05/09/2026', 770, 'INV/2026/0012'), true],
+    ['the same date and amount', [payment('INV/2026/0013', '05/09/2026', 500)], credit(1, '05/09/2026', 500, 'NEFT'), true],
+    ['another date', [payment('INV/2026/0012', '04/09/2026', 770)], credit(1, '05/09/2026', 770, 'INV/2026/0012'), false]
+  ])('spots a payment already recorded with %s', (_, payments, statementCredit, recorded) => {
+    const [match] = suggestMatches([statementCredit], invoices, payments);
+    expect(match.alreadyRecorded).toBe(recorded);
+  });
+
+  it('lets one recorded payment account for one credit only', () => {
+    const matches = suggestMatches([
+      credit(1, '05/09/2026', 500, 'NEFT'),
+      credit(2, '05/09/2026', 500, 'NEFT')
+    ], invoices, [payment('INV/2026/0013', '05/09/2026', 500)]);
+    expect(matches.map(m => m.alreadyRecorded)).toEqual([true, false]);
+    expect(matches[1].invoiceId).toBe('INV/2026/0014');
+  });
+});
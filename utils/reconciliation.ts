@@ -0,0 +1,279 @@
+import { Invoice, Payment, PaymentMode } from '../types';
+import { parseBillDate, formatBillDate } from './dates';
+import { getOutstanding } from './payments';
+import { roundMoney } from './gst';
+import { getUpiReference } from './upi';
+
+// One money-in line from a bank statement or UPI settlement report
+export interface StatementCredit {
+  row: number; // Line in the file, for the staff to cross-check
+  date: string; // DD/MM/YYYY
+  amount: number;
+  description: string; // Narration / remarks, where UPI apps put the bill note
+  reference: string; // UTR, RRN or transaction id; blank if the file has none
+  mode: PaymentMode;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+export interface SuggestedMatch {
+  credit: StatementCredit;
+  invoiceId?: string; // Best open bill; missing when nothing fits
+  confidence?: MatchConfidence;
+  reason?: string;
+  alreadyRecorded: boolean; // A payment with this reference, or of this amount on this date, is on file
+}
+
+// --- CSV reading ---
+
+// RFC 4180 CSV: quoted cells may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(c => c.trim()));
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Statement dates come as 05/03/2026, 05-03-26, 05-Mar-2026, 05 Mar 2026 or 2026-03-05, often with a time
+export const parseStatementDate = (value: string): string | null => {
+  const text = value.trim().toLowerCase();
+  let day: number, month: number, year: number;
+  let m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) {
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = text.match(/^(\d{1,2})[/\-. ](\d{1,2})[/\-. ](\d{2}|\d{4})\b/))) {
+    [day, month, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = text.match(/^(\d{1,2})[/\-. ]([a-z]{3})[a-z]*[/\-., ]+(\d{2}|\d{4})\b/))) {
+    [day, month, year] = [Number(m[1]), MONTHS.indexOf(m[2]) + 1, Number(m[3])];
+  } else {
+    return null;
+  }
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return formatBillDate(new Date(year, month - 1, day));
+};
+
+// "₹1,23,456.50", "1234.50 Cr", "(500.00)"; blank or unreadable cells give null
+const parseAmount = (value: string): number | null => {
+  const text = value.replace(/[₹,\s]|INR|Rs\.?|Cr$|Dr$/gi, '');
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const amount = Number(text.replace(/[()\-]/g, ''));
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+interface StatementColumns {
+  date: number;
+  credit: number; // A credit/deposit column, or a signed amount column
+  type: number; // Dr/Cr indicator next to a single amount column; -1 if none
+  status: number; // Settlement reports list failed transactions too; -1 if none
+  reference: number;
+  description: number[];
+  isUpi: boolean; // UPI settlement reports name a UPI or VPA column
+}
+
+const findColumns = (header: string[]): StatementColumns | null => {
+  const names = header.map(h => h.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim());
+  const find = (pattern: RegExp, exclude?: RegExp) => names.findIndex(n => pattern.test(n) && !(exclude && exclude.test(n)));
+
+  // Transaction date over value date
+  const date = find(/date/, /value/) >= 0 ? find(/date/, /value/) : find(/date/);
+  const credit = find(/credit|deposit|\bcr\b/, /debit|\bdr\b|date|type/);
+  const debit = find(/debit|withdraw|\bdr\b/, /credit|\bcr\b|date|type/);
+  const amount = find(/amount|\bamt\b/, /debit|withdraw|balance|fee|charge/);
+  if (date < 0 || (credit < 0 && amount < 0)) return null;
+
+  // The UTR is what the bank quotes back; settlement reports also carry the app's own transaction id
+  const utr = find(/utr|rrn/);
+  const reference = utr >= 0 ? utr : find(/ref|txn id|transaction id|cheque|chq/, /date|amount/);
+  const used = [date, credit, debit, amount, reference];
+  return {
+    date,
+    credit: credit >= 0 ? credit : amount,
+    type: credit >= 0 ? -1 : find(/^(dr cr|cr dr|type|txn type|transaction type|debit credit|credit debit)$/),
+    status: find(/status/),
+    reference,
+    description: names
+      .map((n, i) => (/narration|description|particular|remark|note|detail|order|info/.test(n) && !used.includes(i) ? i : -1))
+      .filter(i => i >= 0),
+    isUpi: names.some(n => /\bupi\b|\bvpa\b/.test(n))
+  };
+};
+
+// Money-in lines of a bank statement or UPI settlement CSV. Banks put a few lines of account
+// details above the table, so the header is the first row that names a date and an amount column.
+export const parseStatementCsv = (text: string): StatementCredit[] => {
+  const rows = parseCsv(text.replace(/^﻿/, ''));
+  const headerIndex = rows.findIndex(r => findColumns(r) !== null);
+  if (headerIndex < 0) return [];
+  const cols = findColumns(rows[headerIndex])!;
+
+  const credits: StatementCredit[] = [];
+  rows.slice(headerIndex + 1).forEach((r, i) => {
+    const date = parseStatementDate(r[cols.date] || '');
+    let amount = parseAmount(r[cols.credit] || '');
+    if (!date || amount === null) return; // Totals, blank and opening-balance lines
+    if (cols.type >= 0 && /^d/i.test(r[cols.type] || '')) return;
+    if (cols.status >= 0 && /fail|pending|reject|revers|refund/i.test(r[cols.status] || '')) return;
+    if (amount <= 0) return;
+    amount = roundMoney(amount);
+
+    const description = cols.description.map(c => r[c]).filter(Boolean).join(' · ');
+    const reference = cols.reference >= 0 ? r[cols.reference] || '' : '';
+    credits.push({
+      row: headerIndex + i + 2,
+      date,
+      amount,
+      description,
+      reference,
+      mode: cols.isUpi || /upi/i.test(`${description} ${reference}`) || /@/.test(description) ? 'upi' : 'bank'
+    });
+  });
+  return credits;
+};
+
+// --- Matching ---
+
+const tokens = (value: string): string[] => value.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+
+// The bill number appears in the narration either as the UPI tr reference (INV2024001)
+// or as written in the note (Bill INV/2024/001), which banks split on the slashes
+const mentionsBill = (text: string, billNo: string): boolean => {
+  const words = tokens(text);
+  const billWords = tokens(billNo);
+  if (billWords.length === 0) return false;
+  const compact = getUpiReference(billNo).toUpperCase();
+  // Short all-digit bill numbers (e.g. "12") turn up inside UTRs and amounts, so need the whole word
+  if (compact.length >= 4 && !/^\d+$/.test(compact) && words.some(w => w === compact || w.endsWith(compact))) return true;
+  for (let i = 0; i + billWords.length <= words.length; i++) {
+    if (billWords.every((w, j) => words[i + j] === w)) return true;
+  }
+  return false;
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const a = parseBillDate(from);
+  const b = parseBillDate(to);
+  if (!a || !b) return Infinity;
+  return Math.round((b.getTime() - a.getTime()) / 86400000);
+};
+
+// Suggests an open bill for each credit. A bill-number reference in the narration wins;
+// otherwise a credit equal to a bill's outstanding amount, on or after its date, nearest first.
+// Each bill's outstanding is used up as it is matched so two credits are not both put against it,
+// and a credit larger than what is due is left for the staff to split by hand.
+// Payments typed in without a reference are recognised by date, amount and the bill named in the
+// narration (date and amount alone when it names none). Each recorded payment accounts for one
+// credit only, so two equal credits on a day are not both dropped.
+export const suggestMatches = (credits: StatementCredit[], invoices: Invoice[], payments: Payment[]): SuggestedMatch[] => {
+  const recordedRefs = new Set(payments.map(p => (p.reference || '').trim().toUpperCase()).filter(Boolean));
+  const unclaimed = payments.filter(p => !(p.reference || '').trim());
+  const claimRecorded = (credit: StatementCredit, invoiceIds?: string[]): boolean => {
+    const index = unclaimed.findIndex(p => p.date === credit.date && Math.abs(p.amount - credit.amount) < 0.01
+      && (!invoiceIds || invoiceIds.includes(p.invoiceId)));
+    if (index < 0) return false;
+    unclaimed.splice(index, 1);
+    return true;
+  };
+  const remaining = new Map<string, number>();
+  invoices.forEach(inv => {
+    const outstanding = getOutstanding(inv);
+    if (outstanding > 0) remaining.set(inv.id, outstanding);
+  });
+  const open = invoices.filter(inv => remaining.has(inv.id));
+
+  const matches: SuggestedMatch[] = credits.map(credit => ({
+    credit,
+    alreadyRecorded: !!credit.reference && recordedRefs.has(credit.reference.trim().toUpperCase())
+  }));
+  const use = (match: SuggestedMatch, invoiceId: string, confidence: MatchConfidence, reason: string) => {
+    match.invoiceId = invoiceId;
+    match.confidence = confidence;
+    match.reason = reason;
+    remaining.set(invoiceId, Math.max(0, (remaining.get(invoiceId) || 0) - match.credit.amount));
+  };
+
+  // Pass 1: bill number quoted in the payment
+  matches.forEach(match => {
+    if (match.alreadyRecorded) return;
+    const text = `${match.credit.description} ${match.credit.reference}`;
+    const mentioned = invoices.filter(inv => mentionsBill(text, inv.id)).map(inv => inv.id);
+    if (mentioned.length > 0 && claimRecorded(match.credit, mentioned)) {
+      match.alreadyRecorded = true;
+      return;
+    }
+    const quoted = open.filter(inv => mentionsBill(text, inv.id) && (remaining.get(inv.id) || 0) > 0);
+    // A longer bill number beats one it contains, e.g. INV-12 over 12
+    const best = quoted.sort((a, b) => b.id.length - a.id.length)[0];
+    if (!best) return;
+    const due = remaining.get(best.id) || 0;
+    if (match.credit.amount > due + 0.005) return; // Recording it would overpay the bill
+    const exact = Math.abs(due - match.credit.amount) < 0.01;
+    use(match, best.id, 'high', `Bill No. in payment note${exact ? ', amount matches' : ', part payment'}`);
+  });
+
+  // Pass 2: amount equal to what is due, paid on or after the bill date
+  matches.forEach(match => {
+    if (match.alreadyRecorded || match.invoiceId) return;
+    if (claimRecorded(match.credit)) {
+      match.alreadyRecorded = true;
+      return;
+    }
+    const candidates = open
+      .filter(inv => Math.abs((remaining.get(inv.id) || 0) - match.credit.amount) < 0.01)
+      .map(inv => ({ inv, days: daysBetween(inv.date, match.credit.date) }))
+      .filter(c => c.days >= 0)
+      .sort((a, b) => a.days - b.days);
+    if (candidates.length === 0) return;
+    const { inv, days } = candidates[0];
+    const reason = candidates.length === 1
+      ? `Amount matches, ${days} day${days === 1 ? '' : 's'} after the bill`
+      : `Amount matches ${candidates.length} bills; nearest date picked`;
+    use(match, inv.id, candidates.length === 1 && days <= 30 ? 'medium' : 'low', reason);
+  });
+
+  return matches;
+};
+
+// Raised when a matched bill no longer has enough outstanding for the credits put against it,
+// e.g. a payment was recorded on another counter after the statement was loaded
+export class OutstandingChangedError extends Error {
+  constructor(public billNos: string[]) {
+    super(`Outstanding changed on bill ${billNos.join(', ')}`);
+    this.name = 'OutstandingChangedError';
+  }
+}
@@ -0,0 +1,25 @@
+import { RecurringFrequency } from '../types';
+import { parseBillDate, formatBillDate, addDaysToBillDate } from './dates';
+
+// Month arithmetic that keeps the anchor day, clamped to short months (31 Jan -> 28 Feb -> 31 Mar)
+const addMonths = (date: Date, months: number, anchorDay: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(anchorDay, lastDay));
+  return result;
+};
+
+// Run date following `runDate`; `startDate` fixes the day of the month for monthly and quarterly profiles
+export const getNextRunDate = (runDate: string, frequency: RecurringFrequency, startDate: string = runDate): string => {
+  if (frequency === 'weekly') return addDaysToBillDate(runDate, 7);
+  const date = parseBillDate(runDate) || new Date();
+  const anchorDay = (parseBillDate(startDate) || date).getDate();
+  return formatBillDate(addMonths(date, frequency === 'monthly' ? 1 : 3, anchorDay));
+};
+
+export const isRunDue = (runDate: string, today: Date = new Date()): boolean => {
+  const date = parseBillDate(runDate);
+  const startOfToday = new Date(today);
+  startOfToday.setHours(0, 0, 0, 0);
+  return !!date && date <= startOfToday;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryChallan, InvoiceItem, SalesOrder } from '../types';
+import { getOrderProgress, isOrderFullyDispatched, mergeChallanItems } from './salesOrders';
+
+const line = (id: string, quantity: number, rate = 50): InvoiceItem => ({
+  id,
+  productId: `p-${id}`,
+  name: `Item ${id}`,
+  quantity,
+  unit: 'kg',
+  rate,
+  amount: quantity * rate
+});
+
+const order: SalesOrder = {
+  id: 'SO-1',
+  date: '01/09/2026',
+  customerName: 'Hotel Sagar',
+  customerCity: 'Pune',
+  items: [line('a', 10), line('b', 4)],
+  total: 700,
+  status: 'open',
+  createdAt: ''
+};
+
+const challan = (id: string, items: InvoiceItem[], changes: Partial<DeliveryChallan> = {}): DeliveryChallan => ({
+  id,
+  orderId: 'SO-1',
+  date: '05/09/2026',
+  customerName: 'Hotel Sagar',
+  customerCity: 'Pune',
+  items,
+  createdAt: '',
+  ...changes
+});
+
+describe('getOrderProgress', () => {
+  it.each([
+    ['nothing dispatched', [], [[10, 0, 0, 10], [4, 0, 0, 4]], false],
+    ['part dispatched, part billed', [
+      challan('DC-1', [line('a', 6)], { invoiceId: 'INV-1' }),
+      challan('DC-2', [line('a', 2), line('b', 4)])
+    ], [[10, 8, 6, 2], [4, 4, 0, 0]], false],
+    ['over-dispatched line', [challan('DC-1', [line('a', 12), line('b', 4)])], [[10, 12, 0, 0], [4, 4, 0, 0]], true],
+    ['challans of another order ignored', [challan('DC-9', [line('a', 10)], { orderId: 'SO-2' })], [[10, 0, 0, 10], [4, 0, 0, 4]], false]
+  ] as [string, DeliveryChallan[], number[][], boolean][])('%s', (_, challans, expected, complete) => {
+    const progress = getOrderProgress(order, challans);
+    expect(progress.map(p => [p.ordered, p.dispatched, p.invoiced, p.pending])).toEqual(expected);
+    expect(isOrderFullyDispatched(progress)).toBe(complete);
+  });
+});
+
+describe('mergeChallanItems', () => {
+  it('combines dispatches of the same order line at the same rate', () => {
+    const merged = mergeChallanItems([
+      challan('DC-1', [line('a', 6), line('b', 1)]),
+      challan('DC-2', [line('a', 2.5), line('b', 1, 55)])
+    ]);
+    expect(merged.map(item => [item.id, item.quantity, item.rate, item.amount])).toEqual([
+      ['a', 8.5, 50, 425],
+      ['b', 1, 50, 50],
+      ['b', 1, 55, 55]
+    ]);
+  });
+
+  it('leaves the challans untouched', () => {
+    const first = challan('DC-1', [line('a', 6)]);
+    mergeChallanItems([first, challan('DC-2', [line('a', 2)])]);
+    expect(first.items[0].quantity).toBe(6);
+  });
+});
@@ -0,0 +1,52 @@
+import { DeliveryChallan, InvoiceItem, SalesOrder } from '../types';
+import { roundMoney } from './gst';
+
+export interface OrderLineProgress {
+  line: InvoiceItem;
+  ordered: number;
+  dispatched: number;
+  invoiced: number;
+  pending: number; // Still to be dispatched
+}
+
+// Challan lines carry the id of the order line they dispatch
+const quantityByLine = (challans: DeliveryChallan[]) => {
+  const quantities = new Map<string, number>();
+  challans.forEach(challan => challan.items.forEach(item => {
+    quantities.set(item.id, (quantities.get(item.id) || 0) + item.quantity);
+  }));
+  return quantities;
+};
+
+export const getOrderProgress = (order: SalesOrder, challans: DeliveryChallan[]): OrderLineProgress[] => {
+  const orderChallans = challans.filter(c => c.orderId === order.id);
+  const dispatched = quantityByLine(orderChallans);
+  const invoiced = quantityByLine(orderChallans.filter(c => c.invoiceId));
+  return order.items.map(line => {
+    const lineDispatched = dispatched.get(line.id) || 0;
+    return {
+      line,
+      ordered: line.quantity,
+      dispatched: lineDispatched,
+      invoiced: invoiced.get(line.id) || 0,
+      pending: Math.max(0, line.quantity - lineDispatched)
+    };
+  });
+};
+
+export const isOrderFullyDispatched = (progress: OrderLineProgress[]) => progress.every(p => p.pending === 0);
+
+// Bill lines for a set of challans: dispatches of the same order line at the same rate are combined
+export const mergeChallanItems = (challans: DeliveryChallan[]): InvoiceItem[] => {
+  const merged: InvoiceItem[] = [];
+  challans.forEach(challan => challan.items.forEach(item => {
+    const existing = merged.find(m => m.id === item.id && m.rate === item.rate);
+    if (existing) {
+      existing.quantity += item.quantity;
+      existing.amount = roundMoney(existing.quantity * existing.rate);
+    } else {
+      merged.push({ ...item });
+    }
+  }));
+  return merged;
+};
@@ -0,0 +1,99 @@
+import { CreditNote, Invoice, InvoiceItem, Product, StockEntry, StockEntryType } from '../types';
+
+// A product is only stock-tracked once it has been given a stock level
+export const isStockTracked = (product?: Product): product is Product & { stock: number } =>
+  !!product && typeof product.stock === 'number';
+
+export const isLowStock = (product: Product) =>
+  isStockTracked(product) && product.reorderLevel !== undefined && product.stock <= product.reorderLevel;
+
+// Total quantity per product, since the same product can appear on several lines at different rates
+export const getItemQuantities = (items: InvoiceItem[]) => {
+  const quantities = new Map<string, number>();
+  items.forEach(item => {
+    if (!item.productId) return;
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  });
+  return quantities;
+};
+
+// Quantity credited back per bill line. Bills keep the count themselves once a credit note
+// has been checked against them on the server; older ones are summed from their notes.
+export const getReturnedQuantities = (
+  invoice: Pick<Invoice, 'id' | 'returnedQuantities'>,
+  creditNotes: CreditNote[]
+): Record<string, number> => {
+  if (invoice.returnedQuantities) return invoice.returnedQuantities;
+  const returned: Record<string, number> = {};
+  creditNotes
+    .filter(note => note.invoiceId === invoice.id)
+    .forEach(note => note.items.forEach(item => {
+      returned[item.id] = (returned[item.id] || 0) + item.quantity;
+    }));
+  return returned;
+};
+
+// Change in stock when a bill's items go from `before` to `after` (negative means stock goes out)
+export const getStockChanges = (before: InvoiceItem[], after: InvoiceItem[]) => {
+  const changes = new Map<string, number>();
+  getItemQuantities(before).forEach((qty, productId) => changes.set(productId, qty));
+  getItemQuantities(after).forEach((qty, productId) => changes.set(productId, (changes.get(productId) || 0) - qty));
+  changes.forEach((delta, productId) => {
+    if (delta === 0) changes.delete(productId);
+  });
+  return changes;
+};
+
+// Ledger entries for the tracked products among `changes`; untracked products are left
+// alone unless `startTracking` is set (stock received from a purchase)
+export const buildStockEntries = (
+  changes: Map<string, number>,
+  products: Product[],
+  details: { date: string; type: StockEntryType; reference?: string; note?: string; startTracking?: boolean }
+): Omit<StockEntry, 'id'>[] => {
+  const createdAt = new Date().toISOString();
+  const entries: Omit<StockEntry, 'id'>[] = [];
+  changes.forEach((quantity, productId) => {
+    const product = products.find(p => p.id === productId);
+    if (!product || (!details.startTracking && !isStockTracked(product))) return;
+    entries.push({
+      productId,
+      productName: product.name,
+      date: details.date,
+      type: details.type,
+      quantity,
+      reference: details.reference,
+      note: details.note,
+      createdAt
+    });
+  });
+  return entries;
+};
+
+export interface StockShortfall {
+  productId: string;
+  name: string;
+  unit: string;
+  available: number;
+  required: number;
+}
+
+// Products a bill would take below zero. `alreadyDeducted` are the items of the saved
+// bill being amended, whose stock has been taken out once already.
+export const getStockShortfalls = (
+  items: InvoiceItem[],
+  products: Product[],
+  alreadyDeducted: InvoiceItem[] = []
+): StockShortfall[] => {
+  const deducted = getItemQuantities(alreadyDeducted);
+  const shortfalls: StockShortfall[] = [];
+  getItemQuantities(items).forEach((required, productId) => {
+    const product = products.find(p => p.id === productId);
+    if (!isStockTracked(product)) return;
+    const available = product.stock + (deducted.get(productId) || 0);
+    if (required > available) {
+      shortfalls.push({ productId, name: product.name, unit: product.unit, available, required });
+    }
+  });
+  return shortfalls;
+};
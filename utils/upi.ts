@@ -0,0 +1,52 @@
+import { BusinessSettings } from '../types';
+
+// UPI deep link (NPCI "upi://pay" linking spec) printed as the Scan to Pay QR
+
+// handle@psp: the handle allows letters, digits, dot, hyphen and underscore; the PSP part starts with a letter
+const UPI_ID_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,64}$/;
+
+const MAX_REFERENCE_LENGTH = 35; // tr
+const MAX_NOTE_LENGTH = 50; // tn; longer notes are cut off or rejected by some payer apps
+
+export const isValidUpiId = (upiId: string): boolean => UPI_ID_PATTERN.test(upiId.trim());
+
+// Why a UPI ID can't be used, for the settings screen; empty when it is fine
+export const getUpiIdError = (upiId: string): string => {
+  const value = upiId.trim();
+  if (!value) return '';
+  if (!value.includes('@')) return 'A UPI ID has the form name@bank, e.g. yourshop@okaxis.';
+  if (/\s/.test(value)) return 'A UPI ID cannot contain spaces.';
+  if (!isValidUpiId(value)) return 'Only letters, digits, dot, hyphen and underscore are allowed, with one @.';
+  return '';
+};
+
+// Percent-encodes everything outside RFC 3986 unreserved characters, so names like
+// "Shah & Sons" or "A+B Traders" can't break the query string
+const encodeUpiParam = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Bill number as a transaction reference: payer apps return tr with the payment,
+// which lets a receipt be matched back to the bill. Alphanumeric only.
+export const getUpiReference = (billNo: string): string =>
+  billNo.replace(/[^a-zA-Z0-9]/g, '').slice(0, MAX_REFERENCE_LENGTH);
+
+// upi://pay link for a bill, or null when no valid UPI ID is set.
+// The amount is left out when there is nothing to collect, so the payer can type one in.
+export const buildUpiUri = (settings: BusinessSettings, amount: number, billNo?: string): string | null => {
+  const upiId = (settings.upiId || '').trim();
+  if (!isValidUpiId(upiId)) return null;
+
+  const payeeName = settings.name.replace(/[\r\n\t]+/g, ' ').trim() || upiId;
+  const params: [string, string][] = [['pa', upiId], ['pn', payeeName]];
+  if (amount > 0) params.push(['am', amount.toFixed(2)]);
+  params.push(['cu', 'INR']);
+
+  const reference = billNo ? getUpiReference(billNo) : '';
+  if (reference) {
+    params.push(['tr', reference]);
+    params.push(['tn', `Bill ${billNo!.trim()}`.slice(0, MAX_NOTE_LENGTH)]);
+  }
+
+  // The UPI ID is already limited to characters that need no escaping
+  return `upi://pay?${params.map(([key, value]) => `${key}=${key === 'pa' ? value : encodeUpiParam(value)}`).join('&')}`;
+};